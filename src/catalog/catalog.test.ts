@@ -0,0 +1,106 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findColumn, findTable, loadCatalogFile, parseCatalog, qualifiedName } from './catalog';
+
+test('parseCatalog: schemas, schema-less tables and column shorthand', () => {
+  const { catalog, errors } = parseCatalog({
+    schemas: {
+      public: {
+        users: {
+          primaryKey: ['id'],
+          columns: { id: { type: 'integer', nullable: false }, email: 'varchar(255)', note: null },
+        },
+      },
+    },
+    tables: { audit_log: { columns: { id: 'integer' } } },
+  });
+  assert.deepEqual(errors, []);
+  assert.deepEqual(catalog.tables, [
+    {
+      schema: 'public',
+      name: 'users',
+      primaryKey: ['id'],
+      columns: [
+        { name: 'id', type: 'integer', nullable: false },
+        { name: 'email', type: 'varchar(255)' },
+        { name: 'note' },
+      ],
+    },
+    { name: 'audit_log', columns: [{ name: 'id', type: 'integer' }] },
+  ]);
+});
+
+test('parseCatalog: reports and drops invalid entries, keeps the rest', () => {
+  const { catalog, errors } = parseCatalog({
+    schemas: {
+      public: {
+        users: { columns: { id: 'integer', bad: 42 } },
+        orgs: { columns: ['id'] },
+      },
+    },
+  });
+  assert.deepEqual(catalog.tables.map(t => t.name), ['users']);
+  assert.deepEqual(catalog.tables[0].columns.map(c => c.name), ['id']);
+  assert.equal(errors.length, 2);
+  assert.match(errors[0], /schemas\.public\.users\.columns\.bad/);
+  assert.match(errors[1], /schemas\.public\.orgs must have a "columns" object/);
+  assert.equal(parseCatalog([]).errors.length, 1);
+});
+
+test('parseCatalog: foreign keys', () => {
+  const { catalog, errors } = parseCatalog({
+    tables: {
+      users: {
+        columns: { id: 'integer', org_id: 'integer' },
+        foreignKeys: [
+          { columns: ['org_id'], references: { schema: 'public', table: 'orgs', columns: ['id'] } },
+          { columns: ['org_id'], references: 'orgs' },
+        ],
+      },
+    },
+  });
+  assert.deepEqual(catalog.tables[0].foreignKeys, [
+    { columns: ['org_id'], references: { schema: 'public', table: 'orgs', columns: ['id'] } },
+  ]);
+  assert.deepEqual(errors, ['tables.users.foreignKeys[1] must be { columns, references: { table, columns } }.']);
+});
+
+test('parseCatalog: row count estimates', () => {
+  const { catalog, errors } = parseCatalog({
+    tables: { users: { rowCount: 1200, columns: {} }, orgs: { rowCount: -3, columns: {} } },
+  });
+  assert.deepEqual(catalog.tables.map(t => t.rowCount), [1200, undefined]);
+  assert.deepEqual(errors, ['tables.orgs.rowCount must be a non-negative integer.']);
+});
+
+test('findTable / findColumn: case-insensitive, schema-aware', () => {
+  const { catalog } = parseCatalog({
+    schemas: { public: { Users: { columns: { Email: 'text' } } } },
+    tables: { plain: { columns: { id: 'integer' } } },
+  });
+  const users = findTable(catalog, 'users');
+  assert.equal(users && qualifiedName(users), 'public.Users');
+  assert.ok(findTable(catalog, 'USERS', 'PUBLIC'));
+  assert.equal(findTable(catalog, 'users', 'other'), undefined);
+  assert.ok(findTable(catalog, 'plain', 'any_schema'), 'schema-less tables match any qualifier');
+  assert.equal(users && findColumn(users, 'email')?.name, 'Email');
+});
+
+test('loadCatalogFile: reads JSON and YAML; reports unreadable files', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baton-sql-catalog-'));
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    fs.writeFileSync(path.join(dir, 'db.json'), JSON.stringify({ tables: { t: { columns: { a: 'int' } } } }));
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    fs.writeFileSync(path.join(dir, 'db.yaml'), 'tables:\n  t:\n    columns:\n      a: int\n');
+    assert.deepEqual(loadCatalogFile(path.join(dir, 'db.json')), loadCatalogFile(path.join(dir, 'db.yaml')));
+    const missing = loadCatalogFile(path.join(dir, 'nope.json'));
+    assert.deepEqual(missing.catalog.tables, []);
+    assert.match(missing.errors[0], /Could not read catalog/);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import { parse as parseYaml } from 'yaml';
+
+/** A column as the database describes it. */
+export interface CatalogColumn {
+  name: string;
+  /** Declared type as written in the database, e.g. `varchar(255)`. Undefined when unknown. */
+  type?: string;
+  /** Undefined when the catalog doesn't say. */
+  nullable?: boolean;
+}
+
+/** `columns` reference `references.columns` of another table. */
+export interface CatalogForeignKey {
+  columns: string[];
+  references: {
+    schema?: string;
+    table: string;
+    /** Empty when the key references the other table's primary key implicitly. */
+    columns: string[];
+  };
+}
+
+export interface CatalogTable {
+  /** Undefined for databases without schemas (SQLite) or catalogs that don't use them. */
+  schema?: string;
+  name: string;
+  columns: CatalogColumn[];
+  primaryKey?: string[];
+  foreignKeys?: CatalogForeignKey[];
+  /** Approximate number of rows, from the database's statistics. A hint only. */
+  rowCount?: number;
+}
+
+/** Tables and columns known to exist in the target database. */
+export interface Catalog {
+  tables: CatalogTable[];
+}
+
+export interface ParsedCatalog {
+  catalog: Catalog;
+  /** Human-readable problems with the input. Invalid entries are dropped, valid ones kept. */
+  errors: string[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate an untrusted catalog object (parsed JSON or YAML):
+ *
+ * ```yaml
+ * schemas:
+ *   public:
+ *     users:
+ *       rowCount: 1200   # optional estimate, shown on hover
+ *       primaryKey: [id]
+ *       foreignKeys:
+ *         - { columns: [org_id], references: { table: orgs, columns: [id] } }
+ *       columns:
+ *         id: { type: integer, nullable: false }
+ *         email: varchar(255)
+ *         org_id: integer
+ * tables:            # tables outside any schema
+ *   audit_log:
+ *     columns: { id: integer }
+ * ```
+ *
+ * A column may be given as just its type. Bad entries are reported and
+ * skipped so one mistake doesn't discard the rest of the file.
+ */
+export function parseCatalog(raw: unknown): ParsedCatalog {
+  const errors: string[] = [];
+  const tables: CatalogTable[] = [];
+  if (!isObject(raw)) {
+    return { catalog: { tables }, errors: ['Catalog must be an object with "schemas" and/or "tables".'] };
+  }
+
+  const parseTables = (value: unknown, where: string, schema?: string) => {
+    if (!isObject(value)) {
+      errors.push(`${where} must be an object mapping table names to tables.`);
+      return;
+    }
+    for (const [name, def] of Object.entries(value)) {
+      const table = parseTable(def, `${where}.${name}`, errors);
+      if (table) tables.push(schema ? { schema, name, ...table } : { name, ...table });
+    }
+  };
+
+  if (raw.schemas !== undefined) {
+    if (!isObject(raw.schemas)) {
+      errors.push('"schemas" must be an object mapping schema names to their tables.');
+    } else {
+      for (const [schema, schemaTables] of Object.entries(raw.schemas)) {
+        parseTables(schemaTables, `schemas.${schema}`, schema);
+      }
+    }
+  }
+  if (raw.tables !== undefined) parseTables(raw.tables, 'tables');
+
+  return { catalog: { tables }, errors };
+}
+
+function parseTable(
+  def: unknown,
+  where: string,
+  errors: string[],
+): Omit<CatalogTable, 'name' | 'schema'> | undefined {
+  if (!isObject(def) || !isObject(def.columns)) {
+    errors.push(`${where} must have a "columns" object.`);
+    return undefined;
+  }
+  const columns: CatalogColumn[] = [];
+  for (const [name, col] of Object.entries(def.columns)) {
+    if (typeof col === 'string') {
+      columns.push({ name, type: col });
+    } else if (col === null) {
+      columns.push({ name });
+    } else if (isObject(col)
+      && (col.type === undefined || typeof col.type === 'string')
+      && (col.nullable === undefined || typeof col.nullable === 'boolean')) {
+      columns.push({ name, type: col.type as string | undefined, nullable: col.nullable as boolean | undefined });
+    } else {
+      errors.push(`${where}.columns.${name} must be a type string or { type, nullable }.`);
+    }
+  }
+
+  const table: Omit<CatalogTable, 'name' | 'schema'> = { columns };
+  if (def.primaryKey !== undefined) {
+    if (isNameList(def.primaryKey)) {
+      table.primaryKey = def.primaryKey;
+    } else {
+      errors.push(`${where}.primaryKey must be an array of column names.`);
+    }
+  }
+  if (def.foreignKeys !== undefined) {
+    if (Array.isArray(def.foreignKeys)) {
+      const foreignKeys = def.foreignKeys.filter((fk, i) => {
+        const ok = isForeignKey(fk);
+        if (!ok) errors.push(`${where}.foreignKeys[${i}] must be { columns, references: { table, columns } }.`);
+        return ok;
+      });
+      if (foreignKeys.length > 0) table.foreignKeys = foreignKeys;
+    } else {
+      errors.push(`${where}.foreignKeys must be an array.`);
+    }
+  }
+  if (def.rowCount !== undefined) {
+    if (typeof def.rowCount === 'number' && Number.isInteger(def.rowCount) && def.rowCount >= 0) {
+      table.rowCount = def.rowCount;
+    } else {
+      errors.push(`${where}.rowCount must be a non-negative integer.`);
+    }
+  }
+  return table;
+}
+
+function isNameList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(c => typeof c === 'string');
+}
+
+function isForeignKey(value: unknown): value is CatalogForeignKey {
+  return isObject(value) && isNameList(value.columns) && isObject(value.references)
+    && typeof value.references.table === 'string'
+    && (value.references.schema === undefined || typeof value.references.schema === 'string')
+    && isNameList(value.references.columns);
+}
+
+/**
+ * The catalog-file form of `catalog` (see `parseCatalog`), ready to write as
+ * YAML or JSON. Columns with nothing but a type use the shorthand.
+ */
+export function formatCatalog(catalog: Catalog): Record<string, unknown> {
+  const schemas: Record<string, Record<string, unknown>> = {};
+  const tables: Record<string, unknown> = {};
+  for (const table of catalog.tables) {
+    const columns: Record<string, unknown> = {};
+    for (const column of table.columns) {
+      columns[column.name] = column.nullable === undefined
+        ? column.type ?? null
+        : { type: column.type, nullable: column.nullable };
+    }
+    const def: Record<string, unknown> = {};
+    if (table.rowCount !== undefined) def.rowCount = table.rowCount;
+    if (table.primaryKey) def.primaryKey = table.primaryKey;
+    if (table.foreignKeys) def.foreignKeys = table.foreignKeys;
+    def.columns = columns;
+    if (table.schema) {
+      schemas[table.schema] = { ...schemas[table.schema], [table.name]: def };
+    } else {
+      tables[table.name] = def;
+    }
+  }
+  const out: Record<string, unknown> = {};
+  if (Object.keys(schemas).length > 0) out.schemas = schemas;
+  if (Object.keys(tables).length > 0) out.tables = tables;
+  return out;
+}
+
+/**
+ * Read a catalog file. YAML is a superset of JSON, so `.json`, `.yaml` and
+ * `.yml` all go through the YAML parser.
+ */
+export function loadCatalogFile(filePath: string): ParsedCatalog {
+  let raw: unknown;
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path from the validator configuration
+    raw = parseYaml(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return { catalog: { tables: [] }, errors: [`Could not read catalog: ${msg}`] };
+  }
+  return parseCatalog(raw);
+}
+
+/**
+ * Combine catalogs, highest precedence first: a table defined in an earlier
+ * catalog hides the same table in later ones.
+ */
+export function mergeCatalogs(...catalogs: Catalog[]): Catalog {
+  const tables: CatalogTable[] = [];
+  for (const catalog of catalogs) {
+    for (const table of catalog.tables) {
+      const taken = tables.some(t => t.name.toLowerCase() === table.name.toLowerCase()
+        && (t.schema ?? '').toLowerCase() === (table.schema ?? '').toLowerCase());
+      if (!taken) tables.push(table);
+    }
+  }
+  return { tables };
+}
+
+/**
+ * Look up a table the way an unquoted SQL identifier resolves: case-insensitive.
+ * An unqualified name matches in any schema; a qualified one must match the
+ * schema too, unless the catalog table has no schema.
+ */
+export function findTable(catalog: Catalog, name: string, schema?: string): CatalogTable | undefined {
+  const n = name.toLowerCase();
+  const s = schema?.toLowerCase();
+  return catalog.tables.find(t =>
+    t.name.toLowerCase() === n && (!s || t.schema === undefined || t.schema.toLowerCase() === s));
+}
+
+/** Case-insensitive column lookup. */
+export function findColumn(table: CatalogTable, name: string): CatalogColumn | undefined {
+  const n = name.toLowerCase();
+  return table.columns.find(c => c.name.toLowerCase() === n);
+}
+
+/** `schema.name`, or just `name` for tables without a schema. */
+export function qualifiedName(table: Pick<CatalogTable, 'schema' | 'name'>): string {
+  return table.schema ? `${table.schema}.${table.name}` : table.name;
+}
@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cursorContextAt, referenceAt } from './cursorContext';
+
+/** Reference at the `|` in `sql`, without its offsets. */
+const referenceOf = (sql: string, dialect?: string) => {
+  const ref = referenceAt(sql.replace('|', ''), sql.indexOf('|'), dialect);
+  if (!ref) return undefined;
+  const rest: Partial<typeof ref> = { ...ref };
+  delete rest.start;
+  delete rest.end;
+  return rest;
+};
+
+/** Context at the `|` in `sql`. */
+const contextAt = (sql: string, dialect?: string) =>
+  cursorContextAt(sql.replace('|', ''), sql.indexOf('|'), dialect);
+
+test('cursorContextAt: table names after FROM and JOIN', () => {
+  assert.deepEqual(contextAt('SELECT * FROM us|'), { kind: 'table', prefix: 'us' });
+  assert.deepEqual(contextAt('SELECT * FROM users u JOIN public.|'), { kind: 'table', schema: 'public', prefix: '' });
+  assert.equal(contextAt('SELECT na| FROM users'), undefined);
+});
+
+test('cursorContextAt: alias qualifiers resolve through the AST, innermost scope first', () => {
+  const sql = 'SELECT u.| FROM users u WHERE EXISTS (SELECT 1 FROM orgs u WHERE u.id = 1)';
+  assert.deepEqual(contextAt(sql, 'postgresql'), {
+    kind: 'column',
+    qualifier: 'u',
+    tables: [{ name: 'users', alias: 'u' }],
+    prefix: '',
+  });
+  assert.deepEqual(contextAt('SELECT o.na|me FROM users u JOIN app.orgs AS o ON o.id = u.org_id'), {
+    kind: 'column',
+    qualifier: 'o',
+    tables: [{ schema: 'app', name: 'orgs', alias: 'o' }],
+    prefix: 'na',
+  });
+});
+
+test('cursorContextAt: unfinished queries fall back to scanning FROM items', () => {
+  assert.deepEqual(contextAt('SELECT u.id FROM users u WHERE u.| AND'), {
+    kind: 'column',
+    qualifier: 'u',
+    tables: [{ name: 'users', alias: 'u' }],
+    prefix: '',
+  });
+  assert.deepEqual(contextAt('SELECT users.| FROM users WHERE'), {
+    kind: 'column',
+    qualifier: 'users',
+    tables: [{ name: 'users' }],
+    prefix: '',
+  });
+  assert.deepEqual(contextAt('SELECT x.| FROM users u WHERE'), { kind: 'column', qualifier: 'x', tables: [], prefix: '' });
+});
+
+test('referenceAt: tables, aliases and qualified columns', () => {
+  const sql = 'SELECT u.email FROM app.users u JOIN orgs o ON o.id = u.org_id';
+  assert.deepEqual(referenceOf(sql.replace('FROM app.users', 'FROM app.us|ers')), {
+    kind: 'table', table: { schema: 'app', name: 'users' },
+  });
+  assert.equal(referenceOf(sql.replace('app.', 'a|pp.')), undefined);
+  const users = { schema: 'app', name: 'users', alias: 'u' };
+  assert.deepEqual(referenceOf(sql.replace('u.email', '|u.email')), { kind: 'alias', alias: 'u', tables: [users] });
+  assert.deepEqual(referenceOf(sql.replace('users u', 'users |u')), { kind: 'alias', alias: 'u', tables: [users] });
+  assert.deepEqual(referenceOf(sql.replace('u.email', 'u.em|ail')), {
+    kind: 'column', column: 'email', qualifier: 'u', tables: [users], exhaustive: true,
+  });
+  const ref = referenceAt(sql, sql.indexOf('email') + 1);
+  assert.deepEqual([ref?.start, ref?.end], [sql.indexOf('email'), sql.indexOf('email') + 'email'.length]);
+});
+
+test('referenceAt: unqualified columns see every table in scope; keywords and literals are nothing', () => {
+  assert.deepEqual(referenceOf("SELECT na|me FROM users JOIN orgs ON orgs.id = users.org_id WHERE x = 'name'"), {
+    kind: 'column', column: 'name', tables: [{ name: 'users' }, { name: 'orgs' }], exhaustive: true,
+  });
+  assert.equal(referenceOf('SEL|ECT name FROM users'), undefined);
+  assert.equal(referenceOf("SELECT name FROM users WHERE x = 'na|me'"), undefined);
+  assert.equal(referenceOf('SELECT name FROM users u |WHERE id = 1'), undefined);
+});
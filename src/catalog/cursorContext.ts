@@ -0,0 +1,150 @@
+/**
+ * What the cursor sits on inside a SQL query: for completion, a table name
+ * after FROM / JOIN or a column after `alias.`; for hover, the table,
+ * alias or column under it. Aliases and columns are resolved through the
+ * query's AST (see `collectQueryReferences`) so scoping matches the
+ * catalog-reference rule.
+ */
+
+import { getParser, normalizeSQL } from '../utils/sqlUtils';
+import { collectQueryReferences, ColumnReference, TableReference } from './queryReferences';
+
+export type CursorContext =
+  /** A table name; `schema` when the cursor follows `schema.`. */
+  | { kind: 'table'; schema?: string; prefix: string }
+  /** A column after `qualifier.`; `tables` is what the qualifier names, empty when unknown. */
+  | { kind: 'column'; qualifier: string; tables: TableReference[]; prefix: string };
+
+/** An identifier in a query and what it refers to. `start`/`end` are offsets into the SQL. */
+export type SqlReference = { start: number; end: number } & (
+  /** A table name in FROM, JOIN, INTO or UPDATE. */
+  | { kind: 'table'; table: TableReference }
+  /** A table alias, where it is declared or used as a qualifier. Empty `tables` when unknown. */
+  | { kind: 'alias'; alias: string; tables: TableReference[] }
+  /** A column; `tables` and `exhaustive` as in `ColumnReference`. */
+  | { kind: 'column'; column: string; qualifier?: string; tables: TableReference[]; exhaustive: boolean }
+);
+
+/** Stands in for the word being typed so an unfinished query still parses. */
+const PLACEHOLDER = 'baton_sql_cursor';
+
+const WORD_BEFORE = /[\w$]*$/;
+const WORD_AFTER = /^[\w$]*/;
+const OPENING_QUOTE = /["`[]$/;
+// eslint-disable-next-line security/detect-unsafe-regex -- anchored at the end; the optional group starts with an identifier
+const TABLE_KEYWORD = /\b(?:from|join|into|update|table)\s+(?:["`[]?([\w$]+)["`\]]?\s*\.\s*)?$/i;
+const QUALIFIER = /(?<![\w$.])["`[]?([\w$]+)["`\]]?\s*\.\s*$/;
+const QUALIFIED_COLUMN = /^["`\]]?\s*\.\s*["`[]?([\w$]+)/;
+// eslint-disable-next-line security/detect-unsafe-regex -- anchored at the end; each optional group starts at a word or a literal `.`
+const ALIAS_DECLARATION = /\b(?:from|join|update|into)\s+(?:["`[]?([\w$]+)["`\]]?\s*\.\s*)?["`[]?([\w$]+)["`\]]?\s+(?:as\s+)?$/i;
+/** Words that can follow a table name but are not its alias. */
+const NOT_ALIAS = /^(?:on|using|where|join|left|right|inner|outer|cross|full|natural|group|order|limit|offset|having|union|set|values|returning|window)$/i;
+
+/**
+ * The completion context at `offset` in `sql` (raw query text, `?<param>`
+ * tokens intact), or undefined when the cursor is somewhere else. `dialect`
+ * is a node-sql-parser database name.
+ */
+export function cursorContextAt(sql: string, offset: number, dialect?: string): CursorContext | undefined {
+  const before = sql.slice(0, offset);
+  const prefix = WORD_BEFORE.exec(before)?.[0] ?? '';
+  const head = before.slice(0, before.length - prefix.length);
+
+  const table = TABLE_KEYWORD.exec(head);
+  if (table) return table[1] ? { kind: 'table', schema: table[1], prefix } : { kind: 'table', prefix };
+
+  const qualifier = QUALIFIER.exec(head)?.[1];
+  if (!qualifier) return undefined;
+  const end = offset + (WORD_AFTER.exec(sql.slice(offset))?.[0].length ?? 0);
+  return { kind: 'column', qualifier, tables: qualifierTables(sql, head.length, end, qualifier, dialect), prefix };
+}
+
+/**
+ * The table, alias or column at `offset` in `sql`, or undefined when the
+ * cursor is on anything else (a keyword, a literal, a CTE's columns).
+ */
+export function referenceAt(sql: string, offset: number, dialect?: string): SqlReference | undefined {
+  const start = offset - (WORD_BEFORE.exec(sql.slice(0, offset))?.[0].length ?? 0);
+  const end = offset + (WORD_AFTER.exec(sql.slice(offset))?.[0].length ?? 0);
+  const word = sql.slice(start, end);
+  if (!word || /^\d/.test(word)) return undefined;
+  const head = sql.slice(0, start).replace(OPENING_QUOTE, '');
+  const next = QUALIFIED_COLUMN.exec(sql.slice(end));
+
+  const table = TABLE_KEYWORD.exec(head);
+  if (table) {
+    // `schema` in `FROM schema.table` refers to nothing we describe.
+    if (next) return undefined;
+    const ref: TableReference = table[1] ? { schema: table[1], name: word } : { name: word };
+    return { kind: 'table', table: ref, start, end };
+  }
+
+  if (next) {
+    const columnEnd = end + next[0].length;
+    const columnStart = columnEnd - next[1].length;
+    return { kind: 'alias', alias: word, tables: qualifierTables(sql, columnStart, columnEnd, word, dialect), start, end };
+  }
+
+  const qualifier = QUALIFIER.exec(head)?.[1];
+  if (qualifier) {
+    const tables = qualifierTables(sql, start, end, qualifier, dialect);
+    return { kind: 'column', column: word, qualifier, tables, exhaustive: true, start, end };
+  }
+
+  const declaration = ALIAS_DECLARATION.exec(head);
+  if (declaration && !NOT_ALIAS.test(word) && !NOT_ALIAS.test(declaration[2])) {
+    const ref: TableReference = { name: declaration[2], alias: word };
+    if (declaration[1]) ref.schema = declaration[1];
+    return { kind: 'alias', alias: word, tables: [ref], start, end };
+  }
+
+  const column = placeholderReference(sql, start, end, dialect);
+  if (!column || column.qualifier) return undefined;
+  return { kind: 'column', column: word, tables: column.tables, exhaustive: column.exhaustive, start, end };
+}
+
+/**
+ * Tables `qualifier` names for the column at [start, end), from the AST;
+ * when the query doesn't parse yet, from a scan of its FROM / JOIN items.
+ */
+function qualifierTables(sql: string, start: number, end: number, qualifier: string, dialect?: string): TableReference[] {
+  const ref = placeholderReference(sql, start, end, dialect);
+  if (ref === null) return scanQualifier(sql, qualifier);
+  return ref?.tables ?? [];
+}
+
+/**
+ * Parse `sql` with [start, end) replaced by a placeholder column and return
+ * the reference the placeholder became: undefined when it isn't a column
+ * (inside a literal, say), null when the patched query doesn't parse.
+ */
+function placeholderReference(sql: string, start: number, end: number, dialect?: string): ColumnReference | undefined | null {
+  let ast: unknown;
+  try {
+    const patched = `${sql.slice(0, start)}${PLACEHOLDER}${sql.slice(end)}`;
+    ast = getParser().astify(normalizeSQL(patched), dialect ? { database: dialect } : undefined);
+  } catch {
+    return null;
+  }
+  return collectQueryReferences(ast).columns.find(c => c.column === PLACEHOLDER);
+}
+
+/**
+ * Fallback for queries that don't parse yet: the first `FROM` / `JOIN` item
+ * aliased (or named) `qualifier`, found textually.
+ */
+function scanQualifier(sql: string, qualifier: string): TableReference[] {
+  const q = qualifier.toLowerCase();
+  // eslint-disable-next-line security/detect-unsafe-regex -- each optional group starts at a word or a literal `.`
+  const item = /\b(?:from|join|update|into)\s+(?:["`[]?([\w$]+)["`\]]?\s*\.\s*)?["`[]?([\w$]+)["`\]]?(?:\s+(?:as\s+)?["`[]?([\w$]+))?/gi;
+  for (const match of sql.matchAll(item)) {
+    const [, schema, name, alias] = match;
+    const isAlias = alias !== undefined && !NOT_ALIAS.test(alias);
+    if ((isAlias ? alias : name).toLowerCase() !== q) continue;
+    const table: TableReference = { name };
+    if (schema) table.schema = schema;
+    if (isAlias) table.alias = alias;
+    return [table];
+  }
+  return [];
+}
@@ -0,0 +1,154 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { catalogFromDdl, loadDdlCatalog, splitStatements } from './ddl';
+import { findMatchingFiles } from '../validation/config';
+import { findTable, mergeCatalogs } from './catalog';
+
+test('splitStatements: ignores semicolons in strings, comments and dollar quotes', () => {
+  const sql = [
+    "-- setup; nothing here",
+    "CREATE TABLE a (note text DEFAULT 'x;y');",
+    "/* ; */ CREATE FUNCTION f() RETURNS int AS $body$ SELECT 1; $body$ LANGUAGE sql;",
+    "DROP TABLE a",
+  ].join('\n');
+  const statements = splitStatements(sql);
+  assert.deepEqual(statements.map(s => s.line), [1, 2, 3]);
+  assert.equal(statements[0].text, "CREATE TABLE a (note text DEFAULT 'x;y')");
+  assert.match(statements[1].text, /^CREATE FUNCTION/);
+});
+
+test('catalogFromDdl: columns, types, nullability and primary keys', () => {
+  const { catalog, errors } = catalogFromDdl([{
+    path: 'schema.sql',
+    content: `
+      CREATE TABLE public.users (
+        id serial PRIMARY KEY,
+        email varchar(255) NOT NULL,
+        balance numeric(10,2),
+        created_at timestamp with time zone
+      );
+      CREATE TABLE memberships (user_id int, group_id int, CONSTRAINT pk PRIMARY KEY (user_id, group_id));
+      CREATE INDEX users_email ON users (email);
+      INSERT INTO users (email) VALUES ('a@b.c');
+    `,
+  }], 'postgresql');
+  assert.deepEqual(errors, []);
+  assert.deepEqual(catalog.tables, [
+    {
+      schema: 'public',
+      name: 'users',
+      primaryKey: ['id'],
+      columns: [
+        { name: 'id', type: 'serial', nullable: false },
+        { name: 'email', type: 'varchar(255)', nullable: false },
+        { name: 'balance', type: 'numeric(10,2)', nullable: true },
+        { name: 'created_at', type: 'timestamp with time zone', nullable: true },
+      ],
+    },
+    {
+      name: 'memberships',
+      primaryKey: ['user_id', 'group_id'],
+      columns: [
+        { name: 'user_id', type: 'int', nullable: false },
+        { name: 'group_id', type: 'int', nullable: false },
+      ],
+    },
+  ]);
+});
+
+test('catalogFromDdl: migrations apply in order', () => {
+  const { catalog, errors } = catalogFromDdl([
+    { path: '001.sql', content: 'CREATE TABLE users (id int, name text, legacy text); CREATE TABLE tmp (x int);' },
+    {
+      path: '002.sql',
+      content: [
+        'ALTER TABLE users ADD COLUMN email text;',
+        'ALTER TABLE users DROP COLUMN legacy;',
+        'ALTER TABLE users ALTER COLUMN id TYPE bigint;',
+        'ALTER TABLE users ALTER COLUMN email SET NOT NULL;',
+        'ALTER TABLE users RENAME TO people;',
+        'DROP TABLE IF EXISTS tmp;',
+      ].join('\n'),
+    },
+  ], 'postgresql');
+  assert.deepEqual(errors, []);
+  assert.deepEqual(catalog.tables, [{
+    name: 'people',
+    columns: [
+      { name: 'id', type: 'bigint', nullable: true },
+      { name: 'name', type: 'text', nullable: true },
+      { name: 'email', type: 'text', nullable: false },
+    ],
+  }]);
+});
+
+test('catalogFromDdl: foreign keys follow renamed and dropped columns', () => {
+  const { catalog } = catalogFromDdl([{
+    path: 'schema.sql',
+    content: [
+      'CREATE TABLE orgs (id int PRIMARY KEY);',
+      'CREATE TABLE users (id int, org int REFERENCES orgs (id), team int,',
+      '  CONSTRAINT team_fk FOREIGN KEY (team) REFERENCES public.teams (id));',
+      'ALTER TABLE users RENAME COLUMN org TO org_id;',
+      'ALTER TABLE users DROP COLUMN team;',
+    ].join('\n'),
+  }], 'mysql');
+  assert.deepEqual(findTable(catalog, 'users')?.foreignKeys, [
+    { columns: ['org_id'], references: { table: 'orgs', columns: ['id'] } },
+  ]);
+});
+
+test('catalogFromDdl: falls back to other dialects; reports what it skipped', () => {
+  const { catalog, errors } = catalogFromDdl([{
+    path: 'db/schema.sql',
+    content: [
+      'CREATE TABLE `accounts` (`id` int(11) NOT NULL, `label` varchar(10) DEFAULT NULL) ENGINE=InnoDB;',
+      'ALTER TABLE accounts CHANGE COLUMN label title varchar(20);',
+      'ALTER TABLE ghosts ADD COLUMN x int;',
+      'CREATE TABLE broken (id int,,);',
+    ].join('\n'),
+  }], 'postgresql');
+  const accounts = findTable(catalog, 'accounts');
+  assert.deepEqual(accounts?.columns.map(c => `${c.name}:${c.type}`), ['id:int(11)', 'title:varchar(20)']);
+  assert.deepEqual(errors, [
+    "db/schema.sql:3: ALTER TABLE of unknown table 'ghosts'; skipped.",
+    "db/schema.sql:4: could not parse 'CREATE TABLE broken ...'.",
+  ]);
+});
+
+test('loadDdlCatalog: reads matching files in path order, skipping node_modules', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'baton-sql-ddl-'));
+  try {
+    const write = (rel: string, content: string) => {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+      fs.mkdirSync(path.dirname(path.join(root, rel)), { recursive: true });
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+      fs.writeFileSync(path.join(root, rel), content);
+    };
+    write('migrations/002_add_email.sql', 'ALTER TABLE users ADD COLUMN email text;');
+    write('migrations/001_users.sql', 'CREATE TABLE users (id int);');
+    write('node_modules/pkg/schema.sql', 'CREATE TABLE vendored (id int);');
+    const glob = `${root.split(path.sep).join('/')}/**/*.sql`;
+
+    assert.deepEqual(findMatchingFiles([glob]).map(f => path.relative(root, f)), [
+      path.join('migrations', '001_users.sql'),
+      path.join('migrations', '002_add_email.sql'),
+    ]);
+    const { catalog, errors } = loadDdlCatalog([glob]);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(catalog.tables.map(t => `${t.name}(${t.columns.map(c => c.name).join(',')})`), ['users(id,email)']);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('mergeCatalogs: earlier catalogs win per table', () => {
+  const merged = mergeCatalogs(
+    { tables: [{ name: 'users', columns: [{ name: 'email' }] }] },
+    { tables: [{ name: 'USERS', columns: [{ name: 'id' }] }, { name: 'groups', columns: [] }] },
+  );
+  assert.deepEqual(merged.tables.map(t => `${t.name}:${t.columns.length}`), ['users:1', 'groups:0']);
+});
@@ -0,0 +1,372 @@
+/**
+ * Build a catalog from schema and migration `.sql` files: the tables that
+ * their CREATE TABLE, ALTER TABLE and DROP TABLE statements leave behind.
+ * Other statements (inserts, indexes, functions) are ignored.
+ */
+
+import * as fs from 'fs';
+import { asArray, getParser } from '../utils/sqlUtils';
+import { findMatchingFiles } from '../validation/config';
+import { Catalog, CatalogColumn, CatalogForeignKey, CatalogTable, findColumn, findTable, qualifiedName } from './catalog';
+import { identifierName } from './queryReferences';
+
+/** One statement of a `.sql` file, with the 0-based line it starts on. */
+export interface SqlStatement {
+  text: string;
+  line: number;
+}
+
+export interface DdlCatalog {
+  catalog: Catalog;
+  /** DDL statements that couldn't be applied, as `file:line: message`. */
+  errors: string[];
+}
+
+/** Dialects tried, after the preferred one, for statements it can't parse. */
+const FALLBACK_DIALECTS = ['postgresql', 'mysql', 'transactsql', 'sqlite'];
+
+// eslint-disable-next-line security/detect-unsafe-regex -- anchored; the optional words are literal, so nothing backtracks
+const TABLE_DDL = /^(?:create\s+(?:(?:global|local)\s+)?(?:temp(?:orary)?\s+)?(?:unlogged\s+)?table|alter\s+table|drop\s+table)\b/i;
+
+// eslint-disable-next-line security/detect-unsafe-regex -- anchored and can't fail, so it never backtracks
+const LEADING_TRIVIA = /^(?:\s|--[^\n]*|\/\*[\s\S]*?\*\/)*/;
+
+/**
+ * Split a script into statements on `;`, ignoring semicolons inside
+ * quotes, comments and Postgres dollar-quoted bodies.
+ */
+export function splitStatements(sql: string): SqlStatement[] {
+  const statements: SqlStatement[] = [];
+  let start = 0;
+  let i = 0;
+  const push = (end: number) => {
+    const raw = sql.slice(start, end);
+    const lead = LEADING_TRIVIA.exec(raw)?.[0].length ?? 0;
+    const text = raw.slice(lead).trim();
+    if (text) statements.push({ text, line: lineAt(sql, start + lead) });
+  };
+
+  while (i < sql.length) {
+    // eslint-disable-next-line security/detect-object-injection -- index from loop counter
+    const c = sql[i];
+    if (c === '-' && sql[i + 1] === '-') {
+      const nl = sql.indexOf('\n', i);
+      i = nl === -1 ? sql.length : nl + 1;
+    } else if (c === '/' && sql[i + 1] === '*') {
+      const close = sql.indexOf('*/', i + 2);
+      i = close === -1 ? sql.length : close + 2;
+    } else if (c === "'" || c === '"' || c === '`') {
+      i = closingQuote(sql, i, c);
+    } else if (c === '[') {
+      const close = sql.indexOf(']', i + 1);
+      i = close === -1 ? sql.length : close + 1;
+    } else if (c === '$') {
+      const tag = /^\$[A-Za-z_]*\$/.exec(sql.slice(i, i + 64))?.[0];
+      if (tag) {
+        const close = sql.indexOf(tag, i + tag.length);
+        i = close === -1 ? sql.length : close + tag.length;
+      } else {
+        i++;
+      }
+    } else if (c === ';') {
+      push(i);
+      start = ++i;
+    } else {
+      i++;
+    }
+  }
+  push(sql.length);
+  return statements;
+}
+
+/** Index just past the quote closing the one at `open`; doubled quotes are escapes. */
+function closingQuote(sql: string, open: number, quote: string): number {
+  let i = open + 1;
+  while (i < sql.length) {
+    // eslint-disable-next-line security/detect-object-injection -- index from loop counter
+    const c = sql[i];
+    if (c === '\\' && quote === "'") {
+      i += 2;
+    } else if (c === quote) {
+      if (sql[i + 1] !== quote) return i + 1;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return sql.length;
+}
+
+function lineAt(text: string, offset: number): number {
+  let line = 0;
+  for (let i = 0; i < offset; i++) {
+    // eslint-disable-next-line security/detect-object-injection -- index from loop counter
+    if (text[i] === '\n') line++;
+  }
+  return line;
+}
+
+/**
+ * Apply the table DDL in `files` (in order) to a fresh catalog. Each
+ * statement is parsed with `dialect` first (a node-sql-parser database name,
+ * see `schemeToDialect`), then with the other common dialects.
+ */
+export function catalogFromDdl(files: { path: string; content: string }[], dialect?: string): DdlCatalog {
+  const tables: CatalogTable[] = [];
+  const errors: string[] = [];
+  for (const file of files) {
+    for (const stmt of splitStatements(file.content)) {
+      const problem = applyDdl(tables, stmt.text, dialect);
+      if (problem) errors.push(`${file.path}:${stmt.line + 1}: ${problem}`);
+    }
+  }
+  return { catalog: { tables }, errors };
+}
+
+/**
+ * Apply one SQL statement to `tables` if it is table DDL. Returns why it
+ * couldn't be applied, if it couldn't.
+ */
+export function applyDdl(tables: CatalogTable[], sql: string, dialect?: string): string | undefined {
+  if (!TABLE_DDL.test(sql)) return undefined;
+  const dialects = dialect ? [dialect, ...FALLBACK_DIALECTS.filter(d => d !== dialect)] : FALLBACK_DIALECTS;
+  const ast = parseDdl(sql, dialects);
+  if (!ast) return `could not parse '${firstWords(sql)}'.`;
+  return applyStatement(tables, ast);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- node-sql-parser AST; its shapes vary by dialect
+function parseDdl(sql: string, dialects: string[]): any {
+  for (const database of dialects) {
+    try {
+      const ast = getParser().astify(sql, { database });
+      return Array.isArray(ast) ? ast[0] : ast;
+    } catch {
+      // Try the next dialect.
+    }
+  }
+  return undefined;
+}
+
+function firstWords(sql: string): string {
+  const words = sql.split(/\s+/).slice(0, 3).join(' ');
+  return words.length < sql.length ? `${words} ...` : words;
+}
+
+/** Apply one parsed statement; returns why it was skipped, if it was. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- node-sql-parser AST; its shapes vary by dialect
+function applyStatement(tables: CatalogTable[], ast: any): string | undefined {
+  switch (ast?.type) {
+    case 'create':
+      return createTable(tables, ast);
+    case 'alter':
+      return alterTable(tables, ast);
+    case 'drop':
+      for (const ref of asArray(ast.name)) removeTable(tables, ref);
+      return undefined;
+    default:
+      return undefined;
+  }
+}
+
+function tableRef(ref: unknown): { schema?: string; name: string } | undefined {
+  if (!ref || typeof ref !== 'object') return undefined;
+  const { table, db, schema: schemaNode } = ref as { table?: unknown; db?: unknown; schema?: unknown };
+  const name = identifierName(table);
+  if (!name) return undefined;
+  const schema = identifierName(db) ?? identifierName(schemaNode);
+  return schema ? { schema, name } : { name };
+}
+
+function lookup(tables: CatalogTable[], ref: unknown): CatalogTable | undefined {
+  const t = tableRef(ref);
+  return t ? findTable({ tables }, t.name, t.schema) : undefined;
+}
+
+function removeTable(tables: CatalogTable[], ref: unknown): void {
+  const existing = lookup(tables, ref);
+  if (existing) tables.splice(tables.indexOf(existing), 1);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- node-sql-parser AST; its shapes vary by dialect
+function createTable(tables: CatalogTable[], ast: any): string | undefined {
+  const ref = tableRef(asArray(ast.table)[0]);
+  if (!ref) return undefined;
+  if (!Array.isArray(ast.create_definitions)) {
+    return `columns of '${qualifiedName(ref)}' are not declared (CREATE TABLE ... AS or LIKE); table skipped.`;
+  }
+  if (findTable({ tables }, ref.name, ref.schema)) {
+    if (ast.if_not_exists) return undefined;
+    removeTable(tables, asArray(ast.table)[0]);
+  }
+
+  const table: CatalogTable = { ...ref, columns: [] };
+  for (const def of ast.create_definitions) {
+    if (def?.resource === 'column') {
+      addColumn(table, def);
+    } else if (def?.resource === 'constraint') {
+      addConstraint(table, def);
+    }
+  }
+  tables.push(table);
+  return undefined;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- node-sql-parser AST; its shapes vary by dialect
+function alterTable(tables: CatalogTable[], ast: any): string | undefined {
+  const target = asArray(ast.table)[0];
+  const table = lookup(tables, target);
+  if (!table) {
+    const ref = tableRef(target);
+    return ref ? `ALTER TABLE of unknown table '${qualifiedName(ref)}'; skipped.` : undefined;
+  }
+
+  for (const expr of asArray(ast.expr)) {
+    if (expr?.resource === 'constraint' || (expr?.action === 'add' && expr?.create_definitions)) {
+      addConstraint(table, expr.create_definitions);
+      continue;
+    }
+    if (expr?.resource === 'table') {
+      if (expr.action === 'rename' && identifierName(expr.table)) table.name = identifierName(expr.table) as string;
+      continue;
+    }
+    if (expr?.resource !== 'column') continue;
+
+    const name = identifierName(expr.column?.column);
+    if (!name) continue;
+    switch (expr.action) {
+      case 'add':
+        if (!(expr.if_not_exists && findColumn(table, name))) addColumn(table, expr);
+        break;
+      case 'drop': {
+        const dropped = (c: string) => c.toLowerCase() === name.toLowerCase();
+        table.columns = table.columns.filter(c => !dropped(c.name));
+        if (table.primaryKey) table.primaryKey = table.primaryKey.filter(c => !dropped(c));
+        if (table.foreignKeys) table.foreignKeys = table.foreignKeys.filter(fk => !fk.columns.some(dropped));
+        break;
+      }
+      case 'modify':
+        addColumn(table, expr);
+        break;
+      case 'change':
+      case 'rename': {
+        const old = findColumn(table, identifierName(expr.old_column?.column) ?? '');
+        if (!old) break;
+        const renamed = (c: string) => (c.toLowerCase() === old.name.toLowerCase() ? name : c);
+        if (table.primaryKey) table.primaryKey = table.primaryKey.map(renamed);
+        for (const fk of table.foreignKeys ?? []) fk.columns = fk.columns.map(renamed);
+        old.name = name;
+        if (expr.action === 'change') addColumn(table, expr);
+        break;
+      }
+      case 'alter': {
+        const column = findColumn(table, name);
+        if (!column) break;
+        if (expr.definition) column.type = formatType(expr.definition);
+        if (expr.nullable) column.nullable = expr.nullable.action === 'drop' || expr.nullable.type !== 'not null';
+        break;
+      }
+      default:
+        break;
+    }
+  }
+  return undefined;
+}
+
+/** Add (or replace) a column from a column definition node. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- node-sql-parser AST; its shapes vary by dialect
+function addColumn(table: CatalogTable, def: any): void {
+  const name = identifierName(def.column?.column);
+  if (!name) return;
+  const primary = Boolean(def.primary_key);
+  // Columns are nullable unless declared otherwise.
+  const column: CatalogColumn = {
+    name,
+    type: def.definition ? formatType(def.definition) : undefined,
+    nullable: !primary && def.nullable?.type !== 'not null',
+  };
+  const existing = findColumn(table, name);
+  if (existing) {
+    table.columns[table.columns.indexOf(existing)] = column;
+  } else {
+    table.columns.push(column);
+  }
+  if (primary) table.primaryKey = [name];
+  if (def.reference_definition) addForeignKey(table, [name], def.reference_definition);
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- node-sql-parser AST; its shapes vary by dialect
+function addConstraint(table: CatalogTable, def: any): void {
+  const type = typeof def?.constraint_type === 'string' ? def.constraint_type.toLowerCase() : '';
+  const columns = columnNames(def?.definition);
+  if (columns.length === 0) return;
+  if (type === 'foreign key') {
+    addForeignKey(table, columns, def.reference_definition);
+    return;
+  }
+  if (type !== 'primary key') return;
+  table.primaryKey = columns;
+  for (const name of columns) {
+    const column = findColumn(table, name);
+    if (column) column.nullable = false;
+  }
+}
+
+function columnNames(nodes: unknown): string[] {
+  return asArray(nodes)
+    .map(c => identifierName(c && typeof c === 'object' && 'column' in c ? c.column : undefined) ?? identifierName(c))
+    .filter((c): c is string => c !== undefined);
+}
+
+/** Record `columns REFERENCES table (columns)` from a reference_definition node. */
+function addForeignKey(table: CatalogTable, columns: string[], reference: unknown): void {
+  if (!reference || typeof reference !== 'object') return;
+  const { table: targetTable, definition } = reference as { table?: unknown; definition?: unknown };
+  const target = tableRef(asArray(targetTable)[0]);
+  if (!target) return;
+  const fk: CatalogForeignKey = {
+    columns,
+    // `REFERENCES t` without columns means t's primary key; leave it empty.
+    references: target.schema
+      ? { schema: target.schema, table: target.name, columns: columnNames(definition) }
+      : { table: target.name, columns: columnNames(definition) },
+  };
+  table.foreignKeys = [...(table.foreignKeys ?? []), fk];
+}
+
+/** `varchar(255)`, `numeric(10,2)`, `timestamp with time zone`. */
+function formatType(definition: unknown): string | undefined {
+  if (!definition || typeof definition !== 'object') return undefined;
+  const { dataType, length, scale, suffix } = definition as {
+    dataType?: unknown;
+    length?: unknown;
+    scale?: unknown;
+    suffix?: unknown;
+  };
+  if (typeof dataType !== 'string') return undefined;
+  let type = dataType.toLowerCase();
+  if (typeof length === 'number') {
+    type += typeof scale === 'number' ? `(${length},${scale})` : `(${length})`;
+  }
+  if (Array.isArray(suffix)) {
+    const words = suffix.filter((w: unknown): w is string => typeof w === 'string');
+    if (words.length > 0) type += ` ${words.join(' ').toLowerCase()}`;
+  }
+  return type;
+}
+
+/** Read the files matching `globs` and build their catalog. Unreadable files are reported. */
+export function loadDdlCatalog(globs: string[], dialect?: string): DdlCatalog {
+  const files: { path: string; content: string }[] = [];
+  const readErrors: string[] = [];
+  for (const filePath of findMatchingFiles(globs)) {
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- file found by findMatchingFiles
+      files.push({ path: filePath, content: fs.readFileSync(filePath, 'utf8') });
+    } catch (error) {
+      readErrors.push(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  const { catalog, errors } = catalogFromDdl(files, dialect);
+  return { catalog, errors: [...readErrors, ...errors] };
+}
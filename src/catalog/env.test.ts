@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { expandEnv, loadEnvironment, parseDotEnv } from './env';
+
+test('parseDotEnv: quoting, export and comments', () => {
+  assert.deepEqual(parseDotEnv([
+    '# comment',
+    'DB_HOST=localhost # dev box',
+    'export DB_USER=app',
+    "DB_PASSWORD='p#ss $word'",
+    'GREETING="a\\nb"',
+    'not a line',
+  ].join('\n')), {
+    DB_HOST: 'localhost',
+    DB_USER: 'app',
+    DB_PASSWORD: 'p#ss $word',
+    GREETING: 'a\nb',
+  });
+});
+
+test('loadEnvironment: nearest .env up to the stop directory; the environment wins', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'baton-sql-env-'));
+  try {
+    const nested = path.join(root, 'conn');
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    fs.mkdirSync(nested);
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    fs.writeFileSync(path.join(root, '.env'), 'DB_HOST=db\nDB_USER=app\n');
+    const { env, dotEnvPath } = loadEnvironment(nested, root, { DB_USER: 'override' });
+    assert.equal(dotEnvPath, path.join(root, '.env'));
+    assert.equal(env.DB_HOST, 'db');
+    assert.equal(env.DB_USER, 'override');
+    assert.equal(loadEnvironment(nested, nested, {}).dotEnvPath, undefined);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('expandEnv: ${VAR} only; unset names are collected', () => {
+  const missing = new Set<string>();
+  assert.equal(expandEnv('${A}:$B:${C}', { A: 'x' }, missing), 'x:$B:');
+  assert.deepEqual([...missing], ['C']);
+});
@@ -0,0 +1,80 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Name of the dotenv file read for `${VAR}` expansion. */
+export const DOTENV_FILE_NAME = '.env';
+
+/**
+ * Parse dotenv text: `KEY=value` lines, optionally prefixed with `export`.
+ * Values may be single-quoted (taken literally), double-quoted (`\n` and
+ * friends are unescaped) or bare (a trailing ` # comment` is dropped).
+ */
+export function parseDotEnv(text: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    // eslint-disable-next-line security/detect-unsafe-regex -- one line at a time; the optional prefix is a literal word
+    const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*?)\s*$/.exec(line);
+    if (!match) continue;
+    const [, key, raw] = match;
+    let value = raw;
+    if (raw.length >= 2 && raw.startsWith("'") && raw.endsWith("'")) {
+      value = raw.slice(1, -1);
+    } else if (raw.length >= 2 && raw.startsWith('"') && raw.endsWith('"')) {
+      value = raw.slice(1, -1).replace(/\\([nrt"\\])/g, (_, c: string) =>
+        (c === 'n' ? '\n' : c === 'r' ? '\r' : c === 't' ? '\t' : c));
+    } else {
+      value = raw.replace(/\s+#.*$/, '');
+    }
+    // eslint-disable-next-line security/detect-object-injection -- key from a dotenv line; a string value can't replace the prototype
+    env[key] = value;
+  }
+  return env;
+}
+
+/**
+ * The environment connect values expand against: `base` (normally
+ * `process.env`), with gaps filled from the nearest `.env` found walking up
+ * from `startDir` to `stopDir` (inclusive). Like dotenv, variables already
+ * set in `base` win.
+ */
+export function loadEnvironment(
+  startDir: string,
+  stopDir?: string,
+  base: NodeJS.ProcessEnv = process.env,
+): { env: Record<string, string>; dotEnvPath?: string } {
+  const env: Record<string, string> = {};
+  let dotEnvPath: string | undefined;
+  let dir = path.resolve(startDir);
+  const stop = stopDir ? path.resolve(stopDir) : undefined;
+  for (;;) {
+    const candidate = path.join(dir, DOTENV_FILE_NAME);
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- fixed file name under a directory we walk up from
+    if (fs.existsSync(candidate)) {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- fixed file name under a directory we walk up from
+      Object.assign(env, parseDotEnv(fs.readFileSync(candidate, 'utf8')));
+      dotEnvPath = candidate;
+      break;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir || dir === stop) break;
+    dir = parent;
+  }
+  for (const [key, value] of Object.entries(base)) {
+    // eslint-disable-next-line security/detect-object-injection -- key from Object.entries
+    if (value !== undefined) env[key] = value;
+  }
+  return dotEnvPath ? { env, dotEnvPath } : { env };
+}
+
+/**
+ * Expand `${VAR}` references the way the connector does. Unset variables
+ * are collected in `missing` and expand to the empty string.
+ */
+export function expandEnv(value: string, env: Record<string, string>, missing?: Set<string>): string {
+  return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name: string) => {
+    // eslint-disable-next-line security/detect-object-injection -- own property, checked on the same line
+    if (Object.prototype.hasOwnProperty.call(env, name)) return env[name];
+    missing?.add(name);
+    return '';
+  });
+}
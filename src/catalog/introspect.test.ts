@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { catalogFromInformationSchema, ColumnRow, KeyRow, RowCountRow, writeCatalogSnapshot } from './introspect';
+import { loadCatalogFile } from './catalog';
+
+const COLUMNS: ColumnRow[] = [
+  { table_schema: 'public', table_name: 'orgs', column_name: 'id', column_type: 'integer', is_nullable: 'NO' },
+  { table_schema: 'public', table_name: 'users', column_name: 'id', column_type: 'integer', is_nullable: 'NO' },
+  { table_schema: 'public', table_name: 'users', column_name: 'email', column_type: 'character varying(255)', is_nullable: 'YES' },
+  { table_schema: 'public', table_name: 'users', column_name: 'org_id', column_type: 'integer', is_nullable: 'YES' },
+];
+
+const KEYS: KeyRow[] = [
+  { table_schema: 'public', table_name: 'orgs', constraint_name: 'orgs_pkey', constraint_type: 'PRIMARY KEY', column_name: 'id', ref_schema: null, ref_table: null, ref_column: null },
+  { table_schema: 'public', table_name: 'users', constraint_name: 'users_org_fk', constraint_type: 'FOREIGN KEY', column_name: 'org_id', ref_schema: 'public', ref_table: 'orgs', ref_column: 'id' },
+  { table_schema: 'public', table_name: 'users', constraint_name: 'users_pkey', constraint_type: 'PRIMARY KEY', column_name: 'id', ref_schema: null, ref_table: null, ref_column: null },
+];
+
+const ROW_COUNTS: RowCountRow[] = [
+  { table_schema: 'public', table_name: 'orgs', row_count: -1 },
+  { table_schema: 'public', table_name: 'users', row_count: '1234.4' },
+];
+
+test('catalogFromInformationSchema: tables, nullability, keys and row estimates', () => {
+  const { tables } = catalogFromInformationSchema(COLUMNS, KEYS, ROW_COUNTS);
+  assert.deepEqual(tables[1], {
+    schema: 'public',
+    name: 'users',
+    columns: [
+      { name: 'id', type: 'integer', nullable: false },
+      { name: 'email', type: 'character varying(255)', nullable: true },
+      { name: 'org_id', type: 'integer', nullable: true },
+    ],
+    foreignKeys: [{ columns: ['org_id'], references: { schema: 'public', table: 'orgs', columns: ['id'] } }],
+    primaryKey: ['id'],
+    rowCount: 1234,
+  });
+  assert.deepEqual(tables[0].primaryKey, ['id']);
+  assert.equal(tables[0].rowCount, undefined);
+});
+
+test('writeCatalogSnapshot: round-trips through the catalog format; never clobbers other files', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baton-sql-snapshot-'));
+  try {
+    const file = path.join(dir, '.baton-sql-catalog.yaml');
+    const catalog = catalogFromInformationSchema(COLUMNS, KEYS, ROW_COUNTS);
+    writeCatalogSnapshot(file, catalog, 'postgres://localhost:5432/crm', new Date('2026-01-02T03:04:05Z'));
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    assert.match(fs.readFileSync(file, 'utf8'), /^# Generated by Baton SQL: Introspect database\.\n# Source: postgres:\/\/localhost:5432\/crm, 2026-01-02T03:04:05\.000Z\./);
+    const loaded = loadCatalogFile(file);
+    assert.deepEqual(loaded.errors, []);
+    assert.deepEqual(loaded.catalog, catalog);
+
+    // A second run replaces its own snapshot.
+    writeCatalogSnapshot(file, { tables: [] }, 'postgres://localhost:5432/crm');
+
+    const handWritten = path.join(dir, 'catalog.yaml');
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    fs.writeFileSync(handWritten, 'tables: {}\n');
+    assert.throws(() => writeCatalogSnapshot(handWritten, catalog, 'x'), /not overwriting it/);
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    assert.equal(fs.readFileSync(handWritten, 'utf8'), 'tables: {}\n');
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,261 @@
+/**
+ * Live introspection: read tables, columns and keys from a running Postgres
+ * or MySQL database's `information_schema` and save them as a catalog file,
+ * so validation can run offline against the snapshot.
+ */
+
+import * as fs from 'fs';
+import { Client } from 'pg';
+import { createConnection } from 'mysql2/promise';
+import { stringify as stringifyYaml } from 'yaml';
+import { Catalog, CatalogTable, findColumn, formatCatalog } from './catalog';
+import { ConnectionSettings } from './connection';
+
+/** First line of every snapshot; files without it are never overwritten. */
+const SNAPSHOT_MARKER = '# Generated by Baton SQL: Introspect database.';
+
+const CONNECT_TIMEOUT_MS = 10_000;
+const QUERY_TIMEOUT_MS = 30_000;
+
+/** One `information_schema.columns` row, with the type already spelled out. */
+export interface ColumnRow {
+  table_schema: string;
+  table_name: string;
+  column_name: string;
+  column_type: string;
+  is_nullable: string;
+}
+
+/** One column of a primary or foreign key constraint. */
+export interface KeyRow {
+  table_schema: string;
+  table_name: string;
+  constraint_name: string;
+  constraint_type: string;
+  column_name: string;
+  ref_schema: string | null;
+  ref_table: string | null;
+  ref_column: string | null;
+}
+
+/** A table's estimated row count; null or negative when the database has no estimate. */
+export interface RowCountRow {
+  table_schema: string;
+  table_name: string;
+  row_count: number | string | null;
+}
+
+const POSTGRES_COLUMNS = `
+SELECT table_schema, table_name, column_name, data_type, udt_name,
+       character_maximum_length, numeric_precision, numeric_scale, is_nullable
+FROM information_schema.columns
+WHERE table_schema NOT IN ('pg_catalog', 'information_schema') AND table_schema NOT LIKE 'pg\\_%'
+ORDER BY table_schema, table_name, ordinal_position`;
+
+const POSTGRES_KEYS = `
+SELECT kcu.table_schema, kcu.table_name, kcu.constraint_name, tc.constraint_type, kcu.column_name,
+       ref.table_schema AS ref_schema, ref.table_name AS ref_table, ref.column_name AS ref_column
+FROM information_schema.table_constraints tc
+JOIN information_schema.key_column_usage kcu
+  ON kcu.constraint_schema = tc.constraint_schema AND kcu.constraint_name = tc.constraint_name
+ AND kcu.table_name = tc.table_name
+LEFT JOIN information_schema.referential_constraints rc
+  ON rc.constraint_schema = tc.constraint_schema AND rc.constraint_name = tc.constraint_name
+LEFT JOIN information_schema.key_column_usage ref
+  ON ref.constraint_schema = rc.unique_constraint_schema AND ref.constraint_name = rc.unique_constraint_name
+ AND ref.ordinal_position = kcu.position_in_unique_constraint
+WHERE tc.constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY')
+  AND tc.table_schema NOT IN ('pg_catalog', 'information_schema')
+ORDER BY kcu.table_schema, kcu.table_name, kcu.constraint_name, kcu.ordinal_position`;
+
+// reltuples is -1 for tables never vacuumed or analyzed.
+const POSTGRES_ROW_COUNTS = `
+SELECT n.nspname AS table_schema, c.relname AS table_name, c.reltuples AS row_count
+FROM pg_catalog.pg_class c
+JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+WHERE c.relkind IN ('r', 'p') AND n.nspname NOT IN ('pg_catalog', 'information_schema')`;
+
+const MYSQL_COLUMNS = `
+SELECT table_schema AS table_schema, table_name AS table_name, column_name AS column_name,
+       column_type AS column_type, is_nullable AS is_nullable
+FROM information_schema.columns
+WHERE table_schema = DATABASE()
+ORDER BY table_schema, table_name, ordinal_position`;
+
+const MYSQL_KEYS = `
+SELECT kcu.table_schema AS table_schema, kcu.table_name AS table_name,
+       kcu.constraint_name AS constraint_name, tc.constraint_type AS constraint_type,
+       kcu.column_name AS column_name, kcu.referenced_table_schema AS ref_schema,
+       kcu.referenced_table_name AS ref_table, kcu.referenced_column_name AS ref_column
+FROM information_schema.table_constraints tc
+JOIN information_schema.key_column_usage kcu
+  ON kcu.constraint_schema = tc.constraint_schema AND kcu.constraint_name = tc.constraint_name
+ AND kcu.table_name = tc.table_name
+WHERE tc.constraint_type IN ('PRIMARY KEY', 'FOREIGN KEY') AND tc.table_schema = DATABASE()
+ORDER BY kcu.table_schema, kcu.table_name, kcu.constraint_name, kcu.ordinal_position`;
+
+const MYSQL_ROW_COUNTS = `
+SELECT table_schema AS table_schema, table_name AS table_name, table_rows AS row_count
+FROM information_schema.tables
+WHERE table_schema = DATABASE() AND table_type = 'BASE TABLE'`;
+
+/**
+ * Connect with `settings`, read the catalog and disconnect. Rejects with
+ * the driver's error (connection refused, bad password, timeout).
+ */
+export async function introspectDatabase(settings: ConnectionSettings): Promise<Catalog> {
+  return settings.kind === 'postgres' ? introspectPostgres(settings) : introspectMysql(settings);
+}
+
+async function introspectPostgres(settings: ConnectionSettings): Promise<Catalog> {
+  const sslmode = settings.params.sslmode;
+  const client = new Client({
+    host: settings.host,
+    port: settings.port,
+    database: settings.database,
+    user: settings.user,
+    password: settings.password,
+    ssl: sslmode === 'require' ? { rejectUnauthorized: false } : sslmode === 'verify-ca' || sslmode === 'verify-full',
+    connectionTimeoutMillis: CONNECT_TIMEOUT_MS,
+    statement_timeout: QUERY_TIMEOUT_MS,
+  });
+  await client.connect();
+  try {
+    const columns = await client.query(POSTGRES_COLUMNS);
+    const keys = await client.query(POSTGRES_KEYS);
+    const rowCounts = await client.query(POSTGRES_ROW_COUNTS);
+    return catalogFromInformationSchema(columns.rows.map(postgresColumn), keys.rows as KeyRow[], rowCounts.rows as RowCountRow[]);
+  } finally {
+    await client.end();
+  }
+}
+
+/** Spell a Postgres column's type the way it is declared: `varchar(255)`, `numeric(10,2)`, `int4[]`. */
+function postgresColumn(row: Record<string, unknown>): ColumnRow {
+  const dataType = String(row.data_type);
+  let type = dataType;
+  if (dataType === 'USER-DEFINED') {
+    type = String(row.udt_name);
+  } else if (dataType === 'ARRAY') {
+    type = `${String(row.udt_name).replace(/^_/, '')}[]`;
+  } else if (row.character_maximum_length !== null && row.character_maximum_length !== undefined) {
+    type = `${dataType}(${row.character_maximum_length})`;
+  } else if (dataType === 'numeric' && row.numeric_precision !== null && row.numeric_precision !== undefined) {
+    type = `numeric(${row.numeric_precision},${row.numeric_scale ?? 0})`;
+  }
+  return {
+    table_schema: String(row.table_schema),
+    table_name: String(row.table_name),
+    column_name: String(row.column_name),
+    column_type: type,
+    is_nullable: String(row.is_nullable),
+  };
+}
+
+async function introspectMysql(settings: ConnectionSettings): Promise<Catalog> {
+  if (!settings.database) throw new Error('MySQL introspection needs a database name in the connect block.');
+  const tls = settings.params.tls;
+  const connection = await createConnection({
+    host: settings.host,
+    port: settings.port,
+    database: settings.database,
+    user: settings.user,
+    password: settings.password,
+    ssl: tls === 'true' ? {} : tls === 'skip-verify' ? { rejectUnauthorized: false } : undefined,
+    connectTimeout: CONNECT_TIMEOUT_MS,
+  });
+  try {
+    const [columns] = await connection.query({ sql: MYSQL_COLUMNS, timeout: QUERY_TIMEOUT_MS });
+    const [keys] = await connection.query({ sql: MYSQL_KEYS, timeout: QUERY_TIMEOUT_MS });
+    const [rowCounts] = await connection.query({ sql: MYSQL_ROW_COUNTS, timeout: QUERY_TIMEOUT_MS });
+    return catalogFromInformationSchema(columns as ColumnRow[], keys as KeyRow[], rowCounts as RowCountRow[]);
+  } finally {
+    await connection.end();
+  }
+}
+
+/**
+ * Assemble a catalog from `information_schema` rows. Rows must be ordered
+ * by table, with columns and key columns in ordinal order.
+ */
+export function catalogFromInformationSchema(columns: ColumnRow[], keys: KeyRow[], rowCounts: RowCountRow[] = []): Catalog {
+  const tables: CatalogTable[] = [];
+  const byKey = new Map<string, CatalogTable>();
+  const keyOf = (schema: string, table: string) => `${schema}\u0000${table}`;
+
+  for (const row of columns) {
+    const key = keyOf(row.table_schema, row.table_name);
+    let table = byKey.get(key);
+    if (!table) {
+      table = { schema: row.table_schema, name: row.table_name, columns: [] };
+      byKey.set(key, table);
+      tables.push(table);
+    }
+    table.columns.push({ name: row.column_name, type: row.column_type, nullable: row.is_nullable === 'YES' });
+  }
+
+  const constraints = new Map<string, { table: CatalogTable; type: string; rows: KeyRow[] }>();
+  for (const row of keys) {
+    const table = byKey.get(keyOf(row.table_schema, row.table_name));
+    if (!table) continue;
+    const id = `${keyOf(row.table_schema, row.table_name)}\u0000${row.constraint_name}`;
+    let constraint = constraints.get(id);
+    if (!constraint) {
+      constraint = { table, type: row.constraint_type.toUpperCase(), rows: [] };
+      constraints.set(id, constraint);
+    }
+    constraint.rows.push(row);
+  }
+
+  for (const { table, type, rows } of constraints.values()) {
+    const columnNames = rows.map(r => r.column_name);
+    if (type === 'PRIMARY KEY') {
+      table.primaryKey = columnNames;
+      for (const name of columnNames) {
+        const column = findColumn(table, name);
+        if (column) column.nullable = false;
+      }
+    } else if (rows[0].ref_table) {
+      const references = {
+        ...(rows[0].ref_schema ? { schema: rows[0].ref_schema } : {}),
+        table: rows[0].ref_table,
+        columns: rows.map(r => r.ref_column).filter((c): c is string => typeof c === 'string'),
+      };
+      table.foreignKeys = [...(table.foreignKeys ?? []), { columns: columnNames, references }];
+    }
+  }
+  for (const row of rowCounts) {
+    const table = byKey.get(keyOf(row.table_schema, row.table_name));
+    const count = Math.round(Number(row.row_count ?? -1));
+    if (table && count >= 0) table.rowCount = count;
+  }
+  return { tables };
+}
+
+/** `postgres://host:5432/db`, without credentials, for the snapshot header. */
+export function describeConnection(settings: ConnectionSettings): string {
+  return `${settings.kind}://${settings.host}:${settings.port}/${settings.database ?? ''}`;
+}
+
+/**
+ * Write `catalog` to `filePath` as a YAML snapshot. Refuses to overwrite a
+ * file that isn't a previous snapshot, so a hand-written catalog is safe.
+ */
+export function writeCatalogSnapshot(filePath: string, catalog: Catalog, source: string, now = new Date()): void {
+  let existing: string | undefined;
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- snapshot path from the validator configuration
+    existing = fs.readFileSync(filePath, 'latin1');
+  } catch {
+    existing = undefined;
+  }
+  if (existing !== undefined && !existing.startsWith(SNAPSHOT_MARKER)) {
+    throw new Error(`${filePath} exists and was not written by Introspect database; not overwriting it.`);
+  }
+  const header = [
+    SNAPSHOT_MARKER,
+    `# Source: ${source}, ${now.toISOString()}. Run the command again to refresh.`,
+  ].join('\n');
+  // eslint-disable-next-line security/detect-non-literal-fs-filename -- snapshot path from the validator configuration
+  fs.writeFileSync(filePath, `${header}\n${stringifyYaml(formatCatalog(catalog))}`);
+}
@@ -0,0 +1,11 @@
+import { loadCatalogFile, ParsedCatalog } from './catalog';
+import { isSqliteFile, loadSqliteCatalog } from './sqlite';
+
+/**
+ * Load the configured catalog file: a SQLite database is introspected,
+ * anything else is read as a JSON or YAML catalog. The format is detected
+ * from the file's header, not its extension.
+ */
+export function loadCatalog(filePath: string): ParsedCatalog {
+  return isSqliteFile(filePath) ? loadSqliteCatalog(filePath) : loadCatalogFile(filePath);
+}
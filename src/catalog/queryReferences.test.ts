@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { collectQueryReferences, ColumnReference } from './queryReferences';
+import { getParser } from '../utils/sqlUtils';
+
+const refsOf = (sql: string, database?: string) =>
+  collectQueryReferences(getParser().astify(sql, database ? { database } : undefined));
+
+const summarize = (columns: ColumnReference[]) =>
+  columns.map(c => `${c.qualifier ? `${c.qualifier}.` : ''}${c.column} -> ${c.tables.map(t => t.name).join('|')}${c.exhaustive ? '' : ' (partial)'}`);
+
+test('collectQueryReferences: resolves aliases across FROM and JOIN', () => {
+  const refs = refsOf('SELECT usr.email, name AS n FROM users usr JOIN public.orgs o ON o.id = usr.org_id ORDER BY n');
+  assert.deepEqual(refs.tables, [
+    { name: 'users', alias: 'usr' },
+    { schema: 'public', name: 'orgs', alias: 'o' },
+  ]);
+  assert.deepEqual(summarize(refs.columns), [
+    'usr.email -> users',
+    'name -> users|orgs',
+    'o.id -> orgs',
+    'usr.org_id -> users',
+  ]);
+});
+
+test('collectQueryReferences: postgresql identifier shapes', () => {
+  const refs = refsOf('SELECT u.id FROM users u WHERE u.active = true', 'postgresql');
+  assert.deepEqual(summarize(refs.columns), ['u.id -> users', 'u.active -> users']);
+});
+
+test('collectQueryReferences: correlated subqueries see the outer scope', () => {
+  const refs = refsOf('SELECT o.id FROM orgs o WHERE EXISTS (SELECT 1 FROM teams t WHERE t.org_id = o.id AND name = 1)');
+  assert.deepEqual(summarize(refs.columns), [
+    'o.id -> orgs',
+    't.org_id -> teams',
+    'o.id -> orgs',
+    'name -> teams|orgs',
+  ]);
+});
+
+test('collectQueryReferences: CTEs and derived tables are not base tables', () => {
+  const cte = refsOf('WITH x AS (SELECT id FROM users) SELECT x.id, y FROM x');
+  assert.deepEqual(cte.tables.map(t => t.name), ['users']);
+  assert.deepEqual(summarize(cte.columns), ['id -> users', 'y ->  (partial)']);
+
+  const derived = refsOf('SELECT d.id, other FROM (SELECT id FROM users) d');
+  assert.deepEqual(summarize(derived.columns), ['id -> users', 'other ->  (partial)']);
+});
+
+test('collectQueryReferences: INSERT, UPDATE and DELETE targets', () => {
+  assert.deepEqual(summarize(refsOf("INSERT INTO ents (user_id, role) VALUES (?, 'a')").columns), [
+    'user_id -> ents',
+    'role -> ents',
+  ]);
+  assert.deepEqual(summarize(refsOf('UPDATE users SET email = ? WHERE id = ?').columns), [
+    'email -> users',
+    'id -> users',
+  ]);
+  assert.deepEqual(summarize(refsOf('DELETE FROM users WHERE id = ?').columns), ['id -> users']);
+});
+
+test('collectQueryReferences: UNION branches each get their own scope', () => {
+  const refs = refsOf('SELECT id FROM a UNION SELECT id FROM b');
+  assert.deepEqual(summarize(refs.columns), ['id -> a', 'id -> b']);
+});
@@ -0,0 +1,254 @@
+/**
+ * Tables and columns a parsed query refers to, with every column resolved
+ * to the tables it can come from. Works on node-sql-parser ASTs
+ * (`ParsedQuery.ast`) and knows nothing about the catalog itself.
+ */
+
+import { asArray } from '../utils/sqlUtils';
+
+/** A base table as written in FROM / JOIN / INTO / UPDATE. */
+export interface TableReference {
+  schema?: string;
+  name: string;
+  alias?: string;
+}
+
+export interface ColumnReference {
+  column: string;
+  /** Table name or alias the column was qualified with (`usr` in `usr.email`). */
+  qualifier?: string;
+  /**
+   * Base tables the column can come from, innermost query first: the one
+   * its qualifier names, or every table in scope for an unqualified column.
+   */
+  tables: TableReference[];
+  /**
+   * Whether `tables` is every possible source. False when something in scope
+   * is a CTE, a derived table or a table function, whose columns we can't
+   * look up, so a column missing from `tables` may still exist.
+   */
+  exhaustive: boolean;
+  /** The `column_ref` AST node, when the reference came from one. */
+  node?: unknown;
+}
+
+export interface QueryReferences {
+  tables: TableReference[];
+  columns: ColumnReference[];
+}
+
+/** One FROM item: a base table, or something whose columns we don't know. */
+interface Source {
+  /** How the query refers to it: the alias, else the table name. Lowercase. */
+  key: string;
+  table?: TableReference;
+}
+
+interface Scope {
+  sources: Source[];
+  /** Output column aliases of this SELECT; ORDER BY and friends may use them. */
+  selectAliases: Set<string>;
+  /** CTE names visible here, lowercase. */
+  ctes: Set<string>;
+  parent?: Scope;
+}
+
+const STATEMENT_TYPES = new Set(['select', 'insert', 'replace', 'update', 'delete']);
+
+/**
+ * Identifier text from the shapes node-sql-parser uses across dialects:
+ * a plain string, `{ expr: { type: 'default', value } }` (postgresql) or a
+ * quoted-string node.
+ */
+export function identifierName(node: unknown): string | undefined {
+  if (typeof node === 'string') return node;
+  if (!node || typeof node !== 'object') return undefined;
+  const { value, expr } = node as { value?: unknown; expr?: unknown };
+  if (typeof value === 'string') return value;
+  if (expr) return identifierName(expr);
+  return undefined;
+}
+
+/**
+ * Collect the tables and columns referenced anywhere in `ast` (a statement
+ * or an array of them), including subqueries, CTEs and UNION branches.
+ * CTE names are not reported as tables.
+ */
+export function collectQueryReferences(ast: unknown): QueryReferences {
+  const refs: QueryReferences = { tables: [], columns: [] };
+  const statements = Array.isArray(ast) ? ast : [ast];
+  for (const stmt of statements) {
+    walkStatement(stmt, undefined, new Set(), refs);
+  }
+  return refs;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- node-sql-parser AST; its shapes vary by dialect
+function walkStatement(stmt: any, parent: Scope | undefined, outerCtes: Set<string>, refs: QueryReferences): void {
+  if (!stmt || typeof stmt !== 'object') return;
+
+  let ctes = outerCtes;
+  if (Array.isArray(stmt.with)) {
+    ctes = new Set(outerCtes);
+    for (const cte of stmt.with) {
+      // Each CTE sees the ones declared before it.
+      walkStatement(cte?.stmt?.ast ?? cte?.stmt, parent, ctes, refs);
+      const name = identifierName(cte?.name);
+      if (name) ctes.add(name.toLowerCase());
+    }
+  }
+
+  const scope: Scope = { sources: [], selectAliases: new Set(), ctes, parent };
+  const walk = (node: unknown) => walkExpr(node, scope, refs);
+
+  switch (stmt.type) {
+    case 'select': {
+      addSources(stmt.from, scope, refs);
+      if (Array.isArray(stmt.columns)) {
+        for (const col of stmt.columns) {
+          const alias = identifierName(col?.as);
+          if (alias) scope.selectAliases.add(alias.toLowerCase());
+        }
+        for (const col of stmt.columns) walk(col?.expr);
+      }
+      for (const item of asArray(stmt.from)) walk(item?.on);
+      walk(stmt.where);
+      walk(stmt.groupby);
+      walk(stmt.having);
+      walk(stmt.orderby);
+      // UNION / INTERSECT / EXCEPT branches share the WITH clause, not the scope.
+      if (stmt._next) walkStatement(stmt._next, parent, ctes, refs);
+      return;
+    }
+    case 'insert':
+    case 'replace': {
+      const target = addSources(stmt.table, scope, refs)[0];
+      if (target && Array.isArray(stmt.columns)) {
+        for (const col of stmt.columns) {
+          const name = identifierName(col);
+          if (name) refs.columns.push({ column: name, tables: [target], exhaustive: true });
+        }
+      }
+      // VALUES rows and INSERT ... SELECT see the outer scope, not the target table.
+      walkExpr(stmt.values, parent ?? { sources: [], selectAliases: new Set(), ctes }, refs);
+      return;
+    }
+    case 'update': {
+      addSources(stmt.table, scope, refs);
+      addSources(stmt.from, scope, refs);
+      for (const set of asArray(stmt.set)) {
+        const name = identifierName(set?.column);
+        if (name) addColumn(name, set.table ?? undefined, scope, refs);
+        walk(set?.value);
+      }
+      walk(stmt.where);
+      return;
+    }
+    case 'delete': {
+      addSources(stmt.from, scope, refs);
+      walk(stmt.where);
+      return;
+    }
+    default:
+      return;
+  }
+}
+
+/** The parts of a FROM / JOIN / INTO item that we read. */
+interface FromItem {
+  table?: unknown;
+  db?: unknown;
+  schema?: unknown;
+  as?: unknown;
+  expr?: { ast?: unknown };
+}
+
+/** Register FROM-like items in `scope`; returns the base tables among them. */
+function addSources(items: unknown, scope: Scope, refs: QueryReferences): TableReference[] {
+  const tables: TableReference[] = [];
+  for (const entry of asArray(items)) {
+    if (!entry || typeof entry !== 'object') continue;
+    const item = entry as FromItem;
+    const alias = identifierName(item.as);
+    if (item.expr?.ast) {
+      // Derived table: its own query can't see its siblings.
+      walkStatement(item.expr.ast, scope.parent, scope.ctes, refs);
+      if (alias) scope.sources.push({ key: alias.toLowerCase() });
+      continue;
+    }
+    const name = identifierName(item.table);
+    if (!name) {
+      if (alias) scope.sources.push({ key: alias.toLowerCase() });
+      continue;
+    }
+    const schema = identifierName(item.db) ?? identifierName(item.schema);
+    if (!schema && scope.ctes.has(name.toLowerCase())) {
+      scope.sources.push({ key: (alias ?? name).toLowerCase() });
+      continue;
+    }
+    const table: TableReference = { name };
+    if (schema) table.schema = schema;
+    if (alias) table.alias = alias;
+    tables.push(table);
+    refs.tables.push(table);
+    scope.sources.push({ key: (alias ?? name).toLowerCase(), table });
+  }
+  return tables;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any -- node-sql-parser AST; its shapes vary by dialect
+function walkExpr(node: any, scope: Scope, refs: QueryReferences): void {
+  if (!node || typeof node !== 'object') return;
+  if (Array.isArray(node)) {
+    for (const item of node) walkExpr(item, scope, refs);
+    return;
+  }
+  if (node.type === 'column_ref') {
+    const column = identifierName(node.column);
+    if (column && column !== '*') addColumn(column, identifierName(node.table), scope, refs, node);
+    return;
+  }
+  if (node.ast) {
+    walkStatement(node.ast, scope, scope.ctes, refs);
+    return;
+  }
+  if (STATEMENT_TYPES.has(node.type)) {
+    walkStatement(node, scope, scope.ctes, refs);
+    return;
+  }
+  for (const value of Object.values(node)) walkExpr(value, scope, refs);
+}
+
+/** `scope`, then each enclosing query's scope outward. */
+function scopeChain(scope: Scope): Scope[] {
+  const chain: Scope[] = [];
+  for (let s: Scope | undefined = scope; s; s = s.parent) chain.push(s);
+  return chain;
+}
+
+function addColumn(column: string, qualifier: string | undefined, scope: Scope, refs: QueryReferences, node?: unknown): void {
+  const withNode = (ref: ColumnReference): ColumnReference => (node ? { ...ref, node } : ref);
+  if (qualifier) {
+    const q = qualifier.toLowerCase();
+    for (const s of scopeChain(scope)) {
+      const source = s.sources.find(src => src.key === q);
+      if (!source) continue;
+      // A qualifier naming a CTE or derived table: nothing to check against.
+      if (source.table) refs.columns.push(withNode({ column, qualifier, tables: [source.table], exhaustive: true }));
+      return;
+    }
+    // Unknown qualifier (a typo, or a correlation we can't see): leave it alone.
+    return;
+  }
+
+  if (scope.selectAliases.has(column.toLowerCase())) return;
+  const tables: TableReference[] = [];
+  let exhaustive = true;
+  for (const s of scopeChain(scope)) {
+    for (const source of s.sources) {
+      if (source.table) tables.push(source.table);
+      else exhaustive = false;
+    }
+  }
+  refs.columns.push(withNode({ column, tables, exhaustive }));
+}
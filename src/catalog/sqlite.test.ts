@@ -0,0 +1,117 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isSqliteFile, loadSqliteCatalog, readSqliteSchema } from './sqlite';
+import { loadCatalog } from './loader';
+
+/** Test databases are written with `node:sqlite`, which Node.js only ships from 22.13. */
+const sqlite = (() => {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports -- probing for an optional built-in
+    return require('node:sqlite') as typeof import('node:sqlite');
+  } catch {
+    return undefined;
+  }
+})();
+
+function withDatabase(sql: string, fn: (file: string) => void): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baton-sql-sqlite-'));
+  const file = path.join(dir, 'dev.db');
+  try {
+    const db = new sqlite!.DatabaseSync(file);
+    db.exec(sql);
+    db.close();
+    fn(file);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+test('loadSqliteCatalog: tables, types, nullability, primary and foreign keys', { skip: !sqlite }, () => {
+  withDatabase(`
+    CREATE TABLE orgs (id INTEGER PRIMARY KEY, name TEXT NOT NULL);
+    CREATE TABLE "users" (
+      "id" INTEGER PRIMARY KEY AUTOINCREMENT,
+      email varchar(255) NOT NULL,
+      org_id integer REFERENCES orgs (id)
+    );
+    CREATE TABLE memberships (user_id INTEGER, org_id INTEGER, PRIMARY KEY (user_id, org_id),
+      FOREIGN KEY (user_id) REFERENCES users (id));
+    CREATE INDEX users_email ON users (email);
+    CREATE VIEW admins AS SELECT * FROM users;
+    INSERT INTO orgs (name) VALUES ('acme');
+  `, file => {
+    assert.ok(isSqliteFile(file));
+    const { catalog, errors } = loadSqliteCatalog(file);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(catalog.tables, [
+      {
+        name: 'orgs',
+        primaryKey: ['id'],
+        columns: [
+          { name: 'id', type: 'integer', nullable: false },
+          { name: 'name', type: 'text', nullable: false },
+        ],
+      },
+      {
+        name: 'users',
+        primaryKey: ['id'],
+        foreignKeys: [{ columns: ['org_id'], references: { table: 'orgs', columns: ['id'] } }],
+        columns: [
+          { name: 'id', type: 'integer', nullable: false },
+          { name: 'email', type: 'varchar(255)', nullable: false },
+          { name: 'org_id', type: 'integer', nullable: true },
+        ],
+      },
+      {
+        name: 'memberships',
+        primaryKey: ['user_id', 'org_id'],
+        foreignKeys: [{ columns: ['user_id'], references: { table: 'users', columns: ['id'] } }],
+        columns: [
+          { name: 'user_id', type: 'integer', nullable: false },
+          { name: 'org_id', type: 'integer', nullable: false },
+        ],
+      },
+    ]);
+  });
+});
+
+test('readSqliteSchema: follows interior and overflow pages', { skip: !sqlite }, () => {
+  const long = 'x'.repeat(3000);
+  const ddl = Array.from({ length: 120 }, (_, i) => `CREATE TABLE t${i} (id INTEGER, note_${long} TEXT);`).join('\n');
+  withDatabase(ddl, file => {
+    const entries = readSqliteSchema(file);
+    assert.equal(entries.length, 120);
+    assert.equal(entries[119].name, 't119');
+    assert.ok(entries[119].sql?.includes(`note_${long} TEXT`));
+  });
+});
+
+test('loadCatalog: detects SQLite by content; other files are YAML', { skip: !sqlite }, () => {
+  withDatabase('CREATE TABLE accounts (id INTEGER);', file => {
+    const renamed = `${file}.yaml`;
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp file created by withDatabase
+    fs.renameSync(file, renamed);
+    assert.deepEqual(loadCatalog(renamed).catalog.tables.map(t => t.name), ['accounts']);
+
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp file created by withDatabase
+    fs.writeFileSync(file, 'tables:\n  users:\n    columns: { id: integer }\n');
+    assert.equal(isSqliteFile(file), false);
+    assert.deepEqual(loadCatalog(file).catalog.tables.map(t => t.name), ['users']);
+  });
+});
+
+test('loadSqliteCatalog: a corrupt file is reported, not thrown', { skip: !sqlite }, () => {
+  withDatabase('CREATE TABLE a (id INTEGER);', file => {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp file created by withDatabase
+    const bytes = fs.readFileSync(file);
+    bytes.writeUInt8(0xff, 100);
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp file created by withDatabase
+    fs.writeFileSync(file, bytes);
+    const { catalog, errors } = loadSqliteCatalog(file);
+    assert.deepEqual(catalog.tables, []);
+    assert.match(errors[0], /^Could not read SQLite database: page 1 is not a table b-tree page/);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Read the schema of a SQLite database file without SQLite itself. The
+ * `sqlite_schema` table (page 1 of every database) stores the original
+ * CREATE statement of each table; we walk its b-tree and replay those
+ * statements through the DDL importer. Only the pages holding the schema
+ * are read, so large databases are cheap to introspect.
+ *
+ * File format: https://www.sqlite.org/fileformat2.html
+ */
+
+import * as fs from 'fs';
+import { CatalogTable, ParsedCatalog } from './catalog';
+import { applyDdl } from './ddl';
+
+const MAGIC = 'SQLite format 3\0';
+
+/** One row of `sqlite_schema`. */
+export interface SqliteSchemaEntry {
+  type: string;
+  name: string;
+  tableName: string;
+  sql?: string;
+}
+
+/** Whether the file starts with the SQLite header. */
+export function isSqliteFile(filePath: string): boolean {
+  let fd: number | undefined;
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path from the validator configuration
+    fd = fs.openSync(filePath, 'r');
+    const header = Buffer.alloc(MAGIC.length);
+    fs.readSync(fd, header, 0, header.length, 0);
+    return header.toString('latin1') === MAGIC;
+  } catch {
+    return false;
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd);
+  }
+}
+
+/** Reads pages of one database file on demand. */
+class PageReader {
+  readonly pageSize: number;
+  readonly usableSize: number;
+  readonly encoding: 'utf8' | 'utf16le' | 'utf16be';
+  readonly pageCount: number;
+
+  constructor(private readonly fd: number, header: Buffer, fileSize: number) {
+    const size = header.readUInt16BE(16);
+    this.pageSize = size === 1 ? 65536 : size;
+    if (this.pageSize < 512 || (this.pageSize & (this.pageSize - 1)) !== 0) {
+      throw new Error(`invalid page size ${this.pageSize}`);
+    }
+    this.usableSize = this.pageSize - header.readUInt8(20);
+    const encoding = header.readUInt32BE(56);
+    this.encoding = encoding === 2 ? 'utf16le' : encoding === 3 ? 'utf16be' : 'utf8';
+    this.pageCount = Math.floor(fileSize / this.pageSize);
+  }
+
+  page(number: number): Buffer {
+    if (number < 1 || number > this.pageCount) throw new Error(`page ${number} is out of range`);
+    const buf = Buffer.alloc(this.pageSize);
+    fs.readSync(this.fd, buf, 0, this.pageSize, (number - 1) * this.pageSize);
+    return buf;
+  }
+
+  text(bytes: Buffer): string {
+    if (this.encoding === 'utf16be') return Buffer.from(bytes).swap16().toString('utf16le');
+    return bytes.toString(this.encoding);
+  }
+}
+
+/** A big-endian SQLite varint at `offset`: its value and byte length. */
+function readVarint(buf: Buffer, offset: number): [number, number] {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = buf.readUInt8(offset + i);
+    value = value * 128 + (byte & 0x7f);
+    if ((byte & 0x80) === 0) return [value, i + 1];
+  }
+  return [value * 256 + buf.readUInt8(offset + 8), 9];
+}
+
+/**
+ * Every row payload in the table b-tree rooted at `root`, in rowid order.
+ * Payloads that spill onto overflow pages are reassembled.
+ */
+function tablePayloads(reader: PageReader, root: number): Buffer[] {
+  const payloads: Buffer[] = [];
+  const seen = new Set<number>();
+
+  const visit = (number: number) => {
+    if (seen.has(number)) throw new Error(`page ${number} is referenced twice`);
+    seen.add(number);
+    const page = reader.page(number);
+    const h = number === 1 ? 100 : 0;
+    const kind = page.readUInt8(h);
+    const cells = page.readUInt16BE(h + 3);
+    if (kind === 0x05) {
+      for (let i = 0; i < cells; i++) visit(page.readUInt32BE(page.readUInt16BE(h + 12 + 2 * i)));
+      visit(page.readUInt32BE(h + 8));
+    } else if (kind === 0x0d) {
+      for (let i = 0; i < cells; i++) payloads.push(leafPayload(reader, page, page.readUInt16BE(h + 8 + 2 * i)));
+    } else {
+      throw new Error(`page ${number} is not a table b-tree page`);
+    }
+  };
+
+  visit(root);
+  return payloads;
+}
+
+function leafPayload(reader: PageReader, page: Buffer, cell: number): Buffer {
+  const [size, sizeLen] = readVarint(page, cell);
+  const [, rowidLen] = readVarint(page, cell + sizeLen);
+  const start = cell + sizeLen + rowidLen;
+
+  const u = reader.usableSize;
+  const maxLocal = u - 35;
+  if (size <= maxLocal) return page.subarray(start, start + size);
+
+  const minLocal = Math.floor(((u - 12) * 32) / 255) - 23;
+  const k = minLocal + ((size - minLocal) % (u - 4));
+  const local = k <= maxLocal ? k : minLocal;
+  const parts = [page.subarray(start, start + local)];
+  let remaining = size - local;
+  let next = page.readUInt32BE(start + local);
+  const seen = new Set<number>();
+  while (remaining > 0 && next !== 0) {
+    if (seen.has(next)) throw new Error(`overflow page ${next} is referenced twice`);
+    seen.add(next);
+    const overflow = reader.page(next);
+    const take = Math.min(remaining, u - 4);
+    parts.push(overflow.subarray(4, 4 + take));
+    remaining -= take;
+    next = overflow.readUInt32BE(0);
+  }
+  return Buffer.concat(parts);
+}
+
+/** Decode a record's columns as strings, numbers or null (blobs become null). */
+function decodeRecord(reader: PageReader, payload: Buffer): (string | number | null)[] {
+  const [headerSize, headerLen] = readVarint(payload, 0);
+  const types: number[] = [];
+  for (let at = headerLen; at < headerSize;) {
+    const [type, len] = readVarint(payload, at);
+    types.push(type);
+    at += len;
+  }
+
+  const values: (string | number | null)[] = [];
+  let at = headerSize;
+  for (const type of types) {
+    if (type === 0) {
+      values.push(null);
+    } else if (type >= 1 && type <= 6) {
+      const len = [1, 2, 3, 4, 6, 8][type - 1];
+      values.push(len <= 6 ? payload.readIntBE(at, len) : Number(payload.readBigInt64BE(at)));
+      at += len;
+    } else if (type === 7) {
+      values.push(payload.readDoubleBE(at));
+      at += 8;
+    } else if (type === 8 || type === 9) {
+      values.push(type - 8);
+    } else if (type >= 12) {
+      const len = Math.floor((type - 12) / 2);
+      values.push(type % 2 === 1 ? reader.text(payload.subarray(at, at + len)) : null);
+      at += len;
+    } else {
+      values.push(null);
+    }
+  }
+  return values;
+}
+
+/** The rows of `sqlite_schema`: tables, indexes, views and triggers. */
+export function readSqliteSchema(filePath: string): SqliteSchemaEntry[] {
+  // eslint-disable-next-line security/detect-non-literal-fs-filename -- path from the validator configuration
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const header = Buffer.alloc(100);
+    fs.readSync(fd, header, 0, header.length, 0);
+    if (header.toString('latin1', 0, MAGIC.length) !== MAGIC) throw new Error('not a SQLite database');
+    const reader = new PageReader(fd, header, fs.fstatSync(fd).size);
+
+    return tablePayloads(reader, 1).map(payload => {
+      const [type, name, tableName, , sql] = decodeRecord(reader, payload);
+      const entry: SqliteSchemaEntry = { type: String(type), name: String(name), tableName: String(tableName) };
+      if (typeof sql === 'string') entry.sql = sql;
+      return entry;
+    });
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+/**
+ * Introspect a SQLite database file into a catalog: every table with its
+ * columns, declared types, nullability, primary key and foreign keys.
+ * SQLite's own tables (`sqlite_*`), views and virtual tables are left out.
+ */
+export function loadSqliteCatalog(filePath: string): ParsedCatalog {
+  let entries: SqliteSchemaEntry[];
+  try {
+    entries = readSqliteSchema(filePath);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    return { catalog: { tables: [] }, errors: [`Could not read SQLite database: ${msg}`] };
+  }
+
+  const tables: CatalogTable[] = [];
+  const errors: string[] = [];
+  for (const entry of entries) {
+    if (entry.type !== 'table' || !entry.sql || entry.name.toLowerCase().startsWith('sqlite_')) continue;
+    const problem = applyDdl(tables, entry.sql, 'sqlite');
+    if (problem) errors.push(`Table '${entry.name}': ${problem}`);
+  }
+
+  if (hasPendingWal(filePath)) {
+    errors.push('The database has a write-ahead log that is not checkpointed; recent schema changes may be missing.');
+  }
+  return { catalog: { tables }, errors };
+}
+
+function hasPendingWal(filePath: string): boolean {
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- sibling of the configured database
+    return fs.statSync(`${filePath}-wal`).size > 0;
+  } catch {
+    return false;
+  }
+}
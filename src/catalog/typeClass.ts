@@ -0,0 +1,90 @@
+/**
+ * Coarse classes of declared column types, enough to tell which values a
+ * column can be compared with or assigned. Exact types vary too much across
+ * databases (and catalogs) to compare directly.
+ */
+
+export type TypeClass = 'numeric' | 'text' | 'boolean' | 'temporal' | 'uuid' | 'json' | 'binary';
+
+const CLASSES: Record<TypeClass, string[]> = {
+  numeric: [
+    'int', 'integer', 'int2', 'int4', 'int8', 'smallint', 'bigint', 'tinyint', 'mediumint',
+    'serial', 'serial2', 'serial4', 'serial8', 'smallserial', 'bigserial',
+    'decimal', 'numeric', 'dec', 'number', 'real', 'float', 'float4', 'float8', 'double',
+    'double precision', 'money', 'smallmoney', 'fixed',
+  ],
+  text: [
+    'char', 'character', 'varchar', 'character varying', 'nchar', 'nvarchar', 'national character varying',
+    'varchar2', 'nvarchar2', 'text', 'tinytext', 'mediumtext', 'longtext', 'ntext', 'clob', 'nclob',
+    'citext', 'string', 'name', 'enum', 'set',
+  ],
+  boolean: ['bool', 'boolean', 'bit'],
+  temporal: [
+    'date', 'time', 'timetz', 'timestamp', 'timestamptz', 'datetime', 'datetime2', 'smalldatetime',
+    'datetimeoffset', 'year', 'timestamp with time zone', 'timestamp without time zone',
+    'time with time zone', 'time without time zone',
+  ],
+  uuid: ['uuid', 'uniqueidentifier'],
+  json: ['json', 'jsonb'],
+  binary: ['bytea', 'blob', 'tinyblob', 'mediumblob', 'longblob', 'binary', 'varbinary', 'image'],
+};
+
+const BY_NAME = new Map<string, TypeClass>(
+  (Object.entries(CLASSES) as [TypeClass, string[]][]).flatMap(([cls, names]) => names.map(n => [n, cls] as [string, TypeClass])),
+);
+
+/**
+ * The class of a declared type such as `varchar(255)`, `int unsigned` or
+ * `timestamp(3) with time zone`. Undefined for arrays, domains and types
+ * we don't know, which are never reported.
+ */
+export function typeClassOf(declared: string | undefined): TypeClass | undefined {
+  if (!declared) return undefined;
+  const type = declared.toLowerCase();
+  if (type.endsWith('[]') || type.startsWith('array')) return undefined;
+  const base = type
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/\b(?:unsigned|signed|zerofill)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return BY_NAME.get(base);
+}
+
+const NUMBER = /^[-+]?[\d.]/;
+const BOOLEAN = /^(?:t|f|true|false|y|n|yes|no|on|off|1|0)$/i;
+const TEMPORAL = /^(?:\d{4}-\d{1,2}-\d{1,2}|\d{1,2}:\d{2}|\d{8}\b|now|today|tomorrow|yesterday|epoch|[-+]?infinity)/i;
+const UUID = /^\{?[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}\}?$/i;
+
+/** Whether the string literal `value` converts to a value of class `cls`. */
+export function stringFits(value: string, cls: TypeClass): boolean {
+  switch (cls) {
+    case 'numeric': return NUMBER.test(value.trim()) && Number.isFinite(Number(value));
+    case 'boolean': return BOOLEAN.test(value.trim());
+    case 'temporal': return TEMPORAL.test(value.trim());
+    case 'uuid': return UUID.test(value.trim());
+    default: return true;
+  }
+}
+
+/**
+ * Whether values of classes `a` and `b` compare without an explicit cast.
+ * Outside Postgres, booleans are small integers, so the two mix.
+ */
+export function classesCompatible(a: TypeClass, b: TypeClass, dialect?: string): boolean {
+  if (a === b) return true;
+  const pair = new Set([a, b]);
+  return dialect !== 'postgresql' && pair.has('numeric') && pair.has('boolean');
+}
+
+/** `an integer`-style phrase for messages. */
+export function describeClass(cls: TypeClass): string {
+  switch (cls) {
+    case 'numeric': return 'a number';
+    case 'text': return 'text';
+    case 'boolean': return 'a boolean';
+    case 'temporal': return 'a date or time';
+    case 'uuid': return 'a UUID';
+    case 'json': return 'JSON';
+    case 'binary': return 'binary data';
+  }
+}
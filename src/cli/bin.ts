@@ -0,0 +1,9 @@
+/** @format */
+
+import { run } from './main';
+
+// Entry point for the `baton-sql-lint` executable (bundled to out/cli/baton-sql-lint.js).
+process.exitCode = run(process.argv.slice(2), {
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+});
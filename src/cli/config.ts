@@ -0,0 +1,49 @@
+import * as path from 'path';
+import {
+  BatonSqlConfig,
+  loadProjectConfig,
+  mergeConfigs,
+  ProjectConfigFile,
+  readProjectConfig,
+} from '../validation/config';
+import type { CliIO } from './main';
+
+/**
+ * Resolves the config for each file: an explicit `--config` for all of them,
+ * otherwise the nearest `.baton-sql.json` (cached per directory). Config
+ * problems are reported on stderr, once per config file.
+ */
+export function configResolver(io: CliIO, configPath?: string): ((filePath: string) => BatonSqlConfig) | string {
+  const reported = new Set<string>();
+  const report = (source: string, errors: string[]) => {
+    if (errors.length === 0 || reported.has(source)) return;
+    reported.add(source);
+    for (const error of errors) io.stderr(`baton-sql-lint: ${source}: ${error}\n`);
+  };
+
+  if (configPath) {
+    let project: ProjectConfigFile;
+    try {
+      project = readProjectConfig(configPath);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      return `Could not read config ${configPath}: ${msg}`;
+    }
+    report(configPath, project.errors);
+    const merged = mergeConfigs(project.config);
+    return () => merged;
+  }
+
+  const byDir = new Map<string, BatonSqlConfig>();
+  return (filePath: string) => {
+    const dir = path.dirname(path.resolve(filePath));
+    let config = byDir.get(dir);
+    if (!config) {
+      const project = loadProjectConfig(dir);
+      if (project) report(project.path, project.errors);
+      config = mergeConfigs(project?.config ?? {});
+      byDir.set(dir, config);
+    }
+    return config;
+  };
+}
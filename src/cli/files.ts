@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp } from '../validation/config';
+import { isBatonSQLFilePath, walkFiles } from '../utils/fileUtils';
+
+const GLOB_CHARS = /[*?{]/;
+
+export interface ExpandedInputs {
+  files: string[];
+  /** Inputs that matched nothing; reported to the user. */
+  unmatched: string[];
+}
+
+/**
+ * Turn command-line inputs into a sorted, de-duplicated list of files.
+ *
+ * - A file is taken as-is, whatever its name.
+ * - A directory is searched recursively for files `isIncluded` accepts
+ *   (`baton-sql-*.yaml` plus the project's configured globs).
+ * - Anything else is a glob, matched under its longest non-glob prefix.
+ */
+export function expandInputs(inputs: string[], isIncluded: (filePath: string) => boolean): ExpandedInputs {
+  const found = new Set<string>();
+  const unmatched: string[] = [];
+
+  for (const input of inputs) {
+    const before = found.size;
+    let stat: fs.Stats | undefined;
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- path from the command line
+      stat = fs.statSync(input);
+    } catch {
+      stat = undefined;
+    }
+
+    if (stat?.isFile()) {
+      found.add(input);
+    } else if (stat?.isDirectory()) {
+      walkFiles(input, f => {
+        if (isIncluded(f)) found.add(f);
+      });
+    } else if (GLOB_CHARS.test(input)) {
+      const normalized = input.split(path.sep).join('/');
+      const segments = normalized.split('/');
+      const firstGlob = segments.findIndex(s => GLOB_CHARS.test(s));
+      const base = segments.slice(0, firstGlob).join('/') || '.';
+      const re = globToRegExp(normalized.replace(/^\.\//, ''));
+      walkFiles(base, f => {
+        const candidate = f.split(path.sep).join('/').replace(/^\.\//, '');
+        if (re.test(candidate)) found.add(f);
+      });
+    }
+
+    if (found.size === before) unmatched.push(input);
+  }
+
+  return { files: [...found].sort(), unmatched };
+}
+
+/** Default directory filter: the file names the extension activates on. */
+export function isDefaultLintTarget(filePath: string): boolean {
+  return isBatonSQLFilePath(filePath.split(path.sep).join('/'));
+}
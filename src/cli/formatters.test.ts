@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatReports } from './formatters';
+import { FileReport } from './lint';
+import { allValidationRules } from '../validation/rules';
+
+const REPORTS: FileReport[] = [
+  {
+    filePath: 'conn/baton-sql-a.yaml',
+    diagnostics: [
+      {
+        line: 9, column: 7, endLine: 9, endColumn: 20, severity: 'error', code: 'BSQL012',
+        ruleName: 'trailing-comma', message: 'Trailing comma before FROM <here> & "there"',
+        docsUrl: 'https://example.invalid#bsql012',
+      },
+      {
+        line: 12, column: 1, endLine: 12, endColumn: 5, severity: 'info', code: 'BSQL014',
+        ruleName: 'unconventional-sql-syntax', message: 'note', docsUrl: 'https://example.invalid#bsql014',
+      },
+    ],
+  },
+  { filePath: 'conn/baton-sql-b.yaml', diagnostics: [] },
+];
+
+test('formatReports text: one line per diagnostic plus a summary', () => {
+  const out = formatReports('text', REPORTS, allValidationRules).trimEnd().split('\n');
+  assert.equal(out[0], 'conn/baton-sql-a.yaml:9:7: error Trailing comma before FROM <here> & "there" [BSQL012/trailing-comma]');
+  assert.equal(out[2], '2 files checked: 1 error, 0 warnings, 1 info.');
+});
+
+test('formatReports json: round-trips the reports', () => {
+  assert.deepEqual(JSON.parse(formatReports('json', REPORTS, allValidationRules)), REPORTS);
+});
+
+test('formatReports sarif: 2.1.0 with rule metadata and mapped levels', () => {
+  const sarif = JSON.parse(formatReports('sarif', REPORTS, allValidationRules));
+  assert.equal(sarif.version, '2.1.0');
+  const run = sarif.runs[0];
+  assert.equal(run.tool.driver.rules.length, allValidationRules.length);
+  assert.equal(run.results.length, 2);
+  const [err, info] = run.results;
+  assert.equal(err.ruleId, 'BSQL012');
+  assert.equal(run.tool.driver.rules[err.ruleIndex].id, 'BSQL012');
+  assert.equal(err.level, 'error');
+  assert.equal(info.level, 'note');
+  assert.deepEqual(err.locations[0].physicalLocation, {
+    artifactLocation: { uri: 'conn/baton-sql-a.yaml' },
+    region: { startLine: 9, startColumn: 7, endLine: 9, endColumn: 20 },
+  });
+});
+
+test('formatReports junit: failures for errors and warnings, passing case for clean files', () => {
+  const xml = formatReports('junit', REPORTS, allValidationRules);
+  assert.match(xml, /<testsuites name="baton-sql-lint" tests="3" failures="1">/);
+  assert.match(xml, /<failure type="error" message="Trailing comma before FROM &lt;here&gt; &amp; &quot;there&quot;">/);
+  assert.ok(!xml.includes('BSQL014'), 'info diagnostics are not failures');
+  assert.match(xml, /<testcase name="conn\/baton-sql-b.yaml" classname="baton-sql-lint" \/>/);
+});
+
+test('formatReports: a file that could not be checked is reported in every format', () => {
+  const reports: FileReport[] = [
+    { filePath: 'conn/baton-sql-c.yaml', diagnostics: [], error: 'could not read: EACCES' },
+    { filePath: 'conn/baton-sql-b.yaml', diagnostics: [] },
+  ];
+  const text = formatReports('text', reports, allValidationRules).trimEnd().split('\n');
+  assert.deepEqual(text, [
+    'conn/baton-sql-c.yaml: error could not read: EACCES',
+    '1 file checked, no problems found. 1 file could not be checked.',
+  ]);
+  assert.equal(JSON.parse(formatReports('json', reports, allValidationRules))[0].error, 'could not read: EACCES');
+  const sarif = JSON.parse(formatReports('sarif', reports, allValidationRules));
+  const invocation = sarif.runs[0].invocations[0];
+  assert.equal(invocation.executionSuccessful, false);
+  assert.equal(invocation.toolExecutionNotifications[0].message.text, 'could not read: EACCES');
+  assert.equal(invocation.toolExecutionNotifications[0].locations[0].physicalLocation.artifactLocation.uri, 'conn/baton-sql-c.yaml');
+  const xml = formatReports('junit', reports, allValidationRules);
+  assert.match(xml, /<testsuites name="baton-sql-lint" tests="2" failures="0" errors="1">/);
+  assert.match(xml, /<error message="could not read: EACCES">conn\/baton-sql-c.yaml: could not read: EACCES<\/error>/);
+});
@@ -0,0 +1,200 @@
+import * as path from 'path';
+import { ValidationRule } from '../validation/types';
+import { FileReport, LintDiagnostic } from './lint';
+
+export type OutputFormat = 'text' | 'json' | 'sarif' | 'junit';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['text', 'json', 'sarif', 'junit'];
+
+const TOOL_NAME = 'baton-sql-lint';
+const TOOL_URI = 'https://github.com/afalahi/baton-sql-extension';
+
+/**
+ * Render reports in the requested format. `rules` is the full rule set, used
+ * for SARIF's rule metadata.
+ */
+export function formatReports(format: OutputFormat, reports: FileReport[], rules: ValidationRule[]): string {
+  switch (format) {
+    case 'json':
+      return formatJson(reports);
+    case 'sarif':
+      return formatSarif(reports, rules);
+    case 'junit':
+      return formatJunit(reports);
+    default:
+      return formatText(reports);
+  }
+}
+
+function countBySeverity(reports: FileReport[]): { errors: number; warnings: number; other: number } {
+  let errors = 0;
+  let warnings = 0;
+  let other = 0;
+  for (const report of reports) {
+    for (const d of report.diagnostics) {
+      if (d.severity === 'error') errors++;
+      else if (d.severity === 'warning') warnings++;
+      else other++;
+    }
+  }
+  return { errors, warnings, other };
+}
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+/**
+ * `file:line:col: severity message [code/rule]`, one per line, then a summary.
+ * Files that couldn't be checked get a `file: error …` line.
+ */
+function formatText(reports: FileReport[]): string {
+  const lines: string[] = [];
+  for (const report of reports) {
+    if (report.error !== undefined) lines.push(`${report.filePath}: error ${report.error}`);
+    for (const d of report.diagnostics) {
+      lines.push(`${report.filePath}:${d.line}:${d.column}: ${d.severity} ${d.message} [${d.code}/${d.ruleName}]`);
+    }
+  }
+  const { errors, warnings, other } = countBySeverity(reports);
+  const total = errors + warnings + other;
+  const failed = reports.filter(r => r.error !== undefined).length;
+  const files = plural(reports.length - failed, 'file');
+  const notChecked = failed > 0 ? ` ${plural(failed, 'file')} could not be checked.` : '';
+  if (total === 0) {
+    lines.push(`${files} checked, no problems found.${notChecked}`);
+  } else {
+    const parts = [plural(errors, 'error'), plural(warnings, 'warning')];
+    if (other > 0) parts.push(`${other} info`);
+    lines.push(`${files} checked: ${parts.join(', ')}.${notChecked}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function formatJson(reports: FileReport[]): string {
+  return JSON.stringify(reports, null, 2) + '\n';
+}
+
+function sarifLevel(d: LintDiagnostic): 'error' | 'warning' | 'note' {
+  if (d.severity === 'error') return 'error';
+  if (d.severity === 'warning') return 'warning';
+  return 'note';
+}
+
+/** Forward-slash relative URI, as SARIF consumers (e.g. GitHub code scanning) expect. */
+function artifactUri(filePath: string): string {
+  const relative = path.isAbsolute(filePath) ? path.relative(process.cwd(), filePath) : filePath;
+  return relative.split(path.sep).join('/');
+}
+
+/**
+ * SARIF 2.1.0 with one run, the full rule catalog and one result per
+ * diagnostic. Files that couldn't be checked become tool execution
+ * notifications on an unsuccessful invocation.
+ */
+function formatSarif(reports: FileReport[], rules: ValidationRule[]): string {
+  const ruleIndex = new Map(rules.map((r, i) => [r.code, i]));
+  const failed = reports.filter(r => r.error !== undefined);
+  const invocations = failed.length === 0 ? undefined : [
+    {
+      executionSuccessful: false,
+      toolExecutionNotifications: failed.map(r => ({
+        level: 'error',
+        message: { text: r.error },
+        locations: [{ physicalLocation: { artifactLocation: { uri: artifactUri(r.filePath) } } }],
+      })),
+    },
+  ];
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            informationUri: TOOL_URI,
+            rules: rules.map(r => ({
+              id: r.code,
+              name: r.name,
+              shortDescription: { text: r.description },
+              helpUri: r.docsUrl,
+              defaultConfiguration: {
+                level: r.defaultSeverity === 'error' ? 'error' : r.defaultSeverity === 'warning' ? 'warning' : 'note',
+              },
+              properties: { category: r.category },
+            })),
+          },
+        },
+        invocations,
+        results: reports.flatMap(report =>
+          report.diagnostics.map(d => ({
+            ruleId: d.code,
+            ruleIndex: ruleIndex.get(d.code),
+            level: sarifLevel(d),
+            message: { text: d.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: artifactUri(report.filePath) },
+                  region: {
+                    startLine: d.line,
+                    startColumn: d.column,
+                    endLine: d.endLine,
+                    endColumn: d.endColumn,
+                  },
+                },
+              },
+            ],
+          })),
+        ),
+      },
+    ],
+  };
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * JUnit XML: one test suite per file, one failing test case per error or
+ * warning (info and hints are left out), and a passing case for clean files.
+ * A file that couldn't be checked has one case with an `<error>`.
+ */
+function formatJunit(reports: FileReport[]): string {
+  const out: string[] = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  const { errors, warnings } = countBySeverity(reports);
+  const failed = reports.filter(r => r.error !== undefined).length;
+  out.push(`<testsuites name="${TOOL_NAME}" tests="${reports.length + errors + warnings}" failures="${errors + warnings}"${failed > 0 ? ` errors="${failed}"` : ''}>`);
+  for (const report of reports) {
+    if (report.error !== undefined) {
+      const file = xmlEscape(report.filePath);
+      out.push(`  <testsuite name="${file}" tests="1" failures="0" errors="1">`);
+      out.push(`    <testcase name="${file}" classname="${TOOL_NAME}">`);
+      out.push(`      <error message="${xmlEscape(report.error)}">${xmlEscape(`${report.filePath}: ${report.error}`)}</error>`);
+      out.push('    </testcase>');
+      out.push('  </testsuite>');
+      continue;
+    }
+    const failing = report.diagnostics.filter(d => d.severity === 'error' || d.severity === 'warning');
+    const file = xmlEscape(report.filePath);
+    out.push(`  <testsuite name="${file}" tests="${Math.max(failing.length, 1)}" failures="${failing.length}">`);
+    if (failing.length === 0) {
+      out.push(`    <testcase name="${file}" classname="${TOOL_NAME}" />`);
+    }
+    for (const d of failing) {
+      const where = `${report.filePath}:${d.line}:${d.column}`;
+      out.push(`    <testcase name="${xmlEscape(`${where} ${d.code}`)}" classname="${xmlEscape(`${TOOL_NAME}.${d.ruleName}`)}">`);
+      out.push(`      <failure type="${d.severity}" message="${xmlEscape(d.message)}">${xmlEscape(`${where}: ${d.message} [${d.code}/${d.ruleName}]`)}</failure>`);
+      out.push('    </testcase>');
+    }
+    out.push('  </testsuite>');
+  }
+  out.push('</testsuites>');
+  return out.join('\n') + '\n';
+}
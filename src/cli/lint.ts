@@ -0,0 +1,100 @@
+import { validateDocument } from '../validation/pipeline';
+import { resultRange } from '../validation/location';
+import { BatonSqlConfig } from '../validation/config';
+import { Catalog } from '../catalog/catalog';
+import { Severity } from '../validation/types';
+import type { CliIO } from './main';
+
+/** One diagnostic, positioned the way editors and CI annotations expect (1-based). */
+export interface LintDiagnostic {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  severity: Severity;
+  /** Stable rule code, e.g. `BSQL001`. */
+  code: string;
+  ruleName: string;
+  message: string;
+  docsUrl: string;
+}
+
+export interface FileReport {
+  /** Path as given on the command line (or discovered under a directory). */
+  filePath: string;
+  diagnostics: LintDiagnostic[];
+  /** Why the file couldn't be checked (it couldn't be read, or fixed in place); no diagnostics then. */
+  error?: string;
+}
+
+/**
+ * Convert absolute offsets to 1-based line/column pairs.
+ */
+function positionConverter(content: string): (offset: number) => { line: number; column: number } {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+  return (offset: number) => {
+    let lo = 0;
+    let hi = lineStarts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      // eslint-disable-next-line security/detect-object-injection -- binary search index
+      if (lineStarts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    // eslint-disable-next-line security/detect-object-injection -- lo is a valid index
+    return { line: lo + 1, column: offset - lineStarts[lo] + 1 };
+  };
+}
+
+/**
+ * Run the same pipeline the language server runs and return its diagnostics,
+ * deduplicated the same way (message + start position) and sorted by position.
+ * Rules that throw are reported on `io.stderr`.
+ */
+export function lintContent(
+  filePath: string,
+  content: string,
+  config: BatonSqlConfig,
+  io: Pick<CliIO, 'stderr'>,
+  catalog?: Catalog,
+): FileReport {
+  const { document, results } = validateDocument(
+    content,
+    (ruleName, error) => {
+      const msg = error instanceof Error ? error.message : String(error);
+      io.stderr(`baton-sql-lint: rule '${ruleName}' threw while validating ${filePath}: ${msg}\n`);
+    },
+    config,
+    catalog,
+  );
+  const toPosition = positionConverter(content);
+
+  const diagnostics: LintDiagnostic[] = [];
+  const seen = new Set<string>();
+  for (const pr of results) {
+    const { start, end } = resultRange(document, pr);
+    const from = toPosition(start);
+    const to = toPosition(end);
+    const message = pr.result.errorMessage || 'SQL validation error';
+    const key = `${message}\0${from.line}\0${from.column}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    diagnostics.push({
+      line: from.line,
+      column: from.column,
+      endLine: to.line,
+      endColumn: to.column,
+      severity: pr.severity,
+      code: pr.rule.code,
+      ruleName: pr.ruleName,
+      message,
+      docsUrl: pr.rule.docsUrl,
+    });
+  }
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { filePath, diagnostics };
+}
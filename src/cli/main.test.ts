@@ -0,0 +1,240 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { run, EXIT_OK, EXIT_ERRORS, EXIT_USAGE } from './main';
+import { trailingCommaRule } from '../validation/rules';
+
+/** The sandbox runs on `node:sqlite`, which Node.js only ships from 22.13. */
+const hasSqlite = (() => {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports -- probing for an optional built-in
+    require('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+const CLEAN = `app_name: t
+connect:
+  dsn: postgres://x
+resource_types:
+  user:
+    name: User
+    description: u
+    list:
+      query: SELECT id, name FROM users
+      pagination:
+        strategy: offset
+        primary_key: id
+      map:
+        id: ".id"
+        display_name: ".name"
+`;
+
+const BROKEN = CLEAN.replace('SELECT id, name FROM users', 'SELECT id, name, FROM users');
+
+function withTree(files: Record<string, string>, fn: (root: string) => void): void {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'baton-sql-lint-'));
+  try {
+    for (const [rel, content] of Object.entries(files)) {
+      const full = path.join(root, rel);
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+      fs.mkdirSync(path.dirname(full), { recursive: true });
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+      fs.writeFileSync(full, content);
+    }
+    fn(root);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+}
+
+function capture(argv: string[]): { code: number; stdout: string; stderr: string } {
+  let stdout = '';
+  let stderr = '';
+  const code = run(argv, { stdout: t => { stdout += t; }, stderr: t => { stderr += t; } });
+  return { code, stdout, stderr };
+}
+
+test('cli: clean file exits 0 with a summary', () => {
+  withTree({ 'baton-sql-ok.yaml': CLEAN }, root => {
+    const { code, stdout } = capture([path.join(root, 'baton-sql-ok.yaml')]);
+    assert.equal(code, EXIT_OK);
+    assert.match(stdout, /1 file checked, no problems found/);
+  });
+});
+
+test('cli: errors print file:line:col and exit 1', () => {
+  withTree({ 'baton-sql-bad.yaml': BROKEN }, root => {
+    const file = path.join(root, 'baton-sql-bad.yaml');
+    const { code, stdout } = capture([file]);
+    assert.equal(code, EXIT_ERRORS);
+    const first = stdout.split('\n')[0];
+    assert.ok(first.startsWith(`${file}:9:`), first);
+    assert.match(first, / error .*\[BSQL012\/trailing-comma\]$/);
+  });
+});
+
+test('cli: directories are searched for baton-sql-*.yaml only', () => {
+  withTree({ 'a/baton-sql-one.yaml': BROKEN, 'a/other.yaml': BROKEN, 'node_modules/baton-sql-x.yaml': BROKEN }, root => {
+    const { stdout } = capture(['--format', 'json', root]);
+    const reports = JSON.parse(stdout);
+    assert.deepEqual(reports.map((r: { filePath: string }) => path.relative(root, r.filePath)), [
+      path.join('a', 'baton-sql-one.yaml'),
+    ]);
+  });
+});
+
+test('cli: directories also pick up the project config\'s files globs', () => {
+  withTree({
+    '.baton-sql.json': JSON.stringify({ files: ['conn/*.yaml'] }),
+    'conn/pg.yaml': CLEAN,
+    'unrelated.yaml': CLEAN,
+  }, root => {
+    const { stdout } = capture(['--format', 'json', root]);
+    const files = JSON.parse(stdout).map((r: { filePath: string }) => path.relative(root, r.filePath));
+    assert.deepEqual(files, [path.join('conn', 'pg.yaml')]);
+  });
+});
+
+test('cli: globs are expanded', () => {
+  withTree({ 'x/one.yml': CLEAN, 'x/y/two.yml': CLEAN, 'x/three.yaml': CLEAN }, root => {
+    const glob = `${root.split(path.sep).join('/')}/x/**/*.yml`;
+    const { code, stdout } = capture([glob]);
+    assert.equal(code, EXIT_OK);
+    assert.match(stdout, /2 files checked/);
+  });
+});
+
+test('cli: project config turns rules off', () => {
+  withTree({
+    '.baton-sql.json': JSON.stringify({ rules: { 'trailing-comma': 'off' } }),
+    'baton-sql-bad.yaml': BROKEN,
+  }, root => {
+    const { stdout } = capture(['--format', 'json', path.join(root, 'baton-sql-bad.yaml')]);
+    const codes = JSON.parse(stdout)[0].diagnostics.map((d: { code: string }) => d.code);
+    assert.ok(!codes.includes('BSQL012'));
+  });
+});
+
+test('cli: --config overrides the project config; warnings alone exit 0', () => {
+  withTree({
+    'cfg.json': JSON.stringify({ rules: { 'trailing-comma': 'warning' } }),
+    'baton-sql-bad.yaml': BROKEN,
+  }, root => {
+    const { code, stdout } = capture(['-c', path.join(root, 'cfg.json'), path.join(root, 'baton-sql-bad.yaml')]);
+    assert.match(stdout, / warning .*BSQL012/);
+    assert.equal(code, EXIT_OK);
+  });
+});
+
+test('cli: usage errors exit 2', () => {
+  assert.equal(capture([]).code, EXIT_USAGE);
+  assert.equal(capture(['--format', 'xml', 'x.yaml']).code, EXIT_USAGE);
+  assert.equal(capture(['--bogus']).code, EXIT_USAGE);
+  const missing = capture(['/definitely/not/here/baton-sql-x.yaml']);
+  assert.equal(missing.code, EXIT_USAGE);
+  assert.match(missing.stderr, /no files matched/);
+});
+
+test('cli: an unreadable file is reported as a failure and the other files are still checked', t => {
+  withTree({ 'baton-sql-a.yaml': BROKEN, 'baton-sql-b.yaml': CLEAN }, root => {
+    const unreadable = path.join(root, 'baton-sql-a.yaml');
+    // File permissions don't stop root, so fail the read on the fs module itself.
+    // eslint-disable-next-line @typescript-eslint/no-require-imports -- the module object, not the import's namespace copy
+    const fsModule: typeof fs = require('fs');
+    const readFileSync = fsModule.readFileSync;
+    t.mock.method(fsModule, 'readFileSync', (file: fs.PathOrFileDescriptor, options?: unknown) => {
+      if (file === unreadable) throw new Error('EACCES: permission denied');
+      return (readFileSync as (f: fs.PathOrFileDescriptor, o?: unknown) => string | Buffer)(file, options);
+    });
+    const { code, stdout } = capture([root]);
+    assert.equal(code, EXIT_ERRORS);
+    assert.match(stdout, /baton-sql-a\.yaml: error could not read: EACCES: permission denied/);
+    assert.match(stdout, /1 file checked, no problems found\. 1 file could not be checked\./);
+  });
+});
+
+test('cli: a rule that throws is reported on the injected stderr', t => {
+  t.mock.method(trailingCommaRule, 'validate', () => {
+    throw new Error('boom');
+  });
+  withTree({ 'baton-sql-bad.yaml': BROKEN }, root => {
+    const { stderr } = capture([path.join(root, 'baton-sql-bad.yaml')]);
+    assert.match(stderr, /rule 'trailing-comma' threw while validating .*baton-sql-bad\.yaml: boom/);
+  });
+});
+
+test('cli: --help prints usage and exits 0', () => {
+  const { code, stdout } = capture(['--help']);
+  assert.equal(code, EXIT_OK);
+  assert.match(stdout, /Usage: baton-sql-lint/);
+});
+
+test('cli: --fix rewrites the file and reports what remains', () => {
+  const typo = CLEAN.replace('SELECT id, name FROM users', 'SELCT id, name\n        FROM users').replace('query: SELCT', 'query: |\n        SELCT');
+  withTree({ 'baton-sql-typo.yaml': typo }, root => {
+    const file = path.join(root, 'baton-sql-typo.yaml');
+    const { code, stdout, stderr } = capture(['--fix', file]);
+    assert.equal(code, EXIT_OK, stdout);
+    assert.match(stderr, /fixed 1 problem in/);
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    assert.match(fs.readFileSync(file, 'utf8'), /^ {8}SELECT id, name$/m);
+    assert.match(stdout, /no problems found/);
+  });
+});
+
+test('cli: the configured catalog checks tables and columns', () => {
+  withTree({
+    '.baton-sql.json': JSON.stringify({ catalog: 'db/catalog.yaml' }),
+    'db/catalog.yaml': 'tables:\n  users:\n    columns:\n      id: integer\n      email: text\n',
+    'baton-sql-ok.yaml': CLEAN,
+  }, root => {
+    const { code, stdout } = capture([path.join(root, 'baton-sql-ok.yaml')]);
+    assert.equal(code, EXIT_ERRORS);
+    assert.match(stdout, /:9:\d+: error Column 'name' does not exist on table 'users'\. \[BSQL025\/catalog-reference\]/);
+  });
+});
+
+test('cli: tables come from the configured ddl files too', () => {
+  withTree({
+    '.baton-sql.json': JSON.stringify({ ddl: ['migrations/*.sql'] }),
+    'migrations/001_users.sql': 'CREATE TABLE users (id serial PRIMARY KEY, names text);',
+    'baton-sql-ok.yaml': CLEAN,
+  }, root => {
+    const { code, stdout } = capture([path.join(root, 'baton-sql-ok.yaml')]);
+    assert.equal(code, EXIT_ERRORS);
+    assert.match(stdout, /Column 'name' does not exist on table 'users'\. Did you mean 'names'\?/);
+  });
+});
+
+test('cli: sandbox prints what the connector emits from fixtures/**', { skip: !hasSqlite }, () => {
+  withTree({
+    'baton-sql-ok.yaml': CLEAN,
+    'fixtures/users.csv': 'id,name\n1,alice\n2,bob\n',
+  }, root => {
+    const { code, stdout } = capture(['sandbox', path.join(root, 'baton-sql-ok.yaml')]);
+    assert.equal(code, EXIT_OK);
+    const output = JSON.parse(stdout);
+    assert.deepEqual(output.resources.map((r: { id: string; displayName: string }) => `${r.id}:${r.displayName}`), ['1:alice', '2:bob']);
+    assert.deepEqual(output.problems, []);
+  });
+});
+
+test('cli: sandbox --fixtures replaces the default; missing tables exit 1', { skip: !hasSqlite }, () => {
+  withTree({
+    'baton-sql-ok.yaml': CLEAN,
+    'fixtures/users.csv': 'id,name\n1,alice\n',
+    'other/groups.yaml': 'groups:\n  - { id: 1 }\n',
+  }, root => {
+    const { code, stdout } = capture(['sandbox', '--fixtures', path.join(root, 'other/*.yaml'), path.join(root, 'baton-sql-ok.yaml')]);
+    assert.equal(code, EXIT_ERRORS);
+    assert.deepEqual(JSON.parse(stdout).problems, [
+      { path: 'resource_types.user.list.query', message: 'SQLite: no such table: users' },
+    ]);
+    assert.equal(capture(['sandbox']).code, EXIT_USAGE);
+  });
+});
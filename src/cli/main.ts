@@ -0,0 +1,203 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BatonSqlConfig, matchesConfiguredFiles } from '../validation/config';
+import { allValidationRules } from '../validation/rules';
+import { unusedSuppressionRule } from '../validation/suppressions';
+import { schemeToDialect } from '../validation/dialect';
+import { fixAll } from '../validation/autofix';
+import { Catalog, mergeCatalogs } from '../catalog/catalog';
+import { loadCatalog } from '../catalog/loader';
+import { loadDdlCatalog } from '../catalog/ddl';
+import { FileReport, lintContent } from './lint';
+import { OUTPUT_FORMATS, OutputFormat, formatReports } from './formatters';
+import { expandInputs, isDefaultLintTarget } from './files';
+import { configResolver } from './config';
+import { runSandboxCommand } from './sandbox';
+
+/** Exit codes: clean (or only warnings), errors found, bad usage. */
+export const EXIT_OK = 0;
+export const EXIT_ERRORS = 1;
+export const EXIT_USAGE = 2;
+
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+const USAGE = `Usage: baton-sql-lint [options] <file|directory|glob>...
+       baton-sql-lint sandbox [options] <file>
+
+Validate Baton SQL connector configs with the same rules as the VS Code extension.
+Directories are searched for baton-sql-*.yaml (plus the "files" globs from .baton-sql.json).
+The sandbox subcommand runs a connector's queries against fixture data instead;
+see baton-sql-lint sandbox --help.
+
+Options:
+  -f, --format <text|json|sarif|junit>  Output format (default: text)
+  -c, --config <path>                   Use this config file instead of the nearest .baton-sql.json
+      --fix                             Apply auto-fixable suggestions in place, then report what remains
+  -h, --help                            Show this help
+
+Exit status is 1 when any error-severity diagnostic is reported or a file can't be read, 2 on bad usage.
+`;
+
+interface CliArgs {
+  format: OutputFormat;
+  configPath?: string;
+  inputs: string[];
+  help: boolean;
+  fix: boolean;
+}
+
+function parseArgs(argv: string[]): CliArgs | string {
+  const args: CliArgs = { format: 'text', inputs: [], help: false, fix: false };
+  for (let i = 0; i < argv.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+    const arg = argv[i];
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+    const value = () => inlineValue ?? argv[++i];
+
+    switch (flag) {
+      case '-h':
+      case '--help':
+        args.help = true;
+        break;
+      case '--fix':
+        args.fix = true;
+        break;
+      case '-f':
+      case '--format': {
+        const format = value();
+        if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+          return `Unknown format '${format ?? ''}'. Expected one of: ${OUTPUT_FORMATS.join(', ')}.`;
+        }
+        args.format = format as OutputFormat;
+        break;
+      }
+      case '-c':
+      case '--config': {
+        const configPath = value();
+        if (!configPath) return 'Missing value for --config.';
+        args.configPath = configPath;
+        break;
+      }
+      default:
+        if (arg.startsWith('-')) return `Unknown option '${arg}'.`;
+        args.inputs.push(arg);
+    }
+  }
+  return args;
+}
+
+/**
+ * Loads each configured catalog file and set of DDL globs once, and merges
+ * them (the catalog file wins per table). Problems are reported on stderr;
+ * whatever parsed is still used.
+ */
+function catalogLoader(io: CliIO): (config: BatonSqlConfig) => Catalog | undefined {
+  const byPath = new Map<string, Catalog>();
+  const byDdl = new Map<string, Catalog>();
+  const fromFile = (filePath: string) => {
+    let catalog = byPath.get(filePath);
+    if (!catalog) {
+      const loaded = loadCatalog(filePath);
+      for (const error of loaded.errors) io.stderr(`baton-sql-lint: ${filePath}: ${error}\n`);
+      catalog = loaded.catalog;
+      byPath.set(filePath, catalog);
+    }
+    return catalog;
+  };
+  const fromDdl = (globs: string[], dialect: string | undefined) => {
+    const key = `${dialect ?? ''}|${globs.join('|')}`;
+    let catalog = byDdl.get(key);
+    if (!catalog) {
+      const loaded = loadDdlCatalog(globs, dialect);
+      for (const error of loaded.errors) io.stderr(`baton-sql-lint: ${error}\n`);
+      catalog = loaded.catalog;
+      byDdl.set(key, catalog);
+    }
+    return catalog;
+  };
+  return (config: BatonSqlConfig) => {
+    const catalogs: Catalog[] = [];
+    if (config.catalog) catalogs.push(fromFile(config.catalog));
+    if (config.ddl && config.ddl.length > 0) catalogs.push(fromDdl(config.ddl, schemeToDialect(config.dialect)));
+    if (catalogs.length === 0) return undefined;
+    return catalogs.length === 1 ? catalogs[0] : mergeCatalogs(...catalogs);
+  };
+}
+
+/**
+ * Run the linter with command-line arguments (without `node` and the script
+ * path). Returns the exit code instead of exiting, so it can be tested.
+ */
+export function run(argv: string[], io: CliIO): number {
+  if (argv[0] === 'sandbox') return runSandboxCommand(argv.slice(1), io);
+  const args = parseArgs(argv);
+  if (typeof args === 'string') {
+    io.stderr(`baton-sql-lint: ${args}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (args.help) {
+    io.stdout(USAGE);
+    return EXIT_OK;
+  }
+  if (args.inputs.length === 0) {
+    io.stderr(`baton-sql-lint: no files given.\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const configFor = configResolver(io, args.configPath);
+  if (typeof configFor === 'string') {
+    io.stderr(`baton-sql-lint: ${configFor}\n`);
+    return EXIT_USAGE;
+  }
+
+  const { files, unmatched } = expandInputs(
+    args.inputs,
+    f => isDefaultLintTarget(f) || matchesConfiguredFiles(configFor(f), path.resolve(f)),
+  );
+  for (const input of unmatched) {
+    io.stderr(`baton-sql-lint: no files matched '${input}'.\n`);
+  }
+  if (files.length === 0) return EXIT_USAGE;
+
+  const catalogFor = catalogLoader(io);
+
+  const reports: FileReport[] = [];
+  for (const filePath of files) {
+    let content: string;
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- path from expandInputs
+      content = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      reports.push({ filePath, diagnostics: [], error: `could not read: ${msg}` });
+      continue;
+    }
+    const config = configFor(filePath);
+    if (args.fix) {
+      const result = fixAll(content, config);
+      if (result.fixed > 0) {
+        try {
+          // eslint-disable-next-line security/detect-non-literal-fs-filename -- path from expandInputs
+          fs.writeFileSync(filePath, result.content);
+        } catch (error) {
+          const msg = error instanceof Error ? error.message : String(error);
+          reports.push({ filePath, diagnostics: [], error: `could not write fixes: ${msg}` });
+          continue;
+        }
+        io.stderr(`baton-sql-lint: fixed ${result.fixed} problem${result.fixed === 1 ? '' : 's'} in ${filePath}\n`);
+        content = result.content;
+      }
+    }
+    reports.push(lintContent(filePath, content, config, io, catalogFor(config)));
+  }
+
+  io.stdout(formatReports(args.format, reports, [...allValidationRules, unusedSuppressionRule]));
+
+  const hasErrors = reports.some(r => r.error !== undefined || r.diagnostics.some(d => d.severity === 'error'));
+  return hasErrors ? EXIT_ERRORS : EXIT_OK;
+}
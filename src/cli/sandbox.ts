@@ -0,0 +1,120 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { resolveGlobs } from '../validation/config';
+import { runConnectorSandbox } from '../sandbox/connector';
+import { configResolver } from './config';
+import { CliIO, EXIT_ERRORS, EXIT_OK, EXIT_USAGE } from './main';
+
+const USAGE = `Usage: baton-sql-lint sandbox [options] <file>
+
+Run a connector's list, entitlements and grants queries against fixture data in an
+in-memory SQLite database, and print the resources, entitlements and grants it would
+emit as JSON. Fixtures are the YAML and CSV files matched by "fixtures" in
+.baton-sql.json, or fixtures/** next to the connector file.
+
+Options:
+  -c, --config <path>     Use this config file instead of the nearest .baton-sql.json
+      --fixtures <glob>   Load fixtures from these files instead (repeatable)
+  -h, --help              Show this help
+
+Exit status is 1 when a query fails or a row can't be mapped, 2 on bad usage.
+Needs Node.js 22.13 or newer.
+`;
+
+interface SandboxArgs {
+  configPath?: string;
+  fixtures: string[];
+  inputs: string[];
+  help: boolean;
+}
+
+function parseArgs(argv: string[]): SandboxArgs | string {
+  const args: SandboxArgs = { fixtures: [], inputs: [], help: false };
+  for (let i = 0; i < argv.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+    const arg = argv[i];
+    const [flag, inlineValue] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+    const value = () => inlineValue ?? argv[++i];
+
+    switch (flag) {
+      case '-h':
+      case '--help':
+        args.help = true;
+        break;
+      case '-c':
+      case '--config': {
+        const configPath = value();
+        if (!configPath) return 'Missing value for --config.';
+        args.configPath = configPath;
+        break;
+      }
+      case '--fixtures': {
+        const glob = value();
+        if (!glob) return 'Missing value for --fixtures.';
+        args.fixtures.push(glob);
+        break;
+      }
+      default:
+        if (arg.startsWith('-')) return `Unknown option '${arg}'.`;
+        args.inputs.push(arg);
+    }
+  }
+  return args;
+}
+
+/**
+ * `baton-sql-lint sandbox`: arguments after the subcommand name. Prints the
+ * sandbox output as JSON on stdout and fixture problems on stderr.
+ */
+export function runSandboxCommand(argv: string[], io: CliIO): number {
+  const args = parseArgs(argv);
+  if (typeof args === 'string') {
+    io.stderr(`baton-sql-lint: ${args}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (args.help) {
+    io.stdout(USAGE);
+    return EXIT_OK;
+  }
+  if (args.inputs.length !== 1) {
+    io.stderr(`baton-sql-lint: sandbox takes exactly one connector file.\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const configFor = configResolver(io, args.configPath);
+  if (typeof configFor === 'string') {
+    io.stderr(`baton-sql-lint: ${configFor}\n`);
+    return EXIT_USAGE;
+  }
+
+  const filePath = args.inputs[0];
+  let content: string;
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- path from the command line
+    content = fs.readFileSync(filePath, 'utf8');
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    io.stderr(`baton-sql-lint: could not read ${filePath}: ${msg}\n`);
+    return EXIT_USAGE;
+  }
+
+  const config = { ...configFor(filePath) };
+  if (args.fixtures.length > 0) config.fixtures = resolveGlobs(args.fixtures, path.resolve('.'));
+
+  let result;
+  try {
+    result = runConnectorSandbox(filePath, content, config);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    io.stderr(`baton-sql-lint: ${msg}\n`);
+    return EXIT_USAGE;
+  }
+  const { fixtures, ...output } = result;
+  for (const error of fixtures.errors) io.stderr(`baton-sql-lint: ${error}\n`);
+  if (fixtures.tables === 0) io.stderr('baton-sql-lint: no fixture tables found.\n');
+
+  io.stdout(`${JSON.stringify(output, null, 2)}\n`);
+  return output.problems.length > 0 ? EXIT_ERRORS : EXIT_OK;
+}
@@ -1,13 +1,23 @@
 /** @format */
 
 import * as path from 'path';
-import { workspace, ExtensionContext } from 'vscode';
+import { commands, window, workspace, ExtensionContext, ProgressLocation, ViewColumn } from 'vscode';
 import {
   LanguageClient,
   LanguageClientOptions,
   ServerOptions,
   TransportKind
 } from 'vscode-languageclient/node';
+import {
+  INTROSPECT_DATABASE_REQUEST,
+  IntrospectDatabaseParams,
+  IntrospectDatabaseResult,
+  RUN_SANDBOX_REQUEST,
+  RunSandboxParams,
+  RunSandboxResult,
+  PREVIEW_MAPPING_COMMAND,
+  MappingPreview
+} from '../server/constants/requests';
 
 let client: LanguageClient;
 
@@ -30,17 +40,25 @@ export function activate(context: ExtensionContext) {
 
   // Options to control the language client
   const clientOptions: LanguageClientOptions = {
-    // Register the server for YAML documents that match the Baton SQL pattern
+    // Register the server for all YAML documents. The server only validates
+    // baton-sql-*.yaml plus any files matched by the configured `files` globs,
+    // so those globs can change without restarting the extension.
     documentSelector: [
       {
         scheme: 'file',
-        language: 'yaml',
-        pattern: '**/baton-sql-*.{yaml,yml}'
+        language: 'yaml'
       }
     ],
     synchronize: {
-      // Notify the server about file changes to YAML files in the workspace
-      fileEvents: workspace.createFileSystemWatcher('**/baton-sql-*.{yaml,yml}')
+      // Notify the server about Baton SQL YAML files, project config and
+      // catalog snapshot changes, and .sql files; the server only rebuilds
+      // the catalog for ones that match a `ddl` glob
+      fileEvents: [
+        workspace.createFileSystemWatcher('**/baton-sql-*.{yaml,yml}'),
+        workspace.createFileSystemWatcher('**/.baton-sql.json'),
+        workspace.createFileSystemWatcher('**/.baton-sql-catalog.yaml'),
+        workspace.createFileSystemWatcher('**/*.sql')
+      ]
     }
   };
 
@@ -54,6 +72,81 @@ export function activate(context: ExtensionContext) {
 
   // Start the client. This will also launch the server
   client.start();
+
+  context.subscriptions.push(
+    commands.registerCommand('batonSql.introspectDatabase', introspectDatabase),
+    commands.registerCommand('batonSql.runSandbox', runSandbox),
+    commands.registerCommand(PREVIEW_MAPPING_COMMAND, previewMapping)
+  );
+}
+
+/**
+ * Ask the server to introspect the database the active connector file
+ * connects to, and report where the catalog snapshot went.
+ */
+async function introspectDatabase(): Promise<void> {
+  const editor = window.activeTextEditor;
+  if (!editor) {
+    window.showErrorMessage('Baton SQL: open a connector file to introspect its database.');
+    return;
+  }
+  const params: IntrospectDatabaseParams = { uri: editor.document.uri.toString() };
+  try {
+    const result = await window.withProgress(
+      { location: ProgressLocation.Notification, title: 'Baton SQL: introspecting database…' },
+      () => client.sendRequest<IntrospectDatabaseResult>(INTROSPECT_DATABASE_REQUEST, params)
+    );
+    const relative = workspace.asRelativePath(result.catalogPath);
+    window.showInformationMessage(
+      `Baton SQL: saved ${result.tables} table${result.tables === 1 ? '' : 's'} from ${result.source} to ${relative}.`
+    );
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    window.showErrorMessage(`Baton SQL: ${msg}`);
+  }
+}
+
+/**
+ * Run the active connector file in the fixture sandbox and open what it
+ * would emit as JSON beside it.
+ */
+async function runSandbox(): Promise<void> {
+  const editor = window.activeTextEditor;
+  if (!editor) {
+    window.showErrorMessage('Baton SQL: open a connector file to run it in the sandbox.');
+    return;
+  }
+  const params: RunSandboxParams = { uri: editor.document.uri.toString() };
+  try {
+    const result = await window.withProgress(
+      { location: ProgressLocation.Notification, title: 'Baton SQL: running sandbox…' },
+      () => client.sendRequest<RunSandboxResult>(RUN_SANDBOX_REQUEST, params)
+    );
+    const { fixtures, ...output } = result;
+    const document = await workspace.openTextDocument({ language: 'json', content: JSON.stringify(output, null, 2) });
+    await window.showTextDocument(document, { viewColumn: ViewColumn.Beside, preview: true });
+
+    const summary = `${output.resources.length} resources, ${output.entitlements.length} entitlements `
+      + `and ${output.grants.length} grants from ${fixtures.tables} fixture table${fixtures.tables === 1 ? '' : 's'}`;
+    const issues = [...fixtures.errors, ...output.problems.map(p => `${p.path}: ${p.message}`)];
+    if (issues.length > 0) {
+      window.showWarningMessage(`Baton SQL: ${summary}; ${issues.length} problem${issues.length === 1 ? '' : 's'}. ${issues[0]}`);
+    } else {
+      window.showInformationMessage(`Baton SQL: ${summary}.`);
+    }
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    window.showErrorMessage(`Baton SQL: ${msg}`);
+  }
+}
+
+/**
+ * Open what a "Preview mapping" code lens computed: the fixture row, what
+ * it mapped to and any problems.
+ */
+async function previewMapping(preview: MappingPreview): Promise<void> {
+  const document = await workspace.openTextDocument({ language: 'json', content: JSON.stringify(preview, null, 2) });
+  await window.showTextDocument(document, { viewColumn: ViewColumn.Beside, preview: true });
 }
 
 export function deactivate(): Thenable<void> | undefined {
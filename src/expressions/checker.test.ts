@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkTypes, ColumnTypes, ExprType } from './checker';
+import { parseExpression } from './parser';
+
+const COLUMNS = new Map<string, ExprType>([['name', 'string'], ['age', 'int'], ['active', 'bool']]);
+const columns: ColumnTypes = name => COLUMNS.get(name);
+
+function check(text: string) {
+  const { expr } = parseExpression(text);
+  assert.ok(expr, text);
+  return checkTypes(expr, columns);
+}
+
+test('checkTypes: infers the type from literals, operators, functions and columns', () => {
+  const type = (text: string) => check(text).type;
+  assert.equal(type('.name + " " + .name'), 'string');
+  assert.equal(type('.age * 2'), 'int');
+  assert.equal(type('.age / 2.0'), 'double');
+  assert.equal(type('3u'), 'uint');
+  assert.equal(type('.age >= 18 && !.active'), 'bool');
+  assert.equal(type('lower(.name).startsWith("a")'), 'bool');
+  assert.equal(type('.name.split(",")'), 'list');
+  assert.equal(type('.tags.filter(t, t != "")'), 'list');
+  assert.equal(type('.active ? "yes" : "no"'), 'string');
+  assert.equal(type('.profile.title'), 'dyn');
+  assert.equal(type('.age > 1 ? .name : .age'), 'dyn');
+});
+
+test('checkTypes: reports misuse the evaluator would fail on, with its span', () => {
+  assert.deepEqual(check('.name + 1').errors, [
+    { message: "'+' joins two strings, two numbers or two lists; got string and int. Use string() to convert.", start: 6, end: 7 },
+  ]);
+  assert.deepEqual(check('!.name || .active').errors, [{ message: "'!' needs a boolean; got string.", start: 1, end: 6 }]);
+  assert.deepEqual(check('lower(.age)').errors, [{ message: 'lower() needs a string; got int.', start: 6, end: 10 }]);
+  assert.deepEqual(check('.name.contains()').errors, [
+    { message: 'contains() takes 2 arguments including its receiver; got 1.', start: 0, end: 16 },
+  ]);
+  assert.deepEqual(check('enabled').errors, [{ message: "Unknown name 'enabled'. Columns are written '.enabled'.", start: 0, end: 7 }]);
+  assert.deepEqual(check('.age.first').errors, [{ message: "Can't read 'first' from an int.", start: 5, end: 10 }]);
+  // Untyped columns pass.
+  assert.deepEqual(check('.other + 1 > .other && lower(.other) == ""').errors, []);
+});
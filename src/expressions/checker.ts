@@ -0,0 +1,301 @@
+/**
+ * Static type checking of mapping expressions. Infers the type an
+ * expression yields without a row, from its literals, its functions and,
+ * when known, the types of the columns it reads, and reports the operator
+ * and function misuse the evaluator would fail on at runtime. Whatever
+ * can't be known statically (`dyn`) passes.
+ */
+
+import { Expr, ExpressionError, MACROS, Span } from './parser';
+
+/** CEL's type names, plus `dyn` for a type that isn't known until the row is read. */
+export type ExprType = 'string' | 'int' | 'uint' | 'double' | 'bool' | 'null' | 'list' | 'map' | 'dyn';
+
+/** The type of a column of the row, or undefined when it isn't known. */
+export type ColumnTypes = (name: string) => ExprType | undefined;
+
+export interface TypeCheckResult {
+  type: ExprType;
+  errors: ExpressionError[];
+}
+
+type Param = 'any' | 'string' | 'number' | 'list' | 'sized';
+
+interface Signature {
+  params: Param[];
+  /** Trailing params that may be left out. */
+  optional?: number;
+  returns: ExprType;
+}
+
+/** The evaluator's functions; the receiver of `x.f(…)` is the first parameter. */
+const SIGNATURES = new Map<string, Signature>([
+  ['size', { params: ['sized'], returns: 'int' }],
+  ['string', { params: ['any'], returns: 'string' }],
+  ['int', { params: ['any'], returns: 'int' }],
+  ['uint', { params: ['any'], returns: 'uint' }],
+  ['double', { params: ['any'], returns: 'double' }],
+  ['bool', { params: ['any'], returns: 'bool' }],
+  ['dyn', { params: ['any'], returns: 'dyn' }],
+  ['contains', { params: ['string', 'string'], returns: 'bool' }],
+  ['startsWith', { params: ['string', 'string'], returns: 'bool' }],
+  ['endsWith', { params: ['string', 'string'], returns: 'bool' }],
+  ['matches', { params: ['string', 'string'], returns: 'bool' }],
+  ['lower', { params: ['string'], returns: 'string' }],
+  ['upper', { params: ['string'], returns: 'string' }],
+  ['lowerAscii', { params: ['string'], returns: 'string' }],
+  ['upperAscii', { params: ['string'], returns: 'string' }],
+  ['trim', { params: ['string'], returns: 'string' }],
+  ['slugify', { params: ['string'], returns: 'string' }],
+  ['replace', { params: ['string', 'string', 'string'], returns: 'string' }],
+  ['split', { params: ['string', 'string'], returns: 'list' }],
+  ['join', { params: ['list', 'string'], optional: 1, returns: 'string' }],
+  ['substring', { params: ['string', 'number', 'number'], optional: 1, returns: 'string' }],
+]);
+
+type Scope = Map<string, ExprType>;
+
+class CheckError extends Error {
+  constructor(message: string, readonly span: Span) {
+    super(message);
+  }
+}
+
+/**
+ * The type `expr` yields and every type error in it. `columns` gives the
+ * types of the row's columns; without it, or for columns it doesn't know,
+ * columns are `dyn`. Errors don't stop the check: the failing part is
+ * `dyn` from there on.
+ */
+export function checkTypes(expr: Expr, columns?: ColumnTypes): TypeCheckResult {
+  const errors: ExpressionError[] = [];
+  const type = new Checker(columns, errors).type(expr, new Map());
+  return { type, errors };
+}
+
+/** Whether a value of type `type` can go where `target` is expected. `dyn` and `null` always can. */
+export function assignable(type: ExprType, target: ExprType): boolean {
+  if (type === 'dyn' || type === 'null' || target === 'dyn' || type === target) return true;
+  return target === 'uint' && type === 'int';
+}
+
+/** `a bool`, `an int`-style phrase for messages. */
+export function describeType(type: ExprType): string {
+  switch (type) {
+    case 'int': return 'an int';
+    case 'uint': return 'a uint';
+    case 'dyn': return 'a value';
+    case 'null': return 'null';
+    default: return `a ${type}`;
+  }
+}
+
+class Checker {
+  constructor(private readonly columns: ColumnTypes | undefined, private readonly errors: ExpressionError[]) {}
+
+  type(expr: Expr, scope: Scope): ExprType {
+    try {
+      return this.infer(expr, scope);
+    } catch (error) {
+      if (!(error instanceof CheckError)) throw error;
+      this.errors.push({ message: error.message, start: error.span.start, end: error.span.end });
+      return 'dyn';
+    }
+  }
+
+  private infer(expr: Expr, scope: Scope): ExprType {
+    switch (expr.kind) {
+      case 'literal':
+        return literalType(expr.value, expr.raw);
+      case 'column':
+        return this.columns?.(expr.name) ?? 'dyn';
+      case 'ident': {
+        const type = scope.get(expr.name);
+        if (type) return type;
+        throw new CheckError(`Unknown name '${expr.name}'. Columns are written '.${expr.name}'.`, expr);
+      }
+      case 'member': {
+        const object = this.type(expr.object, scope);
+        if (object !== 'dyn' && object !== 'map' && object !== 'string') {
+          throw new CheckError(`Can't read '${expr.name}' from ${describeType(object)}.`, expr.nameSpan);
+        }
+        return 'dyn';
+      }
+      case 'index': {
+        const object = this.type(expr.object, scope);
+        const key = this.type(expr.index, scope);
+        if (object === 'list' && !isNumber(key) && key !== 'dyn') {
+          throw new CheckError(`List index must be an integer; got ${key}.`, expr.index);
+        }
+        if ((object === 'map' || object === 'string') && key !== 'string' && key !== 'dyn') {
+          throw new CheckError(`Map keys are strings; got ${key}.`, expr.index);
+        }
+        if (object !== 'dyn' && object !== 'list' && object !== 'map' && object !== 'string') {
+          throw new CheckError(`Can't index ${describeType(object)}.`, expr.index);
+        }
+        return 'dyn';
+      }
+      case 'call':
+        return MACROS.has(expr.name) ? this.macro(expr, scope) : this.call(expr, scope);
+      case 'unary': {
+        const operand = this.type(expr.operand, scope);
+        if (expr.op === '!') {
+          expectBool(operand, "'!'", expr.operand);
+          return 'bool';
+        }
+        if (!isNumber(operand) && operand !== 'dyn') throw new CheckError(`'-' needs a number; got ${operand}.`, expr.operand);
+        return operand === 'uint' ? 'int' : operand;
+      }
+      case 'binary':
+        return this.binary(expr, scope);
+      case 'conditional': {
+        expectBool(this.type(expr.test, scope), "'? :'", expr.test);
+        return unify(this.type(expr.consequent, scope), this.type(expr.alternate, scope));
+      }
+      case 'list':
+        expr.items.forEach(item => this.type(item, scope));
+        return 'list';
+      case 'map':
+        for (const entry of expr.entries) {
+          const key = this.type(entry.key, scope);
+          if (key !== 'string' && key !== 'dyn') {
+            this.errors.push({ message: `Map keys must be strings; got ${key}.`, start: entry.key.start, end: entry.key.end });
+          }
+          this.type(entry.value, scope);
+        }
+        return 'map';
+    }
+  }
+
+  private binary(expr: Expr & { kind: 'binary' }, scope: Scope): ExprType {
+    const op = expr.op;
+    const left = this.type(expr.left, scope);
+    const right = this.type(expr.right, scope);
+    switch (op) {
+      case '&&': case '||':
+        expectBool(left, `'${op}'`, expr.left);
+        expectBool(right, `'${op}'`, expr.right);
+        return 'bool';
+      case '==': case '!=':
+        return 'bool';
+      case 'in':
+        if (right !== 'dyn' && right !== 'list' && right !== 'map') {
+          throw new CheckError(`'in' needs a list or map on the right; got ${right}.`, expr.right);
+        }
+        return 'bool';
+      case '<': case '<=': case '>': case '>=':
+        if (!compatible(left, right, t => isNumber(t) || t === 'string')) {
+          throw new CheckError(`'${op}' compares two numbers or two strings; got ${left} and ${right}.`, expr.opSpan);
+        }
+        return 'bool';
+      case '+':
+        if (!compatible(left, right, t => isNumber(t) || t === 'string' || t === 'list')) {
+          throw new CheckError(
+            `'+' joins two strings, two numbers or two lists; got ${left} and ${right}. Use string() to convert.`,
+            expr.opSpan,
+          );
+        }
+        return unify(left, right);
+      default:
+        if ((!isNumber(left) && left !== 'dyn') || (!isNumber(right) && right !== 'dyn')) {
+          throw new CheckError(`'${op}' needs two numbers; got ${left} and ${right}.`, expr.opSpan);
+        }
+        return unify(left, right);
+    }
+  }
+
+  private call(expr: Expr & { kind: 'call' }, scope: Scope): ExprType {
+    const signature = SIGNATURES.get(expr.name);
+    if (!signature) throw new CheckError(`Unknown function '${expr.name}'.`, expr.nameSpan);
+    const args = expr.target ? [expr.target, ...expr.args] : expr.args;
+    const types = args.map(arg => this.type(arg, scope));
+    const { params, optional = 0, returns } = signature;
+    if (types.length > params.length || types.length < params.length - optional) {
+      const count = optional ? `${params.length - optional} or ${params.length}` : String(params.length);
+      throw new CheckError(
+        `${expr.name}() takes ${count} argument${params.length === 1 ? '' : 's'}${expr.target ? ' including its receiver' : ''}; got ${types.length}.`,
+        expr,
+      );
+    }
+    types.forEach((type, i) => {
+      // eslint-disable-next-line security/detect-object-injection -- i indexes types, which is no longer than params
+      const param = params[i];
+      if (!fits(type, param)) {
+        // eslint-disable-next-line security/detect-object-injection -- i indexes args
+        const arg = args[i];
+        this.errors.push({ message: `${expr.name}() needs ${describeParam(param)}; got ${type}.`, start: arg.start, end: arg.end });
+      }
+    });
+    return returns;
+  }
+
+  private macro(expr: Expr & { kind: 'call' }, scope: Scope): ExprType {
+    if (expr.name === 'has') {
+      const arg = expr.target ?? expr.args[0];
+      if (expr.target || expr.args.length !== 1 || !arg || (arg.kind !== 'member' && arg.kind !== 'column')) {
+        throw new CheckError('has() takes one field, as in has(.profile.email) or has(.email).', expr);
+      }
+      if (arg.kind === 'member') this.type(arg.object, scope);
+      return 'bool';
+    }
+
+    const [variable, body] = expr.args;
+    if (!expr.target || expr.args.length !== 2 || variable.kind !== 'ident') {
+      throw new CheckError(`${expr.name}() is called on a list with a variable and an expression, as in .groups.${expr.name}(g, g != "").`, expr);
+    }
+    const target = this.type(expr.target, scope);
+    if (target !== 'dyn' && target !== 'list' && target !== 'map') {
+      throw new CheckError(`${expr.name}() needs a list or map; got ${target}.`, expr.target);
+    }
+    const result = this.type(body, new Map(scope).set(variable.name, 'dyn'));
+    if (expr.name === 'map') return 'list';
+    expectBool(result, `${expr.name}()`, body);
+    return expr.name === 'filter' ? 'list' : 'bool';
+  }
+}
+
+/** `42` is an int, `42u` a uint, `4.2` and `4e2` doubles. */
+function literalType(value: string | number | boolean | null, raw: string): ExprType {
+  if (value === null) return 'null';
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'boolean') return 'bool';
+  if (/[uU]$/.test(raw)) return 'uint';
+  return /[.eE]/.test(raw) ? 'double' : 'int';
+}
+
+function isNumber(type: ExprType): boolean {
+  return type === 'int' || type === 'uint' || type === 'double';
+}
+
+function expectBool(type: ExprType, operator: string, span: Span): void {
+  if (type !== 'bool' && type !== 'dyn') throw new CheckError(`${operator} needs a boolean; got ${type}.`, span);
+}
+
+/** Whether two operands of a binary operator could be of one kind `allowed` accepts, as the operator requires. */
+function compatible(left: ExprType, right: ExprType, allowed: (type: ExprType) => boolean): boolean {
+  if ((left !== 'dyn' && !allowed(left)) || (right !== 'dyn' && !allowed(right))) return false;
+  if (left === 'dyn' || right === 'dyn') return true;
+  return left === right || (isNumber(left) && isNumber(right));
+}
+
+/** The type of a value that is either `a` or `b`. */
+function unify(a: ExprType, b: ExprType): ExprType {
+  if (a === b) return a;
+  if (a === 'dyn' || b === 'dyn') return 'dyn';
+  if (isNumber(a) && isNumber(b)) return a === 'double' || b === 'double' ? 'double' : 'int';
+  if (a === 'null') return b;
+  if (b === 'null') return a;
+  return 'dyn';
+}
+
+function fits(type: ExprType, param: Param): boolean {
+  if (type === 'dyn' || param === 'any') return true;
+  if (param === 'number') return isNumber(type);
+  if (param === 'sized') return type === 'string' || type === 'list' || type === 'map';
+  return type === param;
+}
+
+function describeParam(param: Param): string {
+  if (param === 'sized') return 'a string, list or map';
+  return param === 'any' ? 'a value' : `a ${param}`;
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateExpression, evaluateMapping } from './evaluator';
+
+const ROW = {
+  first_name: 'Ada',
+  last_name: 'Lovelace',
+  email: 'Ada@Example.com',
+  age: 36,
+  active: 1,
+  manager_id: null,
+  profile: '{"title":"Countess","groups":["eng-core","math"]}',
+};
+
+test('evaluateExpression: operators, functions and JSON columns', () => {
+  const value = (text: string) => evaluateExpression(text, ROW).value;
+  assert.equal(value('.first_name + " " + .last_name'), 'Ada Lovelace');
+  assert.equal(value('lower(.email)'), 'ada@example.com');
+  assert.equal(value('.email.endsWith("example.com")'), false);
+  assert.equal(value('slugify(.first_name + " " + .LAST_NAME)'), 'ada-lovelace');
+  assert.equal(value('.age >= 18 && .manager_id == null ? "adult" : "minor"'), 'adult');
+  assert.equal(value('.age / 5 + .age % 5'), 8);
+  assert.equal(value('string(.age) + "y"'), '36y');
+  assert.equal(value('.profile.title'), 'Countess');
+  assert.deepEqual(value('.profile.groups.filter(g, g.startsWith("eng-"))'), ['eng-core']);
+  assert.equal(value('.profile.groups.exists(g, g == "math") && has(.profile.title) && !has(.profile.x)'), true);
+  assert.equal(value('"math" in .profile.groups'), true);
+});
+
+test('evaluateExpression: evaluation errors carry the failing span', () => {
+  assert.deepEqual(evaluateExpression('lower(.emial)', ROW).error, {
+    message: "'.emial' is not a column of the query's result.", start: 6, end: 12,
+  });
+  assert.deepEqual(evaluateExpression('.first_name + .age', ROW).error, {
+    message: "'+' joins two strings, two numbers or two lists; got string and int. Use string() to convert.", start: 12, end: 13,
+  });
+  assert.deepEqual(evaluateExpression('.active && true', ROW).error, {
+    message: "'&&' needs a boolean; got int.", start: 0, end: 7,
+  });
+  assert.deepEqual(evaluateExpression('lowr(.email)', ROW).error, { message: "Unknown function 'lowr'.", start: 0, end: 4 });
+  assert.deepEqual(evaluateExpression('first_name', ROW).error, {
+    message: "Unknown name 'first_name'. Columns are written '.first_name'.", start: 0, end: 10,
+  });
+  assert.deepEqual(evaluateExpression('.email.contains(1)', ROW).error, {
+    message: 'contains() needs a string; got int.', start: 16, end: 17,
+  });
+  assert.deepEqual(evaluateExpression('.id', undefined).error, {
+    message: "'.id' reads a column, but there is no row here.", start: 0, end: 3,
+  });
+});
+
+test('evaluateMapping: text without columns is literal unless it is an expression', () => {
+  assert.deepEqual(evaluateMapping('enabled', ROW), { value: 'enabled' });
+  assert.deepEqual(evaluateMapping('Read-only access. See docs', ROW), { value: 'Read-only access. See docs' });
+  assert.deepEqual(evaluateMapping('true', ROW), { value: true });
+  assert.deepEqual(evaluateMapping('"quoted" + "!"', ROW), { value: 'quoted!' });
+  assert.deepEqual(evaluateMapping(42, ROW), { value: 42 });
+  assert.deepEqual(evaluateMapping('.first_name', ROW), { value: 'Ada' });
+  assert.equal(evaluateMapping('lower(.email', ROW).error?.message, "Missing ')' to close 'lower('.");
+});
@@ -0,0 +1,372 @@
+/**
+ * Evaluates mapping expressions against a row, the way the connector does
+ * when it maps query results. Values are plain JSON: strings, numbers,
+ * booleans, null, lists and maps. Operators are strict like CEL's: `+`
+ * joins two strings, two numbers or two lists, and `&&`, `||`, `!` and
+ * `? :` take booleans only, so mixing types is an error rather than a
+ * silent coercion.
+ */
+
+import { Expr, ExpressionError, isLiteralText, MACROS, parseExpression, Span } from './parser';
+
+export type Value = string | number | boolean | null | Value[] | { [key: string]: Value };
+
+/** The row an expression reads `.column`s from; undefined where there is none (static entitlements). */
+export type Row = Record<string, unknown>;
+
+export type EvaluationResult = { value: Value; error?: undefined } | { value?: undefined; error: ExpressionError };
+
+class EvaluationError extends Error {
+  constructor(message: string, readonly span: Span) {
+    super(message);
+  }
+}
+
+type Scope = Map<string, Value>;
+
+type Builtin = (args: Value[], call: Expr & { kind: 'call' }) => Value;
+
+/**
+ * Evaluate a mapping expression against `row`. Syntax and evaluation
+ * errors come back with the span of the failing part.
+ */
+export function evaluateExpression(text: string, row: Row | undefined): EvaluationResult {
+  const parsed = parseExpression(text);
+  if (parsed.error) return { error: parsed.error };
+  return evaluate(parsed.expr, row);
+}
+
+/**
+ * Evaluate a mapping field such as `id`, `display_name` or a trait. Text
+ * that references no column and doesn't parse, or names something other
+ * than a column (`enabled`, `Read only`), is taken as written, as the
+ * connector does; other text is an expression. Non-string YAML values are
+ * used as they are.
+ */
+export function evaluateMapping(value: unknown, row: Row | undefined): EvaluationResult {
+  if (typeof value !== 'string') return { value: toValue(value) };
+  const parsed = parseExpression(value);
+  if (isLiteralText(value, parsed)) return { value };
+  if (parsed.error) return { error: parsed.error };
+  return evaluate(parsed.expr, row);
+}
+
+/** Evaluate a parsed expression against `row`. */
+export function evaluate(expr: Expr, row: Row | undefined): EvaluationResult {
+  try {
+    return { value: new Evaluator(row).eval(expr, new Map()) };
+  } catch (error) {
+    if (error instanceof EvaluationError) return { error: { message: error.message, start: error.span.start, end: error.span.end } };
+    throw error;
+  }
+}
+
+class Evaluator {
+  constructor(private readonly row: Row | undefined) {}
+
+  eval(expr: Expr, scope: Scope): Value {
+    switch (expr.kind) {
+      case 'literal':
+        return expr.value;
+      case 'column':
+        return this.column(expr.name, expr);
+      case 'ident': {
+        if (scope.has(expr.name)) return scope.get(expr.name) ?? null;
+        throw new EvaluationError(`Unknown name '${expr.name}'. Columns are written '.${expr.name}'.`, expr);
+      }
+      case 'member':
+        return field(this.eval(expr.object, scope), expr.name, expr.nameSpan);
+      case 'index':
+        return index(this.eval(expr.object, scope), this.eval(expr.index, scope), expr.index);
+      case 'call':
+        return this.call(expr, scope);
+      case 'unary': {
+        const operand = this.eval(expr.operand, scope);
+        if (expr.op === '!') return !bool(operand, "'!'", expr.operand);
+        if (typeof operand !== 'number') throw new EvaluationError(`'-' needs a number; got ${typeName(operand)}.`, expr.operand);
+        return -operand;
+      }
+      case 'binary':
+        return this.binary(expr, scope);
+      case 'conditional':
+        return bool(this.eval(expr.test, scope), "'? :'", expr.test)
+          ? this.eval(expr.consequent, scope)
+          : this.eval(expr.alternate, scope);
+      case 'list':
+        return expr.items.map(item => this.eval(item, scope));
+      case 'map': {
+        const out: { [key: string]: Value } = {};
+        for (const entry of expr.entries) {
+          const key = this.eval(entry.key, scope);
+          if (typeof key !== 'string') throw new EvaluationError(`Map keys must be strings; got ${typeName(key)}.`, entry.key);
+          // eslint-disable-next-line security/detect-object-injection -- building a fresh object from the expression's own keys
+          out[key] = this.eval(entry.value, scope);
+        }
+        return out;
+      }
+    }
+  }
+
+  private column(name: string, span: Span): Value {
+    if (!this.row) throw new EvaluationError(`'.${name}' reads a column, but there is no row here.`, span);
+    if (Object.prototype.hasOwnProperty.call(this.row, name)) {
+      // eslint-disable-next-line security/detect-object-injection -- own property checked above
+      return toValue(this.row[name]);
+    }
+    const key = Object.keys(this.row).find(k => k.toLowerCase() === name.toLowerCase());
+    if (key === undefined) throw new EvaluationError(`'.${name}' is not a column of the query's result.`, span);
+    // eslint-disable-next-line security/detect-object-injection -- key is one of the row's own keys
+    return toValue(this.row[key]);
+  }
+
+  private binary(expr: Expr & { kind: 'binary' }, scope: Scope): Value {
+    const op = expr.op;
+    if (op === '&&' || op === '||') {
+      const left = bool(this.eval(expr.left, scope), `'${op}'`, expr.left);
+      if (op === '&&' ? !left : left) return left;
+      return bool(this.eval(expr.right, scope), `'${op}'`, expr.right);
+    }
+    const left = this.eval(expr.left, scope);
+    const right = this.eval(expr.right, scope);
+    switch (op) {
+      case '==': return equal(left, right);
+      case '!=': return !equal(left, right);
+      case 'in':
+        if (Array.isArray(right)) return right.some(item => equal(item, left));
+        if (isMap(right)) return typeof left === 'string' && Object.prototype.hasOwnProperty.call(right, left);
+        throw new EvaluationError(`'in' needs a list or map on the right; got ${typeName(right)}.`, expr.right);
+      case '<': case '<=': case '>': case '>=': {
+        if (!(typeof left === 'number' && typeof right === 'number') && !(typeof left === 'string' && typeof right === 'string')) {
+          throw new EvaluationError(`'${op}' compares two numbers or two strings; got ${typeName(left)} and ${typeName(right)}.`, expr.opSpan);
+        }
+        if (op === '<') return left < right;
+        if (op === '<=') return left <= right;
+        if (op === '>') return left > right;
+        return left >= right;
+      }
+      case '+':
+        if (typeof left === 'number' && typeof right === 'number') return left + right;
+        if (typeof left === 'string' && typeof right === 'string') return left + right;
+        if (Array.isArray(left) && Array.isArray(right)) return [...left, ...right];
+        throw new EvaluationError(
+          `'+' joins two strings, two numbers or two lists; got ${typeName(left)} and ${typeName(right)}. Use string() to convert.`,
+          expr.opSpan,
+        );
+      default: {
+        if (typeof left !== 'number' || typeof right !== 'number') {
+          throw new EvaluationError(`'${op}' needs two numbers; got ${typeName(left)} and ${typeName(right)}.`, expr.opSpan);
+        }
+        if (op === '-') return left - right;
+        if (op === '*') return left * right;
+        if (right === 0) throw new EvaluationError(op === '%' ? 'Modulus by zero.' : 'Division by zero.', expr.right);
+        if (op === '%') return left % right;
+        return Number.isInteger(left) && Number.isInteger(right) ? Math.trunc(left / right) : left / right;
+      }
+    }
+  }
+
+  private call(expr: Expr & { kind: 'call' }, scope: Scope): Value {
+    if (MACROS.has(expr.name)) return this.macro(expr, scope);
+    const builtin = BUILTINS.get(expr.name);
+    if (!builtin) throw new EvaluationError(`Unknown function '${expr.name}'.`, expr.nameSpan);
+    const args = (expr.target ? [expr.target, ...expr.args] : expr.args).map(arg => this.eval(arg, scope));
+    return builtin(args, expr);
+  }
+
+  private macro(expr: Expr & { kind: 'call' }, scope: Scope): Value {
+    if (expr.name === 'has') {
+      const arg = expr.target ?? expr.args[0];
+      if (expr.target || expr.args.length !== 1 || !arg || (arg.kind !== 'member' && arg.kind !== 'column')) {
+        throw new EvaluationError("has() takes one field, as in has(.profile.email) or has(.email).", expr);
+      }
+      if (arg.kind === 'column') {
+        return !!this.row && Object.keys(this.row).some(k => k.toLowerCase() === arg.name.toLowerCase());
+      }
+      const object = this.eval(arg.object, scope);
+      const map = typeof object === 'string' ? parseJson(object) : object;
+      return isMap(map) && Object.prototype.hasOwnProperty.call(map, arg.name);
+    }
+
+    const [variable, body] = expr.args;
+    if (!expr.target || expr.args.length !== 2 || variable.kind !== 'ident') {
+      throw new EvaluationError(`${expr.name}() is called on a list with a variable and an expression, as in .groups.${expr.name}(g, g != "").`, expr);
+    }
+    const target = this.eval(expr.target, scope);
+    const items = Array.isArray(target) ? target : isMap(target) ? Object.keys(target) : undefined;
+    if (!items) throw new EvaluationError(`${expr.name}() needs a list or map; got ${typeName(target)}.`, expr.target);
+    const run = (item: Value) => this.eval(body, new Map(scope).set(variable.name, item));
+    const test = (item: Value) => bool(run(item), `${expr.name}()`, body);
+    switch (expr.name) {
+      case 'all': return items.every(test);
+      case 'exists': return items.some(test);
+      case 'exists_one': return items.filter(test).length === 1;
+      case 'map': return items.map(run);
+      default: return items.filter(test);
+    }
+  }
+}
+
+/** `value.name` on a map, or on a string holding a JSON object (a JSON column). */
+function field(value: Value, name: string, span: Span): Value {
+  const map = typeof value === 'string' ? parseJson(value) : value;
+  if (!isMap(map)) throw new EvaluationError(`Can't read '${name}' from ${typeName(value)}.`, span);
+  if (!Object.prototype.hasOwnProperty.call(map, name)) throw new EvaluationError(`No field '${name}'.`, span);
+  // eslint-disable-next-line security/detect-object-injection -- own property checked above
+  return map[name];
+}
+
+function index(value: Value, key: Value, span: Span): Value {
+  if (Array.isArray(value)) {
+    if (typeof key !== 'number' || !Number.isInteger(key)) throw new EvaluationError(`List index must be an integer; got ${typeName(key)}.`, span);
+    if (key < 0 || key >= value.length) throw new EvaluationError(`Index ${key} is out of range for a list of ${value.length}.`, span);
+    // eslint-disable-next-line security/detect-object-injection -- bounds checked above
+    return value[key];
+  }
+  if (typeof key !== 'string') throw new EvaluationError(`Map keys are strings; got ${typeName(key)}.`, span);
+  return field(value, key, span);
+}
+
+function bool(value: Value, operator: string, span: Span): boolean {
+  if (typeof value !== 'boolean') throw new EvaluationError(`${operator} needs a boolean; got ${typeName(value)}.`, span);
+  return value;
+}
+
+function equal(a: Value, b: Value): boolean {
+  if (Array.isArray(a) || Array.isArray(b) || isMap(a) || isMap(b)) return JSON.stringify(a) === JSON.stringify(b);
+  return a === b;
+}
+
+function isMap(value: unknown): value is { [key: string]: Value } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseJson(text: string): Value | undefined {
+  if (!/^\s*[[{]/.test(text)) return undefined;
+  try {
+    return JSON.parse(text) as Value;
+  } catch {
+    return undefined;
+  }
+}
+
+/** A row value as an expression value: bigints as numbers, blobs as hex, `undefined` as null. */
+export function toValue(value: unknown): Value {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'bigint') return Number(value);
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('hex');
+  if (Array.isArray(value)) return value.map(toValue);
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toValue(v)]));
+  }
+  return value as Value;
+}
+
+/** The type as the error messages name it: `string`, `int`, `double`, `bool`, `null`, `list`, `map`. */
+export function typeName(value: Value): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'list';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'double';
+  if (typeof value === 'boolean') return 'bool';
+  if (typeof value === 'object') return 'map';
+  return 'string';
+}
+
+function expect<T extends Value>(
+  call: Expr & { kind: 'call' },
+  args: Value[],
+  types: string[],
+  check: (value: Value, type: string) => boolean,
+): T[] {
+  if (args.length !== types.length) {
+    throw new EvaluationError(`${call.name}() takes ${types.length} argument${types.length === 1 ? '' : 's'}${call.target ? ' including its receiver' : ''}; got ${args.length}.`, call);
+  }
+  args.forEach((arg, i) => {
+    // eslint-disable-next-line security/detect-object-injection -- i indexes args, which has types.length entries
+    const type = types[i];
+    if (!check(arg, type)) {
+      // eslint-disable-next-line security/detect-object-injection -- i indexes args
+      const at = call.target ? (i === 0 ? call.target : call.args[i - 1]) : call.args[i];
+      throw new EvaluationError(`${call.name}() needs ${type === 'any' ? 'a value' : `a ${type}`}; got ${typeName(arg)}.`, at ?? call);
+    }
+  });
+  return args as T[];
+}
+
+function matchesType(value: Value, type: string): boolean {
+  if (type === 'any') return true;
+  if (type === 'number') return typeof value === 'number';
+  return typeName(value) === type;
+}
+
+function stringFunction(arity: number, fn: (...args: string[]) => Value): Builtin {
+  return (args, call) => fn(...expect<string>(call, args, Array(arity).fill('string'), matchesType));
+}
+
+/** `Hello World!` → `hello-world` */
+function slugify(text: string): string {
+  return text.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+function toInt(value: Value, call: Expr & { kind: 'call' }, unsigned: boolean): number {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : typeof value === 'number' ? value : NaN;
+  if (!Number.isFinite(number)) throw new EvaluationError(`${call.name}() can't convert ${typeName(value)} ${JSON.stringify(value)}.`, call);
+  const result = Math.trunc(number);
+  if (unsigned && result < 0) throw new EvaluationError(`${call.name}() can't convert the negative number ${result}.`, call);
+  return result;
+}
+
+/** Functions callable as `f(x, …)` or `x.f(…)`; the receiver is the first argument. */
+const BUILTINS = new Map<string, Builtin>([
+  ['size', (args, call) => {
+    const [value] = expect(call, args, ['any'], v => typeof v === 'string' || Array.isArray(v) || isMap(v));
+    return typeof value === 'string' || Array.isArray(value) ? value.length : Object.keys(value as object).length;
+  }],
+  ['string', (args, call) => {
+    const [value] = expect(call, args, ['any'], matchesType);
+    return typeof value === 'string' ? value : typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  }],
+  ['int', (args, call) => toInt(expect(call, args, ['any'], matchesType)[0], call, false)],
+  ['uint', (args, call) => toInt(expect(call, args, ['any'], matchesType)[0], call, true)],
+  ['double', (args, call) => {
+    const [value] = expect(call, args, ['any'], matchesType);
+    const number = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+    if (!Number.isFinite(number)) throw new EvaluationError(`double() can't convert ${typeName(value)} ${JSON.stringify(value)}.`, call);
+    return number;
+  }],
+  ['bool', (args, call) => {
+    const [value] = expect(call, args, ['any'], matchesType);
+    if (typeof value === 'boolean') return value;
+    if (value === 'true' || value === 'false') return value === 'true';
+    throw new EvaluationError(`bool() can't convert ${typeName(value)} ${JSON.stringify(value)}.`, call);
+  }],
+  ['dyn', (args, call) => expect(call, args, ['any'], matchesType)[0]],
+  ['contains', stringFunction(2, (s, sub) => s.includes(sub))],
+  ['startsWith', stringFunction(2, (s, prefix) => s.startsWith(prefix))],
+  ['endsWith', stringFunction(2, (s, suffix) => s.endsWith(suffix))],
+  ['matches', (args, call) => {
+    const [s, pattern] = expect<string>(call, args, ['string', 'string'], matchesType);
+    try {
+      // eslint-disable-next-line security/detect-non-literal-regexp -- the pattern is the connector author's own
+      return new RegExp(pattern).test(s);
+    } catch (error) {
+      throw new EvaluationError(`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`, call.args[call.target ? 0 : 1] ?? call);
+    }
+  }],
+  ['lower', stringFunction(1, s => s.toLowerCase())],
+  ['upper', stringFunction(1, s => s.toUpperCase())],
+  ['lowerAscii', stringFunction(1, s => s.replace(/[A-Z]/g, c => c.toLowerCase()))],
+  ['upperAscii', stringFunction(1, s => s.replace(/[a-z]/g, c => c.toUpperCase()))],
+  ['trim', stringFunction(1, s => s.trim())],
+  ['slugify', stringFunction(1, slugify)],
+  ['replace', stringFunction(3, (s, from, to) => s.split(from).join(to))],
+  ['split', stringFunction(2, (s, separator) => s.split(separator))],
+  ['join', (args, call) => {
+    const [list, separator] = expect<Value>(call, args.length === 1 ? [...args, ''] : args, ['list', 'string'], matchesType);
+    return (list as Value[]).map(item => (typeof item === 'string' ? item : JSON.stringify(item))).join(separator as string);
+  }],
+  ['substring', (args, call) => {
+    const [s, start, end] = expect<Value>(call, args.length === 2 ? [...args, -1] : args, ['string', 'number', 'number'], matchesType);
+    const text = s as string;
+    return text.substring(start as number, (end as number) < 0 ? text.length : (end as number));
+  }],
+]);
@@ -0,0 +1,138 @@
+/**
+ * Where a connector document holds expressions: every mapping field the
+ * connector evaluates per row, found by YAML path.
+ */
+
+import { BatonDocument } from '../validation/document';
+import { ParsedQuery } from '../validation/parsedQuery';
+import { sequenceItems } from '../utils/yamlUtils';
+import { ExprType } from './checker';
+
+export interface ExpressionField {
+  /** YAML path of the value, like `['resource_types', 'user', 'list', 'map', 'id']`. */
+  path: (string | number)[];
+  /** The YAML value: usually the expression text, but plain YAML scalars are allowed too. */
+  value: unknown;
+  /**
+   * Mapping fields (`id`, `display_name`, traits, …) take text without
+   * column references as written; `skip_if` and the `exclusion_group`
+   * flags are always expressions.
+   */
+  literalAllowed: boolean;
+  /** The type the connector expects the field to yield, where the schema fixes one. */
+  target?: ExprType;
+}
+
+/** The parts of a resource type that hold expressions. */
+interface ResourceTypeYaml {
+  list?: { map?: unknown };
+  entitlements?: { map?: unknown[] };
+  static_entitlements?: unknown[];
+  grants?: ({ map?: ({ expandable?: unknown } | null)[] } | null)[];
+}
+
+/** User trait fields with a fixed type. List traits are YAML lists with one expression per item. */
+const USER_TRAIT_TYPES = new Map<string, ExprType>([
+  ['emails', 'list'],
+  ['login_aliases', 'list'],
+  ['employee_ids', 'list'],
+  ['mfa_enabled', 'bool'],
+  ['sso_enabled', 'bool'],
+]);
+
+/**
+ * Every expression-bearing field: `list.map` ids, names, descriptions and
+ * traits; entitlement mappings with their `skip_if` and `exclusion_group`;
+ * static entitlements' `exclusion_group`; and grant mappings'
+ * `principal_id`, `entitlement_id` and `skip_if`s.
+ */
+export function expressionFields(doc: BatonDocument): ExpressionField[] {
+  const fields: ExpressionField[] = [];
+  const add = (owner: unknown, key: string, path: (string | number)[], literalAllowed: boolean, target?: ExprType) => {
+    if (!owner || typeof owner !== 'object') return;
+    // eslint-disable-next-line security/detect-object-injection -- key is one of the fixed field names below
+    const value = (owner as Record<string, unknown>)[key];
+    if (value !== undefined && value !== null) fields.push({ path: [...path, key], value, literalAllowed, target });
+  };
+  const exclusionGroup = (owner: unknown, path: (string | number)[]) => {
+    if (!owner || typeof owner !== 'object') return;
+    const group = (owner as { exclusion_group?: unknown }).exclusion_group;
+    if (!group || typeof group !== 'object') return;
+    const base = [...path, 'exclusion_group'];
+    add(group, 'id', base, true);
+    add(group, 'order', base, false, 'uint');
+    for (const key of ['is_default', 'is_scope_to_resource']) add(group, key, base, false, 'bool');
+  };
+
+  const resourceTypes = doc.yaml?.resource_types;
+  if (!resourceTypes || typeof resourceTypes !== 'object') return fields;
+  for (const [rtId, rt] of Object.entries<ResourceTypeYaml | null>(resourceTypes)) {
+    if (!rt || typeof rt !== 'object') continue;
+    const base = ['resource_types', rtId];
+
+    const map = rt.list?.map;
+    if (map && typeof map === 'object') {
+      const path = [...base, 'list', 'map'];
+      for (const key of ['id', 'display_name', 'description']) add(map, key, path, true);
+      const { traits } = map as { traits?: unknown };
+      if (traits && typeof traits === 'object') collectTree(traits, [...path, 'traits'], fields);
+    }
+
+    sequenceItems(rt.entitlements?.map).forEach((m, i) => {
+      const path = [...base, 'entitlements', 'map', i];
+      for (const key of ['id', 'display_name', 'description']) add(m, key, path, true);
+      add(m, 'skip_if', path, false, 'bool');
+      exclusionGroup(m, path);
+    });
+
+    sequenceItems(rt.static_entitlements).forEach((e, i) => exclusionGroup(e, [...base, 'static_entitlements', i]));
+
+    sequenceItems(rt.grants).forEach((grant, g) => {
+      sequenceItems(grant?.map).forEach((m, j) => {
+        const path = [...base, 'grants', g, 'map', j];
+        for (const key of ['principal_id', 'entitlement_id']) add(m, key, path, true);
+        add(m, 'skip_if', path, false, 'bool');
+        if (m?.expandable && typeof m.expandable === 'object') add(m.expandable, 'skip_if', [...path, 'expandable'], false, 'bool');
+      });
+    });
+  }
+  return fields;
+}
+
+/**
+ * The query whose rows the field at `path` is evaluated against: the
+ * `list`, `entitlements` or `grants[i]` query it maps. Undefined for static
+ * entitlements, which have no query.
+ */
+export function fieldQuery(doc: BatonDocument, path: (string | number)[]): ParsedQuery | undefined {
+  const owner = path[2] === 'grants' ? path.slice(0, 4) : path.slice(0, 3);
+  if (owner[2] !== 'list' && owner[2] !== 'entitlements' && owner[2] !== 'grants') return undefined;
+  const queryPath = [...owner, 'query'];
+  // eslint-disable-next-line security/detect-object-injection -- index from every()
+  return doc.queries.find(q => q.yamlPath.length === queryPath.length && q.yamlPath.every((s, i) => s === queryPath[i]));
+}
+
+/** Every scalar in a traits tree. */
+function collectTree(node: unknown, path: (string | number)[], fields: ExpressionField[]): void {
+  if (Array.isArray(node)) {
+    node.forEach((item, i) => collectTree(item, [...path, i], fields));
+  } else if (node && typeof node === 'object') {
+    for (const [key, child] of Object.entries(node)) collectTree(child, [...path, key], fields);
+  } else if (node !== undefined && node !== null) {
+    fields.push({ path, value: node, literalAllowed: true, target: traitType(path) });
+  }
+}
+
+/**
+ * The type of a user trait scalar at `path`: a list trait written as one
+ * expression must yield a list, and each item of one written as a YAML
+ * list a string.
+ */
+function traitType(path: (string | number)[]): ExprType | undefined {
+  // path is resource_types.<rt>.list.map.traits.<role>.<key>…
+  const [role, key, ...rest] = path.slice(5);
+  if (role !== 'user' || typeof key !== 'string') return undefined;
+  const type = USER_TRAIT_TYPES.get(key);
+  if (rest.length === 0) return type;
+  return type === 'list' && rest.length === 1 ? 'string' : undefined;
+}
@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseExpression } from './parser';
+
+test('parseExpression: columns, calls, members and precedence', () => {
+  const { expr } = parseExpression('.first_name + " " + lower(.last_name)');
+  assert.equal(expr?.kind, 'binary');
+  assert.deepEqual([expr?.start, expr?.end], [0, 37]);
+
+  const member = parseExpression('.profile.email.endsWith("@example.com")').expr;
+  assert.equal(member?.kind === 'call' && member.target?.kind, 'member');
+
+  const logic = parseExpression('.a == 1 || .b && !.c').expr;
+  assert.equal(logic?.kind === 'binary' && logic.op, '||');
+
+  const ternary = parseExpression('.n > 0 ? [1, 2u, 3.5] : {"k": -1}').expr;
+  assert.equal(ternary?.kind, 'conditional');
+});
+
+test('parseExpression: syntax errors carry the offending span', () => {
+  assert.deepEqual(parseExpression('.first_name + + .last_name').error, {
+    message: "Expected an expression, found '+'.", start: 14, end: 15,
+  });
+  assert.deepEqual(parseExpression('lower(.email').error, {
+    message: "Missing ')' to close 'lower('.", start: 5, end: 12,
+  });
+  assert.deepEqual(parseExpression('.a + "x').error, { message: 'Unterminated string.', start: 5, end: 7 });
+  assert.deepEqual(parseExpression('.a)').error, { message: "Unmatched ')'.", start: 2, end: 3 });
+  assert.deepEqual(parseExpression('.a < .b < .c').error, {
+    message: "Unexpected '<'; comparisons don't chain.", start: 8, end: 9,
+  });
+  assert.deepEqual(parseExpression('.a #').error, { message: "Unexpected character '#'.", start: 3, end: 4 });
+  assert.deepEqual(parseExpression('.').error, { message: 'Expected a name after \'.\', found the end.', start: 1, end: 1 });
+});
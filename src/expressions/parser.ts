@@ -0,0 +1,499 @@
+/**
+ * Parser for the expression language of mapping fields (`map`, `traits`,
+ * `skip_if`, `exclusion_group`): CEL with jq-style column references, so
+ * `.login` reads the row's `login` column.
+ *
+ *   .first_name + " " + .last_name
+ *   lower(.email)
+ *   .status == "disabled" || !.active
+ *   .groups.exists(g, g.startsWith("eng-"))
+ *
+ * Every node carries its `start`/`end` offsets in the expression text, and
+ * syntax errors come back with the span of the offending token.
+ */
+
+/** Offsets into the expression text; `end` is exclusive. */
+export interface Span {
+  start: number;
+  end: number;
+}
+
+/** A syntax or evaluation error at a span of the expression text. */
+export interface ExpressionError extends Span {
+  message: string;
+}
+
+export type BinaryOperator = '||' | '&&' | '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | '+' | '-' | '*' | '/' | '%';
+
+export type Expr =
+  /** `"text"`, `42`, `1.5`, `3u`, `true`, `null`. `raw` is the source text. */
+  | Span & { kind: 'literal'; value: string | number | boolean | null; raw: string }
+  /** `.name`: a column of the row. */
+  | Span & { kind: 'column'; name: string }
+  /** A bare name: a macro variable such as `g` in `.groups.exists(g, …)`. */
+  | Span & { kind: 'ident'; name: string }
+  /** `object.name` */
+  | Span & { kind: 'member'; object: Expr; name: string; nameSpan: Span }
+  /** `object[index]` */
+  | Span & { kind: 'index'; object: Expr; index: Expr }
+  /** `name(args)`, or `target.name(args)` for a receiver-style call. */
+  | Span & { kind: 'call'; name: string; nameSpan: Span; target?: Expr; args: Expr[] }
+  | Span & { kind: 'unary'; op: '!' | '-'; operand: Expr }
+  | Span & { kind: 'binary'; op: BinaryOperator; left: Expr; right: Expr; opSpan: Span }
+  | Span & { kind: 'conditional'; test: Expr; consequent: Expr; alternate: Expr }
+  | Span & { kind: 'list'; items: Expr[] }
+  | Span & { kind: 'map'; entries: { key: Expr; value: Expr }[] };
+
+export type ParseResult = { expr: Expr; error?: undefined } | { expr?: undefined; error: ExpressionError };
+
+type TokenKind = 'number' | 'string' | 'ident' | 'punct' | 'end';
+
+interface Token extends Span {
+  kind: TokenKind;
+  /** Source text; for strings, the unescaped value. */
+  text: string;
+}
+
+const PUNCTUATION = ['&&', '||', '==', '!=', '<=', '>=', '.', ',', '(', ')', '[', ']', '{', '}', ':', '?', '!', '-', '+', '*', '/', '%', '<', '>'];
+const RELATIONS = new Set(['==', '!=', '<', '<=', '>', '>=', 'in']);
+const KEYWORDS = new Map<string, boolean | null>([['true', true], ['false', false], ['null', null]]);
+const ESCAPES = new Map([['n', '\n'], ['t', '\t'], ['r', '\r'], ['\\', '\\'], ['"', '"'], ["'", "'"], ['`', '`'], ['?', '?']]);
+const CLOSERS = new Map([['(', ')'], ['[', ']'], ['{', '}']]);
+
+class ParseError extends Error {
+  /** `resume` is where scanning can pick up again, when that isn't the end of `span`. */
+  constructor(message: string, readonly span: Span, readonly resume?: number) {
+    super(message);
+  }
+}
+
+function isIdentStart(ch: string): boolean {
+  return /[A-Za-z_]/.test(ch);
+}
+
+function isIdentPart(ch: string): boolean {
+  return /\w/.test(ch);
+}
+
+function isDigit(ch: string): boolean {
+  return ch >= '0' && ch <= '9';
+}
+
+/**
+ * Split `text` into tokens, ending with an `end` token. Lexical errors are
+ * skipped over so the tokens around them can still be scanned; the first
+ * one is returned. An unterminated string runs to the end.
+ */
+function tokenize(text: string): { tokens: Token[]; error?: ParseError } {
+  const tokens: Token[] = [];
+  let error: ParseError | undefined;
+  let i = 0;
+  while (i < text.length) {
+    // eslint-disable-next-line security/detect-object-injection -- i indexes the string
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    try {
+      const token = readToken(text, i);
+      tokens.push(token);
+      i = token.end;
+    } catch (e) {
+      if (!(e instanceof ParseError)) throw e;
+      error ??= e;
+      i = e.resume ?? Math.max(e.span.end, i + 1);
+    }
+  }
+  tokens.push({ kind: 'end', text: '', start: text.length, end: text.length });
+  return { tokens, error };
+}
+
+function readToken(text: string, start: number): Token {
+  // eslint-disable-next-line security/detect-object-injection -- start indexes the string
+  const ch = text[start];
+  let i = start;
+  if (isDigit(ch)) {
+    while (i < text.length && isDigit(text.charAt(i))) i++;
+    if (text.charAt(i) === '.' && isDigit(text.charAt(i + 1))) {
+      i++;
+      while (i < text.length && isDigit(text.charAt(i))) i++;
+    }
+    if (/[eE]/.test(text.charAt(i)) && /[\d+-]/.test(text.charAt(i + 1))) {
+      i += 2;
+      while (i < text.length && isDigit(text.charAt(i))) i++;
+    }
+    if (/[uU]/.test(text.charAt(i))) i++;
+    if (isIdentPart(text.charAt(i))) throw new ParseError(`Invalid number '${text.slice(start, i + 1)}'.`, { start, end: i + 1 });
+    return { kind: 'number', text: text.slice(start, i), start, end: i };
+  }
+  if (isIdentStart(ch)) {
+    while (i < text.length && isIdentPart(text.charAt(i))) i++;
+    return { kind: 'ident', text: text.slice(start, i), start, end: i };
+  }
+  if (ch === '"' || ch === "'") {
+    const { value, end } = readString(text, start);
+    return { kind: 'string', text: value, start, end };
+  }
+  const punct = PUNCTUATION.find(p => text.startsWith(p, start));
+  if (!punct) throw new ParseError(`Unexpected character '${ch}'.`, { start, end: start + 1 });
+  return { kind: 'punct', text: punct, start, end: start + punct.length };
+}
+
+/** A quoted string starting at `start`, with CEL's escapes. */
+function readString(text: string, start: number): { value: string; end: number } {
+  // eslint-disable-next-line security/detect-object-injection -- start indexes the string
+  const quote = text[start];
+  let value = '';
+  let badEscape: Span | undefined;
+  let i = start + 1;
+  while (i < text.length) {
+    // eslint-disable-next-line security/detect-object-injection -- i indexes the string
+    const ch = text[i];
+    if (ch === quote) {
+      if (badEscape) {
+        const escape = text.slice(badEscape.start, badEscape.end);
+        throw new ParseError(`Unknown escape '${escape}' in string.`, badEscape, i + 1);
+      }
+      return { value, end: i + 1 };
+    }
+    if (ch === '\n') break;
+    if (ch !== '\\') {
+      value += ch;
+      i++;
+      continue;
+    }
+    const next = text[i + 1] ?? '';
+    const escaped = ESCAPES.get(next);
+    if (escaped !== undefined) {
+      value += escaped;
+      i += 2;
+    } else if (next === 'u' && /^[\da-fA-F]{4}$/.test(text.slice(i + 2, i + 6))) {
+      value += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+      i += 6;
+    } else {
+      badEscape ??= { start: i, end: i + 2 };
+      i += 2;
+    }
+  }
+  throw new ParseError('Unterminated string.', { start, end: i });
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly source: string, private readonly tokens: Token[]) {}
+
+  parse(): Expr {
+    const expr = this.conditional();
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      if (next.kind === 'punct' && [')', ']', '}'].includes(next.text)) {
+        throw new ParseError(`Unmatched '${next.text}'.`, next);
+      }
+      throw new ParseError(`Unexpected ${describe(next)} after the expression.`, next);
+    }
+    return expr;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.kind !== 'end') this.pos++;
+    return token;
+  }
+
+  private at(text: string): boolean {
+    const token = this.peek();
+    return (token.kind === 'punct' || token.kind === 'ident') && token.text === text;
+  }
+
+  private accept(text: string): Token | undefined {
+    return this.at(text) ? this.next() : undefined;
+  }
+
+  /** The closer of the group `open` started, or a syntax error pointing at what came instead. */
+  private close(open: Token, what: string): Token {
+    const closer = CLOSERS.get(open.text) ?? ')';
+    const token = this.accept(closer);
+    if (token) return token;
+    const found = this.peek();
+    const message = found.kind === 'end'
+      ? `Missing '${closer}' to close ${what}.`
+      : `Expected '${closer}' to close ${what}, found ${describe(found)}.`;
+    throw new ParseError(message, found.kind === 'end' ? { start: open.start, end: found.end } : found);
+  }
+
+  private conditional(): Expr {
+    const test = this.binary(0);
+    if (!this.accept('?')) return test;
+    const consequent = this.conditional();
+    if (!this.accept(':')) {
+      throw new ParseError(`Expected ':' in the conditional, found ${describe(this.peek())}.`, this.peek());
+    }
+    const alternate = this.conditional();
+    return { kind: 'conditional', test, consequent, alternate, start: test.start, end: alternate.end };
+  }
+
+  /** Binary operators by precedence level: `||`, `&&`, relations, `+ -`, `* / %`. */
+  private binary(level: number): Expr {
+    if (level > 4) return this.unary();
+    let left = this.binary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (!isOperatorAt(token, level)) return left;
+      this.next();
+      const right = this.binary(level + 1);
+      left = {
+        kind: 'binary',
+        op: token.text as BinaryOperator,
+        left,
+        right,
+        opSpan: { start: token.start, end: token.end },
+        start: left.start,
+        end: right.end,
+      };
+      // Relations don't chain in CEL: `a < b < c` is an error.
+      if (level === 2 && isOperatorAt(this.peek(), 2)) {
+        throw new ParseError(`Unexpected ${describe(this.peek())}; comparisons don't chain.`, this.peek());
+      }
+    }
+  }
+
+  private unary(): Expr {
+    const token = this.peek();
+    if (token.kind === 'punct' && (token.text === '!' || token.text === '-')) {
+      this.next();
+      const operand = this.unary();
+      if (token.text === '-' && operand.kind === 'literal' && typeof operand.value === 'number') {
+        return { ...operand, value: -operand.value, raw: `-${operand.raw}`, start: token.start };
+      }
+      return { kind: 'unary', op: token.text, operand, start: token.start, end: operand.end };
+    }
+    return this.postfix(this.primary());
+  }
+
+  private postfix(expr: Expr): Expr {
+    for (;;) {
+      if (this.at('.')) {
+        this.next();
+        const name = this.name('after \'.\'');
+        if (this.at('(')) {
+          const { args, end } = this.args(name.text);
+          expr = { kind: 'call', name: name.text, nameSpan: span(name), target: expr, args, start: expr.start, end };
+        } else {
+          expr = { kind: 'member', object: expr, name: name.text, nameSpan: span(name), start: expr.start, end: name.end };
+        }
+      } else if (this.at('[')) {
+        const open = this.next();
+        const index = this.conditional();
+        const close = this.close(open, 'the index');
+        expr = { kind: 'index', object: expr, index, start: expr.start, end: close.end };
+      } else {
+        return expr;
+      }
+    }
+  }
+
+  private primary(): Expr {
+    const token = this.next();
+    switch (token.kind) {
+      case 'number':
+        return numberLiteral(token);
+      case 'string':
+        return { kind: 'literal', value: token.text, raw: this.source.slice(token.start, token.end), start: token.start, end: token.end };
+      case 'ident': {
+        if (KEYWORDS.has(token.text)) {
+          return { kind: 'literal', value: KEYWORDS.get(token.text) ?? null, raw: token.text, start: token.start, end: token.end };
+        }
+        if (token.text === 'in') throw new ParseError("Expected an expression, found 'in'.", token);
+        if (this.at('(')) {
+          const { args, end } = this.args(token.text);
+          return { kind: 'call', name: token.text, nameSpan: span(token), args, start: token.start, end };
+        }
+        return { kind: 'ident', name: token.text, start: token.start, end: token.end };
+      }
+      case 'punct':
+        if (token.text === '.') {
+          const name = this.name("after '.'");
+          return { kind: 'column', name: name.text, start: token.start, end: name.end };
+        }
+        if (token.text === '(') {
+          const inner = this.conditional();
+          const close = this.close(token, "'('");
+          return { ...inner, start: token.start, end: close.end };
+        }
+        if (token.text === '[') return this.list(token);
+        if (token.text === '{') return this.map(token);
+        break;
+      case 'end':
+        throw new ParseError('Expected an expression at the end.', token);
+    }
+    throw new ParseError(`Expected an expression, found ${describe(token)}.`, token);
+  }
+
+  private name(where: string): Token {
+    const token = this.peek();
+    if (token.kind !== 'ident') {
+      throw new ParseError(`Expected a name ${where}, found ${describe(token)}.`, token);
+    }
+    return this.next();
+  }
+
+  /** `(a, b)` after the name of a function; the current token is `(`. */
+  private args(callee: string): { args: Expr[]; end: number } {
+    const open = this.next();
+    const args = this.items(open);
+    return { args, end: this.close(open, `'${callee}('`).end };
+  }
+
+  /** Comma-separated expressions up to (not including) the closer of `open`; a trailing comma is allowed. */
+  private items(open: Token): Expr[] {
+    const items: Expr[] = [];
+    const closer = CLOSERS.get(open.text) ?? ')';
+    while (!this.at(closer) && this.peek().kind !== 'end') {
+      items.push(this.conditional());
+      if (!this.accept(',')) break;
+    }
+    return items;
+  }
+
+  private list(open: Token): Expr {
+    const items = this.items(open);
+    const close = this.close(open, 'the list');
+    return { kind: 'list', items, start: open.start, end: close.end };
+  }
+
+  private map(open: Token): Expr {
+    const entries: { key: Expr; value: Expr }[] = [];
+    while (!this.at('}') && this.peek().kind !== 'end') {
+      const key = this.conditional();
+      if (!this.accept(':')) {
+        throw new ParseError(`Expected ':' after the map key, found ${describe(this.peek())}.`, this.peek());
+      }
+      entries.push({ key, value: this.conditional() });
+      if (!this.accept(',')) break;
+    }
+    const close = this.close(open, 'the map');
+    return { kind: 'map', entries, start: open.start, end: close.end };
+  }
+}
+
+function isOperatorAt(token: Token, level: number): boolean {
+  if (token.kind !== 'punct' && !(token.kind === 'ident' && token.text === 'in')) return false;
+  switch (level) {
+    case 0: return token.text === '||';
+    case 1: return token.text === '&&';
+    case 2: return RELATIONS.has(token.text);
+    case 3: return token.text === '+' || token.text === '-';
+    case 4: return token.text === '*' || token.text === '/' || token.text === '%';
+  }
+  return false;
+}
+
+function numberLiteral(token: Token): Expr {
+  const unsigned = /[uU]$/.test(token.text);
+  const value = Number(unsigned ? token.text.slice(0, -1) : token.text);
+  if (unsigned && !Number.isInteger(value)) {
+    throw new ParseError(`Invalid number '${token.text}': only integers take the 'u' suffix.`, token);
+  }
+  return { kind: 'literal', value, raw: token.text, start: token.start, end: token.end };
+}
+
+function span(token: Token): Span {
+  return { start: token.start, end: token.end };
+}
+
+function describe(token: Token): string {
+  if (token.kind === 'end') return 'the end';
+  if (token.kind === 'string') return 'a string';
+  return `'${token.text}'`;
+}
+
+/**
+ * Parse one expression. Errors carry the span of the token where parsing
+ * stopped; an unclosed group spans from its opener to the end.
+ */
+export function parseExpression(text: string): ParseResult {
+  try {
+    const { tokens, error } = tokenize(text);
+    if (error) throw error;
+    return { expr: new Parser(text, tokens).parse() };
+  } catch (error) {
+    if (error instanceof ParseError) return { error: { message: error.message, start: error.span.start, end: error.span.end } };
+    throw error;
+  }
+}
+
+/** Calls that bind or inspect their arguments rather than evaluating them: `has(.col)`, `list.exists(x, pred)`. */
+export const MACROS = new Set(['has', 'all', 'exists', 'exists_one', 'map', 'filter']);
+
+/** The direct subexpressions of `expr`, in source order. */
+export function children(expr: Expr): Expr[] {
+  switch (expr.kind) {
+    case 'member': return [expr.object];
+    case 'index': return [expr.object, expr.index];
+    case 'call': return expr.target ? [expr.target, ...expr.args] : expr.args;
+    case 'unary': return [expr.operand];
+    case 'binary': return [expr.left, expr.right];
+    case 'conditional': return [expr.test, expr.consequent, expr.alternate];
+    case 'list': return expr.items;
+    case 'map': return expr.entries.flatMap(e => [e.key, e.value]);
+    default: return [];
+  }
+}
+
+/** Every `.column` node in `expr`, in source order. */
+export function columnNodes(expr: Expr): (Expr & { kind: 'column' })[] {
+  return expr.kind === 'column' ? [expr] : children(expr).flatMap(columnNodes);
+}
+
+/** Whether `expr` names a variable outside any macro that could bind it. */
+function hasBareName(expr: Expr): boolean {
+  if (expr.kind === 'ident') return true;
+  if (expr.kind === 'call' && MACROS.has(expr.name) && expr.name !== 'has') return false;
+  return children(expr).some(hasBareName);
+}
+
+/**
+ * The columns an expression reads, unique, in first-occurrence order.
+ * `.profile.first_name` reads `profile`. Text that doesn't parse is
+ * scanned token by token up to any lexical error, so rules still see the
+ * columns of a half-written expression: a `.name` counts unless it
+ * directly follows an operand, as in `a.name`.
+ */
+export function columnReferences(text: string): string[] {
+  const parsed = parseExpression(text);
+  const names = parsed.expr
+    ? columnNodes(parsed.expr).map(c => c.name)
+    : scanColumns(tokenize(text).tokens);
+  return [...new Set(names)];
+}
+
+function scanColumns(tokens: Token[]): string[] {
+  const names: string[] = [];
+  tokens.forEach((token, i) => {
+    if (token.kind !== 'punct' || token.text !== '.') return;
+    const name = tokens[i + 1];
+    if (name?.kind !== 'ident') return;
+    const before = tokens[i - 1];
+    const afterOperand = before && before.end === token.start
+      && (before.kind === 'ident' || before.kind === 'number' || before.kind === 'string' || [')', ']', '}'].includes(before.text));
+    if (!afterOperand) names.push(name.text);
+  });
+  return names;
+}
+
+/**
+ * Whether a mapping field's text is used as written rather than evaluated:
+ * it reads no column, and it either doesn't parse (`Read-only access`) or
+ * names something other than a column (`enabled`). Text like `true`, `42`
+ * or `"a" + "b"` is still an expression.
+ */
+export function isLiteralText(text: string, parsed: ParseResult = parseExpression(text)): boolean {
+  if (parsed.error) return columnReferences(text).length === 0;
+  return columnNodes(parsed.expr).length === 0 && hasBareName(parsed.expr);
+}
@@ -0,0 +1,58 @@
+/**
+ * The sandbox for one connector file: its fixtures found through the
+ * configuration, its queries run against them. Shared by the language
+ * server's Run Sandbox command and `baton-sql-lint sandbox`.
+ */
+
+import * as path from 'path';
+import { BatonSqlConfig, resolveGlobs } from '../validation/config';
+import { buildBatonDocument } from '../validation/document';
+import { findFixtureFiles, LoadedFixtures, loadFixtures } from './fixtures';
+import { MappingSample, runSandbox, sampleMappings, SandboxOutput } from './sandbox';
+
+/** Where fixtures are looked for, relative to the connector file, when `fixtures` isn't configured. */
+export const DEFAULT_FIXTURES = 'fixtures/**';
+
+export interface ConnectorSandboxResult extends SandboxOutput {
+  fixtures: {
+    /** Number of fixture tables loaded. */
+    tables: number;
+    /** Fixture files that couldn't be read or parsed, as `file: message`. */
+    errors: string[];
+  };
+}
+
+/**
+ * Run the sandbox for the connector at `filePath`. Fixtures come from
+ * `config.fixtures`, else `fixtures/**` next to the file. Throws with a
+ * user-facing message when SQLite isn't available.
+ */
+export function runConnectorSandbox(filePath: string, content: string, config: BatonSqlConfig): ConnectorSandboxResult {
+  const { tables, errors } = connectorFixtures(filePath, config);
+  const output = runSandbox(buildBatonDocument(content, config.dialect), tables);
+  return { ...output, fixtures: { tables: tables.length, errors } };
+}
+
+/** `runConnectorSandbox`, plus the first row each `map` block mapped. */
+export function sampleConnectorMappings(
+  filePath: string,
+  content: string,
+  config: BatonSqlConfig,
+): ConnectorSandboxResult & { samples: MappingSample[] } {
+  const { tables, errors } = connectorFixtures(filePath, config);
+  const { samples, output } = sampleMappings(buildBatonDocument(content, config.dialect), tables);
+  return { ...output, samples, fixtures: { tables: tables.length, errors } };
+}
+
+/** The fixture files the sandbox would load for the connector at `filePath`. */
+export function connectorFixtureFiles(filePath: string, config: BatonSqlConfig): string[] {
+  return findFixtureFiles(fixtureGlobs(filePath, config));
+}
+
+function connectorFixtures(filePath: string, config: BatonSqlConfig): LoadedFixtures {
+  return loadFixtures(fixtureGlobs(filePath, config));
+}
+
+function fixtureGlobs(filePath: string, config: BatonSqlConfig): string[] {
+  return config.fixtures ?? resolveGlobs([DEFAULT_FIXTURES], path.dirname(path.resolve(filePath)));
+}
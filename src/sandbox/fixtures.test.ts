@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadFixtures, parseFixtureCsv, parseFixtureYaml } from './fixtures';
+
+test('parseFixtureYaml: tables of rows, schema-qualified names, column union', () => {
+  const { tables, errors } = parseFixtureYaml(`
+users:
+  - { id: 1, login: alice }
+  - { id: 2, login: bob, manager_id: 1 }
+public.roles:
+  - { id: admin }
+broken: 3
+`);
+  assert.deepEqual(errors, ["'broken' must be a list of rows."]);
+  assert.deepEqual(tables.map(t => [t.schema, t.name, t.columns]), [
+    [undefined, 'users', ['id', 'login', 'manager_id']],
+    ['public', 'roles', ['id']],
+  ]);
+});
+
+test('parseFixtureCsv: quoting, NULLs and numbers', () => {
+  const csv = 'id,name,note\r\n1,"Smith, Jo",\n2,"say ""hi""",""\n007x,"multi\nline",3.5\n';
+  const { tables, errors } = parseFixtureCsv(csv, 'people');
+  assert.deepEqual(errors, []);
+  assert.deepEqual(tables[0].rows, [
+    { id: 1, name: 'Smith, Jo', note: null },
+    { id: 2, name: 'say "hi"', note: '' },
+    { id: '007x', name: 'multi\nline', note: 3.5 },
+  ]);
+  assert.match(parseFixtureCsv('a,b\n1\n', 't').errors[0], /Line 2 has 1 fields; the header has 2/);
+});
+
+test('loadFixtures: reads YAML and CSV files and concatenates same-named tables', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'baton-sql-fixtures-'));
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    fs.writeFileSync(path.join(root, 'a.yaml'), 'users:\n  - { id: 1 }\n');
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    fs.writeFileSync(path.join(root, 'users.csv'), 'id,login\n2,bob\n');
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    fs.writeFileSync(path.join(root, 'notes.txt'), 'ignored');
+    const { tables, errors } = loadFixtures([`${root.split(path.sep).join('/')}/**`]);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(tables.map(t => [t.name, t.columns, t.rows.length]), [['users', ['id', 'login'], 2]]);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,206 @@
+/**
+ * Fixture tables for the sandbox: rows of sample data, read from YAML or
+ * CSV files, that stand in for the connector's database.
+ *
+ * A YAML file maps table names to lists of rows:
+ *
+ *   users:
+ *     - { id: 1, login: alice, manager_id: null }
+ *     - { id: 2, login: bob, manager_id: 1 }
+ *   public.roles:            # schema-qualified
+ *     - { id: admin, name: Administrators }
+ *
+ * A CSV file is one table, named after the file (`users.csv`,
+ * `public.roles.csv`), with a header row of column names.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { findMatchingFiles } from '../validation/config';
+
+/** A fixture cell: what YAML scalars and CSV fields turn into. */
+export type FixtureValue = string | number | boolean | null | object;
+
+export interface FixtureTable {
+  schema?: string;
+  name: string;
+  /** Every column any row sets, in first-seen order. */
+  columns: string[];
+  rows: Record<string, FixtureValue>[];
+}
+
+export interface LoadedFixtures {
+  tables: FixtureTable[];
+  /** Problems with the input, as `file: message`. Whatever parsed is still used. */
+  errors: string[];
+}
+
+const FIXTURE_FILE = /\.(?:ya?ml|csv)$/i;
+const NUMBER = /^-?\d[\d.]*$/;
+
+/**
+ * Parse a YAML fixture file. Rows must be mappings; nested values are kept
+ * as objects (stored as JSON text).
+ */
+export function parseFixtureYaml(content: string): { tables: FixtureTable[]; errors: string[] } {
+  const errors: string[] = [];
+  let raw: unknown;
+  try {
+    raw = parseYaml(content);
+  } catch (error) {
+    return { tables: [], errors: [error instanceof Error ? error.message : String(error)] };
+  }
+  if (raw === null || raw === undefined) return { tables: [], errors };
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { tables: [], errors: ['Expected a mapping of table names to lists of rows.'] };
+  }
+
+  const tables: FixtureTable[] = [];
+  for (const [key, rows] of Object.entries(raw as Record<string, unknown>)) {
+    if (!Array.isArray(rows)) {
+      errors.push(`'${key}' must be a list of rows.`);
+      continue;
+    }
+    const table = emptyTable(key);
+    rows.forEach((row, i) => {
+      if (!row || typeof row !== 'object' || Array.isArray(row)) {
+        errors.push(`'${key}' row ${i + 1} must be a mapping of column names to values.`);
+        return;
+      }
+      addRow(table, row as Record<string, FixtureValue>);
+    });
+    tables.push(table);
+  }
+  return { tables, errors };
+}
+
+/**
+ * Parse a CSV fixture file as table `tableName`. Unquoted empty fields are
+ * NULL and unquoted numbers are numbers; everything else is text.
+ */
+export function parseFixtureCsv(content: string, tableName: string): { tables: FixtureTable[]; errors: string[] } {
+  const records = parseCsv(content);
+  const header = records.shift();
+  if (!header) return { tables: [], errors: ['Expected a header row of column names.'] };
+
+  const errors: string[] = [];
+  const table = emptyTable(tableName);
+  table.columns = header.map(f => f.text);
+  records.forEach((record, i) => {
+    if (record.length === 1 && record[0].text === '' && !record[0].quoted) return;
+    if (record.length !== header.length) {
+      errors.push(`Line ${i + 2} has ${record.length} fields; the header has ${header.length}.`);
+    }
+    const row: Record<string, FixtureValue> = {};
+    header.forEach((column, j) => {
+      // eslint-disable-next-line security/detect-object-injection -- index from forEach
+      const field = record[j];
+      row[column.text] = !field || (!field.quoted && field.text === '') ? null
+        : !field.quoted && NUMBER.test(field.text) && Number.isFinite(Number(field.text)) ? Number(field.text)
+        : field.text;
+    });
+    table.rows.push(row);
+  });
+  return { tables: [table], errors };
+}
+
+/** The YAML and CSV files matching `globs` (absolute, as in the config). */
+export function findFixtureFiles(globs: string[]): string[] {
+  return findMatchingFiles(globs).filter(f => FIXTURE_FILE.test(f));
+}
+
+/**
+ * Read every YAML and CSV file matching `globs` (absolute, as in the
+ * config). Tables with the same name across files are concatenated.
+ */
+export function loadFixtures(globs: string[]): LoadedFixtures {
+  const byName = new Map<string, FixtureTable>();
+  const errors: string[] = [];
+  for (const filePath of findFixtureFiles(globs)) {
+    let content: string;
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- file found by findMatchingFiles
+      content = fs.readFileSync(filePath, 'utf8');
+    } catch (error) {
+      errors.push(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    const parsed = /\.csv$/i.test(filePath)
+      ? parseFixtureCsv(content, path.basename(filePath).replace(/\.csv$/i, ''))
+      : parseFixtureYaml(content);
+    errors.push(...parsed.errors.map(e => `${filePath}: ${e}`));
+    for (const table of parsed.tables) {
+      const key = `${table.schema ?? ''}.${table.name}`.toLowerCase();
+      const existing = byName.get(key);
+      if (!existing) {
+        byName.set(key, table);
+        continue;
+      }
+      for (const row of table.rows) addRow(existing, row);
+    }
+  }
+  return { tables: [...byName.values()], errors };
+}
+
+function emptyTable(qualified: string): FixtureTable {
+  const dot = qualified.indexOf('.');
+  return dot > 0
+    ? { schema: qualified.slice(0, dot), name: qualified.slice(dot + 1), columns: [], rows: [] }
+    : { name: qualified, columns: [], rows: [] };
+}
+
+function addRow(table: FixtureTable, row: Record<string, FixtureValue>): void {
+  for (const column of Object.keys(row)) {
+    if (!table.columns.includes(column)) table.columns.push(column);
+  }
+  table.rows.push(row);
+}
+
+/** A CSV field, and whether it was quoted (a quoted empty field is an empty string, not NULL). */
+interface CsvField {
+  text: string;
+  quoted: boolean;
+}
+
+/** RFC 4180 records: `"` quotes fields, `""` escapes a quote, and quoted fields may span lines. */
+function parseCsv(content: string): CsvField[][] {
+  const records: CsvField[][] = [];
+  let record: CsvField[] = [];
+  let field: CsvField = { text: '', quoted: false };
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+    const c = text[i];
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field.text += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        field.text += c;
+      }
+    } else if (c === '"' && field.text === '') {
+      inQuotes = true;
+      field.quoted = true;
+    } else if (c === ',') {
+      record.push(field);
+      field = { text: '', quoted: false };
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = { text: '', quoted: false };
+    } else {
+      field.text += c;
+    }
+  }
+  if (field.text !== '' || field.quoted || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
@@ -0,0 +1,177 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildBatonDocument } from '../validation/document';
+import { parseFixtureYaml } from './fixtures';
+import { runSandbox, sampleMappings } from './sandbox';
+
+/** The sandbox runs on `node:sqlite`, which Node.js only ships from 22.13. */
+const hasSqlite = (() => {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports -- probing for an optional built-in
+    require('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+const FIXTURES = parseFixtureYaml(`
+users:
+  - { id: 1, login: alice, email: alice@example.com }
+  - { id: 2, login: bob, email: null }
+  - { id: 3, login: carol, email: carol@example.com }
+public.roles:
+  - { id: admin, name: Administrators }
+  - { id: viewer, name: Viewers }
+role_members:
+  - { role_id: admin, user_id: 1 }
+  - { role_id: admin, user_id: 3 }
+  - { role_id: viewer, user_id: 2 }
+`).tables;
+
+const CONNECTOR = `
+app_name: test
+connect:
+  dsn: postgres://x
+resource_types:
+  user:
+    name: User
+    list:
+      query: SELECT id, login, email FROM users ORDER BY id LIMIT ?<limit> OFFSET ?<offset>
+      pagination: { strategy: offset, primary_key: id, page_size: 2 }
+      map:
+        id: ".id"
+        display_name: ".login"
+        traits:
+          user:
+            emails: [".email"]
+            status: enabled
+  role:
+    name: Role
+    list:
+      query: SELECT id, name FROM public.roles WHERE id > ?<cursor> ORDER BY id LIMIT ?<limit>
+      pagination: { strategy: cursor, primary_key: id, page_size: 1 }
+      map:
+        id: ".id"
+        display_name: ".name"
+    static_entitlements:
+      - id: member
+        display_name: Member
+        purpose: assignment
+        grantable_to: [user]
+    grants:
+      - query: SELECT user_id FROM role_members WHERE role_id = ?<role_id>
+        vars:
+          role_id: resource.ID
+        map:
+          - principal_id: ".user_id"
+            principal_type: user
+            entitlement_id: member
+`;
+
+test('sandbox: lists every page, maps resources and binds resource.ID for grants', { skip: !hasSqlite }, () => {
+  const out = runSandbox(buildBatonDocument(CONNECTOR), FIXTURES);
+  assert.deepEqual(out.problems, []);
+  assert.deepEqual(out.resources.map(r => `${r.resourceType}:${r.id}:${r.displayName}`), [
+    'user:1:alice', 'user:2:bob', 'user:3:carol', 'role:admin:Administrators', 'role:viewer:Viewers',
+  ]);
+  assert.deepEqual(out.resources[0].traits, { user: { emails: ['alice@example.com'], status: 'enabled' } });
+  assert.deepEqual(out.resources[1].traits, { user: { emails: [null], status: 'enabled' } });
+  assert.deepEqual(out.entitlements[0], {
+    id: 'role:admin:member',
+    resource: { resourceType: 'role', id: 'admin' },
+    displayName: 'Member',
+    purpose: 'assignment',
+    grantableTo: ['user'],
+  });
+  assert.deepEqual(out.grants.map(g => g.id), [
+    'role:admin:member:user:1', 'role:admin:member:user:3', 'role:viewer:member:user:2',
+  ]);
+});
+
+test('sandbox: SQLite errors, NULL ids and expression errors are problems', { skip: !hasSqlite }, () => {
+  const connector = `
+resource_types:
+  user:
+    name: User
+    list:
+      query: SELECT email, login FROM users
+      map:
+        id: ".email"
+        display_name: "lowr(.login)"
+  group:
+    name: Group
+    list:
+      query: SELECT id FROM groups
+      map:
+        id: ".id"
+`;
+  const out = runSandbox(buildBatonDocument(connector), FIXTURES);
+  assert.deepEqual(out.resources.map(r => r.id), ['alice@example.com', 'carol@example.com']);
+  assert.deepEqual(out.problems, [
+    {
+      path: 'resource_types.user.list.map.display_name',
+      message: "Unknown function 'lowr'.",
+      range: { start: 0, end: 4 },
+    },
+    { path: 'resource_types.user.list.map.id', message: 'NULL in row 2; the connector skips rows without an id.' },
+    { path: 'resource_types.group.list.query', message: 'SQLite: no such table: groups' },
+  ]);
+});
+
+test('sandbox: evaluates expressions, skip_if and exclusion groups', { skip: !hasSqlite }, () => {
+  const connector = `
+resource_types:
+  user:
+    name: User
+    list:
+      query: SELECT id, login, email FROM users
+      map:
+        id: ".id"
+        display_name: "upper(.login) + ' <' + (.email == null ? 'none' : .email) + '>'"
+  role:
+    name: Role
+    list:
+      query: SELECT id, name FROM roles
+      map:
+        id: ".id"
+        display_name: ".name"
+    entitlements:
+      query: SELECT role_id, count(*) AS members FROM role_members WHERE role_id = ?<role> GROUP BY role_id
+      vars:
+        role: resource.ID
+      map:
+        - id: "'holder'"
+          display_name: "string(.members) + ' members'"
+          skip_if: ".members < 2"
+          purpose: assignment
+          exclusion_group:
+            id: seats
+            order: ".members"
+            is_default: "true"
+`;
+  const out = runSandbox(buildBatonDocument(connector), FIXTURES);
+  assert.deepEqual(out.problems, []);
+  assert.equal(out.resources[1].displayName, 'BOB <none>');
+  assert.deepEqual(out.entitlements, [{
+    id: 'role:admin:holder',
+    resource: { resourceType: 'role', id: 'admin' },
+    displayName: '2 members',
+    purpose: 'assignment',
+    exclusionGroup: { id: 'seats', order: 2, isDefault: true },
+  }]);
+});
+
+test('sampleMappings: the first row of each map block and what it became', { skip: !hasSqlite }, () => {
+  const { samples } = sampleMappings(buildBatonDocument(CONNECTOR), FIXTURES);
+  assert.deepEqual(samples.map(s => [s.path.join('.'), { ...s.row }, s.output.length, s.problems.length]), [
+    ['resource_types.user.list.map', { id: 1, login: 'alice', email: 'alice@example.com' }, 1, 0],
+    ['resource_types.role.list.map', { id: 'admin', name: 'Administrators' }, 1, 0],
+    ['resource_types.role.grants.0.map', { user_id: 1 }, 1, 0],
+  ]);
+  assert.deepEqual(samples[2].output[0], {
+    id: 'role:admin:member:user:1',
+    entitlement: 'role:admin:member',
+    principal: { resourceType: 'user', id: '1' },
+  });
+});
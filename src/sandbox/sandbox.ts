@@ -0,0 +1,538 @@
+/**
+ * Runs a connector's sync queries against fixture data in an in-memory
+ * SQLite database and maps the rows the way the connector would, so the
+ * resources, entitlements and grants it would emit can be inspected
+ * without deploying it.
+ *
+ * SQLite comes from `node:sqlite` (Node.js 22.13 or newer), loaded on
+ * first use. Queries run as written, so syntax SQLite doesn't share with
+ * the connector's database fails and is reported as a problem.
+ */
+
+import type { DatabaseSync, SupportedValueType } from 'node:sqlite';
+import { BatonDocument, formatPath, ResourceTypeDef } from '../validation/document';
+import { ParsedQuery, PARAM_RE } from '../validation/parsedQuery';
+import { evaluateMapping, Row, typeName, Value } from '../expressions/evaluator';
+import { Span } from '../expressions/parser';
+import { FixtureTable } from './fixtures';
+
+/** A resource as the connector identifies it. */
+export interface ResourceId {
+  resourceType: string;
+  id: string;
+}
+
+export interface SandboxResource extends ResourceId {
+  displayName?: string;
+  description?: string;
+  traits?: Record<string, unknown>;
+}
+
+export interface SandboxEntitlement {
+  /** `<resource type>:<resource id>:<entitlement id>`, as Baton builds it. */
+  id: string;
+  resource: ResourceId;
+  displayName?: string;
+  description?: string;
+  purpose?: string;
+  grantableTo?: string[];
+  exclusionGroup?: SandboxExclusionGroup;
+}
+
+/** An entitlement's `exclusion_group`, its expressions evaluated. */
+export interface SandboxExclusionGroup {
+  id: string;
+  order?: number;
+  isDefault?: boolean;
+  isScopeToResource?: boolean;
+}
+
+export interface SandboxGrant {
+  /** `<entitlement>:<principal type>:<principal id>`. */
+  id: string;
+  entitlement: string;
+  principal: ResourceId;
+}
+
+/** Something the sandbox couldn't run or map, at a YAML path like `resource_types.user.list.map.id`. */
+export interface SandboxProblem {
+  path: string;
+  message: string;
+  /** For expression errors, the failing part as offsets into the field's text. */
+  range?: Span;
+}
+
+export interface SandboxOutput {
+  resources: SandboxResource[];
+  entitlements: SandboxEntitlement[];
+  grants: SandboxGrant[];
+  problems: SandboxProblem[];
+}
+
+/** The first row a `map` block mapped, and what it became. */
+export interface MappingSample {
+  /** YAML path of the `map` block, like `['resource_types', 'user', 'list', 'map']`. */
+  path: (string | number)[];
+  row: Row;
+  /** Empty when `skip_if` skipped the row or no mapping of it succeeded. */
+  output: (SandboxResource | SandboxEntitlement | SandboxGrant)[];
+  problems: SandboxProblem[];
+}
+
+/** The `pagination` keys the sandbox reads. */
+interface PaginationYaml {
+  strategy?: unknown;
+  page_size?: unknown;
+  primary_key?: unknown;
+}
+
+/** The keys of an entitlement mapping or static entitlement the sandbox reads. */
+interface EntitlementYaml {
+  id?: unknown;
+  display_name?: unknown;
+  description?: unknown;
+  purpose?: unknown;
+  grantable_to?: unknown;
+  skip_if?: unknown;
+  exclusion_group?: unknown;
+}
+
+/** The keys of a grant mapping the sandbox reads. */
+interface GrantMappingYaml {
+  skip_if?: unknown;
+  principal_id?: unknown;
+  principal_type?: unknown;
+  entitlement_id?: unknown;
+}
+
+/** The keys of an `exclusion_group` the sandbox reads. */
+interface ExclusionGroupYaml {
+  id?: unknown;
+  order?: unknown;
+  is_default?: unknown;
+  is_scope_to_resource?: unknown;
+}
+
+/** Rows per page when `pagination.page_size` isn't set, as in the connector. */
+const DEFAULT_PAGE_SIZE = 100;
+/** Stops a query whose pagination never ends (a cursor that doesn't advance, say). */
+const MAX_PAGES = 1000;
+
+const RESOURCE_FIELD = /^\s*\.?resource\.(\w+)\s*$/i;
+const QUOTED = /^\s*(?:'([^']*)'|"([^"]*)")\s*$/;
+const NUMERIC = /^\s*-?\d[\d.]*\s*$/;
+
+/**
+ * Load `node:sqlite`. Rejects with a user-facing message on Node.js
+ * versions without it.
+ */
+function loadSqlite(): typeof import('node:sqlite') {
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports -- loaded lazily so older Node.js versions only fail when the sandbox runs
+    return require('node:sqlite');
+  } catch {
+    throw new Error(`The sandbox needs Node.js 22.13 or newer for node:sqlite; this is Node.js ${process.versions.node}.`);
+  }
+}
+
+/**
+ * Create an in-memory SQLite database holding `tables`. Tables with a
+ * schema go into an attached database of that name, so both `users` and
+ * `public.users` resolve in queries. Columns are untyped, and values keep
+ * their fixture types: booleans become 1/0 and nested values JSON text.
+ */
+export function openFixtureDatabase(tables: FixtureTable[]): DatabaseSync {
+  const { DatabaseSync } = loadSqlite();
+  const db = new DatabaseSync(':memory:');
+  const attached = new Set<string>(['main']);
+  for (const table of tables) {
+    const schema = table.schema?.toLowerCase();
+    if (schema && !attached.has(schema)) {
+      db.exec(`ATTACH DATABASE ':memory:' AS ${quoteIdentifier(schema)}`);
+      attached.add(schema);
+    }
+    const name = schema ? `${quoteIdentifier(schema)}.${quoteIdentifier(table.name)}` : quoteIdentifier(table.name);
+    const columns = table.columns.length > 0 ? table.columns : ['_'];
+    db.exec(`CREATE TABLE ${name} (${columns.map(quoteIdentifier).join(', ')})`);
+    const insert = db.prepare(`INSERT INTO ${name} VALUES (${columns.map(() => '?').join(', ')})`);
+    for (const row of table.rows) {
+      // eslint-disable-next-line security/detect-object-injection -- column names come from the fixture's own keys
+      insert.run(...columns.map(c => toSqlite(row[c])));
+    }
+  }
+  return db;
+}
+
+/**
+ * Run every resource type's list, entitlements and grants queries against
+ * `tables` and map the rows. Entitlements and grants are fetched once per
+ * listed resource of their type, with `resource.ID` bound to it.
+ */
+export function runSandbox(document: BatonDocument, tables: FixtureTable[]): SandboxOutput {
+  return withDatabase(tables, db => new Sandbox(document, db).run());
+}
+
+/**
+ * Run the sandbox and return, for each `map` block, the first row it
+ * mapped and what that row became: the data behind "Preview mapping".
+ */
+export function sampleMappings(document: BatonDocument, tables: FixtureTable[]): { samples: MappingSample[]; output: SandboxOutput } {
+  return withDatabase(tables, db => {
+    const sandbox = new Sandbox(document, db);
+    const output = sandbox.run();
+    return { samples: [...sandbox.samples.values()], output };
+  });
+}
+
+function withDatabase<T>(tables: FixtureTable[], fn: (db: DatabaseSync) => T): T {
+  const db = openFixtureDatabase(tables);
+  try {
+    return fn(db);
+  } finally {
+    db.close();
+  }
+}
+
+class Sandbox {
+  private readonly output: SandboxOutput = { resources: [], entitlements: [], grants: [], problems: [] };
+  private readonly reported = new Set<string>();
+  /** First row mapped per `map` block, keyed by its formatted path. */
+  readonly samples = new Map<string, MappingSample>();
+  /** The sample being recorded while its row is mapped. */
+  private sample: MappingSample | undefined;
+
+  constructor(private readonly document: BatonDocument, private readonly db: DatabaseSync) {}
+
+  run(): SandboxOutput {
+    const listed = new Map<string, SandboxResource[]>();
+    for (const [rtId, rt] of this.document.resourceTypes) {
+      listed.set(rtId, this.listResources(rtId, rt));
+    }
+    for (const [rtId, rt] of this.document.resourceTypes) {
+      for (const resource of listed.get(rtId) ?? []) {
+        this.staticEntitlements(rtId, resource);
+        this.queryEntitlements(rtId, rt, resource);
+        this.grants(rtId, rt, resource);
+      }
+    }
+    return this.output;
+  }
+
+  private listResources(rtId: string, rt: ResourceTypeDef): SandboxResource[] {
+    const list = rt.list;
+    const map = list?.map;
+    if (!list?.query || !map || typeof map !== 'object') return [];
+    const base = ['resource_types', rtId, 'list'];
+    const resources: SandboxResource[] = [];
+    this.fetch(list.query, list.vars, list.pagination, undefined, base).forEach((row, i) => {
+      this.sampling([...base, 'map'], row, () => {
+        const id = this.id(map.id, row, i, [...base, 'map', 'id']);
+        if (id === undefined) return;
+        const resource: SandboxResource = { resourceType: rtId, id };
+        this.setText(resource, 'displayName', map.display_name, row, [...base, 'map', 'display_name']);
+        this.setText(resource, 'description', map.description, row, [...base, 'map', 'description']);
+        if (map.traits && typeof map.traits === 'object') {
+          resource.traits = this.mapTree(map.traits, row, [...base, 'map', 'traits']) as Record<string, unknown>;
+        }
+        resources.push(resource);
+        this.sample?.output.push(resource);
+      });
+    });
+    this.output.resources.push(...resources);
+    return resources;
+  }
+
+  private staticEntitlements(rtId: string, resource: SandboxResource): void {
+    // eslint-disable-next-line security/detect-object-injection -- rtId is a key of resource_types
+    const entries = this.document.yaml?.resource_types?.[rtId]?.static_entitlements;
+    if (!Array.isArray(entries)) return;
+    entries.forEach((entry: EntitlementYaml | null, i: number) => {
+      if (!entry || typeof entry.id !== 'string') return;
+      const mapped = entitlement(rtId, resource, entry.id, entry);
+      if (typeof entry.display_name === 'string') mapped.displayName = entry.display_name;
+      if (typeof entry.description === 'string') mapped.description = entry.description;
+      this.exclusionGroup(mapped, entry.exclusion_group, undefined, ['resource_types', rtId, 'static_entitlements', i, 'exclusion_group']);
+      this.output.entitlements.push(mapped);
+    });
+  }
+
+  private queryEntitlements(rtId: string, rt: ResourceTypeDef, resource: SandboxResource): void {
+    const ents = rt.entitlements;
+    if (!ents?.query || !Array.isArray(ents.map)) return;
+    const base = ['resource_types', rtId, 'entitlements'];
+    const rows = this.fetch(ents.query, ents.vars, ents.pagination, resource, base);
+    rows.forEach((row, i) => {
+      this.sampling([...base, 'map'], row, () => ents.map.forEach((m: EntitlementYaml | null, j: number) => {
+        if (!m || typeof m !== 'object') return;
+        const path = [...base, 'map', j];
+        if (this.skip(m.skip_if, row, [...path, 'skip_if'])) return;
+        const id = this.id(m.id, row, i, [...path, 'id']);
+        if (id === undefined) return;
+        const mapped = entitlement(rtId, resource, id, m);
+        this.setText(mapped, 'displayName', m.display_name, row, [...path, 'display_name']);
+        this.setText(mapped, 'description', m.description, row, [...path, 'description']);
+        this.exclusionGroup(mapped, m.exclusion_group, row, [...path, 'exclusion_group']);
+        this.output.entitlements.push(mapped);
+        this.sample?.output.push(mapped);
+      }));
+    });
+  }
+
+  private grants(rtId: string, rt: ResourceTypeDef, resource: SandboxResource): void {
+    rt.grants.forEach((grant, g) => {
+      if (!grant.query || !Array.isArray(grant.map)) return;
+      const base = ['resource_types', rtId, 'grants', g];
+      const rows = this.fetch(grant.query, grant.vars, grant.pagination, resource, base);
+      rows.forEach((row, i) => {
+        this.sampling([...base, 'map'], row, () => grant.map.forEach((m: GrantMappingYaml | null, j: number) => {
+          if (!m || typeof m !== 'object') return;
+          const path = [...base, 'map', j];
+          if (this.skip(m.skip_if, row, [...path, 'skip_if'])) return;
+          const principalId = this.id(m.principal_id, row, i, [...path, 'principal_id']);
+          const principalType = this.id(m.principal_type, row, i, [...path, 'principal_type']);
+          const entitlementId = this.id(m.entitlement_id, row, i, [...path, 'entitlement_id']);
+          if (principalId === undefined || principalType === undefined || entitlementId === undefined) return;
+          const ent = `${rtId}:${resource.id}:${entitlementId}`;
+          const mapped: SandboxGrant = {
+            id: `${ent}:${principalType}:${principalId}`,
+            entitlement: ent,
+            principal: { resourceType: principalType, id: principalId },
+          };
+          this.output.grants.push(mapped);
+          this.sample?.output.push(mapped);
+        }));
+      });
+    });
+  }
+
+  /** Map `row` with `fn`, recording it as the sample of the `map` block at `path` if it is the first. */
+  private sampling(path: (string | number)[], row: Row, fn: () => void): void {
+    const key = formatPath(path);
+    if (this.samples.has(key)) {
+      fn();
+      return;
+    }
+    this.sample = { path, row, output: [], problems: [] };
+    this.samples.set(key, this.sample);
+    try {
+      fn();
+    } finally {
+      this.sample = undefined;
+    }
+  }
+
+  /**
+   * Every row of `query`, page by page. `?<limit>`, `?<offset>` and
+   * `?<cursor>` are bound per page; other parameters come from `vars`.
+   */
+  private fetch(
+    query: ParsedQuery,
+    vars: Map<string, string>,
+    pagination: unknown,
+    resource: SandboxResource | undefined,
+    path: (string | number)[],
+  ): Row[] {
+    const values = new Map<string, unknown>();
+    for (const [name, expr] of vars) {
+      values.set(name, this.varValue(expr, resource, [...path, 'vars', name]));
+    }
+    const paging = (pagination && typeof pagination === 'object' ? pagination : {}) as PaginationYaml;
+    const size = paging.page_size;
+    const pageSize = typeof size === 'number' && Number.isInteger(size) && size > 0 ? size : DEFAULT_PAGE_SIZE;
+    const primaryKey = typeof paging.primary_key === 'string' ? paging.primary_key : undefined;
+    const paged = query.usedParams.has('limit');
+
+    const rows: Row[] = [];
+    let offset = 0;
+    // The first page of a cursor query starts below every id: in SQLite any text sorts above 0.
+    let cursor: unknown = 0;
+    for (let page = 0; page < MAX_PAGES; page++) {
+      const builtins = new Map<string, unknown>([['limit', pageSize], ['offset', offset], ['cursor', cursor]]);
+      const batch = this.query(query, name => (builtins.has(name) ? builtins.get(name) : values.get(name)), [...path, 'query']);
+      if (!batch) break;
+      rows.push(...batch);
+      if (!paged || batch.length < pageSize) break;
+      if (paging.strategy === 'cursor') {
+        const next = primaryKey === undefined ? undefined : column(batch[batch.length - 1], primaryKey);
+        if (next === undefined || next === null || next === cursor) {
+          this.problem(path.concat('pagination'), `The cursor doesn't advance: '${primaryKey ?? ''}' is missing from the rows or repeats.`);
+          break;
+        }
+        cursor = next;
+      } else {
+        offset += pageSize;
+      }
+    }
+    return rows;
+  }
+
+  /** Rows of one execution of `query`, or undefined (reported) when SQLite rejects it. */
+  private query(query: ParsedQuery, bind: (name: string) => unknown, path: (string | number)[]): Row[] | undefined {
+    const params: SupportedValueType[] = [];
+    const sql = query.rawSql.replace(PARAM_RE, (_match: string, name: string) => {
+      params.push(toSqlite(bind(name)));
+      return '?';
+    });
+    try {
+      return this.db.prepare(sql).all(...params) as Row[];
+    } catch (error) {
+      this.problem(path, `SQLite: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * A `vars` entry: `resource.ID` or `resource.DisplayName` of the resource
+   * being synced, or a quoted string or number literal.
+   */
+  private varValue(expr: string, resource: SandboxResource | undefined, path: (string | number)[]): unknown {
+    const field = RESOURCE_FIELD.exec(expr)?.[1].toLowerCase();
+    if (field === 'id' || field === 'displayname') {
+      if (resource) return field === 'id' ? resource.id : resource.displayName;
+      this.problem(path, `'${expr}' needs a resource, but list queries run without one.`);
+      return null;
+    }
+    const quoted = QUOTED.exec(expr);
+    if (quoted) return quoted[1] ?? quoted[2];
+    if (NUMERIC.test(expr) && Number.isFinite(Number(expr))) return Number(expr);
+    this.problem(path, `'${expr}' is not evaluated by the sandbox; it was bound as NULL.`);
+    return null;
+  }
+
+  /** A mapping field's value for `row`; undefined (reported) when it fails to evaluate. */
+  private value(expr: unknown, row: Row | undefined, path: (string | number)[]): Value | undefined {
+    const result = evaluateMapping(expr, row);
+    if (result.error) {
+      const { message, start, end } = result.error;
+      this.problem(path, message, { start, end });
+      return undefined;
+    }
+    return result.value;
+  }
+
+  /** An id field as text; undefined (reported) when it is NULL or can't be evaluated. */
+  private id(expr: unknown, row: Row | undefined, index: number, path: (string | number)[]): string | undefined {
+    if (expr === undefined) return undefined;
+    const value = this.value(expr, row, path);
+    if (value === null) {
+      this.problem(path, `NULL in row ${index + 1}; the connector skips rows without an id.`);
+      return undefined;
+    }
+    return value === undefined ? undefined : text(value);
+  }
+
+  private setText<T>(target: T, key: keyof T, expr: unknown, row: Row, path: (string | number)[]): void {
+    if (expr === undefined) return;
+    const value = this.value(expr, row, path);
+    // eslint-disable-next-line security/detect-object-injection -- key is a field name the caller passes as a literal
+    if (value !== undefined && value !== null) target[key] = text(value) as T[keyof T];
+  }
+
+  /** Map every string in a traits tree; fields that can't be evaluated are left out. */
+  private mapTree(node: unknown, row: Row, path: (string | number)[]): unknown {
+    if (Array.isArray(node)) {
+      return node.map((item, i) => this.mapTree(item, row, [...path, i])).filter(v => v !== undefined);
+    }
+    if (node && typeof node === 'object') {
+      const out: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(node)) {
+        const value = this.mapTree(child, row, [...path, key]);
+        // eslint-disable-next-line security/detect-object-injection -- key is iterating own keys
+        if (value !== undefined) out[key] = value;
+      }
+      return out;
+    }
+    return this.value(node, row, path);
+  }
+
+  /** Whether `skip_if` skips the row. Expressions that fail or aren't boolean don't skip. */
+  private skip(expr: unknown, row: Row, path: (string | number)[]): boolean {
+    return expr !== undefined && this.flag(expr, row, path) === true;
+  }
+
+  /**
+   * A field that must evaluate to a boolean. SQLite has no boolean type,
+   * so the 1 and 0 a fixture `true`/`false` is stored as count too.
+   */
+  private flag(expr: unknown, row: Row | undefined, path: (string | number)[]): boolean | undefined {
+    const value = this.value(expr, row, path);
+    if (value === undefined) return undefined;
+    if (typeof value === 'boolean') return value;
+    if (value === 1 || value === 0) return value === 1;
+    this.problem(path, `Must be a boolean; got ${typeName(value)} ${JSON.stringify(value)}.`);
+    return undefined;
+  }
+
+  /** Evaluate an `exclusion_group` into `target`; the group is left out when its id fails. */
+  private exclusionGroup(target: SandboxEntitlement, value: unknown, row: Row | undefined, path: (string | number)[]): void {
+    if (!value || typeof value !== 'object') return;
+    const group = value as ExclusionGroupYaml;
+    const id = this.value(group.id, row, [...path, 'id']);
+    if (id === undefined || id === null) return;
+    const out: SandboxExclusionGroup = { id: text(id) };
+    if (group.order !== undefined) {
+      const order = this.value(group.order, row, [...path, 'order']);
+      if (typeof order === 'number' && Number.isInteger(order) && order >= 0 && order <= 0xffffffff) {
+        out.order = order;
+      } else if (order !== undefined) {
+        this.problem([...path, 'order'], `Must be a uint32; got ${typeName(order)} ${JSON.stringify(order)}.`);
+      }
+    }
+    const isDefault = group.is_default === undefined ? undefined : this.flag(group.is_default, row, [...path, 'is_default']);
+    if (isDefault !== undefined) out.isDefault = isDefault;
+    const scoped = group.is_scope_to_resource === undefined
+      ? undefined
+      : this.flag(group.is_scope_to_resource, row, [...path, 'is_scope_to_resource']);
+    if (scoped !== undefined) out.isScopeToResource = scoped;
+    target.exclusionGroup = out;
+  }
+
+  /** Record a problem once per path and message, and with the sample being recorded. */
+  private problem(path: (string | number)[], message: string, range?: Span): void {
+    const where = formatPath(path);
+    const problem: SandboxProblem = range ? { path: where, message, range } : { path: where, message };
+    this.sample?.problems.push(problem);
+    const key = `${where}\0${message}`;
+    if (this.reported.has(key)) return;
+    this.reported.add(key);
+    this.output.problems.push(problem);
+  }
+}
+
+/** An entitlement on `resource`, with the mapping's `purpose` and `grantable_to`. */
+function entitlement(rtId: string, resource: SandboxResource, id: string, mapping: EntitlementYaml): SandboxEntitlement {
+  const out: SandboxEntitlement = {
+    id: `${rtId}:${resource.id}:${id}`,
+    resource: { resourceType: rtId, id: resource.id },
+  };
+  if (typeof mapping.purpose === 'string') out.purpose = mapping.purpose;
+  if (Array.isArray(mapping.grantable_to)) out.grantableTo = mapping.grantable_to.filter((t): t is string => typeof t === 'string');
+  return out;
+}
+
+/** `row[name]`, falling back to a case-insensitive match. */
+function column(row: Row, name: string): unknown {
+  if (Object.prototype.hasOwnProperty.call(row, name)) {
+    // eslint-disable-next-line security/detect-object-injection -- own property checked above
+    return row[name];
+  }
+  const key = Object.keys(row).find(k => k.toLowerCase() === name.toLowerCase());
+  // eslint-disable-next-line security/detect-object-injection -- key is one of the row's own keys
+  return key === undefined ? undefined : row[key];
+}
+
+function text(value: unknown): string {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+function toSqlite(value: unknown): SupportedValueType {
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number' || typeof value === 'bigint' || typeof value === 'string') return value;
+  if (value instanceof Uint8Array) return value;
+  return JSON.stringify(value);
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
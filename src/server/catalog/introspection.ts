@@ -0,0 +1,43 @@
+/** @format */
+
+import * as path from 'path';
+import { Catalog } from '../../catalog/catalog';
+import { BatonSqlConfig, CATALOG_SNAPSHOT_FILE_NAME } from '../../validation/config';
+import { buildBatonDocument } from '../../validation/document';
+import { loadEnvironment } from '../../catalog/env';
+import { resolveConnection } from '../../catalog/connection';
+import { describeConnection, introspectDatabase, writeCatalogSnapshot } from '../../catalog/introspect';
+import { IntrospectDatabaseResult } from '../constants/requests';
+
+/**
+ * Introspect the database named by a connector file's connect block and
+ * save the catalog snapshot: to the configured `catalog` when there is one
+ * (only if it is a previous snapshot), otherwise to
+ * `.baton-sql-catalog.yaml` in the workspace folder. `${VAR}`s expand from
+ * the environment and the nearest `.env`, searched up to the folder.
+ *
+ * Rejects with a user-facing message.
+ */
+export async function introspectConnectorDatabase(
+  filePath: string,
+  content: string,
+  config: BatonSqlConfig,
+  folder: string | undefined,
+): Promise<IntrospectDatabaseResult> {
+  const document = buildBatonDocument(content, config.dialect);
+  const { env } = loadEnvironment(path.dirname(filePath), folder);
+  const settings = resolveConnection(document.connect, env);
+  const source = describeConnection(settings);
+
+  let catalog: Catalog;
+  try {
+    catalog = await introspectDatabase(settings);
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : String(error);
+    throw new Error(`Could not introspect ${source}: ${msg}`);
+  }
+
+  const catalogPath = config.catalog ?? path.join(folder ?? path.dirname(filePath), CATALOG_SNAPSHOT_FILE_NAME);
+  writeCatalogSnapshot(catalogPath, catalog, source);
+  return { catalogPath, tables: catalog.tables.length, source };
+}
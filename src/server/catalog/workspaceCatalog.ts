@@ -0,0 +1,109 @@
+/** @format */
+
+import * as fs from 'fs';
+import { BatonSqlConfig } from '../../validation/config';
+import { Catalog, mergeCatalogs } from '../../catalog/catalog';
+import { loadCatalog } from '../../catalog/loader';
+import { loadDdlCatalog } from '../../catalog/ddl';
+import { schemeToDialect } from '../../validation/dialect';
+import { ConfigErrorReporter } from '../config/workspaceConfig';
+
+/** A loaded catalog plus a token that changes whenever it is reloaded. */
+export interface LoadedCatalog {
+  catalog: Catalog;
+  version: string;
+}
+
+interface Entry {
+  mtimeMs: number;
+  loaded?: LoadedCatalog;
+}
+
+/**
+ * Loads the catalog a document's config describes: the catalog file it
+ * points at, plus the tables built from its `ddl` files. Where both define
+ * a table, the catalog file wins.
+ *
+ * Catalog files are re-read when their modification time changes. DDL is
+ * rebuilt after `invalidateDdl()`, which the server calls when `.sql` files
+ * change, so edits to either show up on the next validation without a
+ * restart.
+ */
+export class WorkspaceCatalog {
+  private byPath: Map<string, Entry> = new Map();
+  private byDdl: Map<string, LoadedCatalog> = new Map();
+  private ddlBuilds = 0;
+
+  /**
+   * `report` surfaces problems with a catalog file. `reportDdl` gets the DDL
+   * statements that were skipped, which are common enough in real
+   * migrations that they shouldn't interrupt the user.
+   */
+  constructor(
+    private readonly report: ConfigErrorReporter,
+    private readonly reportDdl: ConfigErrorReporter = () => undefined,
+  ) {}
+
+  /** Drop every loaded catalog. */
+  invalidate(): void {
+    this.byPath.clear();
+    this.invalidateDdl();
+  }
+
+  /** Drop catalogs built from DDL files, e.g. after a `.sql` file changed. */
+  invalidateDdl(): void {
+    this.byDdl.clear();
+  }
+
+  get(config: BatonSqlConfig): LoadedCatalog | undefined {
+    const file = this.fromFile(config);
+    const ddl = this.fromDdl(config);
+    if (!file || !ddl) return file ?? ddl;
+    return {
+      catalog: mergeCatalogs(file.catalog, ddl.catalog),
+      version: `${file.version}+${ddl.version}`,
+    };
+  }
+
+  private fromDdl(config: BatonSqlConfig): LoadedCatalog | undefined {
+    if (!config.ddl || config.ddl.length === 0) return undefined;
+    const dialect = schemeToDialect(config.dialect);
+    const key = `${dialect ?? ''}|${config.ddl.join('|')}`;
+    let loaded = this.byDdl.get(key);
+    if (!loaded) {
+      const { catalog, errors } = loadDdlCatalog(config.ddl, dialect);
+      if (errors.length > 0) this.reportDdl(config.ddl.join(', '), errors);
+      loaded = { catalog, version: `ddl#${++this.ddlBuilds}` };
+      this.byDdl.set(key, loaded);
+    }
+    return loaded.catalog.tables.length > 0 ? loaded : undefined;
+  }
+
+  private fromFile(config: BatonSqlConfig): LoadedCatalog | undefined {
+    const filePath = config.catalog;
+    if (!filePath) return undefined;
+
+    let mtimeMs: number;
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- path from the validator configuration
+      mtimeMs = fs.statSync(filePath).mtimeMs;
+    } catch {
+      mtimeMs = -1;
+    }
+
+    const cached = this.byPath.get(filePath);
+    if (cached && cached.mtimeMs === mtimeMs) return cached.loaded;
+
+    if (mtimeMs === -1) {
+      this.report(filePath, ['Catalog file not found.']);
+      this.byPath.set(filePath, { mtimeMs });
+      return undefined;
+    }
+
+    const { catalog, errors } = loadCatalog(filePath);
+    if (errors.length > 0) this.report(filePath, errors);
+    const loaded = { catalog, version: `${filePath}@${mtimeMs}` };
+    this.byPath.set(filePath, { mtimeMs, loaded });
+    return loaded;
+  }
+}
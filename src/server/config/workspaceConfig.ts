@@ -0,0 +1,132 @@
+/** @format */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  BatonSqlConfig,
+  CATALOG_SNAPSHOT_FILE_NAME,
+  loadProjectConfig,
+  mergeConfigs,
+  parseConfig,
+  resolveGlobs,
+} from '../../validation/config';
+
+/** Fetch the `batonSql` settings section that applies to a document. */
+export type SettingsFetcher = (uri: string) => Promise<unknown>;
+
+/** Surface problems found in a config source (settings or a `.baton-sql.json`). */
+export type ConfigErrorReporter = (source: string, errors: string[]) => void;
+
+/**
+ * Resolves the validator configuration for each document: built-in
+ * defaults, then VS Code settings, then the nearest `.baton-sql.json` (which
+ * wins, since it is checked in with the connector). Results are cached per
+ * URI until `invalidate()`.
+ */
+export class WorkspaceConfig {
+  private folders: string[] = [];
+  private byUri: Map<string, Promise<BatonSqlConfig>> = new Map();
+  private reported: Set<string> = new Set();
+
+  constructor(
+    private readonly fetchSettings: SettingsFetcher,
+    private readonly report: ConfigErrorReporter,
+  ) {}
+
+  /**
+   * Replace the known workspace folders. Project config lookup stops at the
+   * folder that contains the document.
+   */
+  setWorkspaceFolders(uris: string[]): void {
+    this.folders = uris.map(toFsPath).filter((p): p is string => p !== undefined);
+    this.invalidate();
+  }
+
+  /** Drop every cached config, e.g. after a settings or config-file change. */
+  invalidate(): void {
+    this.byUri.clear();
+    this.reported.clear();
+  }
+
+  /** Forget a closed document's config. */
+  forget(uri: string): void {
+    this.byUri.delete(uri);
+  }
+
+  get(uri: string): Promise<BatonSqlConfig> {
+    let pending = this.byUri.get(uri);
+    if (!pending) {
+      pending = this.resolve(uri);
+      this.byUri.set(uri, pending);
+    }
+    return pending;
+  }
+
+  private async resolve(uri: string): Promise<BatonSqlConfig> {
+    const filePath = toFsPath(uri);
+    const folder = filePath ? this.folderFor(filePath) : undefined;
+
+    const settings = parseConfig(await this.fetchSettings(uri));
+    this.reportOnce('Baton SQL settings', settings.errors);
+    const base = folder ?? (filePath ? path.dirname(filePath) : undefined);
+    if (settings.config.files) {
+      settings.config.files = base ? resolveGlobs(settings.config.files, base) : [];
+    }
+    if (settings.config.catalog) {
+      settings.config.catalog = base ? path.resolve(base, settings.config.catalog) : undefined;
+    }
+    if (settings.config.ddl) {
+      settings.config.ddl = base ? resolveGlobs(settings.config.ddl, base) : [];
+    }
+    if (settings.config.fixtures) {
+      settings.config.fixtures = base ? resolveGlobs(settings.config.fixtures, base) : [];
+    }
+    const defaults = folder ? folderDefaults(folder) : {};
+
+    if (!filePath) return mergeConfigs(defaults, settings.config);
+
+    const project = loadProjectConfig(path.dirname(filePath), folder);
+    if (project) this.reportOnce(project.path, project.errors);
+
+    return mergeConfigs(defaults, settings.config, project?.config ?? {});
+  }
+
+  /** The innermost workspace folder containing `filePath`. */
+  folderFor(filePath: string): string | undefined {
+    let best: string | undefined;
+    for (const folder of this.folders) {
+      const inside = filePath === folder || filePath.startsWith(folder + path.sep);
+      if (inside && (!best || folder.length > best.length)) best = folder;
+    }
+    return best;
+  }
+
+  private reportOnce(source: string, errors: string[]): void {
+    if (errors.length === 0 || this.reported.has(source)) return;
+    this.reported.add(source);
+    this.report(source, errors);
+  }
+}
+
+/**
+ * Defaults for documents in a workspace folder: every `.sql` file in it is
+ * DDL, and an introspected catalog snapshot, if there is one, is the catalog.
+ */
+function folderDefaults(folder: string): Partial<BatonSqlConfig> {
+  const defaults: Partial<BatonSqlConfig> = { ddl: resolveGlobs(['**/*.sql'], folder) };
+  const snapshot = path.join(folder, CATALOG_SNAPSHOT_FILE_NAME);
+  // eslint-disable-next-line security/detect-non-literal-fs-filename -- fixed file name in a workspace folder
+  if (fs.existsSync(snapshot)) defaults.catalog = snapshot;
+  return defaults;
+}
+
+/** Filesystem path for a `file:` URI; undefined for other schemes. */
+export function toFsPath(uri: string): string | undefined {
+  if (!uri.startsWith('file:')) return undefined;
+  try {
+    return fileURLToPath(uri);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Custom requests between the extension client and the language server.
+ * Kept free of server dependencies so the client bundle can import it.
+ */
+
+/** Introspect the database a document's connect block points at. */
+export const INTROSPECT_DATABASE_REQUEST = 'batonSql/introspectDatabase';
+
+export interface IntrospectDatabaseParams {
+  /** The connector document whose connect block and config to use. */
+  uri: string;
+}
+
+export interface IntrospectDatabaseResult {
+  /** Where the catalog snapshot was written. */
+  catalogPath: string;
+  tables: number;
+  /** The database, without credentials: `postgres://localhost:5432/app`. */
+  source: string;
+}
+
+/** Run a document's queries against its fixtures in the SQLite sandbox. */
+export const RUN_SANDBOX_REQUEST = 'batonSql/runSandbox';
+
+export interface RunSandboxParams {
+  /** The connector document to run, as currently edited. */
+  uri: string;
+}
+
+export type { ConnectorSandboxResult as RunSandboxResult } from '../../sandbox/connector';
+import type { MappingSample, SandboxProblem } from '../../sandbox/sandbox';
+
+/** Client command the "Preview mapping" code lens runs, with a `MappingPreview` argument. */
+export const PREVIEW_MAPPING_COMMAND = 'batonSql.previewMapping';
+
+/** The first fixture row a `map` block mapped, what it became and what went wrong. */
+export interface MappingPreview {
+  /** The `map` block, as `resource_types.user.list.map`. */
+  path: string;
+  row: Record<string, unknown>;
+  output: MappingSample['output'];
+  problems: SandboxProblem[];
+}
@@ -10,6 +10,11 @@ import {
 } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { TextEdit } from '../../validation/types';
+import { BatonSqlConfig } from '../../validation/config';
+import { fixAll } from '../../validation/autofix';
+
+/** Kind of the "Fix all auto-fixable problems" source action. */
+export const FIX_ALL_KIND = `${CodeActionKind.SourceFixAll}.batonSql`;
 
 /**
  * Storage for diagnostics with their suggested fixes
@@ -79,6 +84,53 @@ export function provideCodeActions(params: CodeActionParams, document: TextDocum
   return codeActions;
 }
 
+/**
+ * Whether a code action request asks for source.fixAll actions. Lightbulb
+ * requests (no `only`) never show source actions, so we skip the work there.
+ */
+export function wantsFixAll(params: CodeActionParams): boolean {
+  const only = params.context.only;
+  if (!only) return false;
+  return only.some(kind => FIX_ALL_KIND === kind || FIX_ALL_KIND.startsWith(`${kind}.`));
+}
+
+/**
+ * "Fix all auto-fixable problems": apply every autofixable suggested fix
+ * until the document is stable, as one edit covering the changed region.
+ * Returns null when there is nothing to fix.
+ */
+export function provideFixAllAction(document: TextDocument, config: BatonSqlConfig): CodeAction | null {
+  const before = document.getText();
+  const { content: after, fixed } = fixAll(before, config);
+  if (fixed === 0 || after === before) return null;
+
+  // Replace only the span between the common prefix and suffix, so the
+  // editor keeps the cursor and folding outside the changed region.
+  let prefix = 0;
+  const maxPrefix = Math.min(before.length, after.length);
+  while (prefix < maxPrefix && before.charCodeAt(prefix) === after.charCodeAt(prefix)) prefix++;
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    before.charCodeAt(before.length - 1 - suffix) === after.charCodeAt(after.length - 1 - suffix)
+  ) suffix++;
+
+  const edit: LSPTextEdit = {
+    range: {
+      start: document.positionAt(prefix),
+      end: document.positionAt(before.length - suffix),
+    },
+    newText: after.slice(prefix, after.length - suffix),
+  };
+  const workspaceEdit: WorkspaceEdit = { changes: { [document.uri]: [edit] } };
+  return {
+    title: `Fix all auto-fixable problems (${fixed})`,
+    kind: FIX_ALL_KIND,
+    edit: workspaceEdit,
+  };
+}
+
 /**
  * Generate a user-friendly title for the quick fix based on the diagnostic message
  */
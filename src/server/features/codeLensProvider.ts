@@ -0,0 +1,122 @@
+/** @format */
+
+import * as fs from 'fs';
+import { CodeLens, Range } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { BatonSqlConfig } from '../../validation/config';
+import { BatonDocument, buildBatonDocument, formatPath, rangeAt } from '../../validation/document';
+import { connectorFixtureFiles, sampleConnectorMappings } from '../../sandbox/connector';
+import { MappingSample, SandboxEntitlement, SandboxGrant, SandboxResource } from '../../sandbox/sandbox';
+import { MappingPreview, PREVIEW_MAPPING_COMMAND } from '../constants/requests';
+
+const TITLE = 'Preview mapping';
+
+/** Lenses per document URI, with the document version, config and fixture files they were computed from. */
+const lensCache = new Map<string, { key: string; lenses: CodeLens[] }>();
+
+/** Forget the lenses computed for a closed document. */
+export function evictCodeLenses(uri: string): void {
+  lensCache.delete(uri);
+}
+
+/** YAML paths of every `map` block in the document: list maps, entitlement maps and grant maps. */
+function mapBlocks(doc: BatonDocument): (string | number)[][] {
+  const blocks: (string | number)[][] = [];
+  for (const [rtId, rt] of doc.resourceTypes) {
+    if (rt.list?.map && typeof rt.list.map === 'object') blocks.push(['resource_types', rtId, 'list', 'map']);
+    if (Array.isArray(rt.entitlements?.map)) blocks.push(['resource_types', rtId, 'entitlements', 'map']);
+    rt.grants.forEach((grant, g) => {
+      if (Array.isArray(grant.map)) blocks.push(['resource_types', rtId, 'grants', g, 'map']);
+    });
+  }
+  return blocks;
+}
+
+/**
+ * A "Preview mapping" code lens on each `map:` key, showing what the first
+ * fixture row its query returns maps to. Clicking it opens the row, the
+ * output and any problems as JSON.
+ *
+ * Running the sandbox is expensive, so the lenses are kept until the
+ * document, its config or one of its fixture files changes. There are none
+ * without fixture tables, or where `node:sqlite` is missing.
+ */
+export function provideCodeLenses(document: TextDocument, filePath: string, config: BatonSqlConfig): CodeLens[] {
+  const files = connectorFixtureFiles(filePath, config);
+  if (files.length === 0) {
+    lensCache.delete(document.uri);
+    return [];
+  }
+  const key = [document.version, JSON.stringify(config), ...files.map(f => `${f}@${modified(f)}`)].join('|');
+  const cached = lensCache.get(document.uri);
+  if (cached?.key === key) return cached.lenses;
+
+  const lenses = computeLenses(document, filePath, config);
+  lensCache.set(document.uri, { key, lenses });
+  return lenses;
+}
+
+function computeLenses(document: TextDocument, filePath: string, config: BatonSqlConfig): CodeLens[] {
+  const doc = buildBatonDocument(document.getText(), config.dialect);
+  const blocks = mapBlocks(doc);
+  if (blocks.length === 0) return [];
+
+  let result: ReturnType<typeof sampleConnectorMappings>;
+  try {
+    result = sampleConnectorMappings(filePath, document.getText(), config);
+  } catch {
+    return [];
+  }
+  if (result.fixtures.tables === 0) return [];
+
+  const lenses: CodeLens[] = [];
+  for (const block of blocks) {
+    const range = keyRange(document, doc, block);
+    if (!range) continue;
+    const where = formatPath(block);
+    const sample = result.samples.find(s => formatPath(s.path) === where);
+    if (!sample) {
+      const queryPath = formatPath([...block.slice(0, -1), 'query']);
+      const failure = result.problems.find(p => p.path === queryPath);
+      const reason = failure?.message ?? 'the query returned no rows';
+      lenses.push({ range, command: { title: `${TITLE}: ${reason}`, command: '' } });
+      continue;
+    }
+    const preview: MappingPreview = { path: where, row: { ...sample.row }, output: sample.output, problems: sample.problems };
+    lenses.push({ range, command: { title: `${TITLE}: ${summarize(sample, where)}`, command: PREVIEW_MAPPING_COMMAND, arguments: [preview] } });
+  }
+  return lenses;
+}
+
+/** Modification time of `filePath`, or -1 when it can't be read. */
+function modified(filePath: string): number {
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- file found by connectorFixtureFiles
+    return fs.statSync(filePath).mtimeMs;
+  } catch {
+    return -1;
+  }
+}
+
+function keyRange(document: TextDocument, doc: BatonDocument, path: (string | number)[]): Range | undefined {
+  const range = rangeAt(doc, path, 'key');
+  return range && { start: document.positionAt(range.start), end: document.positionAt(range.end) };
+}
+
+/** `user "Alice" (id 1)`, or the first problem with the field it came from. */
+function summarize(sample: MappingSample, where: string): string {
+  const problem = sample.problems[0];
+  if (problem) {
+    const field = problem.path.startsWith(where) ? problem.path.slice(where.length).replace(/^\./, '') : problem.path;
+    return field ? `${field}: ${problem.message}` : problem.message;
+  }
+  if (sample.output.length === 0) return 'the first row is skipped';
+  const more = sample.output.length > 1 ? ` (+${sample.output.length - 1} more)` : '';
+  return describe(sample.output[0]) + more;
+}
+
+function describe(item: SandboxResource | SandboxEntitlement | SandboxGrant): string {
+  if ('principal' in item) return `grant ${item.entitlement} → ${item.principal.resourceType}:${item.principal.id}`;
+  if ('resource' in item) return `entitlement ${item.id}${item.displayName ? ` "${item.displayName}"` : ''}`;
+  return `${item.resourceType}${item.displayName ? ` "${item.displayName}"` : ''} (id ${item.id})`;
+}
@@ -4,6 +4,9 @@ import { CompletionItem, CompletionItemKind, TextDocumentPositionParams } from '
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { SQL_KEYWORDS, SQL_FUNCTIONS, SQL_TYPES } from '../constants/sqlKeywords';
 import { BATON_PARAMETERS, BATON_SCHEMA_PROPERTIES } from '../documentation/batonParameters';
+import { CatalogTable, findTable, qualifiedName } from '../../catalog/catalog';
+import { cursorContextAt } from '../../catalog/cursorContext';
+import { CatalogFeatureOptions, queryAtCursor } from './queryAtCursor';
 
 /**
  * Check if the cursor is inside a SQL query string
@@ -59,14 +62,82 @@ function shouldProvideSchemaProperties(linePrefix: string): boolean {
   return trimmed.length > 0 && !trimmed.includes(':') && !trimmed.startsWith('-');
 }
 
+/** Sorts catalog items ahead of keywords, in catalog order. */
+function catalogSortText(index: number): string {
+  return `0${String(index).padStart(5, '0')}`;
+}
+
+function tableItem(table: CatalogTable, index: number): CompletionItem {
+  return {
+    label: table.name,
+    kind: CompletionItemKind.Class,
+    detail: `Table ${qualifiedName(table)}`,
+    documentation: table.columns.map(c => (c.type ? `${c.name} ${c.type}` : c.name)).join('\n'),
+    sortText: catalogSortText(index),
+    insertText: table.name
+  };
+}
+
+function columnItems(table: CatalogTable, start: number): CompletionItem[] {
+  return table.columns.map((column, i) => ({
+    label: column.name,
+    kind: CompletionItemKind.Field,
+    detail: column.type ?? 'Column',
+    documentation: `Column of ${qualifiedName(table)}${column.nullable === false ? ', NOT NULL' : ''}`,
+    sortText: catalogSortText(start + i),
+    insertText: column.name
+  }));
+}
+
+/**
+ * Catalog completions for the SQL query under the cursor: tables after
+ * FROM / JOIN, columns after `alias.`. Undefined when the cursor is not in
+ * a query or not in one of those positions.
+ */
+function catalogCompletionItems(
+  document: TextDocument,
+  offset: number,
+  options: CatalogFeatureOptions
+): { items: CompletionItem[]; exclusive: boolean } | undefined {
+  const catalog = options.catalog;
+  if (!catalog || catalog.tables.length === 0) return undefined;
+
+  const at = queryAtCursor(document, offset, options.dialect);
+  const context = at && cursorContextAt(at.query.rawSql, at.sqlOffset, at.query.dialect);
+  if (!context) return undefined;
+
+  if (context.kind === 'table') {
+    const schema = context.schema?.toLowerCase();
+    const tables = catalog.tables.filter(t => !schema || t.schema?.toLowerCase() === schema);
+    // Keywords stay available after FROM for subqueries and LATERAL.
+    return { items: tables.map(tableItem), exclusive: false };
+  }
+
+  const items: CompletionItem[] = [];
+  for (const ref of context.tables) {
+    const table = findTable(catalog, ref.name, ref.schema);
+    if (table) items.push(...columnItems(table, items.length));
+  }
+  // After `alias.` only column names make sense.
+  return { items, exclusive: true };
+}
+
 /**
- * Provide completion items for SQL keywords, functions, and Baton parameters
+ * Provide completion items for SQL keywords, functions, and Baton parameters,
+ * plus catalog tables and columns when a catalog is configured
  */
-export function provideCompletionItems(params: TextDocumentPositionParams, document: TextDocument): CompletionItem[] {
+export function provideCompletionItems(
+  params: TextDocumentPositionParams,
+  document: TextDocument,
+  options: CatalogFeatureOptions = {}
+): CompletionItem[] {
   const position = params.position;
   const offset = document.offsetAt(position);
   const linePrefix = getCurrentLinePrefix(document, position);
-  const completions: CompletionItem[] = [];
+
+  const fromCatalog = catalogCompletionItems(document, offset, options);
+  if (fromCatalog?.exclusive) return fromCatalog.items;
+  const completions: CompletionItem[] = fromCatalog?.items ?? [];
 
   // Check context
   const inSQLQuery = isInsideSQLQuery(document, offset);
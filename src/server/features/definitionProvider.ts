@@ -2,54 +2,50 @@
 
 import { Definition, Location, Position } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import { buildBatonDocument } from '../../validation/document';
+import { findDefinitions } from '../../validation/definitions';
+import { symbolAt } from '../../validation/references';
 import { SymbolIndex } from '../index/symbolIndex';
 
 /**
- * Get the word at a specific position in the document
- */
-function getWordAtPosition(document: TextDocument, position: Position): string {
-  const offset = document.offsetAt(position);
-  const text = document.getText();
-  let start = offset;
-  let end = offset;
-
-  // Find word boundaries
-  while (start > 0 && /[a-zA-Z0-9_]/.test(text[start - 1])) {
-    start--;
-  }
-  while (end < text.length && /[a-zA-Z0-9_]/.test(text[end])) {
-    end++;
-  }
-
-  return text.substring(start, end);
-}
-
-/**
- * Provide go-to-definition functionality
+ * Provide go-to-definition functionality. The name under the cursor is
+ * resolved through the Baton model: `principal_type` to its resource type,
+ * `entitlement_id` to the static entitlement of the grant's resource type,
+ * `?<name>` to its var or action argument and `.column` to the select-list
+ * item producing it.
+ * Tables, which are defined in the database, go to their mentions in this
+ * document's queries.
  */
 export function provideDefinition(
   document: TextDocument,
   position: Position,
-  symbolIndex: SymbolIndex
+  symbolIndex: SymbolIndex,
+  dialect?: string
 ): Definition | null {
-  // Get the word under the cursor
-  const word = getWordAtPosition(document, position);
-  if (!word) {
-    return null;
+  const doc = buildBatonDocument(document.getText(), dialect);
+  const offset = document.offsetAt(position);
+
+  let locations: Location[] = findDefinitions(doc, offset).map(range => ({
+    uri: document.uri,
+    range: { start: document.positionAt(range.start), end: document.positionAt(range.end) }
+  }));
+
+  if (locations.length === 0) {
+    const at = symbolAt(doc, offset);
+    if (at?.symbol.kind !== 'table') {
+      return null;
+    }
+    const name = at.symbol.name;
+    locations = symbolIndex
+      .findSymbol(name, document.uri)
+      .filter(symbol => symbol.type === 'table')
+      .map(symbol => ({ uri: symbol.documentUri, range: symbol.range }));
   }
 
-  // Look up the symbol in the index
-  const symbols = symbolIndex.findSymbol(word);
-  if (symbols.length === 0) {
+  if (locations.length === 0) {
     return null;
   }
 
-  // Return all locations where this symbol is defined
-  const locations: Location[] = symbols.map(symbol => ({
-    uri: symbol.documentUri,
-    range: symbol.range
-  }));
-
   // If there's only one definition, return it directly
   if (locations.length === 1) {
     return locations[0];
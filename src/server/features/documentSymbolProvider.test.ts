@@ -0,0 +1,84 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DocumentSymbol, SymbolKind } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { provideDocumentSymbols } from './documentSymbolProvider';
+
+const yaml = `connect:
+  scheme: postgres
+resource_types:
+  group:
+    name: Group
+    list:
+      query: SELECT id FROM groups
+      map:
+        id: .id
+    static_entitlements:
+      - id: member
+        display_name: Member
+      - display_name: Nameless
+      - just a string
+    grants:
+      - query: SELECT user_id FROM memberships
+        map:
+          - principal_id: .user_id
+            principal_type: user
+      - 42
+      - query: SELECT group_id FROM nested
+actions:
+  disable:
+    name: Disable
+    query: UPDATE users SET active = false
+`;
+
+interface Outline {
+  name: string;
+  kind: SymbolKind;
+  detail?: string;
+  /** 0-based start and end line of `range`; a block value ends at the start of the next line. */
+  lines: [number, number];
+  children?: Outline[];
+}
+
+function outline(symbols: DocumentSymbol[]): Outline[] {
+  return symbols.map(s => {
+    const o: Outline = { name: s.name, kind: s.kind, lines: [s.range.start.line, s.range.end.line] };
+    if (s.detail !== undefined) o.detail = s.detail;
+    if (s.children) o.children = outline(s.children);
+    return o;
+  });
+}
+
+const symbols = provideDocumentSymbols(TextDocument.create('file:///baton-sql-app.yaml', 'yaml', 1, yaml));
+
+test('documentSymbols: connect, resource types with their sections, and actions', () => {
+  assert.deepEqual(outline(symbols), [
+    { name: 'connect', kind: SymbolKind.Module, detail: 'postgres', lines: [0, 2] },
+    {
+      name: 'group',
+      kind: SymbolKind.Class,
+      detail: 'Group',
+      lines: [3, 21],
+      children: [
+        { name: 'list', kind: SymbolKind.Method, lines: [5, 9] },
+        // grants[1] and static_entitlements[2] aren't mappings and are left out.
+        { name: 'grants[0]', kind: SymbolKind.Method, detail: 'user', lines: [15, 19] },
+        { name: 'grants[2]', kind: SymbolKind.Method, lines: [20, 21] },
+        { name: 'member', kind: SymbolKind.Constant, detail: 'Member', lines: [10, 12] },
+        // Without an id, a static entitlement is named by its position.
+        { name: 'static_entitlements[1]', kind: SymbolKind.Constant, detail: 'Nameless', lines: [12, 13] },
+      ],
+    },
+    { name: 'disable', kind: SymbolKind.Function, detail: 'Disable', lines: [22, 25] },
+  ]);
+});
+
+test('documentSymbols: the selection is the key, or the item key that names a list entry', () => {
+  const group = symbols[1];
+  assert.deepEqual(group.selectionRange, { start: { line: 3, character: 2 }, end: { line: 3, character: 7 } });
+  const member = group.children?.find(c => c.name === 'member');
+  assert.deepEqual(member?.selectionRange, { start: { line: 10, character: 8 }, end: { line: 10, character: 10 } });
+  // No `id` key: the whole entry is selected.
+  const nameless = group.children?.find(c => c.name === 'static_entitlements[1]');
+  assert.deepEqual(nameless?.selectionRange, nameless?.range);
+});
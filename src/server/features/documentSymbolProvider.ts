@@ -0,0 +1,101 @@
+/** @format */
+
+import { DocumentSymbol, Range, SymbolKind } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { BatonDocument, buildBatonDocument, rangeAt } from '../../validation/document';
+import { sequenceItems } from '../../utils/yamlUtils';
+
+/** The keys of a resource type the outline reads from the YAML. */
+interface ResourceTypeYaml {
+  grants?: ({ map?: ({ principal_type?: unknown } | null)[] } | null)[];
+  static_entitlements?: ({ id?: unknown; display_name?: unknown } | null)[];
+}
+
+/**
+ * The document's outline in Baton terms: the connect block, each resource
+ * type with its list, entitlements, grants and static entitlements, and
+ * each action. Drives the Outline view, breadcrumbs and Go to Symbol.
+ */
+export function provideDocumentSymbols(document: TextDocument): DocumentSymbol[] {
+  const doc = buildBatonDocument(document.getText());
+  const toRange = (start: number, end: number): Range => ({ start: document.positionAt(start), end: document.positionAt(end) });
+
+  /** A symbol for the `key:` at `path`, spanning the key and its value. */
+  const keyed = (
+    path: (string | number)[],
+    name: string,
+    kind: SymbolKind,
+    detail?: string,
+    children?: DocumentSymbol[],
+  ): DocumentSymbol | undefined => {
+    const key = rangeAt(doc, path, 'key');
+    if (!key) return undefined;
+    const value = rangeAt(doc, path);
+    return {
+      name,
+      detail,
+      kind,
+      range: toRange(key.start, Math.max(key.end, value?.end ?? key.end)),
+      selectionRange: toRange(key.start, key.end),
+      children,
+    };
+  };
+
+  /** A symbol for the list item at `path`, selected on its `select:` key. */
+  const item = (
+    path: (string | number)[],
+    select: string,
+    name: string,
+    kind: SymbolKind,
+    detail?: string,
+  ): DocumentSymbol | undefined => {
+    const whole = rangeAt(doc, path);
+    if (!whole) return undefined;
+    const selection = rangeAt(doc, [...path, select], 'key') ?? whole;
+    return { name, detail, kind, range: toRange(whole.start, whole.end), selectionRange: toRange(selection.start, selection.end) };
+  };
+
+  const symbols: DocumentSymbol[] = [];
+  const push = (list: DocumentSymbol[], symbol: DocumentSymbol | undefined) => {
+    if (symbol) list.push(symbol);
+  };
+
+  if (doc.connect) push(symbols, keyed(['connect'], 'connect', SymbolKind.Module, connectDetail(doc)));
+
+  for (const [id, rt] of doc.resourceTypes) {
+    const base = ['resource_types', id];
+    const children: DocumentSymbol[] = [];
+    if (rt.list) push(children, keyed([...base, 'list'], 'list', SymbolKind.Method));
+    if (rt.entitlements) push(children, keyed([...base, 'entitlements'], 'entitlements', SymbolKind.Method));
+    // Walk the YAML lists rather than rt.grants / rt.staticEntitlements, which skip malformed entries.
+    // eslint-disable-next-line security/detect-object-injection -- id is a key of resource_types
+    const yaml: ResourceTypeYaml | undefined = doc.yaml?.resource_types?.[id];
+    sequenceItems(yaml?.grants).forEach((grant, i) => {
+      if (!grant || typeof grant !== 'object') return;
+      const types = sequenceItems(grant.map).map(m => m?.principal_type);
+      const principals = [...new Set(types.filter((t): t is string => typeof t === 'string'))];
+      push(children, item([...base, 'grants', i], 'query', `grants[${i}]`, SymbolKind.Method, principals.join(', ') || undefined));
+    });
+    sequenceItems(yaml?.static_entitlements).forEach((entitlement, i) => {
+      if (!entitlement || typeof entitlement !== 'object') return;
+      const name = typeof entitlement.id === 'string' && entitlement.id ? entitlement.id : `static_entitlements[${i}]`;
+      const detail = typeof entitlement.display_name === 'string' ? entitlement.display_name : undefined;
+      push(children, item([...base, 'static_entitlements', i], 'id', name, SymbolKind.Constant, detail));
+    });
+    push(symbols, keyed(base, id, SymbolKind.Class, rt.name, children));
+  }
+
+  for (const [id, action] of doc.actions) {
+    push(symbols, keyed(['actions', id], id, SymbolKind.Function, action.name));
+  }
+
+  return symbols;
+}
+
+/** `postgres`, or the host and database when there is no scheme. */
+function connectDetail(doc: BatonDocument): string | undefined {
+  const connect = doc.connect;
+  if (!connect) return undefined;
+  if (connect.scheme) return connect.scheme;
+  return [connect.host, connect.database].filter(Boolean).join('/') || undefined;
+}
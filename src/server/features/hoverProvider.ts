@@ -4,6 +4,11 @@ import { Hover, MarkupContent, MarkupKind } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { getKeywordDocumentation } from '../documentation/sqlKeywords';
 import { getBatonParameterDocumentation } from '../documentation/batonParameters';
+import { Catalog, CatalogColumn, CatalogTable, findColumn, findTable, qualifiedName } from '../../catalog/catalog';
+import { referenceAt } from '../../catalog/cursorContext';
+import { TableReference } from '../../catalog/queryReferences';
+import { sqlOffsetToYaml } from '../../validation/parsedQuery';
+import { CatalogFeatureOptions, queryAtCursor } from './queryAtCursor';
 
 /**
  * Get the word at a specific position in the document
@@ -100,9 +105,110 @@ function getMultiWordKeyword(document: TextDocument, offset: number, word: strin
 }
 
 /**
- * Provide hover information for SQL keywords and Baton parameters
+ * Markdown for a catalog table: row estimate, columns with types and
+ * nullability, primary and foreign keys
  */
-export function provideHover(document: TextDocument, position: { line: number; character: number }): Hover | null {
+function describeTable(table: CatalogTable): string[] {
+  const lines: string[] = [];
+  if (table.rowCount !== undefined) {
+    lines.push(`~${table.rowCount.toLocaleString('en-US')} rows (estimate)`, '');
+  }
+  const primaryKey = new Set((table.primaryKey ?? []).map(c => c.toLowerCase()));
+  lines.push('| Column | Type | Nullability |', '|---|---|---|');
+  for (const column of table.columns) {
+    const name = primaryKey.has(column.name.toLowerCase()) ? `**${column.name}** (PK)` : column.name;
+    lines.push(`| ${name} | ${column.type ?? ''} | ${nullability(column)} |`);
+  }
+  if (table.primaryKey && table.primaryKey.length > 0) {
+    lines.push('', `**Primary key:** ${table.primaryKey.join(', ')}`);
+  }
+  for (const fk of table.foreignKeys ?? []) {
+    const target = qualifiedName({ schema: fk.references.schema, name: fk.references.table });
+    const columns = fk.references.columns.length > 0 ? `(${fk.references.columns.join(', ')})` : '';
+    lines.push('', `**Foreign key:** ${fk.columns.join(', ')} → ${target}${columns}`);
+  }
+  return lines;
+}
+
+function nullability(column: CatalogColumn): string {
+  if (column.nullable === undefined) return '';
+  return column.nullable ? 'nullable' : 'NOT NULL';
+}
+
+/** `` `public.users` ``, or `` `public.users` (alias `u`) `` */
+function describeSource(table: CatalogTable, ref: TableReference): string {
+  return ref.alias ? `\`${qualifiedName(table)}\` (alias \`${ref.alias}\`)` : `\`${qualifiedName(table)}\``;
+}
+
+/** Catalog tables for `refs`, paired with the reference; unknown tables dropped. */
+function knownTables(catalog: Catalog, refs: TableReference[]): [CatalogTable, TableReference][] {
+  const known: [CatalogTable, TableReference][] = [];
+  for (const ref of refs) {
+    const table = findTable(catalog, ref.name, ref.schema);
+    if (table) known.push([table, ref]);
+  }
+  return known;
+}
+
+/**
+ * Hover for the table, alias or column under the cursor inside a SQL
+ * query, resolved against the catalog the way the query scopes it
+ */
+function provideCatalogHover(document: TextDocument, offset: number, options: CatalogFeatureOptions): Hover | null {
+  const catalog = options.catalog;
+  if (!catalog || catalog.tables.length === 0) return null;
+  const at = queryAtCursor(document, offset, options.dialect);
+  const reference = at && referenceAt(at.query.rawSql, at.sqlOffset, at.query.dialect);
+  if (!at || !reference) return null;
+
+  let lines: string[] | undefined;
+  if (reference.kind === 'table') {
+    const table = findTable(catalog, reference.table.name, reference.table.schema);
+    if (table) lines = [`### ${qualifiedName(table)}`, '', ...describeTable(table)];
+  } else if (reference.kind === 'alias') {
+    const [known] = knownTables(catalog, reference.tables);
+    if (known) {
+      lines = [`### ${reference.alias}`, '', `Alias for \`${qualifiedName(known[0])}\``, '', ...describeTable(known[0])];
+    }
+  } else {
+    const matches = knownTables(catalog, reference.tables)
+      .map(([table, ref]) => ({ table, ref, column: findColumn(table, reference.column) }))
+      .filter((m): m is { table: CatalogTable; ref: TableReference; column: CatalogColumn } => m.column !== undefined);
+    if (matches.length === 1) {
+      const { table, ref, column } = matches[0];
+      const facts = [column.type ? `\`${column.type}\`` : undefined, nullability(column) || undefined].filter(Boolean);
+      lines = [`### ${table.name}.${column.name}`, ''];
+      if (facts.length > 0) lines.push(facts.join(' · '), '');
+      lines.push(`Column of ${describeSource(table, ref)}`);
+    } else if (matches.length > 1) {
+      lines = [
+        `### ${reference.column}`,
+        '',
+        `Ambiguous: ${matches.map(m => `${describeSource(m.table, m.ref)}${m.column.type ? `: \`${m.column.type}\`` : ''}`).join(', ')}`,
+      ];
+    }
+  }
+  if (!lines) return null;
+
+  const query = at.query;
+  return {
+    contents: { kind: MarkupKind.Markdown, value: lines.join('\n') },
+    range: {
+      start: document.positionAt(sqlOffsetToYaml(query, reference.start)),
+      end: document.positionAt(sqlOffsetToYaml(query, reference.end)),
+    },
+  };
+}
+
+/**
+ * Provide hover information for SQL keywords and Baton parameters, plus
+ * catalog tables, aliases and columns when a catalog is configured
+ */
+export function provideHover(
+  document: TextDocument,
+  position: { line: number; character: number },
+  options: CatalogFeatureOptions = {}
+): Hover | null {
   const offset = document.offsetAt(position);
 
   // Check if we're hovering over a Baton parameter
@@ -126,6 +232,11 @@ export function provideHover(document: TextDocument, position: { line: number; c
     }
   }
 
+  const catalogHover = provideCatalogHover(document, offset, options);
+  if (catalogHover) {
+    return catalogHover;
+  }
+
   // Get the word at the current position
   const word = getWordAtPosition(document, offset);
   if (!word) {
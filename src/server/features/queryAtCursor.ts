@@ -0,0 +1,30 @@
+/** @format */
+
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Catalog } from '../../catalog/catalog';
+import { buildBatonDocument } from '../../validation/document';
+import { ParsedQuery, yamlOffsetToSql } from '../../validation/parsedQuery';
+
+/** What catalog-aware features need from the validator configuration. */
+export interface CatalogFeatureOptions {
+  catalog?: Catalog;
+  /** Default `connect.scheme`, as in `BatonSqlConfig.dialect`. */
+  dialect?: string;
+}
+
+/**
+ * The SQL query containing `offset` in the document, and the cursor's
+ * offset within its `rawSql`. Undefined outside every query.
+ */
+export function queryAtCursor(
+  document: TextDocument,
+  offset: number,
+  dialect?: string
+): { query: ParsedQuery; sqlOffset: number } | undefined {
+  const baton = buildBatonDocument(document.getText(), dialect);
+  for (const query of baton.queries) {
+    const sqlOffset = yamlOffsetToSql(query, offset);
+    if (sqlOffset !== undefined) return { query, sqlOffset };
+  }
+  return undefined;
+}
@@ -0,0 +1,47 @@
+/** @format */
+
+import { Location, Position } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { buildBatonDocument } from '../../validation/document';
+import { findOccurrences, symbolAt } from '../../validation/references';
+import { SymbolIndex } from '../index/symbolIndex';
+import { toFsPath } from '../config/workspaceConfig';
+
+/**
+ * Find All References for the resource type, static entitlement, var or
+ * table under the cursor. References within the document come from the
+ * Baton model, so `principal_type: user` and `grantable_to: [user]` are
+ * found but a `user` column is not. Tables are shared between configs, so
+ * the queries of other workspace files that read the table are included too.
+ * Queries are parsed in `dialect`, the folder's `database.dialect`.
+ */
+export function provideReferences(
+  document: TextDocument,
+  position: Position,
+  includeDeclaration: boolean,
+  symbolIndex: SymbolIndex,
+  dialect?: string
+): Location[] | null {
+  const doc = buildBatonDocument(document.getText(), dialect);
+  const at = symbolAt(doc, document.offsetAt(position));
+  if (!at) {
+    return null;
+  }
+
+  const locations: Location[] = findOccurrences(doc, at.symbol)
+    .filter(occurrence => includeDeclaration || !occurrence.definition)
+    .map(occurrence => ({
+      uri: document.uri,
+      range: { start: document.positionAt(occurrence.range.start), end: document.positionAt(occurrence.range.end) }
+    }));
+
+  if (at.symbol.kind === 'table') {
+    const self = toFsPath(document.uri) ?? document.uri;
+    for (const symbol of symbolIndex.findSymbol(at.symbol.name)) {
+      if (symbol.type !== 'table' || (toFsPath(symbol.documentUri) ?? symbol.documentUri) === self) continue;
+      locations.push({ uri: symbol.documentUri, range: symbol.range });
+    }
+  }
+
+  return locations;
+}
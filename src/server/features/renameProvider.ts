@@ -0,0 +1,55 @@
+/** @format */
+
+import { LSPErrorCodes, Position, Range, ResponseError, TextEdit, WorkspaceEdit } from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { buildBatonDocument } from '../../validation/document';
+import { planRename, prepareRename } from '../../validation/rename';
+
+/**
+ * Check that the name under the cursor can be renamed: a resource type id,
+ * a static entitlement id or a `vars` key defined in this document. Tables
+ * and names only referred to here are refused with a reason.
+ */
+export function providePrepareRename(
+  document: TextDocument,
+  position: Position,
+  dialect?: string
+): { range: Range; placeholder: string } | ResponseError | null {
+  const prepared = prepareRename(buildBatonDocument(document.getText(), dialect), document.offsetAt(position));
+  if (!prepared) {
+    return null;
+  }
+  if ('error' in prepared) {
+    return new ResponseError(LSPErrorCodes.RequestFailed, prepared.error);
+  }
+  return {
+    range: { start: document.positionAt(prepared.range.start), end: document.positionAt(prepared.range.end) },
+    placeholder: prepared.placeholder
+  };
+}
+
+/**
+ * Rename the symbol under the cursor along with its literal references:
+ * `principal_type` and `grantable_to` for a resource type, `entitlement_id`
+ * and `expandable.entitlement_ids` for a static entitlement, and the
+ * `?<name>` parameters of the queries that see a `vars` key.
+ */
+export function provideRename(
+  document: TextDocument,
+  position: Position,
+  newName: string,
+  dialect?: string
+): WorkspaceEdit | ResponseError | null {
+  const plan = planRename(buildBatonDocument(document.getText(), dialect), document.offsetAt(position), newName);
+  if (!plan) {
+    return null;
+  }
+  if ('error' in plan) {
+    return new ResponseError(LSPErrorCodes.RequestFailed, plan.error);
+  }
+  const edits: TextEdit[] = plan.ranges.map(range => ({
+    range: { start: document.positionAt(range.start), end: document.positionAt(range.end) },
+    newText: newName
+  }));
+  return { changes: { [document.uri]: edits } };
+}
@@ -0,0 +1,27 @@
+/** @format */
+
+import { SymbolInformation, SymbolKind } from 'vscode-languageserver/node';
+import { SymbolIndex, SymbolInfo } from '../index/symbolIndex';
+
+const KINDS: Record<SymbolInfo['type'], SymbolKind> = {
+  resource_type: SymbolKind.Class,
+  entitlement: SymbolKind.Constant,
+  action: SymbolKind.Function,
+  table: SymbolKind.Struct,
+  alias: SymbolKind.Struct,
+  var: SymbolKind.Variable,
+};
+
+/**
+ * Workspace symbols matching `query` across every Baton config in the
+ * workspace, so "Go to Symbol in Workspace" answers questions like which
+ * connectors read `app_roles`.
+ */
+export function provideWorkspaceSymbols(query: string, symbolIndex: SymbolIndex): SymbolInformation[] {
+  return symbolIndex.search(query).map(symbol => ({
+    name: symbol.name,
+    kind: KINDS[symbol.type],
+    location: { uri: symbol.documentUri, range: symbol.range },
+    containerName: symbol.container,
+  }));
+}
@@ -0,0 +1,101 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SymbolIndex, SymbolInfo } from './symbolIndex';
+
+const yaml = `resource_types:
+  group:
+    name: Group
+    list:
+      query: SELECT id, name FROM groups WHERE org = ?<org>
+      vars:
+        org: connector.org
+    static_entitlements:
+      - id: member
+        display_name: Member
+    grants:
+      - query: |
+          SELECT m.user_id
+          FROM memberships m
+          JOIN users u ON u.id = m.user_id
+actions:
+  disable_user:
+    name: Disable user
+    query: UPDATE users SET active = false
+`;
+
+const uri = 'file:///work/baton-sql-app.yaml';
+
+function indexed(): SymbolIndex {
+  const index = new SymbolIndex();
+  index.indexDocument(TextDocument.create(uri, 'yaml', 1, yaml));
+  return index;
+}
+
+/** `type name @line:character in container` for each symbol, in index order. */
+function describe(symbols: SymbolInfo[]): string[] {
+  return symbols.map(s => `${s.type} ${s.name} @${s.range.start.line}:${s.range.start.character} in ${s.container}`);
+}
+
+test('symbolIndex: resource types, static entitlements, actions, query tables and vars', () => {
+  assert.deepEqual(describe(indexed().search('')), [
+    'resource_type group @1:2 in resource_types',
+    'entitlement member @8:12 in resource_types.group.static_entitlements',
+    'action disable_user @16:2 in actions',
+    'table groups @4:34 in resource_types.group.list',
+    'table memberships @13:15 in resource_types.group.grants[0]',
+    'table users @14:15 in resource_types.group.grants[0]',
+    'table users @18:18 in actions.disable_user',
+    'var org @6:8 in resource_types.group.list',
+  ]);
+});
+
+test('symbolIndex: search matches the query as a case-insensitive subsequence', () => {
+  const index = indexed();
+  assert.deepEqual(index.search('DsUsr').map(s => s.name), ['disable_user']);
+  assert.deepEqual(index.search('mbr').map(s => s.name), ['member', 'memberships']);
+  assert.deepEqual(index.search('xyz'), []);
+});
+
+test('symbolIndex: findSymbol by name, across the workspace or in one document', () => {
+  const index = indexed();
+  index.indexDocument(TextDocument.create('file:///work/baton-sql-other.yaml', 'yaml', 1, 'actions:\n  users:\n    name: Users\n'));
+  assert.deepEqual(index.findSymbol('users').map(s => `${s.type} ${s.documentUri}`), [
+    `table ${uri}`,
+    `table ${uri}`,
+    'action file:///work/baton-sql-other.yaml',
+  ]);
+  assert.equal(index.findSymbol('users', 'file:///work/baton-sql-other.yaml').length, 1);
+});
+
+test('symbolIndex: documents are keyed by file path, so encodings of one URI agree', () => {
+  const index = indexed();
+  const encoded = 'file:///work/baton%2Dsql%2Dapp.yaml';
+  assert.equal(index.findSymbol('group', encoded).length, 1);
+  index.indexDocument(TextDocument.create(encoded, 'yaml', 2, 'resource_types:\n  team:\n    name: Team\n'));
+  assert.deepEqual(index.search('').map(s => s.name), ['team']);
+  index.clearDocument(uri);
+  assert.deepEqual(index.search(''), []);
+});
+
+test('symbolIndex: indexFile reads from disk and drops a file that is gone', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baton-sql-index-'));
+  try {
+    const file = path.join(dir, 'baton-sql-app.yaml');
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    fs.writeFileSync(file, yaml);
+    const fileUri = pathToFileURL(file).href;
+    const index = new SymbolIndex();
+    index.indexFile(fileUri);
+    assert.equal(index.findSymbol('member', fileUri).length, 1);
+    fs.rmSync(file);
+    index.indexFile(fileUri);
+    assert.deepEqual(index.search(''), []);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+});
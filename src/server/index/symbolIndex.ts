@@ -1,154 +1,176 @@
 /** @format */
 
-import { Position, Range } from 'vscode-languageserver/node';
+import * as fs from 'fs';
+import { Range } from 'vscode-languageserver/node';
 import { TextDocument } from 'vscode-languageserver-textdocument';
-import { parseYaml, findSQLQueries } from '../../utils/serverUtils';
+import { BatonDocument, buildBatonDocument, formatPath, rangeAt } from '../../validation/document';
+import { ParsedQuery, sqlOffsetToYaml } from '../../validation/parsedQuery';
+import { queryTables, walkVars } from '../../validation/references';
+import { SourceRange } from '../../validation/yamlModel';
+import { sequenceItems } from '../../utils/yamlUtils';
+import { toFsPath } from '../config/workspaceConfig';
 
 export interface SymbolInfo {
   name: string;
-  type: 'table' | 'alias' | 'resource_type' | 'entitlement';
+  type: 'table' | 'alias' | 'resource_type' | 'entitlement' | 'action' | 'var';
   range: Range;
   documentUri: string;
+  /** Where in the file the symbol sits, e.g. `resource_types.user.list` for a table its query reads. */
+  container?: string;
 }
 
+const IDENTIFIER = /[A-Za-z_][\w$]*/g;
+
+/**
+ * Symbols of every Baton config in the workspace: resource types, static
+ * entitlement ids, actions, the tables each query reads and `vars`. Open
+ * documents are indexed from the editor's text, the rest from disk.
+ */
 export class SymbolIndex {
-  private symbols: Map<string, SymbolInfo[]> = new Map();
+  /** Symbols by document, keyed by file path so differently-encoded URIs of one file agree. */
+  private byDocument: Map<string, SymbolInfo[]> = new Map();
 
   /**
-   * Index a document and extract symbols
+   * Index a document and extract symbols. `dialect` is the default
+   * `connect.scheme`, as in `BatonSqlConfig.dialect`.
    */
-  indexDocument(document: TextDocument): void {
-    const uri = document.uri;
-    const content = document.getText();
-
-    // Clear existing symbols for this document
-    this.clearDocument(uri);
-
-    try {
-      // Parse YAML
-      const yamlObject = parseYaml(content);
-      if (!yamlObject) return;
-
-      // Extract resource types
-      if (yamlObject.resource_types) {
-        this.extractResourceTypes(document, yamlObject.resource_types);
-      }
-
-      // Extract table names from SQL queries
-      const sqlQueries = findSQLQueries(content, yamlObject);
-      for (const queryInfo of sqlQueries) {
-        this.extractTablesFromQuery(document, queryInfo.query, queryInfo.startPosition);
-      }
-    } catch (error) {
-      // Silently fail - indexing is best-effort
-    }
+  indexDocument(document: TextDocument, dialect?: string): void {
+    this.index(document.uri, document, dialect);
   }
 
   /**
-   * Extract resource type definitions from YAML
+   * Index the file at `uri` from disk; drops its symbols when it can't be read.
    */
-  private extractResourceTypes(document: TextDocument, resourceTypes: any): void {
-    const lines = document.getText().split('\n');
-
-    for (const [name, _value] of Object.entries(resourceTypes)) {
-      // Find the line where this resource type is defined
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        if (line.trim().startsWith(`${name}:`)) {
-          const startChar = line.indexOf(name);
-          const symbol: SymbolInfo = {
-            name,
-            type: 'resource_type',
-            range: {
-              start: { line: i, character: startChar },
-              end: { line: i, character: startChar + name.length }
-            },
-            documentUri: document.uri
-          };
-          this.addSymbol(name, symbol);
-          break;
-        }
-      }
+  indexFile(uri: string, dialect?: string): void {
+    const filePath = toFsPath(uri);
+    let content: string;
+    try {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- a workspace file the client reported
+      content = fs.readFileSync(filePath ?? '', 'utf8');
+    } catch {
+      this.clearDocument(uri);
+      return;
     }
+    this.index(uri, TextDocument.create(uri, 'yaml', 0, content), dialect);
   }
 
-  /**
-   * Extract table names from SQL query (simple regex-based extraction)
-   */
-  private extractTablesFromQuery(document: TextDocument, query: string, queryStartPos: number): void {
-    // Simple regex to extract table names from FROM and JOIN clauses
-    const tablePatterns = [
-      /FROM\s+([a-zA-Z_][a-zA-Z0-9_]*)/gi,
-      /JOIN\s+([a-zA-Z_][a-zA-Z0-9_]*)/gi
-    ];
-
-    const queryLines = query.split('\n');
-    let currentOffset = queryStartPos;
-
-    for (let lineIdx = 0; lineIdx < queryLines.length; lineIdx++) {
-      const line = queryLines[lineIdx];
-
-      for (const pattern of tablePatterns) {
-        pattern.lastIndex = 0; // Reset regex
-        let match;
-        while ((match = pattern.exec(line)) !== null) {
-          const tableName = match[1];
-          const startChar = match.index + match[0].indexOf(tableName);
-
-          // Calculate position in document
-          const position = document.positionAt(currentOffset + startChar);
-
-          const symbol: SymbolInfo = {
-            name: tableName,
-            type: 'table',
-            range: {
-              start: position,
-              end: { line: position.line, character: position.character + tableName.length }
-            },
-            documentUri: document.uri
-          };
-          this.addSymbol(tableName, symbol);
-        }
-      }
-
-      currentOffset += line.length + 1; // +1 for newline
+  private index(uri: string, document: TextDocument, dialect?: string): void {
+    try {
+      this.byDocument.set(keyOf(uri), extractSymbols(buildBatonDocument(document.getText(), dialect), document));
+    } catch {
+      // Indexing is best-effort
+      this.clearDocument(uri);
     }
   }
 
   /**
-   * Add a symbol to the index
+   * Find symbol by name, optionally only in the document `uri`
    */
-  private addSymbol(name: string, symbol: SymbolInfo): void {
-    const existing = this.symbols.get(name) || [];
-    existing.push(symbol);
-    this.symbols.set(name, existing);
+  findSymbol(name: string, uri?: string): SymbolInfo[] {
+    const documents = uri ? [this.byDocument.get(keyOf(uri)) ?? []] : [...this.byDocument.values()];
+    return documents.flatMap(symbols => symbols.filter(s => s.name === name));
   }
 
   /**
-   * Find symbol by name
+   * Symbols whose name contains the characters of `query` in order, ignoring
+   * case — the matching VS Code applies to workspace symbols. An empty query
+   * matches everything.
    */
-  findSymbol(name: string): SymbolInfo[] {
-    return this.symbols.get(name) || [];
+  search(query: string): SymbolInfo[] {
+    const wanted = query.toLowerCase();
+    const results: SymbolInfo[] = [];
+    for (const symbols of this.byDocument.values()) {
+      for (const symbol of symbols) {
+        if (isSubsequence(wanted, symbol.name.toLowerCase())) results.push(symbol);
+      }
+    }
+    return results;
   }
 
   /**
    * Clear symbols for a document
    */
   clearDocument(uri: string): void {
-    for (const [name, symbols] of this.symbols.entries()) {
-      const filtered = symbols.filter(s => s.documentUri !== uri);
-      if (filtered.length > 0) {
-        this.symbols.set(name, filtered);
-      } else {
-        this.symbols.delete(name);
-      }
-    }
+    this.byDocument.delete(keyOf(uri));
   }
 
   /**
    * Clear all symbols
    */
   clear(): void {
-    this.symbols.clear();
+    this.byDocument.clear();
+  }
+}
+
+function keyOf(uri: string): string {
+  return toFsPath(uri) ?? uri;
+}
+
+function isSubsequence(needle: string, haystack: string): boolean {
+  let i = 0;
+  for (const ch of haystack) {
+    if (i < needle.length && ch === needle.charAt(i)) i++;
+  }
+  return i === needle.length;
+}
+
+function extractSymbols(doc: BatonDocument, document: TextDocument): SymbolInfo[] {
+  const symbols: SymbolInfo[] = [];
+  const add = (name: string, type: SymbolInfo['type'], range: SourceRange | undefined, container?: string) => {
+    if (!name || !range) return;
+    symbols.push({
+      name,
+      type,
+      range: { start: document.positionAt(range.start), end: document.positionAt(range.end) },
+      documentUri: document.uri,
+      container,
+    });
+  };
+
+  for (const [id, rt] of doc.resourceTypes) {
+    add(id, 'resource_type', rt.range, 'resource_types');
+    const path = ['resource_types', id, 'static_entitlements'];
+    // eslint-disable-next-line security/detect-object-injection -- id is a key of resource_types
+    const entitlements = doc.yaml?.resource_types?.[id]?.static_entitlements;
+    sequenceItems<{ id?: unknown } | null>(entitlements).forEach((entitlement, i) => {
+      if (typeof entitlement?.id === 'string') add(entitlement.id, 'entitlement', rangeAt(doc, [...path, i, 'id']), formatPath(path));
+    });
+  }
+
+  for (const [id, action] of doc.actions) {
+    add(id, 'action', action.range, 'actions');
+  }
+
+  for (const query of doc.queries) {
+    const container = formatPath(queryOwner(query.yamlPath));
+    for (const table of tablesOf(query)) {
+      add(table.name, 'table', table.range, container);
+    }
+  }
+
+  walkVars(doc.yaml, [], (name, path) => add(name, 'var', rangeAt(doc, [...path, name], 'key'), formatPath(path.slice(0, -1))));
+
+  return symbols;
+}
+
+/** The path of the block a query belongs to: `resource_types.user.list` for `…list.query`. */
+function queryOwner(path: (string | number)[]): (string | number)[] {
+  if (typeof path[path.length - 1] === 'number' && path[path.length - 2] === 'queries') return path.slice(0, -2);
+  return path[path.length - 1] === 'query' ? path.slice(0, -1) : path;
+}
+
+/** Tables a query reads or writes, each at its first mention in the SQL. */
+function tablesOf(query: ParsedQuery): { name: string; range: SourceRange }[] {
+  const identifiers = [...query.rawSql.matchAll(IDENTIFIER)];
+  const tables: { name: string; range: SourceRange }[] = [];
+  for (const name of queryTables(query)) {
+    const lower = name.toLowerCase();
+    const match = identifiers.find(m => m[0].toLowerCase() === lower);
+    if (match?.index === undefined) continue;
+    tables.push({
+      name,
+      range: { start: sqlOffsetToYaml(query, match.index), end: sqlOffsetToYaml(query, match.index + name.length) },
+    });
   }
+  return tables;
 }
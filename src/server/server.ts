@@ -9,21 +9,53 @@ import {
   TextDocumentSyncKind,
   InitializeResult,
   DiagnosticSeverity,
-  Diagnostic
+  Diagnostic,
+  CodeActionKind,
+  FileChangeType
 } from 'vscode-languageserver/node';
 
 import { TextDocument } from 'vscode-languageserver-textdocument';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
 
 // Import validation logic
 import { clearValidationCache } from '../validation';
 import { validateDocument, documentCache, uriToHash, evictUri } from '../validation/pipeline';
+import { resultRange, fixRange } from '../validation/location';
+import { Severity } from '../validation/types';
 import { isBatonSQLFilePath, hashString } from '../utils/serverUtils';
+import { walkFiles } from '../utils/fileUtils';
+import { CATALOG_SNAPSHOT_FILE_NAME, CONFIG_FILE_NAME, matchesConfiguredFiles, matchesGlobs } from '../validation/config';
+import { WorkspaceConfig, toFsPath } from './config/workspaceConfig';
+import { WorkspaceCatalog } from './catalog/workspaceCatalog';
+import { introspectConnectorDatabase } from './catalog/introspection';
+import {
+  INTROSPECT_DATABASE_REQUEST,
+  IntrospectDatabaseParams,
+  IntrospectDatabaseResult,
+  RUN_SANDBOX_REQUEST,
+  RunSandboxParams,
+  RunSandboxResult,
+} from './constants/requests';
+import { runConnectorSandbox } from '../sandbox/connector';
 
 // Import LSP feature providers
 import { provideHover } from './features/hoverProvider';
 import { provideCompletionItems, resolveCompletionItem } from './features/completionProvider';
-import { provideCodeActions, storeDiagnosticFix, clearDiagnosticFixes } from './features/codeActionProvider';
+import {
+  provideCodeActions,
+  provideFixAllAction,
+  wantsFixAll,
+  storeDiagnosticFix,
+  clearDiagnosticFixes,
+  FIX_ALL_KIND,
+} from './features/codeActionProvider';
 import { provideDefinition } from './features/definitionProvider';
+import { provideReferences } from './features/referencesProvider';
+import { providePrepareRename, provideRename } from './features/renameProvider';
+import { evictCodeLenses, provideCodeLenses } from './features/codeLensProvider';
+import { provideDocumentSymbols } from './features/documentSymbolProvider';
+import { provideWorkspaceSymbols } from './features/workspaceSymbolProvider';
 import { SymbolIndex } from './index/symbolIndex';
 
 // Create a connection for the server
@@ -32,12 +64,42 @@ const connection = createConnection(ProposedFeatures.all);
 // Create a text document manager
 const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 
-// Symbol index for go-to-definition
+// Symbol index of every Baton config in the workspace, for workspace symbols and go-to-definition
 const symbolIndex = new SymbolIndex();
+let workspaceFolderUris: string[] = [];
 
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
 
+// Validator configuration per document (settings + .baton-sql.json)
+const workspaceConfig = new WorkspaceConfig(
+  async (uri) => hasConfigurationCapability
+    ? connection.workspace.getConfiguration({ scopeUri: uri, section: 'batonSql' })
+    : undefined,
+  (source, errors) => {
+    const summary = errors.join(' ');
+    connection.console.warn(`[Baton SQL] Ignoring invalid configuration in ${source}: ${summary}`);
+    connection.window.showWarningMessage(`Baton SQL: invalid configuration in ${source}. ${summary}`);
+  },
+);
+
+// Database catalogs from the configured catalog file and DDL files
+const workspaceCatalog = new WorkspaceCatalog(
+  (source, errors) => {
+    const summary = errors.join(' ');
+    connection.console.warn(`[Baton SQL] Problems loading catalog ${source}: ${summary}`);
+    connection.window.showWarningMessage(`Baton SQL: problems loading catalog ${source}. ${summary}`);
+  },
+  (source, errors) => {
+    connection.console.log(`[Baton SQL] Skipped DDL statements in ${source}:\n  ${errors.join('\n  ')}`);
+  },
+);
+
+// Documents the server validates. The client sends every YAML file so that
+// configured `files` globs can take effect without a restart; the other
+// providers only answer for documents in this set.
+const trackedUris = new Set<string>();
+
 /**
  * Initialize the language server
  */
@@ -51,20 +113,39 @@ connection.onInitialize((params: InitializeParams) => {
     capabilities.workspace && !!capabilities.workspace.workspaceFolders
   );
 
+  workspaceFolderUris = (params.workspaceFolders ?? []).map(f => f.uri);
+  workspaceConfig.setWorkspaceFolders(workspaceFolderUris);
+
   const result: InitializeResult = {
     capabilities: {
       textDocumentSync: TextDocumentSyncKind.Incremental,
-      // Hover support - show documentation on hover
+      // Hover support - show documentation on hover, and catalog tables/columns
       hoverProvider: true,
-      // Completion support - auto-complete SQL keywords and Baton parameters
+      // Completion support - auto-complete SQL keywords, Baton parameters and catalog tables/columns
       completionProvider: {
         resolveProvider: true,
         triggerCharacters: ['.', '{', ' ', '\n']
       },
-      // Code Action support - quick fixes for diagnostics
-      codeActionProvider: true,
+      // Code Action support - quick fixes for diagnostics, plus "fix all"
+      codeActionProvider: {
+        codeActionKinds: [CodeActionKind.QuickFix, FIX_ALL_KIND]
+      },
       // Definition provider - go-to-definition support
-      definitionProvider: true
+      definitionProvider: true,
+      // References provider - uses of resource types, entitlements, vars and tables
+      referencesProvider: true,
+      // Rename provider - resource types, static entitlement ids and vars with their literal references
+      renameProvider: {
+        prepareProvider: true
+      },
+      // Code lens support - "Preview mapping" on map blocks, from the fixtures
+      codeLensProvider: {
+        resolveProvider: false
+      },
+      // Document symbols - outline and breadcrumbs in Baton terms
+      documentSymbolProvider: true,
+      // Workspace symbols - resource types, entitlements, actions, tables and vars of every config
+      workspaceSymbolProvider: true
     }
   };
 
@@ -83,22 +164,103 @@ connection.onInitialized(() => {
   if (hasConfigurationCapability) {
     connection.client.register(DidChangeConfigurationNotification.type, undefined);
   }
+  if (hasWorkspaceFolderCapability) {
+    connection.workspace.onDidChangeWorkspaceFolders(async () => {
+      const folders = await connection.workspace.getWorkspaceFolders();
+      workspaceFolderUris = (folders ?? []).map(f => f.uri);
+      workspaceConfig.setWorkspaceFolders(workspaceFolderUris);
+      revalidateAll();
+      await indexWorkspace();
+    });
+  }
+  void indexWorkspace();
 
   connection.console.log('[Baton SQL Language Server] Initialized');
 });
 
+// Bumped by each workspace scan, so a scan still running when the folders change stops.
+let indexGeneration = 0;
+
+/**
+ * Index every `baton-sql-*.yaml` in the workspace folders: open documents
+ * from the editor, the rest from disk. Yields between files so requests
+ * aren't held up in large workspaces; a newer scan cancels this one.
+ */
+async function indexWorkspace(): Promise<void> {
+  const generation = ++indexGeneration;
+  const files: string[] = [];
+  for (const folder of workspaceFolderUris.map(toFsPath)) {
+    if (!folder) continue;
+    walkFiles(folder, f => {
+      if (isBatonSQLFilePath(f.split(path.sep).join('/'))) files.push(f);
+    });
+  }
+  symbolIndex.clear();
+  for (const file of files) {
+    const uri = pathToFileURL(file).href;
+    const open = documents.all().find(d => toFsPath(d.uri) === file);
+    const { dialect } = await workspaceConfig.get(uri);
+    if (open) {
+      symbolIndex.indexDocument(open, dialect);
+    } else {
+      symbolIndex.indexFile(uri, dialect);
+    }
+    await new Promise(resolve => setImmediate(resolve));
+    if (generation !== indexGeneration) return;
+  }
+  connection.console.log(`[Baton SQL] Indexed ${files.length} Baton SQL config${files.length === 1 ? '' : 's'}`);
+}
+
+/** Index a config from disk in the dialect its settings assume. */
+async function indexFile(uri: string): Promise<void> {
+  symbolIndex.indexFile(uri, (await workspaceConfig.get(uri)).dialect);
+}
+
+function inWorkspace(uri: string): boolean {
+  const filePath = toFsPath(uri);
+  return !!filePath && workspaceFolderUris.some(folder => {
+    const root = toFsPath(folder);
+    return !!root && !path.relative(root, filePath).startsWith('..');
+  });
+}
+
+/**
+ * Map a rule severity onto the LSP enum.
+ */
+function toDiagnosticSeverity(severity: Severity): DiagnosticSeverity {
+  switch (severity) {
+    case 'warning':
+      return DiagnosticSeverity.Warning;
+    case 'info':
+      return DiagnosticSeverity.Information;
+    case 'hint':
+      return DiagnosticSeverity.Hint;
+    default:
+      return DiagnosticSeverity.Error;
+  }
+}
+
 /**
  * Validate a text document and send diagnostics
  */
 async function validateTextDocument(textDocument: TextDocument): Promise<void> {
   const uri = textDocument.uri;
 
-  if (!isBatonSQLFilePath(uri)) {
+  const config = await workspaceConfig.get(uri);
+  const filePath = toFsPath(uri);
+  if (!isBatonSQLFilePath(uri) && !(filePath && matchesConfiguredFiles(config, filePath))) {
+    if (trackedUris.delete(uri)) {
+      evictUri(uri);
+      connection.sendDiagnostics({ uri, diagnostics: [] });
+    }
     return;
   }
+  trackedUris.add(uri);
 
   const content = textDocument.getText();
-  const newHash = hashString(content);
+  const catalog = workspaceCatalog.get(config);
+  // The same content validates differently under different configs and catalogs.
+  const newHash = `${hashString(content)}:${hashString(JSON.stringify(config))}:${catalog?.version ?? ''}`;
   const previousHash = uriToHash.get(uri);
 
   // If this URI's content hasn't changed since last validation, nothing to do.
@@ -134,13 +296,13 @@ async function validateTextDocument(textDocument: TextDocument): Promise<void> {
     const { document, results } = validateDocument(content, (ruleName, error) => {
       const msg = error instanceof Error ? (error.stack || error.message) : String(error);
       connection.console.error(`[Baton SQL] rule '${ruleName}' threw while validating ${uri}: ${msg}`);
-    });
+    }, config, catalog?.catalog);
 
     // No queries found AND no document-scope failures? Send empty and cache.
     if (results.length === 0) {
       documentCache.set(newHash, []);
       connection.sendDiagnostics({ uri, diagnostics: [] });
-      symbolIndex.indexDocument(textDocument);
+      symbolIndex.indexDocument(textDocument, config.dialect);
       return;
     }
 
@@ -148,49 +310,36 @@ async function validateTextDocument(textDocument: TextDocument): Promise<void> {
     const allDiagnostics: Diagnostic[] = [];
     for (const pr of results) {
       const r = pr.result;
-      const startOffset = pr.query?.startOffset ?? 0;
-      const endOffset = pr.query?.endOffset ?? content.length;
-
-      let range = {
-        start: textDocument.positionAt(startOffset),
-        end: textDocument.positionAt(endOffset),
+      const { start, end } = resultRange(document, pr);
+      const range = {
+        start: textDocument.positionAt(start),
+        end: textDocument.positionAt(end),
       };
 
-      // lineNumber semantics:
-      //   - Query-scope rules (pr.query defined): SQL-relative line within the
-      //     SQL block. We add the query block's starting line in the YAML.
-      //   - Document-scope rules (pr.query undefined): absolute YAML line.
-      if (r.lineNumber !== undefined) {
-        const queryStartLine = pr.query
-          ? textDocument.positionAt(pr.query.startOffset).line
-          : 0;
-        const absLine = queryStartLine + r.lineNumber;
-        const lines = content.split('\n');
-        let offset = 0;
-        for (let i = 0; i < absLine && i < lines.length; i++) {
-          offset += lines[i].length + 1;
-        }
-        range = {
-          start: textDocument.positionAt(offset),
-          end: textDocument.positionAt(offset + (lines[absLine]?.length || 0)),
-        };
-      } else if (r.position !== undefined) {
-        range = {
-          start: textDocument.positionAt(startOffset + r.position),
-          end: textDocument.positionAt(startOffset + r.position + 1),
-        };
-      }
-
       const diagnostic: Diagnostic = {
-        severity: DiagnosticSeverity.Error,
+        severity: toDiagnosticSeverity(pr.severity),
         range,
         message: r.errorMessage || 'SQL validation error',
-        source: 'baton-sql',
+        source: `baton-sql/${pr.ruleName}`,
+        code: pr.rule.code,
+        codeDescription: { href: pr.rule.docsUrl },
       };
       allDiagnostics.push(diagnostic);
 
       if (r.suggestedFix) {
-        storeDiagnosticFix(uri, diagnostic, r.suggestedFix);
+        // Query-scope fixes are SQL-relative; translate them into YAML positions.
+        let fix = r.suggestedFix;
+        if (pr.query) {
+          const fixOffsets = fixRange(pr.query, fix);
+          fix = {
+            range: {
+              start: textDocument.positionAt(fixOffsets.start),
+              end: textDocument.positionAt(fixOffsets.end),
+            },
+            newText: fix.newText,
+          };
+        }
+        storeDiagnosticFix(uri, diagnostic, fix);
       }
     }
 
@@ -205,7 +354,7 @@ async function validateTextDocument(textDocument: TextDocument): Promise<void> {
 
     documentCache.set(newHash, uniqueDiagnostics);
     connection.sendDiagnostics({ uri, diagnostics: uniqueDiagnostics });
-    symbolIndex.indexDocument(textDocument);
+    symbolIndex.indexDocument(textDocument, config.dialect);
 
   } catch (error: any) {
     connection.console.error(`[Baton SQL] Error validating document ${uri}: ${error.message}`);
@@ -225,38 +374,124 @@ documents.onDidOpen(async (event) => {
 // Document close handler
 documents.onDidClose((event) => {
   evictUri(event.document.uri);
-  symbolIndex.clearDocument(event.document.uri);
+  evictCodeLenses(event.document.uri);
+  trackedUris.delete(event.document.uri);
+  workspaceConfig.forget(event.document.uri);
+  // Closed configs stay in the workspace index, as saved on disk.
+  if (isBatonSQLFilePath(event.document.uri) && inWorkspace(event.document.uri)) {
+    void indexFile(event.document.uri);
+  } else {
+    symbolIndex.clearDocument(event.document.uri);
+  }
   // Clear diagnostics for closed document
   connection.sendDiagnostics({ uri: event.document.uri, diagnostics: [] });
 });
 
-// Configuration change handler
-connection.onDidChangeConfiguration(() => {
-  // Clear validation cache when configuration changes
+/**
+ * Drop every cache that depends on configuration and revalidate all open
+ * documents.
+ */
+function revalidateAll(): void {
   clearValidationCache();
   documentCache.clear();
   uriToHash.clear();
-
-  // Revalidate all open documents
+  workspaceConfig.invalidate();
+  workspaceCatalog.invalidate();
   documents.all().forEach(validateTextDocument);
+}
+
+// Configuration change handler
+connection.onDidChangeConfiguration(() => {
+  revalidateAll();
+});
+
+// A Baton config, a .baton-sql.json or a DDL .sql file was created, changed or deleted
+connection.onDidChangeWatchedFiles(async (params) => {
+  // Keep the workspace index in step with configs that aren't open
+  for (const change of params.changes) {
+    if (!isBatonSQLFilePath(change.uri) || documents.get(change.uri)) continue;
+    if (change.type === FileChangeType.Deleted) {
+      symbolIndex.clearDocument(change.uri);
+    } else {
+      await indexFile(change.uri);
+    }
+  }
+
+  // A catalog snapshot that appears or goes away changes the default catalog.
+  const reconfigures = (uri: string) =>
+    uri.endsWith(`/${CONFIG_FILE_NAME}`) || uri.endsWith(`/${CATALOG_SNAPSHOT_FILE_NAME}`);
+  if (params.changes.some(c => reconfigures(c.uri))) {
+    revalidateAll();
+    return;
+  }
+
+  const sqlPaths = params.changes
+    .map(c => toFsPath(c.uri))
+    .filter((p): p is string => p !== undefined && p.toLowerCase().endsWith('.sql'));
+  if (sqlPaths.length > 0 && (await readsDdl(sqlPaths))) {
+    // The rebuilt catalog gets a new version, which is part of each
+    // document's hash, so open documents validate again against it.
+    workspaceCatalog.invalidateDdl();
+    documents.all().forEach(validateTextDocument);
+  }
+});
+
+/** Whether any validated document's `ddl` globs match one of `filePaths`. */
+async function readsDdl(filePaths: string[]): Promise<boolean> {
+  const configs = await Promise.all([...trackedUris].map(uri => workspaceConfig.get(uri)));
+  return configs.some(config => {
+    const ddl = config.ddl ?? [];
+    return filePaths.some(filePath => matchesGlobs(ddl, filePath));
+  });
+}
+
+// Introspect database command: snapshot the connector's database as a catalog
+connection.onRequest(INTROSPECT_DATABASE_REQUEST, async (params: IntrospectDatabaseParams): Promise<IntrospectDatabaseResult> => {
+  const document = documents.get(params.uri);
+  const filePath = toFsPath(params.uri);
+  if (!document || !filePath || !trackedUris.has(params.uri)) {
+    throw new Error('Open a Baton SQL connector file to introspect its database.');
+  }
+  const config = await workspaceConfig.get(params.uri);
+  const result = await introspectConnectorDatabase(
+    filePath, document.getText(), config, workspaceConfig.folderFor(filePath),
+  );
+  // The snapshot may be a new default catalog; re-resolve configs too.
+  revalidateAll();
+  return result;
+});
+
+// Run sandbox command: the document's queries against its fixture tables
+connection.onRequest(RUN_SANDBOX_REQUEST, async (params: RunSandboxParams): Promise<RunSandboxResult> => {
+  const document = documents.get(params.uri);
+  const filePath = toFsPath(params.uri);
+  if (!document || !filePath || !trackedUris.has(params.uri)) {
+    throw new Error('Open a Baton SQL connector file to run it in the sandbox.');
+  }
+  const config = await workspaceConfig.get(params.uri);
+  return runConnectorSandbox(filePath, document.getText(), config);
 });
 
 // Hover handler - provides documentation on hover
-connection.onHover((params) => {
+connection.onHover(async (params) => {
   const document = documents.get(params.textDocument.uri);
-  if (!document) {
+  if (!document || !trackedUris.has(document.uri)) {
     return null;
   }
-  return provideHover(document, params.position);
+  const config = await workspaceConfig.get(document.uri);
+  const catalog = workspaceCatalog.get(config)?.catalog;
+  return provideHover(document, params.position, { catalog, dialect: config.dialect });
 });
 
 // Completion handler - provides auto-complete suggestions
-connection.onCompletion((params) => {
+connection.onCompletion(async (params) => {
   const document = documents.get(params.textDocument.uri);
-  if (!document) {
+  if (!document || !trackedUris.has(document.uri)) {
     return [];
   }
-  return provideCompletionItems(params, document);
+  const config = await workspaceConfig.get(document.uri);
+  const catalog = workspaceCatalog.get(config)?.catalog;
+  return provideCompletionItems(params, document, { catalog, dialect: config.dialect });
 });
 
 // Completion resolve handler - provides additional details for selected completion item
@@ -265,21 +500,81 @@ connection.onCompletionResolve((item) => {
 });
 
 // Code Action handler - provides quick fixes for diagnostics
-connection.onCodeAction((params) => {
+connection.onCodeAction(async (params) => {
   const document = documents.get(params.textDocument.uri);
-  if (!document) {
+  if (!document || !trackedUris.has(document.uri)) {
     return [];
   }
-  return provideCodeActions(params, document);
+  const actions = provideCodeActions(params, document);
+  if (wantsFixAll(params)) {
+    const fixAllAction = provideFixAllAction(document, await workspaceConfig.get(document.uri));
+    if (fixAllAction) actions.push(fixAllAction);
+  }
+  return actions;
 });
 
 // Definition handler - provides go-to-definition functionality
-connection.onDefinition((params) => {
+connection.onDefinition(async (params) => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document || !trackedUris.has(document.uri)) {
+    return null;
+  }
+  const config = await workspaceConfig.get(document.uri);
+  return provideDefinition(document, params.position, symbolIndex, config.dialect);
+});
+
+// References handler - finds uses through the Baton model rather than by word
+connection.onReferences(async (params) => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document || !trackedUris.has(document.uri)) {
+    return null;
+  }
+  const config = await workspaceConfig.get(document.uri);
+  return provideReferences(document, params.position, params.context.includeDeclaration, symbolIndex, config.dialect);
+});
+
+// Rename handlers - check the name under the cursor, then rename it and its references
+connection.onPrepareRename(async (params) => {
   const document = documents.get(params.textDocument.uri);
-  if (!document) {
+  if (!document || !trackedUris.has(document.uri)) {
     return null;
   }
-  return provideDefinition(document, params.position, symbolIndex);
+  const config = await workspaceConfig.get(document.uri);
+  return providePrepareRename(document, params.position, config.dialect);
+});
+
+connection.onRenameRequest(async (params) => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document || !trackedUris.has(document.uri)) {
+    return null;
+  }
+  const config = await workspaceConfig.get(document.uri);
+  return provideRename(document, params.position, params.newName, config.dialect);
+});
+
+// Workspace symbol handler - searches every Baton config in the workspace
+connection.onWorkspaceSymbol((params) => {
+  return provideWorkspaceSymbols(params.query, symbolIndex);
+});
+
+// Code lens handler - previews each map block against a fixture row
+connection.onCodeLens(async (params) => {
+  const document = documents.get(params.textDocument.uri);
+  const filePath = toFsPath(params.textDocument.uri);
+  if (!document || !filePath || !trackedUris.has(document.uri)) {
+    return [];
+  }
+  const config = await workspaceConfig.get(document.uri);
+  return provideCodeLenses(document, filePath, config);
+});
+
+// Document symbol handler - resource types, their queries and entitlements, actions
+connection.onDocumentSymbol((params) => {
+  const document = documents.get(params.textDocument.uri);
+  if (!document || !trackedUris.has(document.uri)) {
+    return [];
+  }
+  return provideDocumentSymbols(document);
 });
 
 // Make the text document manager listen on the connection
@@ -28,3 +28,12 @@ test('extractColumnRefs: complex expressions', () => {
   const refs = extractColumnRefs('if .active then .login else "disabled"');
   assert.deepEqual(refs.sort(), ['active', 'login']);
 });
+
+test('extractColumnRefs: string literals are not scanned', () => {
+  assert.deepEqual(extractColumnRefs('.name + " (see .env)"'), ['name']);
+});
+
+test('extractColumnRefs: broken expressions still yield their columns', () => {
+  assert.deepEqual(extractColumnRefs('lower(.email'), ['email']);
+  assert.deepEqual(extractColumnRefs('.first_name + + .last_name'), ['first_name', 'last_name']);
+});
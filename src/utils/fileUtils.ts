@@ -1,3 +1,6 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
 /**
  * File utility functions that work for both VS Code URIs and plain file paths
  * These are used by the language server which doesn't have access to vscode module
@@ -25,3 +28,28 @@ export function hashString(str: string): string {
   }
   return hash.toString(36);
 }
+
+/** Directories never descended into when searching the filesystem. */
+const SKIPPED_DIRS = new Set(['node_modules', '.git']);
+
+/**
+ * Call `visit` with every file under `dir`, recursively. Unreadable
+ * directories are skipped, as are `node_modules` and `.git`.
+ */
+export function walkFiles(dir: string, visit: (filePath: string) => void): void {
+  let entries: fs.Dirent[];
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- directory from configuration or our own walk
+    entries = fs.readdirSync(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRS.has(entry.name)) walkFiles(full, visit);
+    } else if (entry.isFile()) {
+      visit(full);
+    }
+  }
+}
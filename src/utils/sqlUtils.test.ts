@@ -38,3 +38,9 @@ test('extractSelectColumns: function call with alias uses alias', () => {
   assert.deepEqual([...result.columns], ['total']);
   assert.equal(result.hasWildcard, false);
 });
+
+test('extractSelectColumns: postgresql column names and source expressions', () => {
+  const result = extractSelectColumns(getParser().astify('SELECT u.login, u.id AS uid FROM users u', { database: 'postgresql' }));
+  assert.deepEqual([...result.columns].sort(), ['login', 'uid']);
+  assert.equal(result.exprs.get('uid')?.type, 'column_ref');
+});
@@ -16,6 +16,15 @@ export function getParser(): Parser {
   return parserInstance;
 }
 
+/**
+ * node-sql-parser gives a single node or a list for the same clause
+ * (FROM, SET, ...) depending on dialect and statement; always get a list.
+ */
+export function asArray<T>(value: T | T[] | null | undefined): T[] {
+  if (Array.isArray(value)) return value;
+  return value ? [value] : [];
+}
+
 /**
  * Normalize SQL for parsing by removing Baton-specific parameters
  */
@@ -159,14 +168,22 @@ export function hasGroupBy(ast: any): boolean {
  * {col, alias}. `SELECT *` sets `hasWildcard: true` and the caller should
  * treat that as "can't verify" rather than "no columns".
  *
+ * `exprs` maps each name to the select-list expression behind it (first
+ * one wins), so callers can trace an output column back to its source.
+ *
  * Handles AST shapes from node-sql-parser. Non-select statements return an
  * empty set with hasWildcard: false.
  */
-export function extractSelectColumns(ast: any): { columns: Set<string>; hasWildcard: boolean } {
+export function extractSelectColumns(ast: any): { columns: Set<string>; hasWildcard: boolean; exprs: Map<string, unknown> } {
   const columns = new Set<string>();
+  const exprs = new Map<string, unknown>();
   let hasWildcard = false;
+  const add = (name: string, expr: unknown) => {
+    columns.add(name);
+    if (!exprs.has(name)) exprs.set(name, expr);
+  };
 
-  if (!ast) return { columns, hasWildcard };
+  if (!ast) return { columns, hasWildcard, exprs };
 
   const statements = Array.isArray(ast) ? ast : [ast];
 
@@ -199,12 +216,17 @@ export function extractSelectColumns(ast: any): { columns: Set<string>; hasWildc
       }
 
       if (typeof col.as === 'string' && col.as.length > 0) {
-        columns.add(col.as);
+        add(col.as, expr);
         continue;
       }
 
       if (expr?.type === 'column_ref' && typeof expr.column === 'string') {
-        columns.add(expr.column);
+        add(expr.column, expr);
+        continue;
+      }
+      // postgresql wraps the name: { column: { expr: { type: 'default', value } } }.
+      if (expr?.type === 'column_ref' && typeof expr.column?.expr?.value === 'string' && expr.column.expr.value !== '*') {
+        add(expr.column.expr.value, expr);
         continue;
       }
 
@@ -213,5 +235,5 @@ export function extractSelectColumns(ast: any): { columns: Set<string>; hasWildc
     }
   }
 
-  return { columns, hasWildcard };
+  return { columns, hasWildcard, exprs };
 }
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
-import { looksLikeLiteralReference } from './stringUtils';
+import { closestMatch, looksLikeLiteralReference } from './stringUtils';
 
 test('looksLikeLiteralReference: plain identifiers are literal', () => {
   assert.equal(looksLikeLiteralReference('user'), true);
@@ -22,3 +22,12 @@ test('looksLikeLiteralReference: expressions and edge cases are not literal', ()
   assert.equal(looksLikeLiteralReference('foo:'), false);       // trailing colon
   assert.equal(looksLikeLiteralReference(':foo'), false);       // leading colon
 });
+
+test('closestMatch: nearest candidate within the edit budget', () => {
+  assert.equal(closestMatch('emial', ['id', 'email', 'name']), 'email');
+  assert.equal(closestMatch('USRES', ['users', 'orgs']), 'users');
+  assert.equal(closestMatch('zzz', ['users', 'orgs']), undefined);
+  assert.equal(closestMatch('nmae', ['id', 'name']), 'name');
+  // Two edits rewrite a two-letter name entirely: too weak to suggest.
+  assert.equal(closestMatch('xy', ['id']), undefined);
+});
@@ -92,6 +92,26 @@ export function areWordsSimilar(word1: string, word2: string, threshold: number
   return distance <= threshold;
 }
 
+/**
+ * The candidate closest to `word` (case-insensitive), for "did you mean"
+ * hints. Only returns a candidate within `maxDistance` edits that changes
+ * at most half of `word`, so short names don't match everything.
+ */
+export function closestMatch(word: string, candidates: Iterable<string>, maxDistance: number = 2): string | undefined {
+  const lower = word.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = levenshteinDistance(lower, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = candidate;
+    }
+  }
+  if (bestDistance > maxDistance || bestDistance * 2 > word.length) return undefined;
+  return best;
+}
+
 /**
  * Whether a value looks like a literal reference (resource type ID, entitlement ID)
  * rather than a CEL/jq-style expression. Used by cross-query reference rules to
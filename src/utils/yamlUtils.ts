@@ -14,6 +14,14 @@ export function parseYaml(yamlContent: string): any {
   }
 }
 
+/**
+ * Items of a YAML sequence; nothing for a missing value or one that isn't a
+ * sequence (schema validation reports those).
+ */
+export function sequenceItems<T>(value: T[] | null | undefined): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
 /**
  * Find SQL queries in YAML document with position information
  */
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyEdits, fixAll, fixEdits, OffsetEdit } from './autofix';
+import { validateDocument } from './pipeline';
+import { mergeConfigs } from './config';
+
+const edit = (start: number, end: number, newText: string): OffsetEdit => ({ start, end, newText, ruleName: 'x' });
+
+const withQuery = (query: string[], style = '|') => `
+app_name: t
+connect:
+  dsn: postgres://x
+resource_types:
+  user:
+    name: User
+    description: u
+    list:
+      query: ${style}
+${query.map(l => `        ${l}`).join('\n')}
+      pagination:
+        strategy: offset
+        primary_key: id
+      map:
+        id: ".id"
+        display_name: ".name"
+`;
+
+test('applyEdits: applies non-overlapping edits right to left', () => {
+  const { content, applied } = applyEdits('abcdef', [edit(4, 5, 'E'), edit(0, 1, 'A'), edit(3, 3, '-')]);
+  assert.equal(content, 'Abc-dEf');
+  assert.equal(applied.length, 3);
+});
+
+test('applyEdits: skips overlapping edits and second insertions at one offset', () => {
+  const { content, applied } = applyEdits('abcdef', [
+    edit(1, 4, 'X'),
+    edit(2, 3, 'Y'),
+    edit(5, 5, '1'),
+    edit(5, 5, '2'),
+  ]);
+  assert.equal(content, 'aXe1f');
+  assert.deepEqual(applied.map(e => e.newText), ['X', '1']);
+});
+
+test('applyEdits: exact duplicates count once', () => {
+  const { content, applied } = applyEdits('ab', [edit(1, 1, ','), edit(1, 1, ',')]);
+  assert.equal(content, 'a,b');
+  assert.equal(applied.length, 1);
+});
+
+test('fixAll: fixes keyword typos and missing commas until clean', () => {
+  const yaml = withQuery(['SELCT', '  id', '  name', '  email', 'FORM users']);
+  const { content, fixed, passes } = fixAll(yaml);
+  assert.ok(content.includes('        SELECT\n          id,\n          name,\n          email\n        FROM users'), content);
+  assert.ok(fixed >= 4, `fixed ${fixed}`);
+  assert.ok(passes >= 2, 'keyword fixes unlock further comma fixes on later passes');
+  assert.deepEqual(validateDocument(content).results, []);
+});
+
+test('fixAll: fixes land at the right YAML offsets in folded scalars', () => {
+  const yaml = withQuery(['SELECT id', 'FORM users'], '>');
+  const { content } = fixAll(yaml);
+  assert.ok(content.includes('        SELECT id\n        FROM users'), content);
+});
+
+test('fixAll: placeholder fixes (missing ON clause) are not applied', () => {
+  const yaml = withQuery(['SELECT u.id', 'FROM users u', 'JOIN orgs o']);
+  const { document, results } = validateDocument(yaml);
+  assert.ok(results.some(r => r.ruleName === 'invalid-join' && r.result.suggestedFix), 'fixture has a quick fix');
+  assert.deepEqual(fixEdits(document, results), []);
+  assert.equal(fixAll(yaml).fixed, 0);
+});
+
+test('fixAll: rules switched off in config are not fixed', () => {
+  const yaml = withQuery(['SELCT id', 'FROM users']);
+  const { fixed, content } = fixAll(yaml, mergeConfigs({ rules: { 'keyword-spelling': 'off' } }));
+  assert.equal(fixed, 0);
+  assert.equal(content, yaml);
+});
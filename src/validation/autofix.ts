@@ -0,0 +1,111 @@
+import { BatonDocument } from './document';
+import { fixRange } from './location';
+import { PipelineResult, RuleErrorHandler, validateDocument } from './pipeline';
+import { BatonSqlConfig, DEFAULT_CONFIG } from './config';
+
+/** A suggested fix resolved to absolute offsets into the YAML. */
+export interface OffsetEdit {
+  start: number;
+  end: number;
+  newText: string;
+  /** Rule that suggested it. */
+  ruleName: string;
+}
+
+/** Upper bound on validate → fix rounds, in case two fixes keep undoing each other. */
+export const MAX_FIX_PASSES = 10;
+
+/**
+ * Offsets of every autofixable suggestedFix in `results`. Query-scope fixes
+ * are SQL-relative and go through the source map; document-scope fixes are
+ * already YAML line/character positions.
+ */
+export function fixEdits(document: BatonDocument, results: PipelineResult[]): OffsetEdit[] {
+  const content = document.yamlContent;
+  let lineStarts: number[] | undefined;
+  const absolute = (line: number, character: number) => {
+    if (!lineStarts) {
+      lineStarts = [0];
+      for (let i = 0; i < content.length; i++) {
+        // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+        if (content[i] === '\n') lineStarts.push(i + 1);
+      }
+    }
+    const start = lineStarts[Math.min(line, lineStarts.length - 1)];
+    return Math.min(start + character, content.length);
+  };
+
+  const edits: OffsetEdit[] = [];
+  for (const pr of results) {
+    const fix = pr.result.suggestedFix;
+    if (!fix || !pr.rule.autofix) continue;
+    const { start, end } = pr.query
+      ? fixRange(pr.query, fix)
+      : {
+          start: absolute(fix.range.start.line, fix.range.start.character),
+          end: absolute(fix.range.end.line, fix.range.end.character),
+        };
+    edits.push({ start, end, newText: fix.newText, ruleName: pr.ruleName });
+  }
+  return edits;
+}
+
+/**
+ * Apply as many edits as possible in one go. Edits are taken in offset order;
+ * one that overlaps an edit already taken (including a second insertion at
+ * the same offset) is skipped and left for the next pass. Exact duplicates
+ * count once.
+ */
+export function applyEdits(content: string, edits: OffsetEdit[]): { content: string; applied: OffsetEdit[] } {
+  const sorted = [...edits].sort((a, b) => a.start - b.start || a.end - b.end);
+  const applied: OffsetEdit[] = [];
+  for (const edit of sorted) {
+    const last = applied[applied.length - 1];
+    if (last) {
+      if (last.start === edit.start && last.end === edit.end && last.newText === edit.newText) continue;
+      const overlaps = edit.start < last.end || (edit.start === last.start && (edit.start === edit.end || last.start === last.end));
+      if (overlaps) continue;
+    }
+    applied.push(edit);
+  }
+
+  let out = content;
+  for (let i = applied.length - 1; i >= 0; i--) {
+    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+    const edit = applied[i];
+    out = out.slice(0, edit.start) + edit.newText + out.slice(edit.end);
+  }
+  return { content: out, applied };
+}
+
+export interface FixAllResult {
+  /** The fixed YAML (unchanged when nothing was fixable). */
+  content: string;
+  /** Number of fixes applied across all passes. */
+  fixed: number;
+  /** Validate → fix rounds that changed the content. */
+  passes: number;
+}
+
+/**
+ * Apply every autofixable fix, re-validate, and repeat until no fix applies
+ * (or MAX_FIX_PASSES is reached).
+ */
+export function fixAll(
+  content: string,
+  config: BatonSqlConfig = DEFAULT_CONFIG,
+  onRuleError?: RuleErrorHandler,
+): FixAllResult {
+  let current = content;
+  let fixed = 0;
+  let passes = 0;
+  while (passes < MAX_FIX_PASSES) {
+    const { document, results } = validateDocument(current, onRuleError, config);
+    const { content: next, applied } = applyEdits(current, fixEdits(document, results));
+    if (applied.length === 0 || next === current) break;
+    current = next;
+    fixed += applied.length;
+    passes++;
+  }
+  return { content: current, fixed, passes };
+}
@@ -0,0 +1,171 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  parseConfig,
+  mergeConfigs,
+  ruleSetting,
+  globToRegExp,
+  matchesConfiguredFiles,
+  matchesGlobs,
+  loadProjectConfig,
+  resolveGlobs,
+  CONFIG_FILE_NAME,
+} from './config';
+import { missingCommaRule } from './rules';
+
+test('parseConfig: accepts rule names, codes, a dialect and file globs', () => {
+  const { config, errors } = parseConfig({
+    rules: { 'missing-comma': 'off', BSQL005: 'error' },
+    dialect: 'postgres',
+    files: ['connectors/*.yaml'],
+  });
+  assert.deepEqual(errors, []);
+  assert.deepEqual(config, {
+    rules: { 'missing-comma': 'off', BSQL005: 'error' },
+    dialect: 'postgres',
+    files: ['connectors/*.yaml'],
+  });
+});
+
+test('parseConfig: reports and drops invalid entries, keeps the rest', () => {
+  const { config, errors } = parseConfig({
+    rules: { 'no-such-rule': 'off', 'missing-from': 'loud', 'trailing-comma': 'warning' },
+    dialect: 'oracle',
+  });
+  assert.deepEqual(config.rules, { 'trailing-comma': 'warning' });
+  assert.equal(config.dialect, undefined);
+  assert.equal(errors.length, 3);
+  assert.match(errors[0], /no-such-rule/);
+  assert.match(errors[1], /missing-from/);
+  assert.match(errors[2], /oracle/);
+});
+
+test('parseConfig: an empty dialect (the settings default) is not an error', () => {
+  assert.deepEqual(parseConfig({ rules: {}, dialect: '', files: [] }).errors, []);
+});
+
+test('parseConfig: catalog must be a path', () => {
+  assert.deepEqual(parseConfig({ catalog: 'db/catalog.yaml' }).config, { catalog: 'db/catalog.yaml' });
+  assert.deepEqual(parseConfig({ catalog: '' }), { config: {}, errors: [] });
+  assert.match(parseConfig({ catalog: 42 }).errors[0], /'catalog' must be the path/);
+});
+
+test('parseConfig: ddl must be an array of globs; null means unset', () => {
+  assert.deepEqual(parseConfig({ ddl: ['migrations/*.sql'] }).config, { ddl: ['migrations/*.sql'] });
+  assert.deepEqual(parseConfig({ ddl: [] }).config, { ddl: [] });
+  assert.deepEqual(parseConfig({ ddl: null }), { config: {}, errors: [] });
+  assert.match(parseConfig({ ddl: 'x.sql' }).errors[0], /'ddl' must be an array/);
+});
+
+test('mergeConfigs: the last layer that sets ddl wins, even when empty', () => {
+  assert.deepEqual(mergeConfigs({ ddl: ['/a/**/*.sql'] }, { ddl: [] }).ddl, []);
+  assert.deepEqual(mergeConfigs({ ddl: ['/a/**/*.sql'] }, {}).ddl, ['/a/**/*.sql']);
+});
+
+test('parseConfig: fixtures must be an array of globs', () => {
+  assert.deepEqual(parseConfig({ fixtures: ['fixtures/*.csv'] }).config, { fixtures: ['fixtures/*.csv'] });
+  assert.match(parseConfig({ fixtures: 'users.csv' }).errors[0], /'fixtures' must be an array/);
+  assert.deepEqual(mergeConfigs({ fixtures: ['/a/*.yaml'] }, {}).fixtures, ['/a/*.yaml']);
+});
+
+test('parseConfig: rejects a non-object', () => {
+  assert.equal(parseConfig([]).errors.length, 1);
+  assert.deepEqual(parseConfig(undefined), { config: {}, errors: [] });
+});
+
+test('mergeConfigs: later layers win per rule; files accumulate', () => {
+  const merged = mergeConfigs(
+    { rules: { 'missing-comma': 'off', 'missing-from': 'warning' }, dialect: 'mysql', files: ['/a/*.yaml'] },
+    { rules: { 'missing-comma': 'error' }, files: ['/b/*.yaml'] },
+  );
+  assert.deepEqual(merged.rules, { 'missing-comma': 'error', 'missing-from': 'warning' });
+  assert.equal(merged.dialect, 'mysql');
+  assert.deepEqual(merged.files, ['/a/*.yaml', '/b/*.yaml']);
+});
+
+test('ruleSetting: looks up by code or name, code first', () => {
+  assert.equal(ruleSetting(mergeConfigs({ rules: { 'missing-comma': 'warning' } }), missingCommaRule), 'warning');
+  assert.equal(
+    ruleSetting(mergeConfigs({ rules: { 'missing-comma': 'warning', BSQL001: 'off' } }), missingCommaRule),
+    'off',
+  );
+  assert.equal(ruleSetting(mergeConfigs(), missingCommaRule), undefined);
+});
+
+test('ruleSetting: a higher layer wins over a lower one whichever key form each uses', () => {
+  // Settings (lower) by code, project file (higher) by name.
+  const merged = mergeConfigs({ rules: { BSQL001: 'off' } }, { rules: { 'missing-comma': 'warning' } });
+  assert.equal(ruleSetting(merged, missingCommaRule), 'warning');
+  // And the other way round.
+  const reversed = mergeConfigs({ rules: { 'missing-comma': 'off' } }, { rules: { BSQL001: 'info' } });
+  assert.equal(ruleSetting(reversed, missingCommaRule), 'info');
+});
+
+test('globToRegExp: **, *, ? and {a,b}', () => {
+  const re = globToRegExp('/repo/**/conn-?.{yaml,yml}');
+  assert.ok(re.test('/repo/conn-a.yaml'));
+  assert.ok(re.test('/repo/x/y/conn-b.yml'));
+  assert.ok(!re.test('/repo/x/conn-ab.yaml'));
+  assert.ok(!re.test('/other/conn-a.yaml'));
+  assert.ok(!globToRegExp('/repo/*.yaml').test('/repo/sub/a.yaml'));
+  assert.ok(globToRegExp('/repo/a+b.yaml').test('/repo/a+b.yaml'));
+});
+
+test('resolveGlobs + matchesConfiguredFiles: relative globs anchor at the base directory', () => {
+  const files = resolveGlobs(['./connectors/*.yaml', '/abs/**/*.yml'], '/repo/');
+  assert.deepEqual(files, ['/repo/connectors/*.yaml', '/abs/**/*.yml']);
+  const config = mergeConfigs({ files });
+  assert.ok(matchesConfiguredFiles(config, '/repo/connectors/pg.yaml'));
+  assert.ok(!matchesConfiguredFiles(config, '/elsewhere/connectors/pg.yaml'));
+});
+
+test('matchesGlobs: the default ddl glob matches .sql files anywhere under the folder', () => {
+  const ddl = resolveGlobs(['**/*.sql'], '/repo');
+  assert.ok(matchesGlobs(ddl, '/repo/schema.sql'));
+  assert.ok(matchesGlobs(ddl, '/repo/db/migrations/001_init.sql'));
+  assert.ok(!matchesGlobs(ddl, '/other/schema.sql'));
+  assert.ok(!matchesGlobs([], '/repo/schema.sql'));
+});
+
+test('loadProjectConfig: finds the nearest file walking up, stops at stopDir', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'baton-sql-config-'));
+  try {
+    const nested = path.join(root, 'a', 'b');
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    fs.mkdirSync(nested, { recursive: true });
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    fs.writeFileSync(
+      path.join(root, CONFIG_FILE_NAME),
+      JSON.stringify({ rules: { 'missing-comma': 'off' }, files: ['conn/*.yaml'], catalog: 'db/catalog.json', ddl: ['db/*.sql'] }),
+    );
+
+    const found = loadProjectConfig(nested);
+    assert.ok(found);
+    assert.equal(found.path, path.join(root, CONFIG_FILE_NAME));
+    assert.deepEqual(found.config.rules, { 'missing-comma': 'off' });
+    assert.deepEqual(found.config.files, [`${root.split(path.sep).join('/')}/conn/*.yaml`]);
+    assert.equal(found.config.catalog, path.join(root, 'db', 'catalog.json'));
+    assert.deepEqual(found.config.ddl, [`${root.split(path.sep).join('/')}/db/*.sql`]);
+
+    assert.equal(loadProjectConfig(nested, path.join(root, 'a')), undefined);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('loadProjectConfig: malformed JSON is reported, not thrown', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'baton-sql-config-'));
+  try {
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- temp directory created by the test
+    fs.writeFileSync(path.join(root, CONFIG_FILE_NAME), '{ "rules": ');
+    const found = loadProjectConfig(root, root);
+    assert.ok(found);
+    assert.deepEqual(found.config, {});
+    assert.equal(found.errors.length, 1);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
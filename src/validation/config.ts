@@ -0,0 +1,328 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Severity, ValidationRule } from './types';
+import { allValidationRules } from './rules';
+import { schemeToDialect } from './dialect';
+import { unusedSuppressionRule } from './suppressions';
+import { walkFiles } from '../utils/fileUtils';
+
+const GLOB_CHARS = /[*?{]/;
+
+/** Name of the project configuration file, looked up from the validated file's directory upward. */
+export const CONFIG_FILE_NAME = '.baton-sql.json';
+
+/**
+ * Catalog snapshot written by the Introspect database command, in the
+ * workspace folder. The editor uses it as the catalog when nothing else is
+ * configured.
+ */
+export const CATALOG_SNAPSHOT_FILE_NAME = '.baton-sql-catalog.yaml';
+
+/** A rule can be switched off or pinned to a severity. */
+export type RuleSetting = 'off' | Severity;
+
+const RULE_SETTINGS: ReadonlySet<string> = new Set(['off', 'error', 'warning', 'info', 'hint']);
+
+/**
+ * Validator configuration, merged from VS Code settings (`batonSql.*`) and
+ * the nearest `.baton-sql.json`.
+ */
+export interface BatonSqlConfig {
+  /** Per-rule overrides, keyed by rule name (`missing-comma`) or code (`BSQL001`). */
+  rules: Record<string, RuleSetting>;
+  /** A `connect.scheme` value (e.g. `postgres`) to assume when the file doesn't set one. */
+  dialect?: string;
+  /**
+   * Extra files to validate besides `baton-sql-*.yaml`, as globs. After
+   * loading they are absolute: each layer's globs are resolved against the
+   * directory they were declared in.
+   */
+  files: string[];
+  /**
+   * Catalog file describing the database's tables and columns: JSON, YAML
+   * or a SQLite database to introspect. Absolute after loading, like `files`.
+   */
+  catalog?: string;
+  /**
+   * Globs of `.sql` files whose CREATE/ALTER/DROP TABLE statements describe
+   * the database, absolute after loading. `[]` turns DDL import off.
+   */
+  ddl?: string[];
+  /**
+   * Globs of YAML and CSV fixture files the sandbox loads as table data,
+   * absolute after loading. Unset means `fixtures/**` next to the connector.
+   */
+  fixtures?: string[];
+}
+
+export const DEFAULT_CONFIG: BatonSqlConfig = { rules: {}, files: [] };
+
+export interface ParsedConfig {
+  config: Partial<BatonSqlConfig>;
+  /** Human-readable problems with the input. Invalid entries are dropped, valid ones kept. */
+  errors: string[];
+}
+
+/**
+ * Validate an untrusted config object (parsed JSON, or the VS Code settings
+ * section). Unknown rules, bad severities and unsupported dialects are
+ * reported and skipped so one typo doesn't discard the rest of the file.
+ */
+export function parseConfig(raw: unknown): ParsedConfig {
+  const errors: string[] = [];
+  const config: Partial<BatonSqlConfig> = {};
+  if (raw === undefined || raw === null) return { config, errors };
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    return { config, errors: ['Configuration must be a JSON object.'] };
+  }
+  const obj = raw as Record<string, unknown>;
+
+  if (obj.rules !== undefined) {
+    if (typeof obj.rules !== 'object' || obj.rules === null || Array.isArray(obj.rules)) {
+      errors.push("'rules' must be an object mapping rule names or codes to a severity or 'off'.");
+    } else {
+      const rules: Record<string, RuleSetting> = {};
+      for (const [key, value] of Object.entries(obj.rules)) {
+        if (!findRule(key)) {
+          errors.push(`Unknown rule '${key}' in 'rules'.`);
+          continue;
+        }
+        if (typeof value !== 'string' || !RULE_SETTINGS.has(value)) {
+          errors.push(`Rule '${key}': expected one of off, error, warning, info, hint; got ${JSON.stringify(value)}.`);
+          continue;
+        }
+        // eslint-disable-next-line security/detect-object-injection -- key validated against the rule list above
+        rules[key] = value as RuleSetting;
+      }
+      config.rules = rules;
+    }
+  }
+
+  if (obj.dialect !== undefined && obj.dialect !== '') {
+    if (typeof obj.dialect !== 'string' || !schemeToDialect(obj.dialect)) {
+      errors.push(`Unsupported 'dialect' ${JSON.stringify(obj.dialect)}. Use a connect.scheme value such as postgres, mysql, sqlserver or sqlite.`);
+    } else {
+      config.dialect = obj.dialect;
+    }
+  }
+
+  if (obj.files !== undefined) {
+    if (!Array.isArray(obj.files) || obj.files.some(f => typeof f !== 'string')) {
+      errors.push("'files' must be an array of glob strings.");
+    } else {
+      config.files = obj.files as string[];
+    }
+  }
+
+  if (obj.catalog !== undefined && obj.catalog !== '') {
+    if (typeof obj.catalog !== 'string') {
+      errors.push("'catalog' must be the path of a catalog file.");
+    } else {
+      config.catalog = obj.catalog;
+    }
+  }
+
+  if (obj.ddl !== undefined && obj.ddl !== null) {
+    if (!Array.isArray(obj.ddl) || obj.ddl.some(f => typeof f !== 'string')) {
+      errors.push("'ddl' must be an array of glob strings.");
+    } else {
+      config.ddl = obj.ddl as string[];
+    }
+  }
+
+  if (obj.fixtures !== undefined && obj.fixtures !== null) {
+    if (!Array.isArray(obj.fixtures) || obj.fixtures.some(f => typeof f !== 'string')) {
+      errors.push("'fixtures' must be an array of glob strings.");
+    } else {
+      config.fixtures = obj.fixtures as string[];
+    }
+  }
+
+  return { config, errors };
+}
+
+/**
+ * Merge config layers, lowest precedence first. `rules` merge per rule: a
+ * layer's entry replaces earlier layers' entries for that rule whether they
+ * are keyed by code or by name. `files` accumulate; `dialect`, `catalog`,
+ * `ddl` and `fixtures` are taken from the last layer that sets them.
+ */
+export function mergeConfigs(...layers: Partial<BatonSqlConfig>[]): BatonSqlConfig {
+  const merged: BatonSqlConfig = { rules: {}, files: [] };
+  for (const layer of layers) {
+    if (layer.rules) {
+      const rules = { ...merged.rules };
+      for (const key of Object.keys(layer.rules)) {
+        const rule = findRule(key);
+        if (rule) {
+          delete rules[rule.code];
+          delete rules[rule.name];
+        }
+      }
+      merged.rules = { ...rules, ...layer.rules };
+    }
+    if (layer.dialect) merged.dialect = layer.dialect;
+    if (layer.files) merged.files.push(...layer.files);
+    if (layer.catalog) merged.catalog = layer.catalog;
+    if (layer.ddl) merged.ddl = layer.ddl;
+    if (layer.fixtures) merged.fixtures = layer.fixtures;
+  }
+  return merged;
+}
+
+/**
+ * The setting that applies to `rule`, or undefined to use its defaults. A
+ * code entry (`BSQL001`) wins over a name entry (`missing-comma`) when one
+ * layer has both; across layers, `mergeConfigs` keeps only the highest
+ * layer's entries.
+ */
+export function ruleSetting(config: BatonSqlConfig, rule: ValidationRule): RuleSetting | undefined {
+  const byCode = Object.prototype.hasOwnProperty.call(config.rules, rule.code)
+    ? config.rules[rule.code]
+    : undefined;
+  const byName = Object.prototype.hasOwnProperty.call(config.rules, rule.name)
+    ? config.rules[rule.name]
+    : undefined;
+  return byCode ?? byName;
+}
+
+function findRule(key: string): ValidationRule | undefined {
+  return [...allValidationRules, unusedSuppressionRule].find(r => r.name === key || r.code === key);
+}
+
+/**
+ * Resolve relative globs against `baseDir` so they can be matched against
+ * absolute paths. Globs are always written with forward slashes.
+ */
+export function resolveGlobs(globs: string[], baseDir: string): string[] {
+  const base = baseDir.split(path.sep).join('/').replace(/\/+$/, '');
+  return globs.map(g => (g.startsWith('/') ? g : `${base}/${g.replace(/^\.\//, '')}`));
+}
+
+/**
+ * Translate a glob into an anchored RegExp. Supports `**` (any number of
+ * directories), `*` and `?` (within one path segment) and `{a,b}` alternation.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let re = '';
+  let inGroup = false;
+  for (let i = 0; i < glob.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+    const c = glob[i];
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          i++;
+          re += '(?:.*/)?';
+        } else {
+          re += '.*';
+        }
+      } else {
+        re += '[^/]*';
+      }
+    } else if (c === '?') {
+      re += '[^/]';
+    } else if (c === '{') {
+      inGroup = true;
+      re += '(?:';
+    } else if (c === '}' && inGroup) {
+      inGroup = false;
+      re += ')';
+    } else if (c === ',' && inGroup) {
+      re += '|';
+    } else {
+      re += c.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  // eslint-disable-next-line security/detect-non-literal-regexp -- built from escaped glob characters
+  return new RegExp(`^${re}$`);
+}
+
+/**
+ * Absolute paths of the files matching any of `globs` (absolute globs, as
+ * in the config), sorted by path so migrations apply in name order.
+ */
+export function findMatchingFiles(globs: string[]): string[] {
+  const found = new Set<string>();
+  for (const glob of globs) {
+    const segments = glob.split('/');
+    const firstGlob = segments.findIndex(s => GLOB_CHARS.test(s));
+    if (firstGlob === -1) {
+      // eslint-disable-next-line security/detect-non-literal-fs-filename -- path from the validator configuration
+      if (fs.existsSync(glob)) found.add(path.normalize(glob));
+      continue;
+    }
+    const re = globToRegExp(glob);
+    walkFiles(segments.slice(0, firstGlob).join('/') || '/', f => {
+      if (re.test(f.split(path.sep).join('/'))) found.add(f);
+    });
+  }
+  return [...found].sort();
+}
+
+/**
+ * Whether `filePath` (absolute) matches any of the config's `files` globs.
+ */
+export function matchesConfiguredFiles(config: BatonSqlConfig, filePath: string): boolean {
+  return matchesGlobs(config.files, filePath);
+}
+
+/**
+ * Whether `filePath` (absolute) matches any of `globs`, as resolved by
+ * `resolveGlobs`.
+ */
+export function matchesGlobs(globs: string[], filePath: string): boolean {
+  const normalized = filePath.split(path.sep).join('/');
+  return globs.some(glob => globToRegExp(glob).test(normalized));
+}
+
+export interface ProjectConfigFile {
+  /** Absolute path of the `.baton-sql.json` that was loaded. */
+  path: string;
+  config: Partial<BatonSqlConfig>;
+  errors: string[];
+}
+
+/**
+ * Find and load the nearest `.baton-sql.json`, starting in `startDir` and
+ * walking up to the filesystem root (or `stopDir`, inclusive). Returns
+ * undefined when there is none. `files`, `ddl` and `fixtures` globs and the `catalog`
+ * path come back resolved against the config file's directory.
+ */
+export function loadProjectConfig(startDir: string, stopDir?: string): ProjectConfigFile | undefined {
+  let dir = path.resolve(startDir);
+  const stop = stopDir ? path.resolve(stopDir) : undefined;
+  for (;;) {
+    const candidate = path.join(dir, CONFIG_FILE_NAME);
+    // eslint-disable-next-line security/detect-non-literal-fs-filename -- fixed file name under a directory we walk up from
+    if (fs.existsSync(candidate)) {
+      try {
+        return readProjectConfig(candidate);
+      } catch (error) {
+        const msg = error instanceof Error ? error.message : String(error);
+        return { path: candidate, config: {}, errors: [`Could not read ${CONFIG_FILE_NAME}: ${msg}`] };
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir || dir === stop) return undefined;
+    dir = parent;
+  }
+}
+
+/**
+ * Load one config file, resolving its globs and `catalog` path against the
+ * file's directory. Throws when the file can't be read or isn't JSON;
+ * problems with its contents come back in `errors`.
+ */
+export function readProjectConfig(configPath: string): ProjectConfigFile {
+  const configDir = path.dirname(path.resolve(configPath));
+  // eslint-disable-next-line security/detect-non-literal-fs-filename -- path found by loadProjectConfig or given on the command line
+  const raw: unknown = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+  const { config, errors } = parseConfig(raw);
+  if (config.files) config.files = resolveGlobs(config.files, configDir);
+  if (config.catalog) config.catalog = path.resolve(configDir, config.catalog);
+  if (config.ddl) config.ddl = resolveGlobs(config.ddl, configDir);
+  if (config.fixtures) config.fixtures = resolveGlobs(config.fixtures, configDir);
+  return { path: configPath, config, errors };
+}
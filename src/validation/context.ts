@@ -1,5 +1,6 @@
 import { ParsedQuery } from './parsedQuery';
 import { BatonDocument } from './document';
+import { Catalog } from '../catalog/catalog';
 
 /**
  * Context passed to rules as an optional third argument.
@@ -11,4 +12,6 @@ import { BatonDocument } from './document';
 export interface RuleContext {
   query?: ParsedQuery;
   document: BatonDocument;
+  /** Tables and columns of the target database, when a catalog is configured. */
+  catalog?: Catalog;
 }
@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildBatonDocument } from './document';
+import { findDefinitions } from './definitions';
+
+const yaml = `connect:
+  scheme: postgres
+resource_types:
+  user:
+    name: User
+    list:
+      query: |
+        SELECT u.id, lower(u.mail) AS email, u.name
+        FROM users u
+      map:
+        id: .id
+        display_name: .name
+        traits:
+          user:
+            emails:
+              - .email
+            login: .login
+  group:
+    name: Group
+    static_entitlements:
+      - id: admin
+        display_name: Admin
+        grantable_to: [user]
+    grants:
+      - query: SELECT group_id, user_id FROM memberships WHERE org = ?<org>
+        vars:
+          org: connector.org
+        map:
+          - principal_id: .user_id
+            principal_type: user
+            entitlement_id: admin
+actions:
+  assign:
+    name: Assign
+    arguments:
+      role_id:
+        type: string
+    vars:
+      role_id: connector.default_role
+    query: UPDATE users SET role = ?<role_id>
+`;
+
+/** The text and 0-based line of each definition of the `nth` occurrence of `text`. */
+function definitionsOf(text: string, nth = 0) {
+  let offset = -1;
+  for (let i = 0; i <= nth; i++) offset = yaml.indexOf(text, offset + 1);
+  assert.ok(offset >= 0, text);
+  return findDefinitions(buildBatonDocument(yaml), offset + 1).map(r => ({
+    line: yaml.slice(0, r.start).split('\n').length - 1,
+    text: yaml.slice(r.start, r.end),
+  }));
+}
+
+test('findDefinitions: principal_type and entitlement_id go to the resource type and static entitlement', () => {
+  assert.deepEqual(definitionsOf('user\n            entitlement_id'), [{ line: 3, text: 'user' }]);
+  assert.deepEqual(definitionsOf('admin\nactions'), [{ line: 20, text: 'admin' }]);
+});
+
+test('findDefinitions: entitlement_id goes to the static entitlement of the grant\'s resource type', () => {
+  const twoTypes = `resource_types:
+  group:
+    name: Group
+    static_entitlements:
+      - id: member
+        display_name: Member
+  role:
+    name: Role
+    static_entitlements:
+      - id: member
+        display_name: Member
+    grants:
+      - query: SELECT user_id FROM role_members
+        map:
+          - principal_id: .user_id
+            principal_type: user
+            entitlement_id: member
+`;
+  const offset = twoTypes.lastIndexOf('member') + 1;
+  const ranges = findDefinitions(buildBatonDocument(twoTypes), offset);
+  assert.deepEqual(ranges.map(r => twoTypes.slice(0, r.start).split('\n').length - 1), [9]);
+});
+
+test('findDefinitions: ?<name> goes to its vars entry, or the action argument that shadows it', () => {
+  assert.deepEqual(definitionsOf('org>'), [{ line: 26, text: 'org' }]);
+  assert.deepEqual(definitionsOf('role_id>'), [{ line: 35, text: 'role_id' }]);
+});
+
+test('findDefinitions: .column goes to the select-list item producing it', () => {
+  assert.deepEqual(definitionsOf('.email'), [{ line: 7, text: 'email' }]);
+  assert.deepEqual(definitionsOf('.name', 1), [{ line: 7, text: 'name' }]);
+  assert.deepEqual(definitionsOf('.user_id'), [{ line: 24, text: 'user_id' }]);
+  // The select list has no `login` column, and `mail` is an input, not an output.
+  assert.deepEqual(definitionsOf('.login'), []);
+});
+
+test('findDefinitions: a table or plain SQL has no definition in the document', () => {
+  assert.deepEqual(definitionsOf('memberships'), []);
+  assert.deepEqual(definitionsOf('SELECT'), []);
+});
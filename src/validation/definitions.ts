@@ -0,0 +1,155 @@
+import { BatonDocument, rangeAt, scalarOffsetAt } from './document';
+import { ParsedQuery, parseWithNamedParams, sqlOffsetToYaml } from './parsedQuery';
+import { findOccurrences, SymbolOccurrence, symbolAt } from './references';
+import { SourceRange } from './yamlModel';
+import { extractSelectColumns } from '../utils/sqlUtils';
+import { columnNodes, parseExpression } from '../expressions/parser';
+import { expressionFields, fieldQuery } from '../expressions/fields';
+
+const IDENTIFIER = /"[^"]*"|`[^`]*`|\[[^\]]*\]|[A-Za-z_][\w$]*/g;
+
+/**
+ * Where the name at absolute YAML `offset` is defined, worked out from the
+ * Baton model rather than by matching the word:
+ *
+ * - `principal_type` and `grantable_to` values go to their resource type.
+ * - `entitlement_id` and `expandable.entitlement_ids` values go to the
+ *   matching `static_entitlements[].id` of the grant's resource type.
+ * - A `?<name>` parameter goes to its entry in the vars the query sees, or
+ *   to the action argument, which takes precedence as in `resolveVarsScope`.
+ * - A `.column` in a mapping expression goes to the select-list item of the
+ *   mapped query that produces that column.
+ *
+ * Empty when there is nothing to resolve at `offset` or no definition in
+ * this document (tables, dynamic entitlement ids).
+ */
+export function findDefinitions(doc: BatonDocument, offset: number): SourceRange[] {
+  const column = columnDefinition(doc, offset);
+  if (column !== undefined) return column ? [column] : [];
+
+  const at = symbolAt(doc, offset);
+  if (!at) return [];
+  if (at.symbol.kind === 'var') {
+    const argument = argumentDefinition(doc, at);
+    if (argument) return [argument];
+  }
+  return findOccurrences(doc, at.symbol)
+    .filter(o => o.definition)
+    .map(o => o.range);
+}
+
+/** The `arguments` key of the action whose query uses the `?<name>` at `at`. */
+function argumentDefinition(doc: BatonDocument, at: SymbolOccurrence): SourceRange | undefined {
+  if (at.symbol.kind !== 'var' || at.definition || at.symbol.varsPath[0] !== 'actions') return undefined;
+  return rangeAt(doc, ['actions', at.symbol.varsPath[1], 'arguments', at.symbol.name], 'key');
+}
+
+/**
+ * The definition of a `.column` at `offset` in a mapping expression. Null
+ * when `offset` is on a column that no select-list item produces; undefined
+ * when it isn't on a column at all.
+ */
+function columnDefinition(doc: BatonDocument, offset: number): SourceRange | null | undefined {
+  for (const field of expressionFields(doc)) {
+    if (typeof field.value !== 'string') continue;
+    const start = scalarOffsetAt(doc, field.path, 0);
+    const end = scalarOffsetAt(doc, field.path, field.value.length);
+    if (start === undefined || end === undefined || offset < start || offset > end) continue;
+
+    const parsed = parseExpression(field.value);
+    if (parsed.error) return undefined;
+    const node = columnNodes(parsed.expr).find(c => {
+      const from = scalarOffsetAt(doc, field.path, c.start);
+      const to = scalarOffsetAt(doc, field.path, c.end);
+      return from !== undefined && to !== undefined && from <= offset && offset <= to;
+    });
+    if (!node) return undefined;
+    const query = fieldQuery(doc, field.path);
+    return (query && selectColumnRange(query, node.name)) ?? null;
+  }
+  return undefined;
+}
+
+/**
+ * The YAML range of the name of the select-list item producing output
+ * column `name` (its alias, or the column itself). The AST says which item
+ * that is; the item's text is found by splitting the select list, since the
+ * parser doesn't record locations for every kind of column.
+ */
+export function selectColumnRange(query: ParsedQuery, name: string): SourceRange | undefined {
+  const ast = parseWithNamedParams(query);
+  const statement = (Array.isArray(ast) ? ast : [ast]).find(s => s?.type === 'select');
+  if (!statement || !Array.isArray(statement.columns)) return undefined;
+
+  const lower = name.toLowerCase();
+  const exprs = extractSelectColumns(statement).exprs;
+  const key = [...exprs.keys()].find(k => k.toLowerCase() === lower);
+  const index = key === undefined ? -1 : statement.columns.findIndex((c: { expr?: unknown } | null) => c?.expr === exprs.get(key));
+  const items = selectItems(query.rawSql);
+  if (index < 0 || items.length !== statement.columns.length) return undefined;
+
+  // eslint-disable-next-line security/detect-object-injection -- index of a select-list item
+  const item = items[index];
+  const text = query.rawSql.slice(item.start, item.end);
+  const named = [...text.matchAll(IDENTIFIER)]
+    .filter(m => unquote(m[0]).toLowerCase() === lower)
+    .pop();
+  const start = item.start + (named?.index ?? 0);
+  const end = named ? start + named[0].length : item.end;
+  return { start: sqlOffsetToYaml(query, start), end: sqlOffsetToYaml(query, end) };
+}
+
+/**
+ * Spans of the items in the first top-level select list of `sql`, between
+ * SELECT (and DISTINCT) and FROM, split at commas outside parentheses and
+ * quotes.
+ */
+function selectItems(sql: string): { start: number; end: number }[] {
+  const items: { start: number; end: number }[] = [];
+  let depth = 0;
+  let start = -1;
+  let i = 0;
+  while (i < sql.length) {
+    // eslint-disable-next-line security/detect-object-injection -- bounded offset scan
+    const ch = sql[i];
+    if (ch === "'" || ch === '"' || ch === '`') {
+      const close = sql.indexOf(ch, i + 1);
+      i = close === -1 ? sql.length : close + 1;
+      continue;
+    }
+    if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (depth === 0 && /[A-Za-z_]/.test(ch)) {
+      const word = /^[A-Za-z_]\w*/.exec(sql.slice(i))?.[0] ?? ch;
+      const upper = word.toUpperCase();
+      if (start < 0 && upper === 'SELECT') {
+        start = i + word.length;
+      } else if (start >= 0 && items.length === 0 && upper === 'DISTINCT' && !sql.slice(start, i).trim()) {
+        start = i + word.length;
+      } else if (start >= 0 && upper === 'FROM') {
+        break;
+      }
+      i += word.length;
+      continue;
+    } else if (ch === ',' && depth === 0 && start >= 0) {
+      items.push(trim(sql, start, i));
+      start = i + 1;
+    } else if (ch === ';' && depth === 0 && start >= 0) {
+      break;
+    }
+    i++;
+  }
+  if (start >= 0) items.push(trim(sql, start, i));
+  return items;
+}
+
+function trim(sql: string, start: number, end: number): { start: number; end: number } {
+  // eslint-disable-next-line security/detect-object-injection -- bounded offset scan
+  while (start < end && /\s/.test(sql[start])) start++;
+  while (end > start && /\s/.test(sql[end - 1])) end--;
+  return { start, end };
+}
+
+function unquote(identifier: string): string {
+  return /^["`[]/.test(identifier) ? identifier.slice(1, -1) : identifier;
+}
@@ -1,7 +1,7 @@
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
 import * as yaml from 'js-yaml';
-import { resolveVarsScope, buildBatonDocument } from './document';
+import { resolveVarsScope, buildBatonDocument, lineAt } from './document';
 import { schemeToDialect } from './dialect';
 
 function parse(content: string): any {
@@ -249,7 +249,7 @@ test('buildBatonDocument: returns degraded doc on invalid YAML', () => {
 
 test('buildBatonDocument: empty YAML produces empty doc', () => {
   const doc = buildBatonDocument('');
-  assert.equal(doc.yaml, null); // js-yaml returns undefined for empty string → degraded path
+  assert.equal(doc.yaml, null); // empty YAML has no contents → degraded path
   assert.equal(doc.queries.length, 0);
   assert.equal(doc.resourceTypes.size, 0);
   assert.equal(doc.connect, undefined);
@@ -531,6 +531,78 @@ resource_types:
   assert.equal(grantQ!.varsScope.get('principal_id'), 'principal.ID');
 });
 
+test('buildBatonDocument: walks connect.databases.discovery_query with no vars', () => {
+  const yaml = `
+connect:
+  dsn: postgres://x
+  databases:
+    discovery_query: SELECT datname FROM pg_database
+resource_types: {}
+`;
+  const doc = buildBatonDocument(yaml);
+  assert.equal(doc.queries.length, 1);
+  assert.deepEqual(doc.queries[0].yamlPath, ['connect', 'databases', 'discovery_query']);
+  assert.equal(doc.queries[0].varsScope.size, 0);
+  assert.equal(yaml.slice(doc.queries[0].startOffset, doc.queries[0].endOffset), 'SELECT datname FROM pg_database');
+});
+
+test('buildBatonDocument: walks provisioning validation_queries and grant_replace', () => {
+  const yaml = `
+resource_types:
+  role:
+    name: Role
+    entitlements:
+      query: SELECT 1 FROM perms
+      map:
+        - id: ".name"
+          provisioning:
+            vars:
+              principal_id: principal.ID
+            grant:
+              validation_queries:
+                - SELECT 1 FROM users WHERE id = ?<principal_id>
+              queries:
+                - INSERT INTO ents (user) VALUES (?<principal_id>)
+              grant_replace:
+                query: DELETE FROM ents WHERE user = ?<principal_id>
+            revoke:
+              validation_queries:
+                - SELECT 2 FROM users WHERE id = ?<principal_id>
+              queries:
+                - DELETE FROM ents WHERE user = ?<principal_id>
+    static_entitlements:
+      - id: member
+        provisioning:
+          vars:
+            member_id: principal.ID
+          grant:
+            validation_queries:
+              - SELECT 3 FROM users WHERE id = ?<member_id>
+            queries:
+              - INSERT INTO members (id) VALUES (?<member_id>)
+`;
+  const doc = buildBatonDocument(yaml);
+  const paths = doc.queries.map(q => q.yamlPath.join('.'));
+  const prov = 'resource_types.role.entitlements.map.0.provisioning';
+  const seProv = 'resource_types.role.static_entitlements.0.provisioning';
+  assert.deepEqual(paths, [
+    'resource_types.role.entitlements.query',
+    `${prov}.grant.validation_queries.0`,
+    `${prov}.grant.queries.0`,
+    `${prov}.grant.grant_replace.query`,
+    `${prov}.revoke.validation_queries.0`,
+    `${prov}.revoke.queries.0`,
+    `${seProv}.grant.validation_queries.0`,
+    `${seProv}.grant.queries.0`,
+  ]);
+  for (const q of doc.queries.slice(1, 6)) {
+    assert.equal(q.varsScope.get('principal_id'), 'principal.ID', q.yamlPath.join('.'));
+  }
+  assert.equal(doc.queries[6].varsScope.get('member_id'), 'principal.ID');
+  const replace = doc.queries[3];
+  assert.equal(yaml.slice(replace.startOffset, replace.endOffset), 'DELETE FROM ents WHERE user = ?<principal_id>');
+});
+
 test('buildBatonDocument: walks actions with single query', () => {
   const yaml = `
 actions:
@@ -844,3 +916,76 @@ resource_types:
   assert.notEqual(firstLine, secondLine, 'second query must not share startOffset with the first');
   assert.ok(secondLine > firstLine, `second query (${secondLine}) must appear after first (${firstLine})`);
 });
+
+test('buildBatonDocument: query offsets come from the scalar node, not a text search', () => {
+  // Both grants carry identical SQL; a text search can only ever find the first.
+  const yaml = `resource_types:
+  user:
+    name: User
+    description: u
+    grants:
+      - query: "SELECT 1 FROM g"
+        map: []
+      - query: "SELECT 1 FROM g"
+        map: []
+`;
+  const doc = buildBatonDocument(yaml);
+  assert.equal(doc.queries.length, 2);
+  const [first, second] = doc.queries;
+  assert.equal(yaml.slice(first.startOffset, first.endOffset), 'SELECT 1 FROM g');
+  assert.equal(yaml.slice(second.startOffset, second.endOffset), 'SELECT 1 FROM g');
+  assert.ok(second.startOffset > first.startOffset);
+});
+
+test('buildBatonDocument: resource types, actions and static entitlements carry ranges', () => {
+  const yaml = `resource_types:
+  user:
+    name: User
+    description: u
+    static_entitlements:
+      - id: admin
+        display_name: Admin
+actions:
+  disable:
+    query: UPDATE users SET active = false
+`;
+  const doc = buildBatonDocument(yaml);
+  const rt = doc.resourceTypes.get('user')!;
+  assert.equal(yaml.slice(rt.range!.start, rt.range!.end), 'user');
+  const se = rt.staticEntitlements[0];
+  assert.equal(yaml.slice(se.range!.start, se.range!.end), 'admin');
+  const action = doc.actions.get('disable')!;
+  assert.equal(yaml.slice(action.range!.start, action.range!.end), 'disable');
+});
+
+test('lineAt: locates mapping fields by yamlPath', () => {
+  const yaml = `resource_types:
+  user:
+    grants:
+      - query: SELECT 1
+        map:
+          - principal_type: user
+          - principal_type: user
+`;
+  const doc = buildBatonDocument(yaml);
+  assert.equal(lineAt(doc, ['resource_types', 'user', 'grants', 0, 'map', 1, 'principal_type']), 6);
+  assert.equal(lineAt(doc, ['resource_types', 'user', 'grants', 0, 'map', 1, 'principal_type'], 'key'), 6);
+  assert.equal(lineAt(doc, ['resource_types', 'nope']), undefined);
+});
+
+test('buildBatonDocument: resource types inherit fields through merge keys', () => {
+  const yaml = `common: &common
+  name: Shared
+  list:
+    query: SELECT id FROM users
+resource_types:
+  user:
+    <<: *common
+`;
+  const doc = buildBatonDocument(yaml);
+  const rt = doc.resourceTypes.get('user');
+  assert.equal(rt?.name, 'Shared');
+  assert.equal(doc.queries.length, 1);
+  assert.equal(doc.queries[0].rawSql, 'SELECT id FROM users');
+  assert.equal(doc.queries[0].startOffset, yaml.indexOf('SELECT'));
+});
@@ -1,13 +1,74 @@
-import { parseYaml } from '../utils/yamlUtils';
+import { isScalar } from 'yaml';
 import { ParsedQuery, parseQuery } from './parsedQuery';
 import { schemeToDialect } from './dialect';
+import {
+  SourceRange,
+  YamlModel,
+  parseYamlModel,
+  nodeAt,
+  valueRangeAt,
+  keyRangeAt,
+  scalarContentRange,
+  scalarSourceMap,
+  lineAtOffset,
+} from './yamlModel';
 
 /**
- * Resolve the `vars` map visible to a query at the given yamlPath.
+ * YAML path of the `vars` map visible to a query at the given yamlPath, or
+ * undefined for paths that have no vars (connect, unknown shapes).
  *
  * See the spec table at docs/superpowers/specs/2026-05-22-sql-validation-foundation-design.md
  * for the full mapping. Each query yamlPath corresponds to exactly one vars source.
  */
+export function varsSourcePath(yamlPath: (string | number)[]): (string | number)[] | undefined {
+  // actions.<a>.query  OR  actions.<a>.queries[<j>]
+  if (yamlPath[0] === 'actions' && yamlPath.length >= 2) {
+    return ['actions', yamlPath[1], 'vars'];
+  }
+
+  if (yamlPath[0] !== 'resource_types' || yamlPath.length < 3) {
+    return undefined; // unknown shape
+  }
+
+  const rt = ['resource_types', yamlPath[1]];
+  const section = yamlPath[2];
+
+  if (section === 'list') return [...rt, 'list', 'vars'];
+
+  if (section === 'entitlements') {
+    // Two sub-cases: entitlements.query (vars source: entitlements.vars)
+    //                entitlements.map[<i>].provisioning.{grant,revoke}.queries[<j>] (vars: map[i].provisioning.vars)
+    if (yamlPath[3] === 'map' && typeof yamlPath[4] === 'number') {
+      return [...rt, 'entitlements', 'map', yamlPath[4], 'provisioning', 'vars'];
+    }
+    return [...rt, 'entitlements', 'vars'];
+  }
+
+  if (section === 'grants' && typeof yamlPath[3] === 'number') {
+    return [...rt, 'grants', yamlPath[3], 'vars'];
+  }
+
+  if (section === 'static_entitlements' && typeof yamlPath[3] === 'number') {
+    // static_entitlements[<i>].provisioning.{grant,revoke}.queries[<j>]
+    return [...rt, 'static_entitlements', yamlPath[3], 'provisioning', 'vars'];
+  }
+
+  if (section === 'account_provisioning' && (yamlPath[3] === 'create' || yamlPath[3] === 'validate')) {
+    return [...rt, 'account_provisioning', yamlPath[3], 'vars'];
+  }
+
+  if (section === 'credential_rotation' && yamlPath[3] === 'update') {
+    return [...rt, 'credential_rotation', 'update', 'vars'];
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve the `vars` map visible to a query at the given yamlPath: the
+ * string entries of the map at `varsSourcePath`, plus an action's
+ * `arguments`.
+ */
 export function resolveVarsScope(
   yamlObject: any,
   yamlPath: (string | number)[]
@@ -26,84 +87,23 @@ export function resolveVarsScope(
     return cur;
   };
 
-  const mergeVars = (vars: any): void => {
-    if (!vars || typeof vars !== 'object') return;
+  const source = varsSourcePath(yamlPath);
+  const vars = source && at(yamlObject, source);
+  if (vars && typeof vars === 'object') {
     for (const [k, v] of Object.entries(vars)) {
       if (typeof v === 'string') scope.set(k, v);
     }
-  };
-
-  // Determine the vars source path based on yamlPath shape.
-  // The patterns mirror the spec's resolution table.
+  }
 
-  // actions.<a>.query  OR  actions.<a>.queries[<j>]
   if (yamlPath[0] === 'actions' && yamlPath.length >= 2) {
-    const actionRoot = at(yamlObject, [yamlPath[0], yamlPath[1]]);
-    mergeVars(actionRoot?.vars);
     // arguments keys are also in scope, with their type as the "value"
-    const args = actionRoot?.arguments;
+    const args = at(yamlObject, [yamlPath[0], yamlPath[1], 'arguments']);
     if (args && typeof args === 'object') {
       for (const [argName, argConfig] of Object.entries(args)) {
         const type = (argConfig as any)?.type;
         if (typeof type === 'string') scope.set(argName, type);
       }
     }
-    return scope;
-  }
-
-  if (yamlPath[0] !== 'resource_types' || yamlPath.length < 3) {
-    return scope; // unknown shape, return empty
-  }
-
-  const rtRoot = at(yamlObject, [yamlPath[0], yamlPath[1]]);
-  if (!rtRoot) return scope;
-
-  const section = yamlPath[2];
-
-  if (section === 'list') {
-    mergeVars(rtRoot.list?.vars);
-    return scope;
-  }
-
-  if (section === 'entitlements') {
-    // Two sub-cases: entitlements.query (vars source: entitlements.vars)
-    //                entitlements.map[<i>].provisioning.{grant,revoke}.queries[<j>] (vars: map[i].provisioning.vars)
-    if (yamlPath[3] === 'map' && typeof yamlPath[4] === 'number') {
-      const mapEntry = at(rtRoot, ['entitlements', 'map', yamlPath[4]]);
-      mergeVars(mapEntry?.provisioning?.vars);
-    } else {
-      mergeVars(rtRoot.entitlements?.vars);
-    }
-    return scope;
-  }
-
-  if (section === 'grants' && typeof yamlPath[3] === 'number') {
-    const grantEntry = at(rtRoot, ['grants', yamlPath[3]]);
-    mergeVars(grantEntry?.vars);
-    return scope;
-  }
-
-  if (section === 'static_entitlements' && typeof yamlPath[3] === 'number') {
-    // static_entitlements[<i>].provisioning.{grant,revoke}.queries[<j>]
-    const seEntry = at(rtRoot, ['static_entitlements', yamlPath[3]]);
-    mergeVars(seEntry?.provisioning?.vars);
-    return scope;
-  }
-
-  if (section === 'account_provisioning') {
-    const sub = yamlPath[3];
-    if (sub === 'create' || sub === 'validate') {
-      // eslint-disable-next-line security/detect-object-injection -- sub is constrained to 'create' | 'validate' by the if-check above
-      mergeVars(rtRoot.account_provisioning?.[sub]?.vars);
-    }
-    return scope;
-  }
-
-  if (section === 'credential_rotation') {
-    if (yamlPath[3] === 'update') {
-      mergeVars(rtRoot.credential_rotation?.update?.vars);
-    }
-    return scope;
   }
 
   return scope;
@@ -123,6 +123,8 @@ export interface ConnectConfig {
 
 export interface ResourceTypeDef {
   id: string;
+  /** Range of the `<id>:` key under resource_types. */
+  range?: SourceRange;
   name?: string;
   description?: string;
   list?: {
@@ -150,6 +152,8 @@ export interface ResourceTypeDef {
   /** Always initialized to [] by buildBatonDocument — never null. */
   staticEntitlements: Array<{
     id: string;
+    /** Range of the `id` value (or of the whole entry when `id` is missing). */
+    range?: SourceRange;
     provisioning?: { vars: Map<string, string>; grant?: any; revoke?: any };
   }>;
   accountProvisioning?: any;
@@ -158,6 +162,8 @@ export interface ResourceTypeDef {
 
 export interface ActionDef {
   id: string;
+  /** Range of the `<id>:` key under actions. */
+  range?: SourceRange;
   name?: string;
   arguments?: Record<string, any>;
   vars?: Map<string, string>;
@@ -168,6 +174,12 @@ export interface ActionDef {
 export interface BatonDocument {
   yaml: any | null;
   yamlContent: string;
+  /**
+   * Position-preserving parse of yamlContent. Null when the YAML failed to
+   * parse. Mapping fields that aren't modeled directly (grants[].map[],
+   * traits, scope, ...) are located through `rangeAt` / `lineAt`.
+   */
+  yamlModel: YamlModel | null;
   connect?: ConnectConfig;
   resourceTypes: Map<string, ResourceTypeDef>;
   actions: Map<string, ActionDef>;
@@ -179,10 +191,11 @@ export interface BatonDocument {
   knownResourceTypeIds: Set<string>;
 }
 
-function emptyDocument(yamlContent: string, yaml: any | null): BatonDocument {
+function emptyDocument(yamlContent: string, yamlModel: YamlModel | null): BatonDocument {
   return {
-    yaml,
+    yaml: yamlModel ? yamlModel.value : null,
     yamlContent,
+    yamlModel,
     resourceTypes: new Map(),
     actions: new Map(),
     queries: [],
@@ -191,12 +204,67 @@ function emptyDocument(yamlContent: string, yaml: any | null): BatonDocument {
   };
 }
 
-export function buildBatonDocument(yamlContent: string): BatonDocument {
-  const yamlObj = parseYaml(yamlContent);
-  if (!yamlObj || typeof yamlObj !== 'object') {
+/**
+ * Range of the node at `path` in the document's YAML. `part: 'key'` returns
+ * the range of the map key introducing the last path segment instead of the
+ * value. Undefined when the document failed to parse or the path is absent.
+ */
+export function rangeAt(
+  doc: BatonDocument,
+  path: (string | number)[],
+  part: 'key' | 'value' = 'value',
+): SourceRange | undefined {
+  if (!doc.yamlModel) return undefined;
+  return part === 'key' ? keyRangeAt(doc.yamlModel, path) : valueRangeAt(doc.yamlModel, path);
+}
+
+/**
+ * 0-indexed YAML line of the node at `path` — the absolute `lineNumber`
+ * document-scope rules report. Undefined when the path can't be located.
+ */
+export function lineAt(
+  doc: BatonDocument,
+  path: (string | number)[],
+  part: 'key' | 'value' = 'value',
+): number | undefined {
+  const range = rangeAt(doc, path, part);
+  if (!range || !doc.yamlModel) return undefined;
+  return lineAtOffset(doc.yamlModel, range.start);
+}
+
+/**
+ * Absolute YAML offset of character `index` of the string scalar at `path`
+ * — where a document-scope rule reports a `position` inside a value.
+ * `index` may be the value's length (just past its text). Undefined when
+ * the path isn't a scalar.
+ */
+export function scalarOffsetAt(doc: BatonDocument, path: (string | number)[], index: number): number | undefined {
+  const node = doc.yamlModel ? nodeAt(doc.yamlModel, path) : undefined;
+  if (!doc.yamlModel || !isScalar(node)) return undefined;
+  const sourceMap = scalarSourceMap(node, doc.yamlModel.source);
+  // eslint-disable-next-line security/detect-object-injection -- index into the scalar's source map
+  if (sourceMap && index >= 0 && index < sourceMap.length) return sourceMap[index];
+  const range = scalarContentRange(node, doc.yamlModel.source);
+  return range && Math.min(range.start + index, range.end);
+}
+
+/** `resource_types.user.grants[0].map[1].principal_id`: a YAML path as problems and symbols print it. */
+export function formatPath(path: (string | number)[]): string {
+  return path.map((p, i) => (typeof p === 'number' ? `[${p}]` : i === 0 ? p : `.${p}`)).join('');
+}
+
+/**
+ * Parse a Baton connector YAML into a BatonDocument. `defaultScheme` (a
+ * `connect.scheme` value such as `postgres`) picks the SQL dialect when the
+ * file doesn't declare `connect.scheme` itself.
+ */
+export function buildBatonDocument(yamlContent: string, defaultScheme?: string): BatonDocument {
+  const model = parseYamlModel(yamlContent);
+  if (!model || !model.value || typeof model.value !== 'object') {
     return emptyDocument(yamlContent, null);
   }
-  const doc = emptyDocument(yamlContent, yamlObj);
+  const doc = emptyDocument(yamlContent, model);
+  const yamlObj = doc.yaml;
 
   // connect
   if (yamlObj.connect && typeof yamlObj.connect === 'object') {
@@ -214,8 +282,50 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
     };
   }
 
-  // Resolve dialect once. undefined when scheme is missing or unsupported.
-  const dialect = schemeToDialect(doc.connect?.scheme);
+  // Resolve dialect once. undefined when scheme is missing or unsupported;
+  // the configured default only applies when the file sets no scheme at all.
+  const dialect = schemeToDialect(doc.connect?.scheme ?? defaultScheme);
+
+  // connect.databases.discovery_query runs against the admin handle; no vars are in scope.
+  if (typeof doc.connect?.databases?.discovery_query === 'string') {
+    const path = ['connect', 'databases', 'discovery_query'];
+    buildQueryIfPresent(
+      model, doc.connect.databases.discovery_query, path, resolveVarsScope(yamlObj, path), doc.queries, dialect
+    );
+  }
+
+  // Entitlement provisioning (on entitlements.map[i] and static_entitlements[i]):
+  // grant/revoke validation_queries, then queries, then grant.grant_replace.query.
+  // All of them see provisioning.vars.
+  const walkProvisioning = (
+    provisioning: Record<string, unknown>, provPath: (string | number)[], varsScope: Map<string, string>
+  ) => {
+    for (const action of ['grant', 'revoke']) {
+      // eslint-disable-next-line security/detect-object-injection -- action is one of two literals
+      const block = provisioning[action];
+      if (!block || typeof block !== 'object') continue;
+      for (const listKey of ['validation_queries', 'queries']) {
+        // eslint-disable-next-line security/detect-object-injection -- listKey is one of two literals
+        const list = (block as Record<string, unknown>)[listKey];
+        if (!Array.isArray(list)) continue;
+        for (let j = 0; j < list.length; j++) {
+          // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+          buildQueryIfPresent(model, list[j], [...provPath, action, listKey, j], varsScope, doc.queries, dialect);
+        }
+      }
+      const grantReplace = (block as Record<string, unknown>).grant_replace;
+      if (action === 'grant' && grantReplace && typeof grantReplace === 'object') {
+        buildQueryIfPresent(
+          model,
+          (grantReplace as Record<string, unknown>).query,
+          [...provPath, 'grant', 'grant_replace', 'query'],
+          varsScope,
+          doc.queries,
+          dialect
+        );
+      }
+    }
+  };
 
   // resource_types walk.
   // The OUTER iteration follows YAML key order (Object.entries on the
@@ -231,6 +341,7 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
       doc.knownResourceTypeIds.add(rtId);
       const rt: ResourceTypeDef = {
         id: rtId,
+        range: keyRangeAt(model, ['resource_types', rtId]),
         name: rtVal.name,
         description: rtVal.description,
         grants: [],
@@ -243,7 +354,7 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
         const listPath = ['resource_types', rtId, 'list'];
         const varsScope = resolveVarsScope(yamlObj, [...listPath, 'query']);
         const query = buildQueryIfPresent(
-          yamlContent, rtVal.list.query, [...listPath, 'query'], varsScope, doc.queries, dialect
+          model, rtVal.list.query, [...listPath, 'query'], varsScope, doc.queries, dialect
         );
         rt.list = {
           vars: varsScope,
@@ -259,7 +370,7 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
         const entPath = ['resource_types', rtId, 'entitlements'];
         const varsScope = resolveVarsScope(yamlObj, [...entPath, 'query']);
         const query = buildQueryIfPresent(
-          yamlContent, rtVal.entitlements.query, [...entPath, 'query'], varsScope, doc.queries, dialect
+          model, rtVal.entitlements.query, [...entPath, 'query'], varsScope, doc.queries, dialect
         );
         rt.entitlements = {
           vars: varsScope,
@@ -281,30 +392,7 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
             if (m.provisioning && typeof m.provisioning === 'object') {
               const provPath = ['resource_types', rtId, 'entitlements', 'map', i, 'provisioning'];
               const varsScope = resolveVarsScope(yamlObj, [...provPath, 'grant', 'queries', 0]);
-              if (Array.isArray(m.provisioning.grant?.queries)) {
-                for (let j = 0; j < m.provisioning.grant.queries.length; j++) {
-                  buildQueryIfPresent(
-                    yamlContent,
-                    m.provisioning.grant.queries[j],
-                    [...provPath, 'grant', 'queries', j],
-                    varsScope,
-                    doc.queries,
-                    dialect,
-                  );
-                }
-              }
-              if (Array.isArray(m.provisioning.revoke?.queries)) {
-                for (let j = 0; j < m.provisioning.revoke.queries.length; j++) {
-                  buildQueryIfPresent(
-                    yamlContent,
-                    m.provisioning.revoke.queries[j],
-                    [...provPath, 'revoke', 'queries', j],
-                    varsScope,
-                    doc.queries,
-                    dialect,
-                  );
-                }
-              }
+              walkProvisioning(m.provisioning, provPath, varsScope);
             }
           }
         }
@@ -318,7 +406,7 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
           const gPath = ['resource_types', rtId, 'grants', i];
           const varsScope = resolveVarsScope(yamlObj, [...gPath, 'query']);
           const query = buildQueryIfPresent(
-            yamlContent, g.query, [...gPath, 'query'], varsScope, doc.queries, dialect
+            model, g.query, [...gPath, 'query'], varsScope, doc.queries, dialect
           );
           rt.grants.push({
             vars: varsScope,
@@ -338,40 +426,16 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
           if (typeof se.id === 'string') {
             doc.definedEntitlementIds.literal.add(se.id);
           }
+          const sePath = ['resource_types', rtId, 'static_entitlements', i];
           const seDef: ResourceTypeDef['staticEntitlements'][number] = {
             id: typeof se.id === 'string' ? se.id : '',
+            range: valueRangeAt(model, [...sePath, 'id']) ?? valueRangeAt(model, sePath),
           };
           if (se.provisioning && typeof se.provisioning === 'object') {
             const provPath = ['resource_types', rtId, 'static_entitlements', i, 'provisioning'];
             const varsScope = resolveVarsScope(yamlObj, [...provPath, 'grant', 'queries', 0]);
             seDef.provisioning = { vars: varsScope, grant: se.provisioning.grant, revoke: se.provisioning.revoke };
-
-            // grant queries
-            if (se.provisioning.grant?.queries && Array.isArray(se.provisioning.grant.queries)) {
-              for (let j = 0; j < se.provisioning.grant.queries.length; j++) {
-                buildQueryIfPresent(
-                  yamlContent,
-                  se.provisioning.grant.queries[j],
-                  [...provPath, 'grant', 'queries', j],
-                  varsScope,
-                  doc.queries,
-                  dialect,
-                );
-              }
-            }
-            // revoke queries
-            if (se.provisioning.revoke?.queries && Array.isArray(se.provisioning.revoke.queries)) {
-              for (let j = 0; j < se.provisioning.revoke.queries.length; j++) {
-                buildQueryIfPresent(
-                  yamlContent,
-                  se.provisioning.revoke.queries[j],
-                  [...provPath, 'revoke', 'queries', j],
-                  varsScope,
-                  doc.queries,
-                  dialect,
-                );
-              }
-            }
+            walkProvisioning(se.provisioning, provPath, varsScope);
           }
           rt.staticEntitlements.push(seDef);
         }
@@ -386,7 +450,7 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
         if (ap.validate?.query) {
           const validatePath = [...apPath, 'validate', 'query'];
           const varsScope = resolveVarsScope(yamlObj, validatePath);
-          buildQueryIfPresent(yamlContent, ap.validate.query, validatePath, varsScope, doc.queries, dialect);
+          buildQueryIfPresent(model, ap.validate.query, validatePath, varsScope, doc.queries, dialect);
         }
 
         // create.queries
@@ -395,7 +459,8 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
             const queriesPath = [...apPath, 'create', 'queries', j];
             const varsScope = resolveVarsScope(yamlObj, queriesPath);
             buildQueryIfPresent(
-              yamlContent, ap.create.queries[j], queriesPath, varsScope, doc.queries, dialect
+              // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+              model, ap.create.queries[j], queriesPath, varsScope, doc.queries, dialect
             );
           }
         }
@@ -410,7 +475,8 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
             const queriesPath = [...crPath, 'update', 'queries', j];
             const varsScope = resolveVarsScope(yamlObj, queriesPath);
             buildQueryIfPresent(
-              yamlContent, cr.update.queries[j], queriesPath, varsScope, doc.queries, dialect
+              // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+              model, cr.update.queries[j], queriesPath, varsScope, doc.queries, dialect
             );
           }
         }
@@ -428,6 +494,7 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
       if (!actionVal || typeof actionVal !== 'object') continue;
       const actionDef: ActionDef = {
         id: actionId,
+        range: keyRangeAt(model, ['actions', actionId]),
         name: actionVal.name,
         arguments: actionVal.arguments,
         vars: actionVal.vars ? new Map(Object.entries(actionVal.vars).filter(([_, v]) => typeof v === 'string') as [string, string][]) : undefined,
@@ -436,14 +503,15 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
       if (typeof actionVal.query === 'string' && actionVal.query.length > 0) {
         const path = ['actions', actionId, 'query'];
         const varsScope = resolveVarsScope(yamlObj, path);
-        actionDef.query = buildQueryIfPresent(yamlContent, actionVal.query, path, varsScope, doc.queries, dialect);
+        actionDef.query = buildQueryIfPresent(model, actionVal.query, path, varsScope, doc.queries, dialect);
       }
       if (Array.isArray(actionVal.queries)) {
         actionDef.queries = [];
         for (let j = 0; j < actionVal.queries.length; j++) {
           const path = ['actions', actionId, 'queries', j];
           const varsScope = resolveVarsScope(yamlObj, path);
-          const q = buildQueryIfPresent(yamlContent, actionVal.queries[j], path, varsScope, doc.queries, dialect);
+          // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+          const q = buildQueryIfPresent(model, actionVal.queries[j], path, varsScope, doc.queries, dialect);
           if (q) actionDef.queries.push(q);
         }
       }
@@ -459,12 +527,12 @@ export function buildBatonDocument(yamlContent: string): BatonDocument {
  * Build a ParsedQuery for `rawSql`, push into `into`, and return it.
  * Returns null if rawSql isn't a non-empty string.
  *
- * Offset finding mirrors today's findSQLQueries multi-fallback chain
- * (yamlUtils.ts:90-176) so behavior is preserved on edge configs where
- * YAML block-fold changes whitespace or several queries share text.
+ * Offsets come straight from the scalar node at `yamlPath`: the span of the
+ * scalar's text, excluding quotes and block headers, plus a per-character
+ * source map so folded, quoted and escaped SQL still maps back exactly.
  */
 function buildQueryIfPresent(
-  yamlContent: string,
+  model: YamlModel,
   rawSql: any,
   yamlPath: (string | number)[],
   varsScope: Map<string, string>,
@@ -472,126 +540,18 @@ function buildQueryIfPresent(
   dialect: string | undefined,
 ): ParsedQuery | null {
   if (typeof rawSql !== 'string' || rawSql.length === 0) return null;
-  // Use the previous query's endOffset as a forward cursor. Multiple queries
-  // commonly share the same first line (`SELECT ...`); without a cursor the
-  // first-line and yamlPath-anchored strategies would lock onto the first
-  // occurrence for every query, mis-anchoring diagnostics for queries 2..N.
-  const searchStart = into.length > 0 ? into[into.length - 1].endOffset : 0;
-  const { startOffset, endOffset } = locateQueryInYaml(yamlContent, rawSql, yamlPath, searchStart);
+  const node = nodeAt(model, yamlPath);
+  const range = isScalar(node) ? scalarContentRange(node, model.source) : undefined;
+  const sourceMap = isScalar(node) ? scalarSourceMap(node, model.source) : undefined;
   const query = parseQuery({
     rawSql,
     yamlPath,
-    startOffset,
-    endOffset,
+    startOffset: range?.start ?? 0,
+    endOffset: range?.end ?? 0,
+    sourceMap,
     varsScope,
     dialect,
   });
   into.push(query);
   return query;
 }
-
-/**
- * Find the absolute byte offsets of `rawSql` within `yamlContent`. Tries four
- * strategies in order. Line-accurate strategies run first; the normalized
- * fallback runs last as a last-ditch existence check.
- *
- *   1. Direct string match.
- *   2. First-line match (for block scalars like `query: |` that re-indent SQL).
- *   3. yamlPath-aware section search (anchors on the last string segment of
- *      the yamlPath to disambiguate identical SQL appearing in two places).
- *   4. Normalized-whitespace existence check (YAML block-fold `>` collapses
- *      newlines). Returns the start of the YAML block containing the match
- *      so diagnostics still anchor near the right place.
- *
- * Returns `{0, 0}` if all strategies fail.
- */
-function locateQueryInYaml(
-  yamlContent: string,
-  rawSql: string,
-  yamlPath: (string | number)[],
-  searchStart: number = 0,
-): { startOffset: number; endOffset: number } {
-  // Helper: compute the byte offset of the start of the line containing `byteOffset`.
-  const lineStartFor = (byteOffset: number): number => {
-    const lastNl = yamlContent.lastIndexOf('\n', byteOffset - 1);
-    return lastNl === -1 ? 0 : lastNl + 1;
-  };
-  // Helper: 0-indexed line number containing `byteOffset`.
-  const lineFor = (byteOffset: number): number => {
-    let n = 0;
-    for (let k = 0; k < byteOffset && k < yamlContent.length; k++) {
-      // eslint-disable-next-line security/detect-object-injection -- counter
-      if (yamlContent[k] === '\n') n++;
-    }
-    return n;
-  };
-
-  // 1. Direct match starting at the cursor.
-  const direct = yamlContent.indexOf(rawSql, searchStart);
-  if (direct !== -1) {
-    return { startOffset: direct, endOffset: direct + rawSql.length };
-  }
-
-  // 2. First-line search starting at or after the cursor's line.
-  const queryLines = rawSql.split('\n').filter(l => l.trim().length > 0);
-  if (queryLines.length > 0) {
-    const firstLine = queryLines[0].trim();
-    const lines = yamlContent.split('\n');
-    const startLine = lineFor(searchStart);
-    for (let i = startLine; i < lines.length; i++) {
-      // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
-      if (lines[i].includes(firstLine)) {
-        const offset = lines.slice(0, i).join('\n').length + (i > 0 ? 1 : 0);
-        return { startOffset: offset, endOffset: offset + rawSql.length };
-      }
-    }
-  }
-
-  // 3. yamlPath-anchored section search after the cursor.
-  const stringSegs = yamlPath.filter((s): s is string => typeof s === 'string');
-  if (stringSegs.length > 0) {
-    const lastKey = stringSegs[stringSegs.length - 1];
-    const lines = yamlContent.split('\n');
-    const startLine = lineFor(searchStart);
-    let inSection = false;
-    for (let i = startLine; i < lines.length; i++) {
-      // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
-      const trimmed = lines[i].trim();
-      if (!trimmed || trimmed.startsWith('#')) continue;
-      if (!inSection && trimmed.includes(lastKey + ':')) {
-        inSection = true;
-        continue;
-      }
-      if (inSection && trimmed.includes(rawSql.substring(0, Math.min(50, rawSql.length)))) {
-        const offset = lines.slice(0, i).join('\n').length + (i > 0 ? 1 : 0);
-        return { startOffset: offset, endOffset: offset + rawSql.length };
-      }
-    }
-  }
-
-  // 4. Normalized-whitespace existence check (last resort).
-  const norm = (s: string) => s.replace(/\s+/g, ' ').trim();
-  const normalizedRaw = norm(rawSql);
-  const normalizedYaml = norm(yamlContent);
-  if (normalizedYaml.indexOf(normalizedRaw) !== -1) {
-    const stringSegs2 = yamlPath.filter((s): s is string => typeof s === 'string');
-    const lastKey2 = stringSegs2[stringSegs2.length - 1];
-    if (lastKey2) {
-      const lines = yamlContent.split('\n');
-      const startLine = lineFor(searchStart);
-      for (let i = startLine; i < lines.length; i++) {
-        // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
-        if (lines[i].trim().startsWith(lastKey2 + ':')) {
-          const offset = lines.slice(0, i).join('\n').length + (i > 0 ? 1 : 0);
-          return { startOffset: offset, endOffset: offset + rawSql.length };
-        }
-      }
-    }
-    // No path anchor available: anchor at the search cursor's line start.
-    const offset = lineStartFor(searchStart);
-    return { startOffset: offset, endOffset: offset + rawSql.length };
-  }
-
-  // All strategies failed; fall back to zero offsets.
-  return { startOffset: 0, endOffset: 0 };
-}
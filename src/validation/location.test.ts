@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildBatonDocument } from './document';
+import { resultRange, fixRange } from './location';
+
+function docWithQuery(yaml: string) {
+  const document = buildBatonDocument(yaml);
+  assert.equal(document.queries.length, 1);
+  return { document, query: document.queries[0] };
+}
+
+test('resultRange: folded query lineNumber points at the offending token, not the query: key', () => {
+  const yaml = `resource_types:
+  user:
+    list:
+      query: >
+        SELECT id
+        FORM users
+`;
+  const { document, query } = docWithQuery(yaml);
+  // The folded value is a single SQL line; a rule reporting position of FORM:
+  const position = query.rawSql.indexOf('FORM');
+  const r = resultRange(document, { result: { isValid: false, position }, query });
+  assert.equal(yaml.slice(r.start, r.end), 'F');
+  assert.equal(yaml.slice(0, r.start).split('\n').length - 1, 5);
+});
+
+test('resultRange: SQL-relative lineNumber in a literal block covers that SQL line', () => {
+  const yaml = `resource_types:
+  user:
+    list:
+      query: |
+        SELECT
+          id
+          name
+        FROM users
+`;
+  const { document, query } = docWithQuery(yaml);
+  const r = resultRange(document, { result: { isValid: false, lineNumber: 2 }, query });
+  assert.equal(yaml.slice(r.start, r.end), 'name');
+});
+
+test('resultRange: double-quoted query with \\n escapes maps later lines exactly', () => {
+  const yaml = `resource_types:
+  user:
+    list:
+      query: "SELECT id,\\n  name,\\nFROM users"
+`;
+  const { document, query } = docWithQuery(yaml);
+  const r = resultRange(document, { result: { isValid: false, lineNumber: 1 }, query });
+  assert.equal(yaml.slice(r.start, r.end), 'name,');
+});
+
+test('resultRange: document-scope lineNumber is an absolute YAML line', () => {
+  const yaml = 'a: 1\nbb: 2\n';
+  const document = buildBatonDocument(yaml);
+  const r = resultRange(document, { result: { isValid: false, lineNumber: 1 } });
+  assert.equal(yaml.slice(r.start, r.end), 'bb: 2');
+});
+
+test('fixRange: SQL-relative fix lands on the YAML text it replaces', () => {
+  const yaml = `resource_types:
+  user:
+    list:
+      query: |
+        SELECT id
+        FORM users
+`;
+  const { query } = docWithQuery(yaml);
+  const r = fixRange(query, {
+    range: { start: { line: 1, character: 0 }, end: { line: 1, character: 4 } },
+    newText: 'FROM',
+  });
+  assert.equal(yaml.slice(r.start, r.end), 'FORM');
+});
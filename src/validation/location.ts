@@ -0,0 +1,65 @@
+import { TextEdit } from './types';
+import { BatonDocument } from './document';
+import { ParsedQuery, sqlOffsetToYaml, sqlPositionToOffset } from './parsedQuery';
+import { PipelineResult } from './pipeline';
+import { SourceRange } from './yamlModel';
+
+/**
+ * Resolve where a pipeline result should be reported, as absolute offsets
+ * into `document.yamlContent`.
+ *
+ * - Query-scope `lineNumber` is SQL-relative: the SQL line is mapped through
+ *   the query's source map, from its first non-blank character to its end.
+ * - Query-scope `position` is an offset into the SQL; it maps to the single
+ *   character it names (which may be a multi-character escape in the YAML).
+ * - Document-scope `lineNumber` is an absolute YAML line and covers it whole;
+ *   document-scope `position` is an absolute offset.
+ * - With neither, the result covers its query (or the whole document).
+ */
+export function resultRange(
+  document: BatonDocument,
+  pr: Pick<PipelineResult, 'result' | 'query'>,
+): SourceRange {
+  const content = document.yamlContent;
+  const r = pr.result;
+  const query = pr.query;
+
+  if (r.lineNumber !== undefined) {
+    if (query) {
+      const lineStart = sqlPositionToOffset(query, r.lineNumber, 0);
+      const lineEnd = sqlPositionToOffset(query, r.lineNumber, Number.MAX_SAFE_INTEGER);
+      let first = lineStart;
+      // eslint-disable-next-line security/detect-object-injection -- bounded index into rawSql
+      while (first < lineEnd && /\s/.test(query.rawSql[first])) first++;
+      if (first === lineEnd) first = lineStart;
+      return { start: sqlOffsetToYaml(query, first), end: sqlOffsetToYaml(query, lineEnd) };
+    }
+    const lines = content.split('\n');
+    let offset = 0;
+    for (let i = 0; i < r.lineNumber && i < lines.length; i++) {
+      // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+      offset += lines[i].length + 1;
+    }
+    return { start: offset, end: offset + (lines[r.lineNumber]?.length || 0) };
+  }
+
+  if (r.position !== undefined) {
+    if (query) {
+      return { start: sqlOffsetToYaml(query, r.position), end: sqlOffsetToYaml(query, r.position + 1) };
+    }
+    return { start: r.position, end: r.position + 1 };
+  }
+
+  if (query) return { start: query.startOffset, end: query.endOffset };
+  return { start: 0, end: content.length };
+}
+
+/**
+ * Translate a query-scope rule's suggested fix (SQL-relative line/character)
+ * into absolute YAML offsets.
+ */
+export function fixRange(query: ParsedQuery, fix: TextEdit): SourceRange {
+  const start = sqlPositionToOffset(query, fix.range.start.line, fix.range.start.character);
+  const end = sqlPositionToOffset(query, fix.range.end.line, fix.range.end.character);
+  return { start: sqlOffsetToYaml(query, start), end: sqlOffsetToYaml(query, end) };
+}
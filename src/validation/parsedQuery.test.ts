@@ -1,6 +1,7 @@
 import { test } from 'node:test';
 import assert from 'node:assert/strict';
-import { parseQuery } from './parsedQuery';
+import { parseQuery, sqlOffsetToYaml, yamlOffsetToSql } from './parsedQuery';
+import { buildBatonDocument } from './document';
 
 test('parseQuery: valid SQL parses to an AST', () => {
   const q = parseQuery({
@@ -144,3 +145,25 @@ test('parseQuery: clean SELECT parses regardless of dialect', () => {
     assert.equal(q.dialect, dialect);
   }
 });
+
+test('yamlOffsetToSql: inverts sqlOffsetToYaml through block and escaped scalars', () => {
+  const yaml = [
+    'resource_types:',
+    '  user:',
+    '    list:',
+    '      query: |',
+    '        SELECT id',
+    '        FROM users',
+    '    entitlements:',
+    '      query: "SELECT \\"x\\" FROM t"',
+  ].join('\n');
+  const [block, quoted] = buildBatonDocument(yaml).queries;
+  const from = yaml.indexOf('FROM');
+  assert.equal(block.rawSql.slice(yamlOffsetToSql(block, from)), 'FROM users\n');
+  const t = yaml.lastIndexOf('t"');
+  assert.equal(yamlOffsetToSql(quoted, t), quoted.rawSql.length - 1);
+  for (let i = 0; i <= quoted.rawSql.length; i++) {
+    assert.equal(yamlOffsetToSql(quoted, sqlOffsetToYaml(quoted, i)), i);
+  }
+  assert.equal(yamlOffsetToSql(block, 0), undefined);
+});
@@ -17,6 +17,11 @@ export interface ParsedQuery {
   startOffset: number;
   /** Absolute byte offset of end. */
   endOffset: number;
+  /**
+   * Absolute YAML offset of every rawSql character (length rawSql.length + 1),
+   * or null when unavailable — see `sqlOffsetToYaml` for the fallback.
+   */
+  sourceMap: number[] | null;
   /** vars visible to this query, resolved from container scope. */
   varsScope: Map<string, string>;
   /** Set of ?<param> names appearing in rawSql. */
@@ -28,12 +33,15 @@ export interface ParseQueryInput {
   yamlPath: (string | number)[];
   startOffset: number;
   endOffset: number;
+  /** Per-character YAML offsets for rawSql (see ParsedQuery.sourceMap). */
+  sourceMap?: number[];
   varsScope: Map<string, string>;
   /** node-sql-parser dialect ('postgresql', 'mysql', 'transactsql', etc.). Undefined uses the default. */
   dialect?: string;
 }
 
-const PARAM_RE = /\?\<([^>]+)\>/g;
+/** A Baton `?<name>` parameter; group 1 is the name. */
+export const PARAM_RE = /\?\<([^>]+)\>/g;
 
 export function parseQuery(input: ParseQueryInput): ParsedQuery {
   const normalizedSql = normalizeSQL(input.rawSql);
@@ -62,7 +70,81 @@ export function parseQuery(input: ParseQueryInput): ParsedQuery {
     yamlPath: input.yamlPath,
     startOffset: input.startOffset,
     endOffset: input.endOffset,
+    sourceMap: input.sourceMap ?? null,
     varsScope: input.varsScope,
     usedParams,
   };
 }
+
+/**
+ * Parse `query.rawSql` with every `?<name>` written as the named parameter
+ * `:name` (an AST node `{ type: 'param', value: name }`), padded so offsets
+ * and lines match rawSql, and with source locations (`loc`) on. Rules that
+ * need to know which parameter sits where use this; it also parses in
+ * dialects whose grammar has no `?` placeholder, such as postgresql.
+ * Null when the SQL doesn't parse.
+ */
+export function parseWithNamedParams(query: ParsedQuery): unknown {
+  const sql = query.rawSql.replace(PARAM_RE, (match: string, name: string) => {
+    const param = /^[A-Za-z_]\w*$/.test(name) ? `:${name}` : ':_';
+    return param.padEnd(match.length, ' ');
+  });
+  try {
+    const options = { parseOptions: { includeLocations: true }, ...(query.dialect ? { database: query.dialect } : {}) };
+    return getParser().astify(sql, options);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Absolute YAML offset of the character at `sqlOffset` in `query.rawSql`.
+ * Uses the scalar source map when present; otherwise assumes the SQL sits
+ * verbatim at startOffset (true for single-line plain and simple quoted
+ * scalars). Offsets past the end clamp to the end of the SQL.
+ */
+export function sqlOffsetToYaml(query: ParsedQuery, sqlOffset: number): number {
+  const clamped = Math.max(0, Math.min(sqlOffset, query.rawSql.length));
+  if (query.sourceMap) {
+    // eslint-disable-next-line security/detect-object-injection -- clamped numeric index
+    return query.sourceMap[clamped];
+  }
+  return query.startOffset + clamped;
+}
+
+/**
+ * Inverse of `sqlOffsetToYaml`: the offset in `query.rawSql` of the
+ * character at absolute YAML offset `yamlOffset`, or undefined when the
+ * offset lies outside the query. An offset inside a multi-character escape
+ * rounds up to the next character.
+ */
+export function yamlOffsetToSql(query: ParsedQuery, yamlOffset: number): number | undefined {
+  if (yamlOffset < query.startOffset || yamlOffset > query.endOffset) return undefined;
+  if (!query.sourceMap) return Math.min(yamlOffset - query.startOffset, query.rawSql.length);
+  let low = 0;
+  let high = query.rawSql.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    // eslint-disable-next-line security/detect-object-injection -- bounded numeric index
+    if (query.sourceMap[mid] < yamlOffset) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Offset in `query.rawSql` of a SQL-relative (line, character) position —
+ * the coordinate system query-scope rules use for `lineNumber` and
+ * `suggestedFix` ranges.
+ */
+export function sqlPositionToOffset(query: ParsedQuery, line: number, character: number): number {
+  let offset = 0;
+  for (let l = 0; l < line; l++) {
+    const nl = query.rawSql.indexOf('\n', offset);
+    if (nl === -1) return query.rawSql.length;
+    offset = nl + 1;
+  }
+  const lineEnd = query.rawSql.indexOf('\n', offset);
+  const lineLength = (lineEnd === -1 ? query.rawSql.length : lineEnd) - offset;
+  return offset + Math.min(character, lineLength);
+}
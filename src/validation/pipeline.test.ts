@@ -6,6 +6,9 @@ import {
   uriToHash,
   evictUri,
 } from './pipeline';
+import { allValidationRules } from './rules';
+import { mergeConfigs } from './config';
+import { parseCatalog } from '../catalog/catalog';
 
 const SAMPLE_VALID = `
 app_name: t
@@ -698,3 +701,147 @@ resource_types:
   );
   assert.ok(keywordTypos.length > 0, 'keyword-spelling rule should still flag FORM');
 });
+
+test('validateDocument: results carry their rule and effective severity', () => {
+  documentCache.clear();
+  uriToHash.clear();
+  const { results } = validateDocument(SAMPLE_INVALID_SQL);
+  const missingComma = results.find(r => r.ruleName === 'missing-comma');
+  assert.ok(missingComma);
+  assert.equal(missingComma.rule.code, 'BSQL001');
+  assert.equal(missingComma.severity, 'error');
+});
+
+test('validateDocument: a per-result severity overrides the rule default', () => {
+  const yaml = `
+app_name: t
+connect:
+  dsn: postgres://x
+resource_types:
+  user:
+    name: User
+    description: u
+    list:
+      query: SELECT id, name FROM users WHERE org = ?<org>
+      vars:
+        org: "x"
+        unused: "y"
+      pagination:
+        strategy: offset
+        primary_key: id
+      map:
+        id: ".id"
+        display_name: ".name"
+`;
+  documentCache.clear();
+  uriToHash.clear();
+  const { results } = validateDocument(yaml);
+  const unused = results.find(r => r.ruleName === 'vars-query-mismatch');
+  assert.ok(unused, `expected a vars-query-mismatch result, got: ${JSON.stringify(results.map(r => r.ruleName))}`);
+  assert.equal(unused.rule.defaultSeverity, 'error');
+  assert.equal(unused.severity, 'warning');
+});
+
+test('allValidationRules: codes are unique and every rule links to its docs', () => {
+  const codes = allValidationRules.map(r => r.code);
+  assert.equal(new Set(codes).size, codes.length);
+  for (const rule of allValidationRules) {
+    assert.match(rule.code, /^BSQL\d{3}$/);
+    assert.ok(rule.docsUrl.endsWith(`#${rule.code.toLowerCase()}`), rule.name);
+  }
+});
+
+test('validateDocument: config can switch a rule off or pin its severity', () => {
+  documentCache.clear();
+  uriToHash.clear();
+  const off = validateDocument(SAMPLE_INVALID_SQL, undefined, mergeConfigs({ rules: { 'missing-comma': 'off' } }));
+  assert.equal(off.results.some(r => r.ruleName === 'missing-comma'), false);
+
+  const pinned = validateDocument(SAMPLE_INVALID_SQL, undefined, mergeConfigs({ rules: { BSQL001: 'hint' } }));
+  const missingComma = pinned.results.find(r => r.ruleName === 'missing-comma');
+  assert.ok(missingComma);
+  assert.equal(missingComma.severity, 'hint');
+});
+
+test('validateDocument: config dialect applies only when connect.scheme is missing', () => {
+  const config = mergeConfigs({ dialect: 'mysql' });
+  const unset = validateDocument(SAMPLE_VALID, undefined, config);
+  assert.equal(unset.document.queries[0].dialect, 'mysql');
+
+  const withScheme = SAMPLE_VALID.replace('  dsn: postgres://x', '  dsn: postgres://x\n  scheme: postgres');
+  const set = validateDocument(withScheme, undefined, config);
+  assert.equal(set.document.queries[0].dialect, 'postgresql');
+});
+
+test('validateDocument: SQL in validation_queries and discovery_query is checked', () => {
+  const yaml = `
+app_name: t
+connect:
+  dsn: postgres://x
+  databases:
+    discovery_query: |
+      SELCT datname
+      FROM pg_database
+resource_types:
+  role:
+    name: Role
+    description: r
+    list:
+      query: SELECT id, name FROM roles
+      pagination:
+        strategy: offset
+        primary_key: id
+      map:
+        id: ".id"
+        display_name: ".name"
+    static_entitlements:
+      - id: member
+        display_name: Member
+        provisioning:
+          vars:
+            member_id: principal.ID
+          grant:
+            validation_queries:
+              - SELECT id, FROM users WHERE id = ?<member_id>
+            queries:
+              - INSERT INTO members (id) VALUES (?<member_id>)
+`;
+  documentCache.clear();
+  uriToHash.clear();
+  const { results } = validateDocument(yaml);
+  const spelling = results.find(r => r.ruleName === 'keyword-spelling');
+  assert.deepEqual(spelling?.query?.yamlPath, ['connect', 'databases', 'discovery_query']);
+  const trailing = results.find(r => r.ruleName === 'trailing-comma');
+  assert.equal(trailing?.query?.yamlPath.join('.'),
+    'resource_types.role.static_entitlements.0.provisioning.grant.validation_queries.0');
+});
+
+test('validateDocument: a catalog enables table and column checks', () => {
+  const yaml = `
+app_name: t
+connect:
+  dsn: postgres://x
+resource_types:
+  user:
+    name: User
+    description: u
+    list:
+      query: |
+        SELECT usr.id, usr.emial AS name
+        FROM users usr
+      pagination:
+        strategy: offset
+        primary_key: id
+      map:
+        id: ".id"
+        display_name: ".name"
+`;
+  const catalog = parseCatalog({ tables: { users: { columns: { id: 'integer', email: 'text' } } } }).catalog;
+  documentCache.clear();
+  uriToHash.clear();
+  assert.ok(!validateDocument(yaml).results.some(r => r.ruleName === 'catalog-reference'));
+  const { results } = validateDocument(yaml, undefined, undefined, catalog);
+  const hit = results.find(r => r.ruleName === 'catalog-reference');
+  assert.equal(hit?.result.errorMessage, "Column 'emial' does not exist on table 'users' (alias 'usr'). Did you mean 'email'?");
+  assert.equal(hit?.severity, 'error');
+});
@@ -1,8 +1,11 @@
 import { Diagnostic } from 'vscode-languageserver/node';
-import { ValidationResult } from './types';
+import { Severity, ValidationResult, ValidationRule } from './types';
 import { allValidationRules } from './rules';
 import { BatonDocument, buildBatonDocument } from './document';
 import { ParsedQuery } from './parsedQuery';
+import { BatonSqlConfig, DEFAULT_CONFIG, ruleSetting } from './config';
+import { Catalog } from '../catalog/catalog';
+import { applySuppressions, collectSuppressions, unusedSuppressionRule } from './suppressions';
 
 export type RuleErrorHandler = (ruleName: string, error: unknown) => void;
 
@@ -13,6 +16,10 @@ export interface PipelineResult {
   query?: ParsedQuery;
   /** Name of the rule that produced it (for logging / diagnostic.source). */
   ruleName: string;
+  /** The rule itself, for its code, category and docs link. */
+  rule: ValidationRule;
+  /** Effective severity: the result's override, else the rule's default. */
+  severity: Severity;
 }
 
 /** Server-side cache of diagnostics keyed by content hash. */
@@ -48,21 +55,30 @@ export function evictUri(uri: string): void {
  * `for (queryInfo) { validateSql(...) }` from src/server/server.ts so the dedup
  * outcome (which keeps the first equal diagnostic) is byte-identical with v1.4.0.
  * Document-scope rules run after all query-scope iterations for the same reason.
+ *
+ * `config` switches rules off, pins their severity (overriding per-result
+ * severities too) and supplies the default dialect. Results covered by a
+ * `baton-sql-disable` comment are dropped (see suppressions.ts). `catalog`,
+ * when given, is handed to rules that check tables and columns.
  */
 export function validateDocument(
   yamlContent: string,
   onRuleError?: RuleErrorHandler,
+  config: BatonSqlConfig = DEFAULT_CONFIG,
+  catalog?: Catalog,
 ): { document: BatonDocument; results: PipelineResult[] } {
-  const document = buildBatonDocument(yamlContent);
+  const document = buildBatonDocument(yamlContent, config.dialect);
   const results: PipelineResult[] = [];
 
   const runRule = (rule: typeof allValidationRules[number], sql: string, query?: ParsedQuery) => {
+    const setting = ruleSetting(config, rule);
+    if (setting === 'off') return;
     try {
       // Query-scope rules expect the second arg to be the SQL block itself (their
       // string-scanning loops iterate it). Document-scope rules use it as the YAML
       // payload for line anchoring. Branch on whether a query is in play.
       const secondArg = query ? query.rawSql : yamlContent;
-      const out = rule.validate(sql, secondArg, { query, document });
+      const out = rule.validate(sql, secondArg, { query, document, catalog });
       const arr = Array.isArray(out) ? out : [out];
       for (const result of arr) {
         if (!result.isValid) {
@@ -70,6 +86,8 @@ export function validateDocument(
             result: { ...result, errorMessage: result.errorMessage || `Validation failed for rule: ${rule.name}` },
             query,
             ruleName: rule.name,
+            rule,
+            severity: setting ?? result.severity ?? rule.defaultSeverity,
           });
         }
       }
@@ -96,5 +114,25 @@ export function validateDocument(
     runRule(rule, '', undefined);
   }
 
-  return { document, results };
+  // Suppression comments filter what the rules reported; stale ones are reported in turn.
+  const { kept, unused } = applySuppressions(
+    document,
+    results,
+    collectSuppressions(document),
+    allValidationRules,
+    rule => ruleSetting(config, rule) !== 'off',
+  );
+  const unusedSetting = ruleSetting(config, unusedSuppressionRule);
+  if (unusedSetting !== 'off') {
+    for (const { message, lineNumber } of unused) {
+      kept.push({
+        result: { isValid: false, errorMessage: message, lineNumber },
+        ruleName: unusedSuppressionRule.name,
+        rule: unusedSuppressionRule,
+        severity: unusedSetting ?? unusedSuppressionRule.defaultSeverity,
+      });
+    }
+  }
+
+  return { document, results: kept };
 }
@@ -0,0 +1,119 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildBatonDocument } from './document';
+import { findOccurrences, symbolAt } from './references';
+
+const yaml = `resource_types:
+  user:
+    name: User
+    list:
+      query: SELECT id, role FROM users WHERE org = ?<org>
+      vars:
+        org: connector.org
+  group:
+    name: Group
+    static_entitlements:
+      - id: member
+        display_name: Member
+        grantable_to: [user]
+    grants:
+      - query: SELECT g.id, u.id AS user_id FROM users u JOIN memberships g ON 'users' = ?<kind>
+        vars:
+          kind: connector.kind
+        map:
+          - principal_id: .user_id
+            principal_type: user
+            entitlement_id: member
+            expandable:
+              entitlement_ids: [member]
+`;
+
+function occurrencesAt(text: string, nth = 0, source = yaml) {
+  const doc = buildBatonDocument(source);
+  let offset = -1;
+  for (let i = 0; i <= nth; i++) offset = source.indexOf(text, offset + 1);
+  const at = symbolAt(doc, offset);
+  assert.ok(at, `no symbol at ${text}`);
+  return findOccurrences(doc, at.symbol).map(o => ({
+    line: source.slice(0, o.range.start).split('\n').length - 1,
+    text: source.slice(o.range.start, o.range.end),
+    definition: o.definition,
+  }));
+}
+
+test('references: a resource type is used by principal_type and grantable_to', () => {
+  const fromUse = occurrencesAt('user\n            entitlement_id');
+  assert.deepEqual(fromUse, [
+    { line: 1, text: 'user', definition: true },
+    { line: 12, text: 'user', definition: false },
+    { line: 19, text: 'user', definition: false },
+  ]);
+  assert.equal(symbolAt(buildBatonDocument(yaml), yaml.indexOf('user_id')), undefined);
+});
+
+test('references: a static entitlement id is used by entitlement_id and expandable.entitlement_ids', () => {
+  assert.deepEqual(occurrencesAt('member\n'), [
+    { line: 10, text: 'member', definition: true },
+    { line: 20, text: 'member', definition: false },
+    { line: 22, text: 'member', definition: false },
+  ]);
+});
+
+test('references: an entitlement id defined under two resource types is two symbols', () => {
+  const twoTypes = `resource_types:
+  group:
+    name: Group
+    static_entitlements:
+      - id: member
+        display_name: Member
+    grants:
+      - query: SELECT user_id FROM group_members
+        map:
+          - principal_id: .user_id
+            principal_type: user
+            entitlement_id: member
+  role:
+    name: Role
+    static_entitlements:
+      - id: member
+        display_name: Member
+    grants:
+      - query: SELECT user_id FROM role_members
+        map:
+          - principal_id: .user_id
+            principal_type: user
+            entitlement_id: member
+            expandable:
+              entitlement_ids: [member]
+`;
+  assert.deepEqual(occurrencesAt('member\n', 0, twoTypes), [
+    { line: 4, text: 'member', definition: true },
+    { line: 11, text: 'member', definition: false },
+  ]);
+  assert.deepEqual(occurrencesAt('member\n', 3, twoTypes), [
+    { line: 15, text: 'member', definition: true },
+    { line: 22, text: 'member', definition: false },
+    { line: 24, text: 'member', definition: false },
+  ]);
+});
+
+test('references: a var is used by the ?<name> parameters of the queries it is visible to', () => {
+  assert.deepEqual(occurrencesAt('org:'), [
+    { line: 4, text: 'org', definition: false },
+    { line: 6, text: 'org', definition: true },
+  ]);
+  assert.deepEqual(occurrencesAt('kind>'), [
+    { line: 14, text: 'kind', definition: false },
+    { line: 16, text: 'kind', definition: true },
+  ]);
+});
+
+test('references: a table is found in every query that reads it, but not in string literals', () => {
+  assert.deepEqual(occurrencesAt('users'), [
+    { line: 4, text: 'users', definition: false },
+    { line: 14, text: 'users', definition: false },
+  ]);
+  // memberships is read only by the grants query; `role` is a column, not a table.
+  assert.equal(occurrencesAt('memberships').length, 1);
+  assert.equal(symbolAt(buildBatonDocument(yaml), yaml.indexOf('role')), undefined);
+});
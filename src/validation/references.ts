@@ -0,0 +1,195 @@
+import { BatonDocument, rangeAt, scalarOffsetAt, varsSourcePath } from './document';
+import { PARAM_RE, ParsedQuery, parseWithNamedParams, sqlOffsetToYaml } from './parsedQuery';
+import { SourceRange } from './yamlModel';
+import { collectQueryReferences } from '../catalog/queryReferences';
+import { sequenceItems } from '../utils/yamlUtils';
+
+/**
+ * Something in a Baton config that has a name other parts refer to:
+ *
+ * - `resource_type` — a `resource_types` key, used by `principal_type` and
+ *   `grantable_to`.
+ * - `entitlement` — a static entitlement `id` of `resourceType`, used by
+ *   the `entitlement_id` and `expandable.entitlement_ids` of that resource
+ *   type's grants. The same id under two resource types is two symbols.
+ * - `var` — a key of the `vars` map at `varsPath`, used as `?<name>` by the
+ *   queries that map is visible to.
+ * - `table` — a database table, used by every query that reads or writes it.
+ *   Tables are defined in the database, so they have no definition here.
+ */
+export type BatonSymbol =
+  | { kind: 'resource_type'; name: string }
+  | { kind: 'entitlement'; name: string; resourceType: string }
+  | { kind: 'var'; name: string; varsPath: (string | number)[] }
+  | { kind: 'table'; name: string };
+
+export interface SymbolOccurrence {
+  symbol: BatonSymbol;
+  /** Absolute offsets of the name itself, without quotes or `?<` `>`. */
+  range: SourceRange;
+  /** True where the symbol is declared rather than used. */
+  definition: boolean;
+}
+
+/** The parts of a resource type's YAML that name other symbols. */
+interface ResourceTypeYaml {
+  grants?: ({ map?: (GrantMappingYaml | null)[] } | null)[];
+  entitlements?: { map?: ({ grantable_to?: unknown[] } | null)[] } | null;
+  static_entitlements?: ({ id?: unknown; grantable_to?: unknown[] } | null)[];
+}
+
+interface GrantMappingYaml {
+  principal_type?: unknown;
+  entitlement_id?: unknown;
+  expandable?: { entitlement_ids?: unknown[] } | null;
+}
+
+/** Tables named after these keywords, for queries that don't parse. */
+const TABLE_AFTER = /\b(?:FROM|JOIN|INTO|UPDATE)\s+([A-Za-z_][\w$.]*)/gi;
+const IDENTIFIER = /[A-Za-z_][\w$]*/g;
+/** SQL string literals and `?<name>` parameters, whose text is never a table. */
+const NOT_IDENTIFIERS = /'[^']*'|\?<[^>]*>/g;
+
+/** Occurrences by document, so a request that looks up several symbols parses the queries once. */
+const occurrenceCache = new WeakMap<BatonDocument, SymbolOccurrence[]>();
+
+/** The symbol occurrence at absolute YAML `offset`, if any — what Find All References starts from. */
+export function symbolAt(doc: BatonDocument, offset: number): SymbolOccurrence | undefined {
+  return allOccurrences(doc).find(o => o.range.start <= offset && offset <= o.range.end);
+}
+
+/** Every occurrence of `symbol` in the document, in document order. */
+export function findOccurrences(doc: BatonDocument, symbol: BatonSymbol): SymbolOccurrence[] {
+  return allOccurrences(doc)
+    .filter(o => sameSymbol(o.symbol, symbol))
+    .sort((a, b) => a.range.start - b.range.start);
+}
+
+export function sameSymbol(a: BatonSymbol, b: BatonSymbol): boolean {
+  if (a.kind !== b.kind) return false;
+  if (a.kind === 'table') return a.name.toLowerCase() === b.name.toLowerCase();
+  if (a.kind === 'var' && b.kind === 'var') return a.name === b.name && samePath(a.varsPath, b.varsPath);
+  if (a.kind === 'entitlement' && b.kind === 'entitlement') return a.name === b.name && a.resourceType === b.resourceType;
+  return a.name === b.name;
+}
+
+/**
+ * Names of the tables `query` reads or writes, without their schema. Queries
+ * that don't parse fall back to the names after FROM, JOIN, INTO and UPDATE.
+ */
+export function queryTables(query: ParsedQuery): string[] {
+  const ast = parseWithNamedParams(query);
+  const names = ast
+    ? collectQueryReferences(ast).tables.map(t => t.name)
+    : [...query.rawSql.matchAll(TABLE_AFTER)].map(m => m[1].split('.').pop() as string);
+  return [...new Set(names)];
+}
+
+function allOccurrences(doc: BatonDocument): SymbolOccurrence[] {
+  let occurrences = occurrenceCache.get(doc);
+  if (!occurrences) {
+    occurrences = collectOccurrences(doc);
+    occurrenceCache.set(doc, occurrences);
+  }
+  return occurrences;
+}
+
+function collectOccurrences(doc: BatonDocument): SymbolOccurrence[] {
+  const occurrences: SymbolOccurrence[] = [];
+  const add = (symbol: BatonSymbol, range: SourceRange | undefined, definition = false) => {
+    if (symbol.name && range) occurrences.push({ symbol, range, definition });
+  };
+  /** The string scalar at `path`, with the range of its text. */
+  const scalar = (path: (string | number)[], value: unknown): [string, SourceRange | undefined] | undefined => {
+    if (typeof value !== 'string') return undefined;
+    const start = scalarOffsetAt(doc, path, 0);
+    const end = scalarOffsetAt(doc, path, value.length);
+    return [value, start === undefined || end === undefined ? undefined : { start, end }];
+  };
+
+  // Walk the YAML lists rather than rt.grants / rt.staticEntitlements, which skip malformed entries.
+  for (const [id, rt] of doc.resourceTypes) {
+    add({ kind: 'resource_type', name: id }, rt.range, true);
+    const base = ['resource_types', id];
+    // eslint-disable-next-line security/detect-object-injection -- id is a resource_types key of this document
+    const yaml: ResourceTypeYaml | undefined = doc.yaml?.resource_types?.[id];
+
+    sequenceItems(yaml?.grants).forEach((grant, gi) => {
+      sequenceItems(grant?.map).forEach((mapping, mi) => {
+        const path = [...base, 'grants', gi, 'map', mi];
+        const principal = scalar([...path, 'principal_type'], mapping?.principal_type);
+        if (principal) add({ kind: 'resource_type', name: principal[0] }, principal[1]);
+        const entitlement = scalar([...path, 'entitlement_id'], mapping?.entitlement_id);
+        if (entitlement) add({ kind: 'entitlement', name: entitlement[0], resourceType: id }, entitlement[1]);
+        sequenceItems(mapping?.expandable?.entitlement_ids).forEach((value, k) => {
+          const expanded = scalar([...path, 'expandable', 'entitlement_ids', k], value);
+          if (expanded) add({ kind: 'entitlement', name: expanded[0], resourceType: id }, expanded[1]);
+        });
+      });
+    });
+
+    const grantableTo = (path: (string | number)[], list: unknown[] | undefined) =>
+      sequenceItems(list).forEach((value, k) => {
+        const type = scalar([...path, 'grantable_to', k], value);
+        if (type) add({ kind: 'resource_type', name: type[0] }, type[1]);
+      });
+    sequenceItems(yaml?.entitlements?.map).forEach((mapping, mi) => grantableTo([...base, 'entitlements', 'map', mi], mapping?.grantable_to));
+    sequenceItems(yaml?.static_entitlements).forEach((entitlement, i) => {
+      const path = [...base, 'static_entitlements', i];
+      const defined = scalar([...path, 'id'], entitlement?.id);
+      if (defined) add({ kind: 'entitlement', name: defined[0], resourceType: id }, defined[1], true);
+      grantableTo(path, entitlement?.grantable_to);
+    });
+  }
+
+  walkVars(doc.yaml, [], (name, varsPath) => add({ kind: 'var', name, varsPath }, rangeAt(doc, [...varsPath, name], 'key'), true));
+
+  for (const query of doc.queries) {
+    const varsPath = varsSourcePath(query.yamlPath);
+    if (varsPath) {
+      for (const match of query.rawSql.matchAll(PARAM_RE)) {
+        const start = (match.index ?? 0) + 2;
+        add({ kind: 'var', name: match[1], varsPath }, yamlRange(query, start, start + match[1].length));
+      }
+    }
+    for (const name of queryTables(query)) {
+      for (const start of identifierOffsets(query.rawSql, name)) {
+        add({ kind: 'table', name }, yamlRange(query, start, start + name.length));
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+/** Offsets in `sql` of the identifier `name`, ignoring case, string literals and `?<name>` parameters. */
+function identifierOffsets(sql: string, name: string): number[] {
+  const masked = sql.replace(NOT_IDENTIFIERS, text => ' '.repeat(text.length));
+  const lower = name.toLowerCase();
+  return [...masked.matchAll(IDENTIFIER)].filter(m => m[0].toLowerCase() === lower).map(m => m.index ?? 0);
+}
+
+function yamlRange(query: ParsedQuery, start: number, end: number): SourceRange {
+  return { start: sqlOffsetToYaml(query, start), end: sqlOffsetToYaml(query, end) };
+}
+
+/** Call `visit` with each name in every `vars` map of the YAML and the path of that map. */
+export function walkVars(node: unknown, path: (string | number)[], visit: (name: string, varsPath: (string | number)[]) => void): void {
+  if (Array.isArray(node)) {
+    node.forEach((item, i) => walkVars(item, [...path, i], visit));
+    return;
+  }
+  if (!node || typeof node !== 'object') return;
+  for (const [key, value] of Object.entries(node)) {
+    if (key === 'vars' && value && typeof value === 'object' && !Array.isArray(value)) {
+      for (const name of Object.keys(value)) visit(name, [...path, key]);
+    } else {
+      walkVars(value, [...path, key], visit);
+    }
+  }
+}
+
+function samePath(a: (string | number)[], b: (string | number)[]): boolean {
+  // eslint-disable-next-line security/detect-object-injection -- index from every()
+  return a.length === b.length && a.every((segment, i) => segment === b[i]);
+}
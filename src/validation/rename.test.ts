@@ -0,0 +1,130 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildBatonDocument } from './document';
+import { planRename, prepareRename } from './rename';
+
+const yaml = `resource_types:
+  user:
+    name: User
+    list:
+      query: SELECT id FROM users WHERE org = ?<org>
+      vars:
+        org: connector.org
+  group:
+    name: Group
+    static_entitlements:
+      - id: member
+        display_name: Member
+        grantable_to: [user]
+    grants:
+      - query: SELECT group_id, user_id, kind FROM memberships WHERE org = ?<org>
+        vars:
+          org: connector.group_org
+        map:
+          - principal_id: .user_id
+            principal_type: user
+            entitlement_id: member
+            expandable:
+              entitlement_ids: [member]
+          - principal_id: .user_id
+            principal_type: '.kind == "user" ? "user" : "group"'
+            entitlement_id: admin
+`;
+
+function renamed(at: string, newName: string, source = yaml): string {
+  const result = planRename(buildBatonDocument(source), source.indexOf(at), newName);
+  assert.ok(result && 'ranges' in result, JSON.stringify(result));
+  let out = source;
+  for (const range of [...result.ranges].sort((a, b) => b.start - a.start)) {
+    out = out.slice(0, range.start) + newName + out.slice(range.end);
+  }
+  return out;
+}
+
+test('rename: a resource type updates literal principal_type and grantable_to, not expressions', () => {
+  const out = renamed('user:', 'account');
+  assert.match(out, /^ {2}account:$/m);
+  assert.match(out, /grantable_to: \[account\]/);
+  assert.match(out, /principal_type: account$/m);
+  assert.match(out, /principal_type: '\.kind == "user" \? "user" : "group"'/);
+  assert.match(out, /\.user_id/);
+});
+
+test('rename: a static entitlement id updates entitlement_id and expandable.entitlement_ids', () => {
+  const out = renamed('member\n', 'members');
+  assert.match(out, /- id: members$/m);
+  assert.match(out, /entitlement_id: members$/m);
+  assert.match(out, /entitlement_ids: \[members\]/);
+  assert.match(out, /memberships/);
+});
+
+test('rename: an entitlement id defined under two resource types only changes its own', () => {
+  const twoTypes = `resource_types:
+  group:
+    name: Group
+    static_entitlements:
+      - id: member
+        display_name: Member
+      - id: owner
+        display_name: Owner
+    grants:
+      - query: SELECT user_id FROM group_members
+        map:
+          - principal_id: .user_id
+            principal_type: user
+            entitlement_id: member
+  role:
+    name: Role
+    static_entitlements:
+      - id: member
+        display_name: Member
+    grants:
+      - query: SELECT user_id FROM role_members
+        map:
+          - principal_id: .user_id
+            principal_type: user
+            entitlement_id: member
+            expandable:
+              entitlement_ids: [member]
+`;
+  const out = renamed('member\n', 'members', twoTypes);
+  // group's id and entitlement_id change; role's id, entitlement_id and entitlement_ids don't.
+  assert.deepEqual(out.match(/(?:id|entitlement_ids): \[?members?\]?$/gm), [
+    'id: members',
+    'id: members',
+    'id: member',
+    'id: member',
+    'entitlement_ids: [member]',
+  ]);
+  // `owner` only collides within `group`; `role` may take it.
+  const doc = buildBatonDocument(twoTypes);
+  assert.match(errorOf(planRename(doc, twoTypes.indexOf('member\n'), 'owner')), /`owner` already exists on resource type `group`/);
+  assert.ok('ranges' in (planRename(doc, twoTypes.lastIndexOf('- id: member') + 6, 'owner') ?? {}));
+});
+
+test('rename: a var key updates ?<key> only in the queries that see it', () => {
+  const out = renamed('org: connector.org', 'tenant');
+  assert.match(out, /WHERE org = \?<tenant>\n/);
+  assert.match(out, /tenant: connector\.org/);
+  assert.match(out, /FROM memberships WHERE org = \?<org>/);
+  assert.match(out, /org: connector\.group_org/);
+});
+
+test('rename: refuses tables, undefined names, bad names and collisions', () => {
+  const doc = buildBatonDocument(yaml);
+  assert.match(errorOf(prepareRename(doc, yaml.indexOf('memberships'))), /Tables are defined in the database/);
+  assert.match(errorOf(prepareRename(doc, yaml.indexOf('admin'))), /No static entitlement `admin`/);
+  assert.match(errorOf(planRename(doc, yaml.indexOf('user:'), 'group')), /resource type `group` already exists/);
+  assert.match(errorOf(planRename(doc, yaml.indexOf('user:'), '.id')), /not a valid resource type id/);
+  assert.match(errorOf(planRename(doc, yaml.indexOf('org: connector.org'), 'a b')), /not a valid var name/);
+  assert.equal(prepareRename(doc, yaml.indexOf('SELECT')), undefined);
+  assert.deepEqual(prepareRename(doc, yaml.indexOf('member\n') + 2), {
+    range: { start: yaml.indexOf('member\n'), end: yaml.indexOf('member\n') + 'member'.length },
+    placeholder: 'member',
+  });
+});
+
+function errorOf(result: unknown): string {
+  assert.ok(result && typeof result === 'object' && 'error' in result, JSON.stringify(result));
+  return (result as { error: string }).error;
+}
@@ -0,0 +1,89 @@
+import { BatonDocument } from './document';
+import { BatonSymbol, findOccurrences, SymbolOccurrence, symbolAt } from './references';
+import { SourceRange } from './yamlModel';
+import { looksLikeLiteralReference } from '../utils/stringUtils';
+
+/** Why a rename was refused, shown to the user as-is. */
+export interface RenameError {
+  error: string;
+}
+
+const VAR_NAME = /^[A-Za-z_]\w*$/;
+
+/**
+ * The name to rename at absolute YAML `offset`: its range and current text.
+ * Undefined when nothing renameable is there; an error when the symbol is a
+ * table or is only referred to, never defined, in this document.
+ */
+export function prepareRename(doc: BatonDocument, offset: number): { range: SourceRange; placeholder: string } | RenameError | undefined {
+  const at = symbolAt(doc, offset);
+  if (!at) return undefined;
+  const error = cannotRename(doc, at);
+  if (error) return { error };
+  return { range: at.range, placeholder: at.symbol.name };
+}
+
+/**
+ * The ranges to replace with `newName` to rename the symbol at `offset`:
+ * its definition and every literal reference to it. Expression-valued
+ * `principal_type`, `entitlement_id` and the like never equal a bare name,
+ * so they are left alone.
+ */
+export function planRename(doc: BatonDocument, offset: number, newName: string): { ranges: SourceRange[] } | RenameError | undefined {
+  const at = symbolAt(doc, offset);
+  if (!at) return undefined;
+  const error = cannotRename(doc, at) ?? invalidName(doc, at.symbol, newName);
+  if (error) return { error };
+  if (newName === at.symbol.name) return { ranges: [] };
+  return { ranges: findOccurrences(doc, at.symbol).map(o => o.range) };
+}
+
+function cannotRename(doc: BatonDocument, at: SymbolOccurrence): string | undefined {
+  const { symbol } = at;
+  if (symbol.kind === 'table') return 'Tables are defined in the database and cannot be renamed here.';
+  if (findOccurrences(doc, symbol).some(o => o.definition)) return undefined;
+  switch (symbol.kind) {
+    case 'resource_type':
+      return `No resource type \`${symbol.name}\` is defined in this file.`;
+    case 'entitlement':
+      return `No static entitlement \`${symbol.name}\` is defined on resource type \`${symbol.resourceType}\`.`;
+    case 'var':
+      return `\`${symbol.name}\` is not defined in the vars this query can see.`;
+  }
+}
+
+function invalidName(doc: BatonDocument, symbol: BatonSymbol, newName: string): string | undefined {
+  if (newName === symbol.name) return undefined;
+  switch (symbol.kind) {
+    case 'resource_type':
+      if (!looksLikeLiteralReference(newName)) return `\`${newName}\` is not a valid resource type id.`;
+      if (doc.resourceTypes.has(newName)) return `A resource type \`${newName}\` already exists.`;
+      return undefined;
+    case 'entitlement':
+      if (!looksLikeLiteralReference(newName)) return `\`${newName}\` is not a valid entitlement id.`;
+      if (doc.resourceTypes.get(symbol.resourceType)?.staticEntitlements.some(se => se.id === newName)) {
+        return `A static entitlement \`${newName}\` already exists on resource type \`${symbol.resourceType}\`.`;
+      }
+      return undefined;
+    case 'var': {
+      if (!VAR_NAME.test(newName)) return `\`${newName}\` is not a valid var name.`;
+      const vars = valueAt(doc.yaml, symbol.varsPath);
+      if (vars && typeof vars === 'object' && Object.prototype.hasOwnProperty.call(vars, newName)) {
+        return `A var \`${newName}\` already exists in this vars map.`;
+      }
+      return undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function valueAt(root: unknown, path: (string | number)[]): unknown {
+  let cur = root;
+  for (const segment of path) {
+    if (!cur || typeof cur !== 'object') return undefined;
+    // eslint-disable-next-line security/detect-object-injection -- path segments come from the document's own vars maps
+    cur = (cur as Record<string | number, unknown>)[segment];
+  }
+  return cur;
+}
@@ -0,0 +1,9 @@
+/**
+ * Rule documentation lives in docs/rules.md, one `## BSQL0xx` heading per rule.
+ */
+const RULE_DOCS_URL = 'https://github.com/afalahi/baton-sql-extension/blob/main/docs/rules.md';
+
+/** Link to a rule's section in docs/rules.md, keyed by its diagnostic code. */
+export function ruleDocsUrl(code: string): string {
+  return `${RULE_DOCS_URL}#${code.toLowerCase()}`;
+}
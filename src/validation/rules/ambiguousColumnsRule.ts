@@ -1,10 +1,15 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { getParser } from '../../utils/sqlUtils';
 import { findLineWithPattern } from '../../utils/stringUtils';
 
 export const ambiguousColumnsRule: ValidationRule = {
   name: "ambiguous-columns",
   description: "Check for potentially ambiguous column references",
+  code: "BSQL005",
+  category: "style",
+  defaultSeverity: "warning",
+  docsUrl: ruleDocsUrl("BSQL005"),
   validate: (sql: string, originalQuery: string): ValidationResult => {
     try {
       const parser = getParser();
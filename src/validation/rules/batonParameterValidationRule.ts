@@ -1,10 +1,15 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { findLineWithPattern, areWordsSimilar } from '../../utils/stringUtils';
 import { RuleContext } from '../context';
 
 export const batonParameterValidationRule: ValidationRule = {
   name: "baton-parameter-validation",
   description: "Validate Baton parameterized query syntax",
+  code: "BSQL011",
+  category: "syntax",
+  defaultSeverity: "error",
+  docsUrl: ruleDocsUrl("BSQL011"),
   validate: (sql: string, originalQuery: string, ctx?: RuleContext): ValidationResult => {
     // Prefer the un-normalized SQL via ctx (production path). Fall back to the
     // sql arg for direct-test calls where ctx is undefined.
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { catalogReferenceRule } from './catalogReferenceRule';
+import { parseQuery } from '../parsedQuery';
+import { buildBatonDocument } from '../document';
+import { Catalog, parseCatalog } from '../../catalog/catalog';
+import { ValidationResult } from '../types';
+
+const { catalog } = parseCatalog({
+  schemas: {
+    public: {
+      users: { columns: { id: 'integer', email: 'text', name: 'text', org_id: 'integer' } },
+      orgs: { columns: { id: 'integer', title: 'text' } },
+    },
+  },
+});
+
+function check(rawSql: string, ctx: { catalog?: Catalog } = { catalog }): ValidationResult[] {
+  const query = parseQuery({
+    rawSql,
+    yamlPath: ['resource_types', 'user', 'list', 'query'],
+    startOffset: 0,
+    endOffset: rawSql.length,
+    varsScope: new Map(),
+  });
+  const out = catalogReferenceRule.validate(query.normalizedSql, rawSql, {
+    query,
+    document: buildBatonDocument(''),
+    catalog: ctx.catalog,
+  });
+  return Array.isArray(out) ? out : [out];
+}
+
+test('catalog-reference: known tables and columns pass', () => {
+  assert.deepEqual(check('SELECT u.id, u.email, o.title FROM users u JOIN orgs o ON o.id = u.org_id'), []);
+});
+
+test('catalog-reference: unknown column gets did-you-mean and a quick fix', () => {
+  const sql = 'SELECT usr.id,\n  usr.emial\nFROM users usr';
+  const [r] = check(sql);
+  assert.equal(r.errorMessage, "Column 'emial' does not exist on table 'public.users' (alias 'usr'). Did you mean 'email'?");
+  assert.equal(r.severity, undefined, 'columns use the default severity (error)');
+  assert.equal(r.lineNumber, 1);
+  assert.deepEqual(r.suggestedFix, {
+    range: { start: { line: 1, character: 6 }, end: { line: 1, character: 11 } },
+    newText: 'email',
+  });
+});
+
+test('catalog-reference: unknown table is a warning with a suggestion', () => {
+  const [r] = check('SELECT id FROM usres');
+  assert.equal(r.severity, 'warning');
+  assert.equal(r.errorMessage, "Table 'usres' is not in the database catalog. Did you mean 'users'?");
+  assert.equal(r.suggestedFix?.newText, 'users');
+});
+
+test('catalog-reference: unqualified columns are checked against every table in scope', () => {
+  assert.deepEqual(check('SELECT title, email FROM users u JOIN orgs o ON o.id = u.org_id'), []);
+  const [r] = check('SELECT zzz FROM users u JOIN orgs o ON o.id = u.org_id');
+  assert.equal(r.errorMessage, "Column 'zzz' does not exist on any of 'public.users', 'public.orgs'.");
+  assert.equal(r.suggestedFix, undefined);
+});
+
+test('catalog-reference: columns of unknown sources are not guessed at', () => {
+  // Unknown table: reported once; its columns are not.
+  assert.equal(check('SELECT x.a, b FROM elsewhere x').length, 1);
+  // CTE and select-list aliases.
+  assert.deepEqual(check('WITH c AS (SELECT id FROM users) SELECT c.whatever, other FROM c'), []);
+  assert.deepEqual(check('SELECT email AS contact FROM users ORDER BY contact'), []);
+});
+
+test('catalog-reference: INSERT and UPDATE target columns', () => {
+  const [insert] = check("INSERT INTO users (id, emali) VALUES (?<id>, 'x')");
+  assert.match(insert.errorMessage ?? '', /Column 'emali'.*Did you mean 'email'/);
+  const [update] = check('UPDATE users SET nmae = ?<name> WHERE id = ?<id>');
+  assert.match(update.errorMessage ?? '', /Column 'nmae'.*Did you mean 'name'/);
+});
+
+test('catalog-reference: no catalog, empty catalog or unparsable SQL -> nothing', () => {
+  assert.deepEqual(check('SELECT nope FROM users', {}), []);
+  assert.deepEqual(check('SELECT nope FROM users', { catalog: { tables: [] } }), []);
+  assert.deepEqual(check('SELECT nope FROM users WHERE ('), []);
+});
@@ -0,0 +1,149 @@
+import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
+import { RuleContext } from '../context';
+import { CatalogTable, findColumn, findTable, qualifiedName } from '../../catalog/catalog';
+import { collectQueryReferences, TableReference } from '../../catalog/queryReferences';
+import { closestMatch } from '../../utils/stringUtils';
+
+/**
+ * Validates every table and column in the query against the configured
+ * database catalog. Skips when there is no catalog or the query didn't parse.
+ *
+ * - A table the catalog doesn't know is a warning: catalogs are often
+ *   partial (one schema, or DDL for some tables only).
+ * - A column missing from a table the catalog does know is an error. An
+ *   unqualified column is only checked when every table it could come from
+ *   is in the catalog and none of them has it.
+ *
+ * Near misses get a "did you mean" and a quick fix.
+ */
+export const catalogReferenceRule: ValidationRule = {
+  name: 'catalog-reference',
+  description: 'Validate that tables and columns exist in the database catalog',
+  code: 'BSQL025',
+  category: 'reference',
+  defaultSeverity: 'error',
+  docsUrl: ruleDocsUrl('BSQL025'),
+  validate: (_sql: string, originalQuery: string, ctx?: RuleContext): ValidationResult[] => {
+    const results: ValidationResult[] = [];
+    const catalog = ctx?.catalog;
+    const ast = ctx?.query?.ast;
+    if (!catalog || catalog.tables.length === 0 || !ast) return results;
+
+    const refs = collectQueryReferences(ast);
+    const reported = new Set<string>();
+
+    for (const ref of refs.tables) {
+      const name = qualifiedName(ref);
+      if (findTable(catalog, ref.name, ref.schema) || reported.has(name.toLowerCase())) continue;
+      reported.add(name.toLowerCase());
+      const suggestion = closestMatch(ref.name, catalog.tables
+        .filter(t => !ref.schema || !t.schema || t.schema.toLowerCase() === ref.schema.toLowerCase())
+        .map(t => t.name));
+      const at = locate(originalQuery, tablePattern(ref));
+      results.push({
+        isValid: false,
+        severity: 'warning',
+        errorMessage: `Table '${name}' is not in the database catalog.${didYouMean(suggestion)}`,
+        ...located(originalQuery, at, ref.name, suggestion),
+      });
+    }
+
+    for (const ref of refs.columns) {
+      if (!ref.exhaustive || ref.tables.length === 0) continue;
+      const tables = ref.tables.map(t => findTable(catalog, t.name, t.schema));
+      // Unknown tables were reported above; their columns can't be checked.
+      if (tables.some(t => !t)) continue;
+      const known = tables as CatalogTable[];
+      if (known.some(t => findColumn(t, ref.column))) continue;
+
+      const key = `${ref.qualifier ?? ''}.${ref.column}`.toLowerCase();
+      if (reported.has(key)) continue;
+      reported.add(key);
+
+      const suggestion = closestMatch(ref.column, known.flatMap(t => t.columns.map(c => c.name)));
+      const where = known.length === 1
+        ? `table ${describe(known[0], ref.tables[0])}`
+        : `any of ${[...new Set(known.map(t => `'${qualifiedName(t)}'`))].join(', ')}`;
+      const at = locate(originalQuery, columnPattern(ref.column, ref.qualifier));
+      results.push({
+        isValid: false,
+        errorMessage: `Column '${ref.column}' does not exist on ${where}.${didYouMean(suggestion)}`,
+        ...located(originalQuery, at, ref.column, suggestion),
+      });
+    }
+
+    return results;
+  },
+};
+
+function didYouMean(suggestion: string | undefined): string {
+  return suggestion ? ` Did you mean '${suggestion}'?` : '';
+}
+
+/** `'users'`, or `'users' (alias 'usr')`. */
+function describe(table: CatalogTable, ref: TableReference): string {
+  const name = `'${qualifiedName(table)}'`;
+  return ref.alias ? `${name} (alias '${ref.alias}')` : name;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Optional identifier quotes (`"x"`, `` `x` ``, `[x]`) around a name.
+const OPEN = '["`\\[]?';
+const CLOSE = '["`\\]]?';
+
+/** `[schema.]name` right after a keyword that introduces a table. Ends on the name. */
+function tablePattern(ref: TableReference): string {
+  const schema = ref.schema ? `${OPEN}${escapeRegExp(ref.schema)}${CLOSE}\\s*\\.\\s*` : '';
+  return `\\b(?:from|join|into|update|table)\\s+${schema}${OPEN}${escapeRegExp(ref.name)}(?![\\w$])`;
+}
+
+/** `qualifier.column`, or a bare `column` not preceded by a dot. Ends on the column. */
+function columnPattern(column: string, qualifier?: string): string {
+  const prefix = qualifier
+    ? `(?<![\\w$.])${OPEN}${escapeRegExp(qualifier)}${CLOSE}\\s*\\.\\s*`
+    : '(?<![\\w$.])';
+  return `${prefix}${OPEN}${escapeRegExp(column)}(?![\\w$])`;
+}
+
+/**
+ * Offset in `sql` where the name matched by `pattern` ends, or undefined.
+ * Patterns are built so the name is the last thing they match.
+ */
+function locate(sql: string, pattern: string): number | undefined {
+  // eslint-disable-next-line security/detect-non-literal-regexp -- built from escaped identifiers
+  const match = new RegExp(pattern, 'i').exec(sql);
+  return match ? match.index + match[0].length : undefined;
+}
+
+/**
+ * SQL-relative lineNumber for the name ending at `end`, plus a quick fix
+ * replacing it when there is a suggestion.
+ */
+function located(
+  sql: string,
+  end: number | undefined,
+  name: string,
+  suggestion: string | undefined,
+): Pick<ValidationResult, 'lineNumber' | 'suggestedFix' | 'replaceText'> {
+  if (end === undefined) return {};
+  const start = end - name.length;
+  const before = sql.slice(0, start);
+  const line = before.split('\n').length - 1;
+  const character = start - (before.lastIndexOf('\n') + 1);
+  if (!suggestion) return { lineNumber: line };
+  return {
+    lineNumber: line,
+    replaceText: sql.slice(start, end),
+    suggestedFix: {
+      range: {
+        start: { line, character },
+        end: { line, character: character + name.length },
+      },
+      newText: suggestion,
+    },
+  };
+}
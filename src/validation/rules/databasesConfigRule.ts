@@ -1,5 +1,7 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { RuleContext } from '../context';
+import { lineAt } from '../document';
 
 /**
  * Validates connect.databases (per-database iteration config): exactly one of
@@ -10,8 +12,12 @@ import { RuleContext } from '../context';
 export const databasesConfigRule: ValidationRule = {
   name: 'databases-config',
   description: 'Validate connect.databases has exactly one of static or discovery_query',
+  code: 'BSQL017',
+  category: 'config',
+  defaultSeverity: 'error',
+  docsUrl: ruleDocsUrl('BSQL017'),
   scope: 'document',
-  validate: (_sql: string, yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
+  validate: (_sql: string, _yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
     const results: ValidationResult[] = [];
     const databases = ctx?.document?.connect?.databases;
     if (!databases) return results;
@@ -25,21 +31,10 @@ export const databasesConfigRule: ValidationRule = {
         isValid: false,
         errorMessage:
           "connect.databases must specify exactly one of 'static' or 'discovery_query', not both.",
-        lineNumber: findDatabasesLineNumber(yamlContent),
+        lineNumber: ctx?.document ? lineAt(ctx.document, ['connect', 'databases'], 'key') : undefined,
       });
     }
 
     return results;
   },
 };
-
-function findDatabasesLineNumber(yamlContent: string): number | undefined {
-  const lines = yamlContent.split('\n');
-  for (let i = 0; i < lines.length; i++) {
-    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
-    if (/^\s*databases:\s*$/.test(lines[i])) {
-      return i;
-    }
-  }
-  return undefined;
-}
@@ -1,4 +1,5 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { getParser } from '../../utils/sqlUtils';
 import { findLineWithPattern } from '../../utils/stringUtils';
 
@@ -11,6 +12,10 @@ function findPositionInOriginalQuery(originalQuery: string, sql: string, sqlPosi
 export const duplicateAliasesRule: ValidationRule = {
   name: "duplicate-aliases",
   description: "Check for duplicate table aliases",
+  code: "BSQL008",
+  category: "syntax",
+  defaultSeverity: "error",
+  docsUrl: ruleDocsUrl("BSQL008"),
   validate: (sql: string, originalQuery: string): ValidationResult => {
     try {
       const parser = getParser();
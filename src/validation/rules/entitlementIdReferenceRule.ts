@@ -1,5 +1,7 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { RuleContext } from '../context';
+import { lineAt } from '../document';
 import { looksLikeLiteralReference, areWordsSimilar, levenshteinDistance } from '../../utils/stringUtils';
 
 /**
@@ -13,16 +15,19 @@ import { looksLikeLiteralReference, areWordsSimilar, levenshteinDistance } from
  *    output, so flagging would produce too many false positives.
  *
  * Spec deviation: the spec (line 270) calls for a "softer 'not verifiable' hint"
- * on documents whose entitlements come from CEL expressions. ValidationResult
- * has no severity field yet (every diagnostic ships as an error), so PR6 takes
- * the safest conservative interpretation: skip entirely rather than over-report.
- * A future PR can add severity + promote this to an info/hint diagnostic.
+ * on documents whose entitlements come from CEL expressions. PR6 took the
+ * conservative interpretation (skip entirely rather than over-report), and we
+ * keep it: a per-result `severity: 'hint'` is now available if that changes.
  */
 export const entitlementIdReferenceRule: ValidationRule = {
   name: 'entitlement-id-reference',
   description: 'Validate grants[].map[].entitlement_id references a defined entitlement',
+  code: 'BSQL021',
+  category: 'reference',
+  defaultSeverity: 'error',
+  docsUrl: ruleDocsUrl('BSQL021'),
   scope: 'document',
-  validate: (_sql: string, yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
+  validate: (_sql: string, _yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
     const results: ValidationResult[] = [];
     const doc = ctx?.document;
     if (!doc) return results;
@@ -53,7 +58,7 @@ export const entitlementIdReferenceRule: ValidationRule = {
           results.push({
             isValid: false,
             errorMessage: message,
-            lineNumber: findEntitlementIdLine(yamlContent, value),
+            lineNumber: lineAt(doc, ['resource_types', rtId, 'grants', gi, 'map', mi, 'entitlement_id']),
           });
         }
       }
@@ -77,16 +82,3 @@ function findClosestMatch(value: string, candidates: Set<string>): string | unde
   }
   return best;
 }
-
-function findEntitlementIdLine(yamlContent: string, badValue: string): number | undefined {
-  const lines = yamlContent.split('\n');
-  // eslint-disable-next-line security/detect-non-literal-regexp -- badValue is matched as a fixed escaped string
-  const pattern = new RegExp(`entitlement_id:\\s*['"]?${badValue.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}['"]?\\s*$`);
-  for (let i = 0; i < lines.length; i++) {
-    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
-    if (pattern.test(lines[i])) {
-      return i;
-    }
-  }
-  return undefined;
-}
@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { expressionSyntaxRule } from './expressionSyntaxRule';
+import { buildBatonDocument } from '../document';
+
+function run(yaml: string) {
+  const doc = buildBatonDocument(yaml);
+  const out = expressionSyntaxRule.validate('', yaml, { document: doc });
+  return Array.isArray(out) ? out : [out];
+}
+
+const CONNECTOR = `
+app_name: test
+connect:
+  dsn: postgres://x
+resource_types:
+  user:
+    name: User
+    list:
+      query: SELECT id, first_name, last_name, email FROM users
+      map:
+        id: ".id"
+        display_name: ".first_name + + .last_name"
+        description: Read-only access. See the docs
+        traits:
+          user:
+            status: enabled
+            emails:
+              - "lower(.email"
+  role:
+    name: Role
+    list:
+      query: SELECT id FROM roles
+      map:
+        id: ".id"
+    entitlements:
+      query: SELECT id, kind FROM role_kinds
+      map:
+        - id: ".id"
+          display_name: ".id"
+          skip_if: ".kind == 'x' &&"
+          exclusion_group:
+            id: tier
+            order: 'int(.id'
+            is_default: true
+    grants:
+      - query: SELECT user_id FROM members
+        map:
+          - principal_id: '.user_id)'
+            principal_type: user
+            entitlement_id: member
+`;
+
+test('expression-syntax: reports each broken expression at its character', () => {
+  const results = run(CONNECTOR);
+  const at = (r: { position?: number }) => {
+    const before = CONNECTOR.slice(0, r.position);
+    return `${before.split('\n').length - 1}:${r.position! - before.lastIndexOf('\n') - 1}`;
+  };
+  // Line and column of character `index` of `text` in the YAML.
+  const spot = (text: string, index: number) => {
+    const offset = CONNECTOR.indexOf(text);
+    const before = CONNECTOR.slice(0, offset);
+    return `${before.split('\n').length - 1}:${offset - before.lastIndexOf('\n') - 1 + index}`;
+  };
+  assert.deepEqual(results.map(r => [r.errorMessage, at(r)]), [
+    ["Expression syntax error: Expected an expression, found '+'.", spot('.first_name + + .last_name', 14)],
+    ["Expression syntax error: Missing ')' to close 'lower('.", spot('lower(.email', 5)],
+    ['Expression syntax error: Expected an expression at the end.', spot(".kind == 'x' &&", 15)],
+    ["Expression syntax error: Missing ')' to close 'int('.", spot('int(.id', 3)],
+    ["Expression syntax error: Unmatched ')'.", spot('.user_id)', 8)],
+  ]);
+});
+
+test('expression-syntax: valid expressions and literal text pass', () => {
+  const yaml = CONNECTOR
+    .replace('".first_name + + .last_name"', '".first_name + \\" \\" + .last_name"')
+    .replace('"lower(.email"', '"lower(.email)"')
+    .replace(`".kind == 'x' &&"`, `".kind == 'x' && .id != ''"`)
+    .replace("'int(.id'", "'uint(.id)'")
+    .replace("'.user_id)'", "'.user_id'");
+  assert.deepEqual(run(yaml), []);
+});
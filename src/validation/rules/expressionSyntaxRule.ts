@@ -0,0 +1,46 @@
+import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
+import { RuleContext } from '../context';
+import { lineAt, scalarOffsetAt } from '../document';
+import { isLiteralText, parseExpression } from '../../expressions/parser';
+import { expressionFields } from '../../expressions/fields';
+
+/**
+ * Reports syntax errors in mapping expressions — `id`, `display_name`,
+ * `description`, traits, `skip_if`, `principal_id`, `entitlement_id` and
+ * `exclusion_group.*` — at the offending character inside the YAML value.
+ * The connector only parses these at startup, so a typo like
+ * `.first_name + + .last_name` otherwise surfaces on the first sync.
+ *
+ * Mapping text that reads no column and doesn't parse (`Read-only access`)
+ * is taken as written by the connector, so it is not reported; `skip_if`
+ * and the `exclusion_group` flags must always parse.
+ */
+export const expressionSyntaxRule: ValidationRule = {
+  name: 'expression-syntax',
+  description: 'Check the syntax of map, trait, skip_if and exclusion_group expressions',
+  code: 'BSQL028',
+  category: 'syntax',
+  defaultSeverity: 'error',
+  docsUrl: ruleDocsUrl('BSQL028'),
+  scope: 'document',
+  validate: (_sql: string, _yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
+    const results: ValidationResult[] = [];
+    const doc = ctx?.document;
+    if (!doc) return results;
+
+    for (const field of expressionFields(doc)) {
+      if (typeof field.value !== 'string') continue;
+      const parsed = parseExpression(field.value);
+      if (!parsed.error || (field.literalAllowed && isLiteralText(field.value, parsed))) continue;
+      const position = scalarOffsetAt(doc, field.path, parsed.error.start);
+      results.push({
+        isValid: false,
+        errorMessage: `Expression syntax error: ${parsed.error.message}`,
+        position,
+        lineNumber: position === undefined ? lineAt(doc, field.path) : undefined,
+      });
+    }
+    return results;
+  },
+};
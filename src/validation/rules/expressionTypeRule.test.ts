@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { expressionTypeRule } from './expressionTypeRule';
+import { buildBatonDocument } from '../document';
+import { parseCatalog } from '../../catalog/catalog';
+
+const { catalog } = parseCatalog({
+  tables: {
+    users: {
+      columns: { id: 'integer', login: 'varchar(64)', email: 'text', mfa: 'boolean', created: 'timestamp' },
+    },
+    roles: { columns: { id: 'text', rank: 'numeric(4,1)', builtin: 'boolean' } },
+  },
+});
+
+function run(yaml: string, withCatalog = true) {
+  const doc = buildBatonDocument(yaml);
+  const out = expressionTypeRule.validate('', yaml, { document: doc, catalog: withCatalog ? catalog : undefined });
+  return Array.isArray(out) ? out : [out];
+}
+
+const CONNECTOR = `
+app_name: test
+connect:
+  scheme: postgres
+resource_types:
+  user:
+    name: User
+    list:
+      query: SELECT id, login, email, mfa, COUNT(*) AS n FROM users GROUP BY id
+      map:
+        id: ".id"
+        display_name: ".login + ' #' + .id"
+        traits:
+          user:
+            status: enabled
+            emails: ".email"
+            login_aliases:
+              - ".login"
+              - ".id"
+            mfa_enabled: ".mfa"
+            sso_enabled: "no"
+  role:
+    name: Role
+    list:
+      query: SELECT id FROM roles
+      map:
+        id: ".id"
+    entitlements:
+      query: SELECT id, rank, builtin, CAST(rank AS integer) AS tier FROM roles
+      map:
+        - id: ".id"
+          display_name: ".id"
+          skip_if: ".id"
+          exclusion_group:
+            id: tier
+            order: ".rank"
+            is_default: ".builtin"
+        - id: "admin"
+          display_name: Admin
+          skip_if: "!.builtin"
+          exclusion_group:
+            id: tier
+            order: ".tier"
+            is_scope_to_resource: 1
+    static_entitlements:
+      - id: owner
+        display_name: Owner
+        exclusion_group:
+          id: tier
+          order: -1
+`;
+
+test('expression-type: reports misused operators and fields of the wrong type', () => {
+  const results = run(CONNECTOR);
+  const at = (r: { position?: number }) => {
+    const before = CONNECTOR.slice(0, r.position);
+    return `${before.split('\n').length - 1}:${r.position! - before.lastIndexOf('\n') - 1}`;
+  };
+  // Line and column of character `index` of `text` in the YAML.
+  const spot = (text: string, index = 0) => {
+    const offset = CONNECTOR.indexOf(text);
+    const before = CONNECTOR.slice(0, offset);
+    return `${before.split('\n').length - 1}:${offset - before.lastIndexOf('\n') - 1 + index}`;
+  };
+  assert.deepEqual(results.map(r => [r.errorMessage, at(r)]), [
+    [
+      "Expression type error: '+' joins two strings, two numbers or two lists; got string and int. Use string() to convert.",
+      spot(".login + ' #' + .id", 14),
+    ],
+    ['emails must be a list, but this expression is a string.', spot('".email"', 1)],
+    ['login_aliases[1] must be a string, but this expression is an int.', spot('- ".id"', 3)],
+    ['sso_enabled must be a bool, but this expression is a string.', spot('"no"', 1)],
+    ['skip_if must be a bool, but this expression is a string.', spot('skip_if: ".id"', 10)],
+    ['order must be a uint32, but this expression is a double.', spot('order: ".rank"', 8)],
+    ['is_scope_to_resource must be a bool, but this expression is an int.', spot('is_scope_to_resource: 1', 22)],
+    ['order must be a uint32; -1 is out of range.', spot('order: -1', 7)],
+  ]);
+});
+
+test('expression-type: without a catalog only literals and functions are typed', () => {
+  const results = run(CONNECTOR, false).map(r => r.errorMessage);
+  assert.deepEqual(results, [
+    'sso_enabled must be a bool, but this expression is a string.',
+    'is_scope_to_resource must be a bool, but this expression is an int.',
+    'order must be a uint32; -1 is out of range.',
+  ]);
+});
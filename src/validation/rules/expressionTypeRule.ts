@@ -0,0 +1,187 @@
+import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
+import { RuleContext } from '../context';
+import { lineAt, scalarOffsetAt } from '../document';
+import { ParsedQuery, parseWithNamedParams } from '../parsedQuery';
+import { extractSelectColumns } from '../../utils/sqlUtils';
+import { Catalog, findColumn, findTable } from '../../catalog/catalog';
+import { collectQueryReferences, ColumnReference } from '../../catalog/queryReferences';
+import { typeClassOf } from '../../catalog/typeClass';
+import { isLiteralText, parseExpression } from '../../expressions/parser';
+import { assignable, checkTypes, ColumnTypes, describeType, ExprType } from '../../expressions/checker';
+import { expressionFields, ExpressionField, fieldQuery } from '../../expressions/fields';
+
+const INTEGER = /^(?:(?:tiny|small|medium|big)?int\d?|integer|(?:small|big)?serial\d?)\b/i;
+
+/**
+ * Type-checks mapping expressions without running them. Flags operators
+ * and functions applied to the wrong types (`.age + "y"`, `lower(.id)`)
+ * and expressions whose type doesn't fit their field: `skip_if` and the
+ * `exclusion_group` flags must be booleans, `exclusion_group.order` a
+ * uint32, and the user traits `emails`, `login_aliases` and `employee_ids`
+ * lists of strings, `mfa_enabled` and `sso_enabled` booleans.
+ *
+ * Column types come from the database catalog, traced through the query's
+ * select list; without a catalog, columns are untyped and only literals
+ * and function results are checked. Syntax errors are left to
+ * `expression-syntax`.
+ */
+export const expressionTypeRule: ValidationRule = {
+  name: 'expression-type',
+  description: 'Check the types of map, trait, skip_if and exclusion_group expressions',
+  code: 'BSQL029',
+  category: 'reference',
+  defaultSeverity: 'warning',
+  docsUrl: ruleDocsUrl('BSQL029'),
+  scope: 'document',
+  validate: (_sql: string, _yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
+    const results: ValidationResult[] = [];
+    const doc = ctx?.document;
+    if (!doc) return results;
+
+    const rows = new Map<ParsedQuery, ColumnTypes | undefined>();
+    const columnsFor = (field: ExpressionField): ColumnTypes | undefined => {
+      const query = fieldQuery(doc, field.path);
+      if (!query || !ctx?.catalog || ctx.catalog.tables.length === 0) return undefined;
+      if (!rows.has(query)) rows.set(query, rowTypes(query, ctx.catalog));
+      return rows.get(query);
+    };
+    const report = (field: ExpressionField, message: string, offset: number) => {
+      const position = scalarOffsetAt(doc, field.path, offset);
+      results.push({
+        isValid: false,
+        errorMessage: message,
+        position,
+        lineNumber: position === undefined ? lineAt(doc, field.path) : undefined,
+      });
+    };
+
+    for (const field of expressionFields(doc)) {
+      if (typeof field.value !== 'string') {
+        const type = scalarType(field.value);
+        if (field.target && type && !assignable(type, field.target)) {
+          report(field, mismatch(field, type), 0);
+        } else if (field.target === 'uint' && typeof field.value === 'number' && !isUint32(field.value)) {
+          report(field, outOfRange(field, String(field.value)), 0);
+        }
+        continue;
+      }
+      const parsed = parseExpression(field.value);
+      if (field.literalAllowed && isLiteralText(field.value, parsed)) {
+        if (field.target && !assignable('string', field.target)) report(field, mismatch(field, 'string'), 0);
+        continue;
+      }
+      if (parsed.error) continue;
+
+      const { type, errors } = checkTypes(parsed.expr, columnsFor(field));
+      for (const error of errors) report(field, `Expression type error: ${error.message}`, error.start);
+      if (field.target && !assignable(type, field.target)) {
+        report(field, mismatch(field, type), parsed.expr.start);
+      } else if (field.target === 'uint' && parsed.expr.kind === 'literal' && typeof parsed.expr.value === 'number') {
+        if (!isUint32(parsed.expr.value)) report(field, outOfRange(field, parsed.expr.raw), parsed.expr.start);
+      }
+    }
+    return results;
+  },
+};
+
+function mismatch(field: ExpressionField, type: ExprType): string {
+  const target = field.target === 'uint' ? 'a uint32' : describeType(field.target ?? 'dyn');
+  return `${label(field)} must be ${target}, but this expression is ${describeType(type)}.`;
+}
+
+function outOfRange(field: ExpressionField, raw: string): string {
+  return `${label(field)} must be a uint32; ${raw} is out of range.`;
+}
+
+function isUint32(value: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value <= 0xffffffff;
+}
+
+/** `skip_if`, `order`, `emails[0]`. */
+function label(field: ExpressionField): string {
+  const last = field.path[field.path.length - 1];
+  return typeof last === 'number' ? `${String(field.path[field.path.length - 2])}[${last}]` : last;
+}
+
+/** The type of a plain YAML value: `true`, `3`. */
+function scalarType(value: unknown): ExprType | undefined {
+  if (typeof value === 'boolean') return 'bool';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'double';
+  return undefined;
+}
+
+/** The types of `query`'s output columns that can be worked out from the catalog. */
+function rowTypes(query: ParsedQuery, catalog: Catalog): ColumnTypes | undefined {
+  const ast = parseWithNamedParams(query);
+  if (!ast) return undefined;
+  const { exprs } = extractSelectColumns(ast);
+
+  const refsByNode = new Map<unknown, ColumnReference>();
+  for (const ref of collectQueryReferences(ast).columns) {
+    if (ref.node) refsByNode.set(ref.node, ref);
+  }
+  const types = new Map<string, ExprType>();
+  for (const [name, node] of exprs) {
+    const type = selectType(node, refsByNode, catalog, query.dialect);
+    if (type) types.set(name.toLowerCase(), type);
+  }
+  return name => types.get(name.toLowerCase());
+}
+
+/** The type of a select-list expression: a catalog column, a CAST or a COUNT. */
+function selectType(
+  value: unknown,
+  refsByNode: Map<unknown, ColumnReference>,
+  catalog: Catalog,
+  dialect?: string,
+): ExprType | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const node = value as { type?: unknown; target?: unknown; name?: unknown };
+  switch (node.type) {
+    case 'column_ref': {
+      const ref = refsByNode.get(node);
+      return ref && columnType(declaredType(ref, catalog), dialect);
+    }
+    case 'cast': {
+      const target = (Array.isArray(node.target) ? node.target[0] : node.target) as { dataType?: unknown } | undefined;
+      return columnType(typeof target?.dataType === 'string' ? target.dataType : undefined, dialect);
+    }
+    case 'aggr_func':
+      return String(node.name).toUpperCase() === 'COUNT' ? 'int' : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/** The declared type of the catalog column a reference resolves to; undefined when unknown or ambiguous. */
+function declaredType(ref: ColumnReference, catalog: Catalog): string | undefined {
+  const found: (string | undefined)[] = [];
+  for (const t of ref.tables) {
+    const table = findTable(catalog, t.name, t.schema);
+    const column = table && findColumn(table, ref.column);
+    if (column) found.push(column.type);
+  }
+  return found.length === 1 ? found[0] : undefined;
+}
+
+/**
+ * The expression type of a column with declared type `declared`. Outside
+ * Postgres, booleans come back as 0 and 1, so boolean columns (and MySQL's
+ * `tinyint(1)`) are left untyped; so are dates, JSON and binary columns,
+ * whose representation depends on the driver.
+ */
+function columnType(declared: string | undefined, dialect?: string): ExprType | undefined {
+  switch (typeClassOf(declared)) {
+    case 'boolean':
+      return dialect === 'postgresql' ? 'bool' : undefined;
+    case 'numeric':
+      if (/^tinyint\s*\(\s*1\s*\)/i.test(declared ?? '')) return undefined;
+      return INTEGER.test(declared ?? '') ? 'int' : 'double';
+    case 'text':
+    case 'uuid':
+      return 'string';
+    default:
+      return undefined;
+  }
+}
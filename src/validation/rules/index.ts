@@ -22,6 +22,11 @@ export { principalTypeReferenceRule } from './principalTypeReferenceRule';
 export { entitlementIdReferenceRule } from './entitlementIdReferenceRule';
 export { traitColumnReferenceRule } from './traitColumnReferenceRule';
 export { staticEntitlementIdUniquenessRule } from './staticEntitlementIdUniquenessRule';
+export { catalogReferenceRule } from './catalogReferenceRule';
+export { typeMismatchRule } from './typeMismatchRule';
+export { nullableIdMappingRule } from './nullableIdMappingRule';
+export { expressionSyntaxRule } from './expressionSyntaxRule';
+export { expressionTypeRule } from './expressionTypeRule';
 
 import { ValidationRule } from '../types';
 import { missingCommaRule } from './missingCommaRule';
@@ -47,6 +52,11 @@ import { principalTypeReferenceRule } from './principalTypeReferenceRule';
 import { entitlementIdReferenceRule } from './entitlementIdReferenceRule';
 import { traitColumnReferenceRule } from './traitColumnReferenceRule';
 import { staticEntitlementIdUniquenessRule } from './staticEntitlementIdUniquenessRule';
+import { catalogReferenceRule } from './catalogReferenceRule';
+import { typeMismatchRule } from './typeMismatchRule';
+import { nullableIdMappingRule } from './nullableIdMappingRule';
+import { expressionSyntaxRule } from './expressionSyntaxRule';
+import { expressionTypeRule } from './expressionTypeRule';
 
 // Array of all validation rules for easy consumption.
 // Note: the connector's AccountCredentials struct allows multiple credential
@@ -76,4 +86,9 @@ export const allValidationRules: ValidationRule[] = [
   entitlementIdReferenceRule,
   traitColumnReferenceRule,
   staticEntitlementIdUniquenessRule,
+  catalogReferenceRule,
+  typeMismatchRule,
+  nullableIdMappingRule,
+  expressionSyntaxRule,
+  expressionTypeRule,
 ];
\ No newline at end of file
@@ -1,10 +1,15 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { getParser, hasAggregateFunction, hasGroupBy } from '../../utils/sqlUtils';
 import { findLineWithPattern } from '../../utils/stringUtils';
 
 export const invalidGroupByRule: ValidationRule = {
   name: "invalid-group-by",
   description: "Check for aggregate functions without GROUP BY",
+  code: "BSQL006",
+  category: "syntax",
+  defaultSeverity: "error",
+  docsUrl: ruleDocsUrl("BSQL006"),
   validate: (sql: string, originalQuery: string): ValidationResult => {
     try {
       const parser = getParser();
@@ -1,10 +1,15 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { getParser } from '../../utils/sqlUtils';
 import { findLineWithPattern } from '../../utils/stringUtils';
 
 export const invalidJoinRule: ValidationRule = {
   name: "invalid-join",
   description: "Check for invalid JOIN syntax",
+  code: "BSQL004",
+  category: "syntax",
+  defaultSeverity: "error",
+  docsUrl: ruleDocsUrl("BSQL004"),
   validate: (sql: string, originalQuery: string): ValidationResult => {
     try {
       const parser = getParser();
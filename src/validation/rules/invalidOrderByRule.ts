@@ -1,8 +1,13 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 
 export const invalidOrderByRule: ValidationRule = {
   name: "invalid-order-by",
   description: "Check for invalid ORDER BY references",
+  code: "BSQL007",
+  category: "style",
+  defaultSeverity: "warning",
+  docsUrl: ruleDocsUrl("BSQL007"),
   validate: (sql: string, originalQuery: string): ValidationResult => {
     const orderByMatch = sql.match(/\border\s+by\s+(\d+)\b/i);
     if (orderByMatch) {
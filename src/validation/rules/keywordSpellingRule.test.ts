@@ -34,3 +34,13 @@ test('keyword-spelling: YAML-key-only lines like "group:" are ignored', () => {
   const sql = ['group:', '  list:', '    query: SELECT id FROM groups'].join('\n');
   assert.equal(v(sql).isValid, true);
 });
+
+test('keyword-spelling: fix range columns are relative to the untrimmed line', () => {
+  const sql = ['SELECT id', '  FORM users'].join('\n');
+  const r = v(sql);
+  assert.equal(r.isValid, false);
+  assert.deepEqual(r.suggestedFix?.range, {
+    start: { line: 1, character: 2 },
+    end: { line: 1, character: 6 },
+  });
+});
@@ -1,4 +1,5 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { areWordsSimilar, levenshteinDistance } from '../../utils/stringUtils';
 
 // Find the most similar word from a list
@@ -20,6 +21,11 @@ function findMostSimilarWord(word: string, possibleWords: string[]): string {
 export const keywordSpellingRule: ValidationRule = {
   name: "keyword-spelling",
   description: "Check for misspelled SQL keywords",
+  code: "BSQL009",
+  category: "syntax",
+  defaultSeverity: "error",
+  docsUrl: ruleDocsUrl("BSQL009"),
+  autofix: true,
   validate: (sql: string, originalQuery: string): ValidationResult => {
     // List of common SQL keywords that must be spelled correctly
     const sqlKeywords = [
@@ -140,8 +146,12 @@ export const keywordSpellingRule: ValidationRule = {
 
     // Check each line for typoed keywords
     for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
+      // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+      const raw = lines[i];
+      const line = raw.trim();
       if (!line) continue;
+      // Fix ranges are relative to the untrimmed SQL line.
+      const indent = raw.length - raw.trimStart().length;
 
       // Skip YAML keys (lines that are just "word:" with no SQL content after)
       // This prevents false positives on resource type names like "group:", "user:", etc.
@@ -160,7 +170,7 @@ export const keywordSpellingRule: ValidationRule = {
         if (match) {
           // Find the position of the typo in the original line (case-insensitive)
           const originalMatch = line.match(new RegExp(`\\b${typo}\\b`, "i"));
-          const startChar = originalMatch ? originalMatch.index! : 0;
+          const startChar = indent + (originalMatch ? originalMatch.index! : 0);
           const endChar = startChar + (originalMatch ? originalMatch[0].length : typo.length);
 
           return {
@@ -217,7 +227,7 @@ export const keywordSpellingRule: ValidationRule = {
 
         // Find the position of the first word in the line
         const wordMatch = line.match(new RegExp(`\\b${firstWord}\\b`, "i"));
-        const startChar = wordMatch ? wordMatch.index! : 0;
+        const startChar = indent + (wordMatch ? wordMatch.index! : 0);
         const endChar = startChar + firstWord.length;
 
         return {
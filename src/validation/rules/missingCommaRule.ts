@@ -1,4 +1,5 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { areWordsSimilar } from '../../utils/stringUtils';
 
 function findNextNonEmptyLine(lines: string[], startIndex: number): string | null {
@@ -96,6 +97,11 @@ function checkParenthesizedList(lines: string[], startIndex: number): Validation
 export const missingCommaRule: ValidationRule = {
   name: "missing-comma",
   description: "Check for missing commas in column lists, VALUES, and SET clauses",
+  code: "BSQL001",
+  category: "syntax",
+  defaultSeverity: "error",
+  docsUrl: ruleDocsUrl("BSQL001"),
+  autofix: true,
   validate: (sql: string, originalQuery: string): ValidationResult => {
     const lines = originalQuery.split("\n");
 
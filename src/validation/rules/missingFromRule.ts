@@ -1,4 +1,5 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { getParser } from '../../utils/sqlUtils';
 import { findLineWithPattern } from '../../utils/stringUtils';
 
@@ -46,6 +47,10 @@ function isValidSelectWithoutFrom(selectContent: string): boolean {
 export const missingFromRule: ValidationRule = {
   name: "missing-from",
   description: "Check for missing FROM clause in SELECT statements",
+  code: "BSQL002",
+  category: "syntax",
+  defaultSeverity: "error",
+  docsUrl: ruleDocsUrl("BSQL002"),
   validate: (sql: string, originalQuery: string): ValidationResult => {
     try {
       const parser = getParser();
@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { nullableIdMappingRule } from './nullableIdMappingRule';
+import { buildBatonDocument } from '../document';
+import { parseCatalog } from '../../catalog/catalog';
+
+const { catalog } = parseCatalog({
+  tables: {
+    users: {
+      primaryKey: ['id'],
+      columns: {
+        id: { type: 'integer', nullable: true },
+        manager_id: { type: 'integer', nullable: true },
+        login: { type: 'text', nullable: false },
+      },
+    },
+    roles: { columns: { id: { type: 'text', nullable: true }, name: 'text' } },
+    orgs: { primaryKey: ['id'], columns: { id: { type: 'integer', nullable: false } } },
+    memberships: {
+      columns: { user_id: { type: 'integer', nullable: true }, role_id: { type: 'text', nullable: false } },
+    },
+  },
+});
+
+function run(yaml: string) {
+  const doc = buildBatonDocument(yaml);
+  const out = nullableIdMappingRule.validate('', yaml, { document: doc, catalog });
+  return Array.isArray(out) ? out : [out];
+}
+
+const BASE = `
+app_name: test
+connect:
+  dsn: postgres://x
+`;
+
+const userList = (query: string, id = '.id') => BASE + `
+resource_types:
+  user:
+    name: User
+    list:
+      query: "${query}"
+      map:
+        id: "${id}"
+        display_name: ".login"
+`;
+
+test('nullable-id-mapping: NOT NULL and primary key columns pass', () => {
+  assert.deepEqual(run(userList('SELECT id, login FROM users LIMIT ?<limit>')), []);
+  assert.deepEqual(run(userList('SELECT login FROM users', '.login')), []);
+});
+
+test('nullable-id-mapping: nullable column through an alias is reported on the id line', () => {
+  const yaml = userList('SELECT u.manager_id AS boss, u.login FROM users u', '.boss');
+  const [r] = run(yaml);
+  assert.equal(
+    r.errorMessage,
+    "resource_types.user.list.map.id reads '.boss', which comes from nullable column 'users.manager_id'. " +
+      "Rows where it is NULL have no id; add 'WHERE u.manager_id IS NOT NULL' to the query or wrap it in COALESCE.",
+  );
+  assert.equal(r.lineNumber, yaml.split('\n').findIndex(l => l.includes('id: ".boss"')));
+});
+
+test('nullable-id-mapping: IS NOT NULL, comparisons, inner joins and COALESCE count as handled', () => {
+  assert.deepEqual(run(userList('SELECT manager_id, login FROM users WHERE manager_id IS NOT NULL AND login <> ?<x>', '.manager_id')), []);
+  assert.deepEqual(run(userList('SELECT u.manager_id, u.login FROM users u JOIN users m ON m.id = u.manager_id', '.manager_id')), []);
+  assert.deepEqual(run(userList('SELECT COALESCE(manager_id, 0) AS manager_id, login FROM users', '.manager_id')), []);
+  // OR branches and LEFT JOINs don't filter.
+  assert.equal(run(userList('SELECT manager_id, login FROM users WHERE manager_id IS NOT NULL OR login = ?<x>', '.manager_id')).length, 1);
+  assert.equal(run(userList('SELECT u.manager_id, u.login FROM users u LEFT JOIN users m ON m.id = u.manager_id', '.manager_id')).length, 1);
+});
+
+test('nullable-id-mapping: columns from the nullable side of an outer join are nullable', () => {
+  const [r] = run(userList('SELECT o.id AS id, u.login FROM users u LEFT JOIN orgs o ON o.id = u.manager_id'));
+  assert.equal(
+    r.errorMessage,
+    "resource_types.user.list.map.id reads '.id', which comes from column 'orgs.id' on the nullable side of a LEFT JOIN. " +
+      "Rows where it is NULL have no id; add 'WHERE o.id IS NOT NULL' to the query or wrap it in COALESCE.",
+  );
+  assert.equal(run(userList('SELECT u.login AS id FROM users u RIGHT JOIN orgs o ON o.id = u.manager_id')).length, 1);
+  assert.equal(run(userList('SELECT o.id AS id FROM users u FULL OUTER JOIN orgs o ON o.id = u.manager_id')).length, 1);
+  // The preserved side keeps the catalog's nullability, and WHERE still filters.
+  assert.deepEqual(run(userList('SELECT u.login AS id FROM users u LEFT JOIN orgs o ON o.id = u.manager_id')), []);
+  assert.deepEqual(run(userList('SELECT o.id AS id FROM users u LEFT JOIN orgs o ON o.id = u.manager_id WHERE o.id IS NOT NULL')), []);
+});
+
+test('nullable-id-mapping: entitlement ids and grant principal ids', () => {
+  const yaml = BASE + `
+resource_types:
+  role:
+    name: Role
+    list:
+      query: "SELECT name FROM roles"
+      map:
+        id: ".name"
+        display_name: ".name"
+    entitlements:
+      query: "SELECT id, name FROM roles"
+      map:
+        - id: "member_\${.id}"
+          display_name: ".name"
+    grants:
+      - query: "SELECT m.user_id, m.role_id FROM memberships m"
+        map:
+          - principal_id: ".user_id"
+            principal_type: user
+            entitlement_id: ".role_id"
+`;
+  const results = run(yaml);
+  assert.deepEqual(results.map(r => r.errorMessage?.split(' reads ')[0]), [
+    'resource_types.role.entitlements.map[0].id',
+    'resource_types.role.grants[0].map[0].principal_id',
+  ]);
+});
+
+test('nullable-id-mapping: no catalog, unknown tables or unrecorded nullability -> nothing', () => {
+  const doc = buildBatonDocument(userList('SELECT manager_id FROM users', '.manager_id'));
+  assert.deepEqual(nullableIdMappingRule.validate('', '', { document: doc }), []);
+  assert.deepEqual(run(userList('SELECT manager_id FROM elsewhere', '.manager_id')), []);
+  assert.deepEqual(run(userList('SELECT name FROM roles', '.name')), []);
+});
@@ -0,0 +1,224 @@
+import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
+import { RuleContext } from '../context';
+import { BatonDocument, lineAt } from '../document';
+import { ParsedQuery, parseWithNamedParams } from '../parsedQuery';
+import { extractColumnRefs } from '../../utils/celUtils';
+import { asArray, extractSelectColumns } from '../../utils/sqlUtils';
+import { sequenceItems } from '../../utils/yamlUtils';
+import { Catalog, CatalogColumn, CatalogTable, findColumn, findTable, qualifiedName } from '../../catalog/catalog';
+import { collectQueryReferences, ColumnReference, identifierName, TableReference } from '../../catalog/queryReferences';
+
+/** Operators whose result is NULL, so the row is filtered out, when an operand is NULL. */
+const NULL_REJECTING = new Set([
+  '=', '!=', '<>', '<', '>', '<=', '>=', 'IN', 'NOT IN', 'LIKE', 'NOT LIKE', 'ILIKE', 'NOT ILIKE',
+  'BETWEEN', 'NOT BETWEEN',
+]);
+
+/** The fields of a node-sql-parser expression node the rule reads. */
+interface ExprNode {
+  type?: unknown;
+  operator?: unknown;
+  left?: unknown;
+  right?: unknown;
+}
+
+/** The fields of a FROM item the rule reads. */
+interface FromItem {
+  table?: unknown;
+  as?: unknown;
+  join?: unknown;
+  on?: unknown;
+}
+
+interface SourceColumn {
+  table: CatalogTable;
+  column: CatalogColumn;
+  /** The FROM item it is read through. */
+  from: TableReference;
+  /** As the query writes it: `u.manager_id`. */
+  label: string;
+}
+
+/** What the rule needs from one query, worked out once per query. */
+interface QueryShape {
+  /** Select-list expression behind each output name. */
+  exprs: Map<string, unknown>;
+  resolve: (node: unknown) => SourceColumn | undefined;
+  /** Columns the WHERE clause or an inner join's ON clause can't let through as NULL. */
+  filtered: SourceColumn[];
+  /** The outer join (`LEFT JOIN`, …) that NULL-extends a FROM item, keyed by alias or table name, lowercase. */
+  outer: Map<string, string>;
+}
+
+/**
+ * Warns when an identifier mapping — `list.map.id`, `entitlements.map[].id`
+ * or `grants[].map[].principal_id` — reads a column the catalog marks
+ * nullable. The connector drops or fails on rows whose id is null.
+ *
+ * Each `.column` in the expression is traced through the query's select
+ * list to the table column it comes from. Only plain column references are
+ * traced, so `COALESCE(...)` and other expressions pass. The query counts as
+ * filtering the column when its WHERE clause or an inner join's ON clause
+ * has `col IS NOT NULL` or a comparison of `col` at the top level (joined
+ * by AND). Columns whose nullability the catalog doesn't record, and
+ * primary key columns, are never reported. Any column read from the
+ * nullable side of a LEFT, RIGHT or FULL join is nullable, whatever the
+ * catalog says.
+ */
+export const nullableIdMappingRule: ValidationRule = {
+  name: 'nullable-id-mapping',
+  description: 'Warn when an id mapping reads a nullable catalog column the query does not filter',
+  code: 'BSQL027',
+  category: 'reference',
+  defaultSeverity: 'warning',
+  docsUrl: ruleDocsUrl('BSQL027'),
+  scope: 'document',
+  validate: (_sql: string, _yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
+    const results: ValidationResult[] = [];
+    const doc = ctx?.document;
+    const catalog = ctx?.catalog;
+    if (!doc || !catalog || catalog.tables.length === 0) return results;
+
+    const shapes = new Map<ParsedQuery, QueryShape | null>();
+    const check = (query: ParsedQuery | null | undefined, expr: unknown, path: (string | number)[]) => {
+      if (!query || typeof expr !== 'string') return;
+      if (!shapes.has(query)) shapes.set(query, queryShape(query, catalog));
+      const shape = shapes.get(query);
+      if (shape) checkExpression(expr, path, shape, doc, results);
+    };
+
+    for (const [rtId, rt] of doc.resourceTypes) {
+      const base = ['resource_types', rtId];
+      check(rt.list?.query, rt.list?.map?.id, [...base, 'list', 'map', 'id']);
+      sequenceItems<{ id?: unknown } | null>(rt.entitlements?.map).forEach((m, i) => {
+        check(rt.entitlements?.query, m?.id, [...base, 'entitlements', 'map', i, 'id']);
+      });
+      rt.grants.forEach((grant, i) => {
+        sequenceItems<{ principal_id?: unknown } | null>(grant.map).forEach((m, j) => {
+          check(grant.query, m?.principal_id, [...base, 'grants', i, 'map', j, 'principal_id']);
+        });
+      });
+    }
+
+    return results;
+  },
+};
+
+function checkExpression(
+  expr: string,
+  path: (string | number)[],
+  shape: QueryShape,
+  doc: BatonDocument,
+  results: ValidationResult[],
+): void {
+  for (const name of extractColumnRefs(expr)) {
+    const selected = shape.exprs.get(name);
+    if (!isColumnRef(selected)) continue;
+    const source = shape.resolve(selected);
+    if (!source) continue;
+    const join = shape.outer.get((source.from.alias ?? source.from.name).toLowerCase());
+    if (!join) {
+      if (source.column.nullable !== true) continue;
+      if (source.table.primaryKey?.some(c => c.toLowerCase() === source.column.name.toLowerCase())) continue;
+    }
+    if (shape.filtered.some(f => f.from === source.from && f.column === source.column)) continue;
+
+    const section = path.slice(2).join('.').replace(/\.(\d+)(?=\.|$)/g, '[$1]');
+    const column = `${qualifiedName(source.table)}.${source.column.name}`;
+    const origin = join ? `column '${column}' on the nullable side of a ${join}` : `nullable column '${column}'`;
+    results.push({
+      isValid: false,
+      errorMessage:
+        `resource_types.${path[1]}.${section} reads '.${name}', which comes from ${origin}. ` +
+        `Rows where it is NULL have no id; add 'WHERE ${source.label} IS NOT NULL' to the query or wrap it in COALESCE.`,
+      lineNumber: lineAt(doc, path),
+    });
+  }
+}
+
+/** Select list, column resolution and NULL filters of `query`; null when it doesn't parse. */
+function queryShape(query: ParsedQuery, catalog: Catalog): QueryShape | null {
+  const ast = parseWithNamedParams(query);
+  if (!ast) return null;
+  const { exprs } = extractSelectColumns(ast);
+
+  const refsByNode = new Map<unknown, ColumnReference>();
+  for (const ref of collectQueryReferences(ast).columns) {
+    if (ref.node) refsByNode.set(ref.node, ref);
+  }
+  const resolve = (node: unknown): SourceColumn | undefined => {
+    const ref = refsByNode.get(node);
+    return ref && sourceColumn(ref, catalog);
+  };
+
+  const filtered: SourceColumn[] = [];
+  const outer = new Map<string, string>();
+  for (const stmt of Array.isArray(ast) ? ast : [ast]) {
+    const select = stmt as { type?: unknown; where?: unknown; from?: unknown } | null;
+    if (select?.type !== 'select') continue;
+    const conditions = [select.where];
+    const from = asArray(select.from) as (FromItem | null)[];
+    from.forEach((item, i) => {
+      const join = typeof item?.join === 'string' ? item.join.toUpperCase() : undefined;
+      if (join === 'JOIN' || join === 'INNER JOIN') conditions.push(item?.on);
+      const kind = join?.split(/\s+/)[0];
+      if (kind !== 'LEFT' && kind !== 'RIGHT' && kind !== 'FULL') return;
+      // LEFT NULL-extends the joined item, RIGHT everything before it, FULL both.
+      const extended = kind === 'LEFT' ? [item] : kind === 'RIGHT' ? from.slice(0, i) : from.slice(0, i + 1);
+      for (const side of extended) {
+        const key = identifierName(side?.as) ?? identifierName(side?.table);
+        if (key && !outer.has(key.toLowerCase())) outer.set(key.toLowerCase(), `${kind} JOIN`);
+      }
+    });
+    for (const condition of conditions) {
+      for (const term of conjuncts(condition)) {
+        for (const operand of nullRejectedOperands(term)) {
+          const source = resolve(operand);
+          if (source) filtered.push(source);
+        }
+      }
+    }
+  }
+  return { exprs, resolve, filtered, outer };
+}
+
+/** The catalog column a reference resolves to; undefined when unknown or ambiguous. */
+function sourceColumn(ref: ColumnReference, catalog: Catalog): SourceColumn | undefined {
+  const found: SourceColumn[] = [];
+  for (const t of ref.tables) {
+    const table = findTable(catalog, t.name, t.schema);
+    const column = table && findColumn(table, ref.column);
+    if (table && column) found.push({ table, column, from: t, label: ref.qualifier ? `${ref.qualifier}.${ref.column}` : ref.column });
+  }
+  return found.length === 1 ? found[0] : undefined;
+}
+
+function exprNode(value: unknown): ExprNode | undefined {
+  return value && typeof value === 'object' ? (value as ExprNode) : undefined;
+}
+
+function isColumnRef(value: unknown): boolean {
+  return exprNode(value)?.type === 'column_ref';
+}
+
+/** Terms of a condition joined by top-level ANDs. */
+function conjuncts(expr: unknown): ExprNode[] {
+  const node = exprNode(expr);
+  if (!node) return [];
+  if (node.type === 'binary_expr' && String(node.operator).toUpperCase() === 'AND') {
+    return [...conjuncts(node.left), ...conjuncts(node.right)];
+  }
+  return [node];
+}
+
+/** Column operands of `term` that can't be NULL in rows the term lets through. */
+function nullRejectedOperands(term: ExprNode): unknown[] {
+  if (term.type !== 'binary_expr') return [];
+  const operator = String(term.operator).toUpperCase();
+  if (operator === 'IS NOT') {
+    return exprNode(term.right)?.type === 'null' && isColumnRef(term.left) ? [term.left] : [];
+  }
+  if (!NULL_REJECTING.has(operator)) return [];
+  return [term.left, term.right].filter(isColumnRef);
+}
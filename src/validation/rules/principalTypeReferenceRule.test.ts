@@ -161,3 +161,25 @@ resource_types:
   const results = run(yaml).filter(r => !r.isValid);
   assert.equal(results.length, 2);
 });
+
+test('principal-type-reference: repeated typo anchors each diagnostic on its own line', () => {
+  const yaml = `resource_types:
+  user:
+    name: User
+    description: u
+  group:
+    name: Group
+    description: g
+    grants:
+      - query: SELECT 1
+        map:
+          - principal_id: ".u1"
+            principal_type: useer
+      - query: SELECT 2
+        map:
+          - principal_id: ".u2"
+            principal_type: useer
+`;
+  const results = run(yaml).filter(r => !r.isValid);
+  assert.deepEqual(results.map(r => r.lineNumber), [11, 15]);
+});
@@ -1,5 +1,7 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { RuleContext } from '../context';
+import { lineAt } from '../document';
 import { looksLikeLiteralReference, areWordsSimilar, levenshteinDistance } from '../../utils/stringUtils';
 
 /**
@@ -10,8 +12,12 @@ import { looksLikeLiteralReference, areWordsSimilar, levenshteinDistance } from
 export const principalTypeReferenceRule: ValidationRule = {
   name: 'principal-type-reference',
   description: 'Validate grants[].map[].principal_type references a defined resource_type',
+  code: 'BSQL020',
+  category: 'reference',
+  defaultSeverity: 'error',
+  docsUrl: ruleDocsUrl('BSQL020'),
   scope: 'document',
-  validate: (_sql: string, yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
+  validate: (_sql: string, _yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
     const results: ValidationResult[] = [];
     const doc = ctx?.document;
     if (!doc) return results;
@@ -42,7 +48,7 @@ export const principalTypeReferenceRule: ValidationRule = {
           results.push({
             isValid: false,
             errorMessage: message,
-            lineNumber: findPrincipalTypeLine(yamlContent, value),
+            lineNumber: lineAt(doc, ['resource_types', rtId, 'grants', gi, 'map', mi, 'principal_type']),
           });
         }
       }
@@ -66,16 +72,3 @@ function findClosestMatch(value: string, candidates: Set<string>): string | unde
   }
   return best;
 }
-
-function findPrincipalTypeLine(yamlContent: string, badValue: string): number | undefined {
-  const lines = yamlContent.split('\n');
-  // eslint-disable-next-line security/detect-non-literal-regexp -- badValue is matched as a fixed escaped string
-  const pattern = new RegExp(`principal_type:\\s*['"]?${badValue.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}['"]?\\s*$`);
-  for (let i = 0; i < lines.length; i++) {
-    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
-    if (pattern.test(lines[i])) {
-      return i;
-    }
-  }
-  return undefined;
-}
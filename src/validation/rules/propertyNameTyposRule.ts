@@ -1,8 +1,13 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 
 export const propertyNameTyposRule: ValidationRule = {
   name: "property-name-typos",
   description: "Check for common property name typos",
+  code: "BSQL010",
+  category: "config",
+  defaultSeverity: "warning",
+  docsUrl: ruleDocsUrl("BSQL010"),
   validate: (sql: string, originalQuery: string): ValidationResult => {
     // Common property name typos and their corrections
     const propertyTypos: { [key: string]: string } = {
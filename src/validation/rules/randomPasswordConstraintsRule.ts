@@ -1,5 +1,7 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { RuleContext } from '../context';
+import { lineAt } from '../document';
 
 /**
  * Mirrors bsql/validate.go's validatePasswordConstraints. Walks each
@@ -9,8 +11,12 @@ import { RuleContext } from '../context';
 export const randomPasswordConstraintsRule: ValidationRule = {
   name: 'random-password-constraints',
   description: 'Validate account_provisioning.credentials.random_password.constraints',
+  code: 'BSQL016',
+  category: 'config',
+  defaultSeverity: 'error',
+  docsUrl: ruleDocsUrl('BSQL016'),
   scope: 'document',
-  validate: (_sql: string, yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
+  validate: (_sql: string, _yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
     const results: ValidationResult[] = [];
     const doc = ctx?.document;
     if (!doc) return results;
@@ -18,6 +24,12 @@ export const randomPasswordConstraintsRule: ValidationRule = {
     for (const [rtId, rt] of doc.resourceTypes) {
       const constraints = rt.accountProvisioning?.credentials?.random_password?.constraints;
       if (!Array.isArray(constraints)) continue;
+      const constraintsPath = [
+        'resource_types', rtId, 'account_provisioning', 'credentials', 'random_password', 'constraints',
+      ];
+      // Anchor on the offending key; when the key is missing entirely, on the constraint entry.
+      const constraintLine = (i: number, key: 'char_set' | 'min_count'): number | undefined =>
+        lineAt(doc, [...constraintsPath, i, key], 'key') ?? lineAt(doc, [...constraintsPath, i]);
 
       for (let i = 0; i < constraints.length; i++) {
         // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
@@ -31,7 +43,7 @@ export const randomPasswordConstraintsRule: ValidationRule = {
           results.push({
             isValid: false,
             errorMessage: `random password constraint[${i}] in resource_types.${rtId}: char_set must be non-empty.`,
-            lineNumber: findConstraintLineNumber(yamlContent, rtId, i, 'char_set'),
+            lineNumber: constraintLine(i, 'char_set'),
           });
         }
 
@@ -39,7 +51,7 @@ export const randomPasswordConstraintsRule: ValidationRule = {
           results.push({
             isValid: false,
             errorMessage: `random password constraint[${i}] in resource_types.${rtId}: min_count must be greater than zero.`,
-            lineNumber: findConstraintLineNumber(yamlContent, rtId, i, 'min_count'),
+            lineNumber: constraintLine(i, 'min_count'),
           });
         }
       }
@@ -48,63 +60,3 @@ export const randomPasswordConstraintsRule: ValidationRule = {
     return results;
   },
 };
-
-/**
- * Best-effort line anchor: walks yamlContent looking for the key (`char_set:`
- * or `min_count:`) under a constraints: block inside the named resource type's
- * random_password section. Returns undefined on failure so the server uses
- * its default range.
- */
-function findConstraintLineNumber(
-  yamlContent: string,
-  rtId: string,
-  constraintIndex: number,
-  key: 'char_set' | 'min_count'
-): number | undefined {
-  const lines = yamlContent.split('\n');
-  let inRt = false;
-  let inConstraints = false;
-  let dashCount = -1;
-
-  // Exact-match check for the resource type key line. Matches `<rtId>:` exactly
-  // or `<rtId>: <inline-value>` — not `<rtId-prefix>...:`.
-  const matchesRtKey = (trimmed: string): boolean => {
-    if (!trimmed.startsWith(rtId)) return false;
-    const after = trimmed.slice(rtId.length);
-    return after === ':' || after.startsWith(': ');
-  };
-
-  for (let i = 0; i < lines.length; i++) {
-    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
-    const line = lines[i];
-    const trimmed = line.trim();
-
-    if (matchesRtKey(trimmed)) {
-      inRt = true;
-      inConstraints = false;
-      dashCount = -1;
-      continue;
-    }
-    if (!inRt) continue;
-
-    if (trimmed === 'constraints:') {
-      inConstraints = true;
-      dashCount = -1;
-      continue;
-    }
-    if (!inConstraints) continue;
-
-    if (trimmed.startsWith('- ')) {
-      dashCount += 1;
-      if (dashCount === constraintIndex && trimmed.includes(`${key}:`)) {
-        return i;
-      }
-      continue;
-    }
-    if (dashCount === constraintIndex && trimmed.startsWith(`${key}:`)) {
-      return i;
-    }
-  }
-
-  return undefined;
-}
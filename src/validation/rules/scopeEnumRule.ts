@@ -1,5 +1,7 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { RuleContext } from '../context';
+import { lineAt } from '../document';
 import { areWordsSimilar } from '../../utils/stringUtils';
 
 const VALID_SCOPES = new Set(['', 'cluster']);
@@ -13,13 +15,17 @@ const VALID_SCOPES = new Set(['', 'cluster']);
 export const scopeEnumRule: ValidationRule = {
   name: 'scope-enum',
   description: "Validate scope: field is empty or 'cluster'",
+  code: "BSQL015",
+  category: "config",
+  defaultSeverity: "error",
+  docsUrl: ruleDocsUrl("BSQL015"),
   scope: 'document',
-  validate: (_sql: string, yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
+  validate: (_sql: string, _yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
     const results: ValidationResult[] = [];
     const doc = ctx?.document;
     if (!doc) return results;
 
-    const checkScope = (scope: string | undefined, label: string) => {
+    const checkScope = (scope: string | undefined, path: (string | number)[]) => {
       if (scope === undefined) return;
       if (VALID_SCOPES.has(scope)) return;
       const suggestion = areWordsSimilar(scope.toLowerCase(), 'cluster', 2)
@@ -27,42 +33,30 @@ export const scopeEnumRule: ValidationRule = {
         : `must be empty or 'cluster'.`;
       results.push({
         isValid: false,
-        errorMessage: `Invalid scope '${scope}' on ${label}: ${suggestion}`,
-        lineNumber: findScopeLineNumber(yamlContent, scope),
+        errorMessage: `Invalid scope '${scope}' on ${formatPath(path)}: ${suggestion}`,
+        lineNumber: lineAt(doc, path),
       });
     };
 
     for (const [rtId, rt] of doc.resourceTypes) {
       if (rt.list?.scope !== undefined) {
-        checkScope(rt.list.scope, `resource_types.${rtId}.list.scope`);
+        checkScope(rt.list.scope, ['resource_types', rtId, 'list', 'scope']);
       }
       if (rt.entitlements?.scope !== undefined) {
-        checkScope(rt.entitlements.scope, `resource_types.${rtId}.entitlements.scope`);
+        checkScope(rt.entitlements.scope, ['resource_types', rtId, 'entitlements', 'scope']);
       }
-      for (let i = 0; i < rt.grants.length; i++) {
-        if (rt.grants[i].scope !== undefined) {
-          checkScope(rt.grants[i].scope, `resource_types.${rtId}.grants[${i}].scope`);
+      rt.grants.forEach((grant, i) => {
+        if (grant.scope !== undefined) {
+          checkScope(grant.scope, ['resource_types', rtId, 'grants', i, 'scope']);
         }
-      }
+      });
     }
 
     return results;
   },
 };
 
-/**
- * Locate the line in yamlContent that contains `scope: <bad-value>`.
- * Returns undefined when not found; caller's diagnostic anchors to the
- * default range in that case.
- */
-function findScopeLineNumber(yamlContent: string, badValue: string): number | undefined {
-  const lines = yamlContent.split('\n');
-  // eslint-disable-next-line security/detect-non-literal-regexp -- badValue comes from typed BatonDocument, not user input through a vulnerable channel
-  const pattern = new RegExp(`scope:\\s*['"]?${badValue.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}['"]?\\s*$`);
-  for (let i = 0; i < lines.length; i++) {
-    if (pattern.test(lines[i])) {
-      return i;
-    }
-  }
-  return undefined;
+/** Render a yamlPath the way the diagnostics spell it: `a.b[0].c`. */
+function formatPath(path: (string | number)[]): string {
+  return path.map((seg, i) => (typeof seg === 'number' ? `[${seg}]` : i === 0 ? seg : `.${seg}`)).join('');
 }
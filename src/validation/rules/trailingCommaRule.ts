@@ -1,10 +1,15 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { getParser } from '../../utils/sqlUtils';
 import { findLineWithPattern } from '../../utils/stringUtils';
 
 export const trailingCommaRule: ValidationRule = {
   name: "trailing-comma",
   description: "Check for trailing commas after the last column in SELECT statements",
+  code: "BSQL012",
+  category: "syntax",
+  defaultSeverity: "error",
+  docsUrl: ruleDocsUrl("BSQL012"),
   validate: (sql: string, originalQuery: string): ValidationResult => {
     // Always use string-based analysis for trailing comma detection
     // This avoids duplicate error reporting and is more reliable for this specific case
@@ -1,5 +1,7 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { RuleContext } from '../context';
+import { BatonDocument, lineAt } from '../document';
 import { extractColumnRefs } from '../../utils/celUtils';
 import { extractSelectColumns } from '../../utils/sqlUtils';
 
@@ -12,12 +14,17 @@ import { extractSelectColumns } from '../../utils/sqlUtils';
  *
  * Walks traits recursively (handles UserTraitMapping.profile which is an
  * arbitrary nested object, plus array-valued fields like emails/login_aliases).
+ * Diagnostics anchor on the trait value's own YAML node.
  */
 export const traitColumnReferenceRule: ValidationRule = {
   name: 'trait-column-reference',
   description: 'Validate trait expressions reference columns the list.query selects',
+  code: 'BSQL022',
+  category: 'reference',
+  defaultSeverity: 'error',
+  docsUrl: ruleDocsUrl('BSQL022'),
   scope: 'document',
-  validate: (_sql: string, yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
+  validate: (_sql: string, _yamlContent: string, ctx?: RuleContext): ValidationResult[] => {
     const results: ValidationResult[] = [];
     const doc = ctx?.document;
     if (!doc) return results;
@@ -37,7 +44,7 @@ export const traitColumnReferenceRule: ValidationRule = {
       for (const role of Object.keys(traits)) {
         // eslint-disable-next-line security/detect-object-injection -- role is iterating own keys
         const roleMap = traits[role];
-        walkTraitValue(roleMap, [rtId, role], columns, yamlContent, results);
+        walkTraitValue(roleMap, [rtId, role], columns, doc, results);
       }
     }
 
@@ -47,14 +54,14 @@ export const traitColumnReferenceRule: ValidationRule = {
 
 /**
  * Recursively walks a trait value (which may be string, array, or nested object)
- * and flags column refs not present in `columns`. The `path` array is used only
- * for diagnostic messages.
+ * and flags column refs not present in `columns`. `path` is [rtId, role, ...]
+ * below list.map.traits; it drives both the message and the line anchor.
  */
 function walkTraitValue(
   value: unknown,
-  path: string[],
+  path: (string | number)[],
   columns: Set<string>,
-  yamlContent: string,
+  doc: BatonDocument,
   results: ValidationResult[],
 ): void {
   if (typeof value === 'string') {
@@ -64,7 +71,7 @@ function walkTraitValue(
       results.push({
         isValid: false,
         errorMessage: `Trait at resource_types.${path[0]}.list.map.traits.${path.slice(1).join('.')} references '.${ref}', but that column is not selected by list.query.`,
-        lineNumber: findReferenceLine(yamlContent, value),
+        lineNumber: lineAt(doc, ['resource_types', path[0], 'list', 'map', 'traits', ...path.slice(1)]),
       });
     }
     return;
@@ -72,31 +79,15 @@ function walkTraitValue(
   if (Array.isArray(value)) {
     for (let i = 0; i < value.length; i++) {
       // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
-      walkTraitValue(value[i], [...path, String(i)], columns, yamlContent, results);
+      walkTraitValue(value[i], [...path, i], columns, doc, results);
     }
     return;
   }
   if (value && typeof value === 'object') {
     for (const k of Object.keys(value as Record<string, unknown>)) {
       // eslint-disable-next-line security/detect-object-injection -- k is iterating own keys
-      walkTraitValue((value as Record<string, unknown>)[k], [...path, k], columns, yamlContent, results);
+      walkTraitValue((value as Record<string, unknown>)[k], [...path, k], columns, doc, results);
     }
     return;
   }
 }
-
-/**
- * Best-effort line anchor: find the line containing the trait expression value.
- * Falls back to undefined when not located.
- */
-function findReferenceLine(yamlContent: string, exprValue: string): number | undefined {
-  const lines = yamlContent.split('\n');
-  // Escape the expression for use as a fixed substring match.
-  const needle = exprValue.trim();
-  if (needle.length === 0) return undefined;
-  for (let i = 0; i < lines.length; i++) {
-    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
-    if (lines[i].includes(needle)) return i;
-  }
-  return undefined;
-}
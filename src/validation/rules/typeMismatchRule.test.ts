@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { typeMismatchRule } from './typeMismatchRule';
+import { parseQuery } from '../parsedQuery';
+import { buildBatonDocument } from '../document';
+import { parseCatalog } from '../../catalog/catalog';
+import { ValidationResult } from '../types';
+
+const { catalog } = parseCatalog({
+  schemas: {
+    public: {
+      users: {
+        columns: { id: 'integer', email: 'varchar(255)', is_admin: 'boolean', created_at: 'timestamptz', org_id: 'uuid' },
+      },
+      orgs: { columns: { id: 'uuid', title: 'varchar(255)', seats: 'int unsigned' } },
+    },
+  },
+});
+
+interface CheckOptions {
+  dialect?: string;
+  yamlPath?: string[];
+  varsScope?: Map<string, string>;
+}
+
+function check(rawSql: string, options: CheckOptions = {}): ValidationResult[] {
+  const query = parseQuery({
+    rawSql,
+    yamlPath: options.yamlPath ?? ['resource_types', 'user', 'list', 'query'],
+    startOffset: 0,
+    endOffset: rawSql.length,
+    varsScope: options.varsScope ?? new Map(),
+    dialect: options.dialect,
+  });
+  const out = typeMismatchRule.validate(query.normalizedSql, rawSql, {
+    query,
+    document: buildBatonDocument(''),
+    catalog,
+  });
+  return Array.isArray(out) ? out : [out];
+}
+
+const messages = (results: ValidationResult[]) => results.map(r => r.errorMessage);
+
+test('type-mismatch: literals that convert pass', () => {
+  const sql = [
+    'SELECT u.id FROM users u JOIN orgs o ON o.id = u.org_id',
+    "WHERE u.id = '42' AND u.is_admin = 't' AND u.created_at > '2024-01-01'",
+    "AND o.id = '0b8f1d4e-6a53-4f43-9a43-7e1e2b6f1c11' AND o.seats BETWEEN 1 AND 10",
+  ].join('\n');
+  assert.deepEqual(check(sql, { dialect: 'postgresql' }), []);
+});
+
+test('type-mismatch: literals of the wrong type are reported on their line', () => {
+  const results = check("SELECT u.id\nFROM users u\nWHERE u.id = 'abc' AND u.email IN ('a@b.c', 5)", { dialect: 'postgresql' });
+  assert.deepEqual(messages(results), [
+    "'abc' is not a number, but column 'u.id' is integer.",
+    "5 is a number, but column 'u.email' is varchar(255).",
+  ]);
+  assert.deepEqual(results.map(r => r.lineNumber), [2, 2]);
+});
+
+test('type-mismatch: booleans and numbers mix outside Postgres', () => {
+  assert.deepEqual(check('SELECT id FROM users WHERE is_admin = 1'), []);
+  assert.deepEqual(messages(check('SELECT id FROM users WHERE is_admin = 1', { dialect: 'postgresql' })), [
+    "1 is a number, but column 'is_admin' is boolean.",
+  ]);
+});
+
+test('type-mismatch: columns compared with columns of another class', () => {
+  assert.deepEqual(messages(check('SELECT u.id FROM users u JOIN orgs o ON o.id = u.id')), [
+    "Comparing uuid column 'o.id' with integer column 'u.id'.",
+  ]);
+});
+
+test('type-mismatch: action arguments are checked by their declared type', () => {
+  const actions = { yamlPath: ['actions', 'promote', 'query'], dialect: 'postgresql' };
+  const varsScope = new Map([['is_admin', 'boolean'], ['title', 'string'], ['seats', 'number']]);
+  const sql = 'UPDATE orgs SET title = ?<is_admin>, seats = ?<seats> WHERE title = ?<title>';
+  assert.deepEqual(messages(check(sql, { ...actions, varsScope })), [
+    "Action argument 'is_admin' is boolean, but column 'title' is varchar(255).",
+  ]);
+  // Outside actions, `?<name>` is a var whose type the validator doesn't know.
+  assert.deepEqual(check(sql, { dialect: 'postgresql', varsScope }), []);
+});
+
+test('type-mismatch: INSERT values line up with their target columns', () => {
+  const varsScope = new Map([['admin', 'boolean']]);
+  const results = check("INSERT INTO users (id, email, is_admin) VALUES ('x', 'a@b.c', ?<admin>)", {
+    yamlPath: ['actions', 'create', 'query'],
+    varsScope,
+  });
+  assert.deepEqual(messages(results), ["'x' is not a number, but column 'id' is integer."]);
+});
+
+test('type-mismatch: unknown columns, unknown types and unparsable SQL -> nothing', () => {
+  assert.deepEqual(check("SELECT id FROM elsewhere WHERE id = 'abc'"), []);
+  assert.deepEqual(check("SELECT id FROM users u JOIN orgs o ON o.id = u.org_id WHERE id = 'abc'"), [], 'ambiguous');
+  assert.deepEqual(check("SELECT id FROM users WHERE id = 'abc' AND ("), []);
+});
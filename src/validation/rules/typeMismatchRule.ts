@@ -0,0 +1,203 @@
+import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
+import { RuleContext } from '../context';
+import { ParsedQuery, parseWithNamedParams } from '../parsedQuery';
+import { asArray } from '../../utils/sqlUtils';
+import { Catalog, CatalogTable, findColumn, findTable } from '../../catalog/catalog';
+import { collectQueryReferences, ColumnReference, identifierName } from '../../catalog/queryReferences';
+import { classesCompatible, describeClass, stringFits, TypeClass, typeClassOf } from '../../catalog/typeClass';
+
+/** A value on one side of a comparison or assignment, as far as we can type it. */
+type Operand =
+  | { kind: 'column'; label: string; type: string; cls: TypeClass }
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: string }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'param'; name: string; argType: string; cls: TypeClass };
+
+const COMPARISONS = new Set([
+  '=', '!=', '<>', '<', '>', '<=', '>=', 'IN', 'NOT IN', 'BETWEEN', 'NOT BETWEEN',
+  'IS DISTINCT FROM', 'IS NOT DISTINCT FROM',
+]);
+
+const STRING_TYPES = new Set(['single_quote_string', 'string', 'natural_string']);
+
+/** Action argument types a bound `?<param>` can be checked by. */
+const ARGUMENT_CLASSES: Record<string, TypeClass> = { string: 'text', number: 'numeric', boolean: 'boolean' };
+
+/**
+ * Flags comparisons and assignments between values of incompatible types,
+ * using column types from the database catalog: `WHERE u.id = 'abc'` on an
+ * integer column, or a `type: boolean` action argument bound against a
+ * varchar column. Postgres rejects these at run time; other databases
+ * convert silently, which is rarely what was meant.
+ *
+ * Only columns whose catalog type is known are checked. String literals
+ * pass when they convert (`'42'` for a number, `'2024-01-01'` for a date);
+ * `string` arguments always pass, since drivers send them as text.
+ */
+export const typeMismatchRule: ValidationRule = {
+  name: 'type-mismatch',
+  description: 'Check that compared and assigned values match the column types in the database catalog',
+  code: 'BSQL026',
+  category: 'reference',
+  defaultSeverity: 'warning',
+  docsUrl: ruleDocsUrl('BSQL026'),
+  validate: (_sql: string, _originalQuery: string, ctx?: RuleContext): ValidationResult[] => {
+    const results: ValidationResult[] = [];
+    const catalog = ctx?.catalog;
+    const query = ctx?.query;
+    if (!catalog || catalog.tables.length === 0 || !query) return results;
+    const ast = parseWithNamedParams(query);
+    if (!ast) return results;
+
+    const refsByNode = new Map<unknown, ColumnReference>();
+    for (const ref of collectQueryReferences(ast).columns) {
+      if (ref.node) refsByNode.set(ref.node, ref);
+    }
+    const operand = (node: unknown): Operand | undefined => operandOf(node, query, catalog, refsByNode);
+
+    const reported = new Set<string>();
+    const report = (column: Operand | undefined, other: Operand | undefined, node?: unknown) => {
+      if (column?.kind !== 'column' || !other) return;
+      const message = mismatch(column, other, query.dialect);
+      if (!message || reported.has(message)) return;
+      reported.add(message);
+      results.push({ isValid: false, errorMessage: message, lineNumber: lineOf(query.rawSql, node, other, column) });
+    };
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- node-sql-parser AST; its shapes vary by dialect
+    const visit = (node: any): void => {
+      if (!node || typeof node !== 'object') return;
+      if (Array.isArray(node)) {
+        node.forEach(visit);
+        return;
+      }
+      if (node.type === 'binary_expr' && COMPARISONS.has(String(node.operator).toUpperCase())) {
+        const left = operand(node.left);
+        const rights: unknown[] = node.right?.type === 'expr_list' && Array.isArray(node.right.value) ? node.right.value : [node.right];
+        for (const right of rights) {
+          const other = operand(right);
+          if (left?.kind === 'column') report(left, other, node);
+          else if (other?.kind === 'column') report(other, left, node);
+        }
+      } else if (node.type === 'update') {
+        const target = targetTable(node.table, catalog);
+        for (const set of asArray(node.set)) {
+          report(target && columnOf(target, identifierName(set?.column)), operand(set?.value));
+        }
+      } else if (node.type === 'insert' || node.type === 'replace') {
+        const target = targetTable(node.table, catalog);
+        const columns = asArray(node.columns).map(c => identifierName(c));
+        const rows = Array.isArray(node.values) ? node.values : asArray(node.values?.values);
+        for (const row of rows) {
+          if (row?.type !== 'expr_list' || !Array.isArray(row.value)) continue;
+          row.value.forEach((value: unknown, i: number) => {
+            // eslint-disable-next-line security/detect-object-injection -- index from forEach
+            report(target && columnOf(target, columns[i]), operand(value));
+          });
+        }
+      }
+      for (const value of Object.values(node)) visit(value);
+    };
+    visit(ast);
+
+    return results;
+  },
+};
+
+function operandOf(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- node-sql-parser AST; its shapes vary by dialect
+  node: any,
+  query: ParsedQuery,
+  catalog: Catalog,
+  refsByNode: Map<unknown, ColumnReference>,
+): Operand | undefined {
+  if (!node || typeof node !== 'object') return undefined;
+  if (node.type === 'column_ref') {
+    const ref = refsByNode.get(node);
+    return ref && referencedColumn(ref, catalog);
+  }
+  if (STRING_TYPES.has(node.type) && typeof node.value === 'string') return { kind: 'string', value: node.value };
+  if (node.type === 'number') return { kind: 'number', value: String(node.value) };
+  if (node.type === 'unary_expr' && node.operator === '-' && node.expr?.type === 'number') {
+    return { kind: 'number', value: `-${node.expr.value}` };
+  }
+  if (node.type === 'bool') return { kind: 'boolean', value: node.value === true };
+  if (node.type === 'param' && query.yamlPath[0] === 'actions') {
+    const name = String(node.value);
+    const argType = query.varsScope.get(name);
+    // eslint-disable-next-line security/detect-object-injection -- argType is checked with hasOwnProperty
+    const cls = argType && Object.prototype.hasOwnProperty.call(ARGUMENT_CLASSES, argType) ? ARGUMENT_CLASSES[argType] : undefined;
+    if (argType && cls) return { kind: 'param', name, argType, cls };
+  }
+  return undefined;
+}
+
+/** The typed column a reference resolves to; undefined when unknown, untyped or ambiguous. */
+function referencedColumn(ref: ColumnReference, catalog: Catalog): Operand | undefined {
+  const found: Operand[] = [];
+  for (const t of ref.tables) {
+    const table = findTable(catalog, t.name, t.schema);
+    const column = table && columnOf(table, ref.column);
+    if (column) found.push(column);
+  }
+  if (found.length !== 1 || found[0].kind !== 'column') return undefined;
+  return ref.qualifier ? { ...found[0], label: `${ref.qualifier}.${ref.column}` } : found[0];
+}
+
+function columnOf(table: CatalogTable, name: string | undefined): Operand | undefined {
+  const column = name ? findColumn(table, name) : undefined;
+  const cls = typeClassOf(column?.type);
+  if (!column?.type || !cls) return undefined;
+  return { kind: 'column', label: column.name, type: column.type, cls };
+}
+
+/** The catalog table an INSERT or UPDATE writes to. */
+function targetTable(items: unknown, catalog: Catalog): CatalogTable | undefined {
+  const item = asArray(items)[0] as { table?: unknown; db?: unknown; schema?: unknown } | undefined;
+  const name = identifierName(item?.table);
+  return name ? findTable(catalog, name, identifierName(item?.db) ?? identifierName(item?.schema)) : undefined;
+}
+
+/** Why `other` can't be compared with or stored in `column`; undefined when it can. */
+function mismatch(column: Extract<Operand, { kind: 'column' }>, other: Operand, dialect?: string): string | undefined {
+  const target = `column '${column.label}' is ${column.type}`;
+  switch (other.kind) {
+    case 'column':
+      return classesCompatible(column.cls, other.cls, dialect)
+        ? undefined
+        : `Comparing ${column.type} column '${column.label}' with ${other.type} column '${other.label}'.`;
+    case 'string':
+      return stringFits(other.value, column.cls)
+        ? undefined
+        : `'${other.value}' is not ${describeClass(column.cls)}, but ${target}.`;
+    case 'number':
+      return classesCompatible('numeric', column.cls, dialect) ? undefined : `${other.value} is a number, but ${target}.`;
+    case 'boolean':
+      return classesCompatible('boolean', column.cls, dialect)
+        ? undefined
+        : `${other.value ? 'TRUE' : 'FALSE'} is a boolean, but ${target}.`;
+    case 'param':
+      // Drivers send string arguments as text, which the database converts.
+      return other.cls === 'text' || classesCompatible(other.cls, column.cls, dialect)
+        ? undefined
+        : `Action argument '${other.name}' is ${other.argType}, but ${target}.`;
+  }
+}
+
+/**
+ * SQL-relative line to report on: the comparison's own location when the
+ * parser recorded one, else the first line mentioning the value.
+ */
+function lineOf(sql: string, node: unknown, other: Operand, column: Operand): number | undefined {
+  const line = (node as { loc?: { start?: { line?: unknown } } } | undefined)?.loc?.start?.line;
+  if (typeof line === 'number') return line - 1;
+  const text = other.kind === 'param' ? `?<${other.name}>`
+    : other.kind === 'string' ? `'${other.value}'`
+    : other.kind === 'column' ? other.label
+    : column.kind === 'column' ? column.label
+    : undefined;
+  const at = text ? sql.toLowerCase().indexOf(text.toLowerCase()) : -1;
+  return at === -1 ? undefined : sql.slice(0, at).split('\n').length - 1;
+}
@@ -1,9 +1,14 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { getParser } from '../../utils/sqlUtils';
 
 export const unclosedParenthesesRule: ValidationRule = {
   name: "unclosed-parentheses",
   description: "Check for unclosed parentheses",
+  code: "BSQL003",
+  category: "syntax",
+  defaultSeverity: "error",
+  docsUrl: ruleDocsUrl("BSQL003"),
   validate: (sql: string, originalQuery: string): ValidationResult => {
     try {
       const parser = getParser();
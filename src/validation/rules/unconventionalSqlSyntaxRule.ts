@@ -1,12 +1,19 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 
 /**
  * Validates PostgreSQL-specific and unconventional SQL syntax patterns.
- * Provides informational messages about advanced SQL features.
+ * Provides informational messages about advanced SQL features. Checks that
+ * describe SQL the database will reject (incomplete ON CONFLICT / RETURNING,
+ * gen_salt() / crypt() misuse) are raised to warnings.
  */
 export const unconventionalSqlSyntaxRule: ValidationRule = {
   name: "unconventional-sql-syntax",
   description: "Validate PostgreSQL-specific and unconventional SQL syntax",
+  code: "BSQL014",
+  category: "style",
+  defaultSeverity: "info",
+  docsUrl: ruleDocsUrl("BSQL014"),
   validate: (sql: string, originalQuery: string): ValidationResult => {
     const lines = originalQuery.split('\n');
     const lowerSql = sql.toLowerCase();
@@ -23,6 +30,7 @@ export const unconventionalSqlSyntaxRule: ValidationRule = {
           if (lines[i].toLowerCase().includes('on conflict')) {
             return {
               isValid: false,
+              severity: 'warning',
               errorMessage: "ON CONFLICT clause requires either 'DO NOTHING' or 'DO UPDATE SET ...' after it.",
               lineNumber: i,
             };
@@ -40,6 +48,7 @@ export const unconventionalSqlSyntaxRule: ValidationRule = {
           if (lines[i].toLowerCase().includes('returning') && lines[i].trim().toLowerCase().endsWith('returning')) {
             return {
               isValid: false,
+              severity: 'warning',
               errorMessage: "RETURNING clause requires column names after it (e.g., RETURNING id, name).",
               lineNumber: i,
             };
@@ -114,6 +123,7 @@ export const unconventionalSqlSyntaxRule: ValidationRule = {
         if (lines[i].toLowerCase().includes('gen_salt()')) {
           return {
             isValid: false,
+            severity: 'warning',
             errorMessage: "gen_salt() requires an algorithm parameter (e.g., gen_salt('bf') for Blowfish or gen_salt('md5')).",
             lineNumber: i,
           };
@@ -134,6 +144,7 @@ export const unconventionalSqlSyntaxRule: ValidationRule = {
           if (currentLength > charIndex) {
             return {
               isValid: false,
+              severity: 'warning',
               errorMessage: "crypt() requires exactly 2 arguments: crypt(password, gen_salt('algorithm')).",
               lineNumber: i,
             };
@@ -1,4 +1,5 @@
 import { ValidationRule, ValidationResult } from '../types';
+import { ruleDocsUrl } from '../ruleDocs';
 import { RuleContext } from '../context';
 
 /**
@@ -25,6 +26,10 @@ const BUILTIN_VARS = new Set(['limit', 'offset', 'cursor']);
 export const varsQueryMismatchRule: ValidationRule = {
   name: "vars-query-mismatch",
   description: "Check for mismatches between vars definitions and query parameter usage",
+  code: "BSQL013",
+  category: "reference",
+  defaultSeverity: "error",
+  docsUrl: ruleDocsUrl("BSQL013"),
   validate: (sql: string, originalQuery: string, ctx?: RuleContext): ValidationResult => {
     // --- Step 1: collect usedParameters ---
     const usedParameters = new Set<string>();
@@ -138,6 +143,8 @@ export const varsQueryMismatchRule: ValidationRule = {
       // to the query span via the server's default range conversion.
       const result: ValidationResult = {
         isValid: false,
+        // Unused vars don't break the connector; report them as advice.
+        severity: 'warning',
         errorMessage: `Variable(s) defined in 'vars' but not used in query: ${unusedVars.join(', ')}. Either use them in the query with ?<${unusedVars[0]}> or remove them from vars.`,
       };
       if (varsLineNumber !== -1) {
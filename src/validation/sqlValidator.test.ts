@@ -64,6 +64,10 @@ test('validateSql accepts a rule that returns an array of results', () => {
   const arrayRule: ValidationRule = {
     name: 'test-array-rule',
     description: 'returns two failures',
+    code: 'BSQL999',
+    category: 'syntax',
+    defaultSeverity: 'error',
+    docsUrl: 'https://example.invalid/rules#bsql999',
     validate: () => [
       { isValid: false, errorMessage: 'first' },
       { isValid: false, errorMessage: 'second' },
@@ -48,6 +48,7 @@ export function validateSql(
   const document: BatonDocument = {
     yaml: null,
     yamlContent: originalQuery,
+    yamlModel: null,
     resourceTypes: new Map(),
     actions: new Map(),
     queries: [query],
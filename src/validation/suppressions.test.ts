@@ -0,0 +1,116 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateDocument } from './pipeline';
+import { mergeConfigs } from './config';
+import { buildBatonDocument } from './document';
+import { collectSuppressions } from './suppressions';
+
+const withQuery = (query: string[], above = '') => `
+app_name: t
+connect:
+  dsn: postgres://x
+resource_types:
+  user:
+    name: User
+    description: u
+    list:
+${above}      query: |
+${query.map(l => `        ${l}`).join('\n')}
+      pagination:
+        strategy: offset
+        primary_key: id
+      map:
+        id: ".id"
+        display_name: ".name"
+`;
+
+const TRAILING = ['SELECT id, name,', 'FROM users'];
+
+const rulesOf = (yaml: string) => validateDocument(yaml).results.map(r => r.ruleName);
+
+test('suppressions: the unsuppressed fixture reports trailing-comma', () => {
+  assert.ok(rulesOf(withQuery(TRAILING)).includes('trailing-comma'));
+});
+
+test('suppressions: YAML disable-next-line above the query key covers the whole block', () => {
+  const yaml = withQuery(TRAILING, '      # baton-sql-disable-next-line trailing-comma\n');
+  const rules = rulesOf(yaml);
+  assert.ok(!rules.includes('trailing-comma'));
+  assert.ok(!rules.includes('unused-suppression'));
+});
+
+test('suppressions: rules can be named by code', () => {
+  const yaml = withQuery(TRAILING, '      # baton-sql-disable-next-line BSQL012\n');
+  assert.ok(!rulesOf(yaml).includes('trailing-comma'));
+});
+
+test('suppressions: SQL comment inside the query covers that query', () => {
+  const yaml = withQuery(['-- baton-sql-disable trailing-comma', ...TRAILING]);
+  const rules = rulesOf(yaml);
+  assert.ok(!rules.includes('trailing-comma'));
+  assert.ok(!rules.includes('unused-suppression'));
+});
+
+test('suppressions: a suppression only silences the rules it names', () => {
+  const yaml = withQuery(TRAILING, '      # baton-sql-disable-next-line missing-comma\n');
+  const { results } = validateDocument(yaml);
+  assert.ok(results.some(r => r.ruleName === 'trailing-comma'));
+  const unused = results.find(r => r.ruleName === 'unused-suppression');
+  assert.ok(unused);
+  assert.match(unused.result.errorMessage || '', /'missing-comma'/);
+  assert.equal(unused.severity, 'warning');
+  // Reported on the comment's own line (document-scope, absolute).
+  assert.equal(yaml.split('\n')[unused.result.lineNumber!].trim(), '# baton-sql-disable-next-line missing-comma');
+});
+
+test('suppressions: a comment with no rule list covers every rule', () => {
+  const yaml = withQuery(['-- baton-sql-disable', ...TRAILING]);
+  assert.deepEqual(rulesOf(yaml), []);
+});
+
+test('suppressions: stale and unknown suppressions are reported', () => {
+  const yaml = withQuery(['-- baton-sql-disable trailing-comma no-such-rule', 'SELECT id FROM users']);
+  const messages = validateDocument(yaml).results
+    .filter(r => r.ruleName === 'unused-suppression')
+    .map(r => r.result.errorMessage);
+  assert.equal(messages.length, 2);
+  assert.match(messages[0] || '', /'trailing-comma'/);
+  assert.match(messages[1] || '', /Unknown rule 'no-such-rule'/);
+});
+
+test('suppressions: rules switched off in config are not reported as unused', () => {
+  const yaml = withQuery(['-- baton-sql-disable trailing-comma', 'SELECT id FROM users']);
+  const config = mergeConfigs({ rules: { 'trailing-comma': 'off' } });
+  assert.deepEqual(validateDocument(yaml, undefined, config).results, []);
+});
+
+test('suppressions: unused-suppression itself can be switched off', () => {
+  const yaml = withQuery(['-- baton-sql-disable trailing-comma', 'SELECT id FROM users']);
+  const config = mergeConfigs({ rules: { 'unused-suppression': 'off' } });
+  assert.deepEqual(validateDocument(yaml, undefined, config).results, []);
+});
+
+test('collectSuppressions: a # line inside a SQL block is not a YAML directive', () => {
+  const yaml = withQuery(['SELECT id', '# baton-sql-disable-next-line trailing-comma', 'FROM users']);
+  const document = buildBatonDocument(yaml);
+  assert.equal(collectSuppressions(document).length, 0);
+});
+
+test('collectSuppressions: -- baton-sql-disable-next-line in SQL is not a whole-query disable', () => {
+  const yaml = withQuery(['SELECT id, name', '-- baton-sql-disable-next-line trailing-comma', 'FROM users']);
+  assert.equal(collectSuppressions(buildBatonDocument(yaml)).length, 0);
+  // Before, this read as a disable for the unknown rule `-next-line`.
+  assert.ok(!rulesOf(yaml).includes('unused-suppression'));
+});
+
+test('collectSuppressions: disable-next-line on a plain key covers only that entry', () => {
+  const yaml = withQuery(['SELECT id FROM users'], '      # baton-sql-disable-next-line\n');
+  const document = buildBatonDocument(yaml);
+  const [s] = collectSuppressions(document);
+  assert.equal(s.kind, 'yaml');
+  assert.deepEqual(s.rules, []);
+  const covered = yaml.slice(s.covers!.start, s.covers!.end);
+  assert.ok(covered.startsWith('      query: |'));
+  assert.ok(covered.includes('SELECT id FROM users'));
+  assert.ok(!covered.includes('pagination'));
+});
@@ -0,0 +1,225 @@
+import { visit, isNode, isScalar } from 'yaml';
+import { ValidationRule } from './types';
+import { ruleDocsUrl } from './ruleDocs';
+import { BatonDocument } from './document';
+import { ParsedQuery, sqlOffsetToYaml } from './parsedQuery';
+import { resultRange } from './location';
+import { PipelineResult } from './pipeline';
+import { SourceRange, lineAtOffset } from './yamlModel';
+
+/**
+ * Reports suppression comments that no longer silence anything. It never runs
+ * as a rule: `applySuppressions` emits its results after the other rules
+ * have run. Exported so configuration can refer to it by name or code.
+ */
+export const unusedSuppressionRule: ValidationRule = {
+  name: 'unused-suppression',
+  description: 'Report baton-sql-disable comments that no longer match a diagnostic',
+  code: 'BSQL024',
+  category: 'config',
+  defaultSeverity: 'warning',
+  docsUrl: ruleDocsUrl('BSQL024'),
+  scope: 'document',
+  validate: () => ({ isValid: true }),
+};
+
+/**
+ * One `baton-sql-disable` comment.
+ *
+ * - `# baton-sql-disable-next-line [rules]` in the YAML covers the next
+ *   non-blank line and, when a key starts there, everything under that key.
+ * - `-- baton-sql-disable [rules]` inside a SQL block covers that query.
+ *
+ * Rules are given by name or code, separated by commas or spaces. An empty
+ * list covers every rule.
+ */
+export interface Suppression {
+  kind: 'yaml' | 'sql';
+  /** Rule names or codes as written; empty means all rules. */
+  rules: string[];
+  /** Absolute YAML offset of the comment, where unused suppressions are reported. */
+  commentOffset: number;
+  /** Span of YAML whose results are suppressed (yaml kind). */
+  covers?: SourceRange;
+  /** Query whose results are suppressed (sql kind). */
+  query?: ParsedQuery;
+}
+
+// The directive name must end at whitespace or end of line: `\b` would let
+// `-- baton-sql-disable-next-line` read as `baton-sql-disable` plus a rule list.
+const YAML_DIRECTIVE = /^[ \t]*#[ \t]*baton-sql-disable-next-line(?=\s|$)(.*)$/;
+const SQL_DIRECTIVE = /--[ \t]*baton-sql-disable(?=\s|$)(.*)$/;
+
+function parseRuleList(text: string): string[] {
+  return text.split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * Find every suppression comment in the document.
+ */
+export function collectSuppressions(document: BatonDocument): Suppression[] {
+  const suppressions: Suppression[] = [];
+  const content = document.yamlContent;
+  const insideQuery = (offset: number) =>
+    document.queries.some(q => offset >= q.startOffset && offset < q.endOffset);
+
+  // YAML comments. Lines inside a SQL block are SQL, not YAML comments.
+  const lines = content.split('\n');
+  let offset = 0;
+  for (let i = 0; i < lines.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+    const line = lines[i];
+    const match = YAML_DIRECTIVE.exec(line);
+    if (match && !insideQuery(offset)) {
+      const covers = nextLineCoverage(document, lines, i + 1, offset + line.length + 1);
+      if (covers) {
+        suppressions.push({
+          kind: 'yaml',
+          rules: parseRuleList(match[1]),
+          commentOffset: offset + line.indexOf('#'),
+          covers,
+        });
+      }
+    }
+    offset += line.length + 1;
+  }
+
+  // SQL comments.
+  for (const query of document.queries) {
+    let lineStart = 0;
+    for (const line of query.rawSql.split('\n')) {
+      const match = SQL_DIRECTIVE.exec(line);
+      if (match) {
+        suppressions.push({
+          kind: 'sql',
+          rules: parseRuleList(match[1]),
+          commentOffset: sqlOffsetToYaml(query, lineStart + match.index),
+          query,
+        });
+      }
+      lineStart += line.length + 1;
+    }
+  }
+
+  return suppressions;
+}
+
+/**
+ * The span a `disable-next-line` comment covers: the next line that isn't
+ * blank or a comment, extended to the end of any key or sequence item that
+ * starts on it (so a comment above `query: |` covers the whole block).
+ */
+function nextLineCoverage(
+  document: BatonDocument,
+  lines: string[],
+  fromLine: number,
+  fromOffset: number,
+): SourceRange | undefined {
+  let offset = fromOffset;
+  for (let i = fromLine; i < lines.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+    const line = lines[i];
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      offset += line.length + 1;
+      continue;
+    }
+    const start = offset;
+    let end = offset + line.length;
+    const model = document.yamlModel;
+    if (model) {
+      const onLine = (n: number) => n >= start && n <= offset + line.length;
+      visit(model.document, {
+        Pair(_, pair) {
+          if (isScalar(pair.key) && pair.key.range && onLine(pair.key.range[0])) {
+            const valueEnd = isNode(pair.value) && pair.value.range ? pair.value.range[2] : pair.key.range[2];
+            end = Math.max(end, valueEnd);
+          }
+        },
+        Seq(_, seq) {
+          // A sequence item starting on the line (`- |`, `- name: x`) is covered whole.
+          // Maps aren't checked directly: one starting on the line is reached through its first key.
+          for (const item of seq.items) {
+            if (isNode(item) && item.range && onLine(item.range[0])) end = Math.max(end, item.range[2]);
+          }
+        },
+      });
+    }
+    return { start, end };
+  }
+  return undefined;
+}
+
+function ruleMatches(token: string, rule: ValidationRule): boolean {
+  return token === rule.name || token === rule.code;
+}
+
+/**
+ * Drop results covered by a suppression, and list every comment (or rule
+ * named in one) that silenced nothing, for `unused-suppression` to report.
+ * `knownRules` are the rules a comment may name; `isEnabled` says whether a
+ * rule ran, so suppressions for rules the config switched off aren't
+ * reported as unused.
+ */
+export function applySuppressions(
+  document: BatonDocument,
+  results: PipelineResult[],
+  suppressions: Suppression[],
+  knownRules: ValidationRule[],
+  isEnabled: (rule: ValidationRule) => boolean,
+): { kept: PipelineResult[]; unused: { message: string; lineNumber: number }[] } {
+  if (suppressions.length === 0) return { kept: results, unused: [] };
+
+  // used[i] holds the tokens of suppressions[i] that matched; '*' for an empty list.
+  const used = suppressions.map(() => new Set<string>());
+  const kept: PipelineResult[] = [];
+  for (const pr of results) {
+    const at = resultRange(document, pr).start;
+    let suppressed = false;
+    suppressions.forEach((s, i) => {
+      const where = s.kind === 'sql'
+        ? pr.query === s.query || (!!s.query && at >= s.query.startOffset && at < s.query.endOffset)
+        : !!s.covers && at >= s.covers.start && at < s.covers.end;
+      if (!where) return;
+      if (s.rules.length === 0) {
+        // eslint-disable-next-line security/detect-object-injection -- index from forEach
+        used[i].add('*');
+        suppressed = true;
+        return;
+      }
+      for (const token of s.rules) {
+        if (ruleMatches(token, pr.rule)) {
+          // eslint-disable-next-line security/detect-object-injection -- index from forEach
+          used[i].add(token);
+          suppressed = true;
+        }
+      }
+    });
+    if (!suppressed) kept.push(pr);
+  }
+
+  const unused: { message: string; lineNumber: number }[] = [];
+  const lineOf = (offset: number) =>
+    document.yamlModel ? lineAtOffset(document.yamlModel, offset) : document.yamlContent.slice(0, offset).split('\n').length - 1;
+  suppressions.forEach((s, i) => {
+    const lineNumber = lineOf(s.commentOffset);
+    if (s.rules.length === 0) {
+      // eslint-disable-next-line security/detect-object-injection -- index from forEach
+      if (!used[i].has('*')) {
+        unused.push({ message: 'Unused suppression: no diagnostic is reported here.', lineNumber });
+      }
+      return;
+    }
+    for (const token of s.rules) {
+      const rule = knownRules.find(r => ruleMatches(token, r));
+      if (!rule) {
+        unused.push({ message: `Unknown rule '${token}' in suppression comment.`, lineNumber });
+        // eslint-disable-next-line security/detect-object-injection -- index from forEach
+      } else if (!used[i].has(token) && isEnabled(rule)) {
+        unused.push({ message: `Unused suppression: '${token}' reports nothing here.`, lineNumber });
+      }
+    }
+  });
+
+  return { kept, unused };
+}
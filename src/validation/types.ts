@@ -10,9 +10,22 @@ export interface TextEdit {
   newText: string;
 }
 
+/** How serious a diagnostic is. Maps 1:1 onto LSP DiagnosticSeverity. */
+export type Severity = 'error' | 'warning' | 'info' | 'hint';
+
+/**
+ * What a rule checks. `syntax`: the SQL won't run. `style`: legal SQL worth a
+ * second look. `reference`: a cross-reference inside the document, or to the
+ * database catalog, is broken.
+ * `config`: the connector's own config validation would reject it.
+ */
+export type RuleCategory = 'syntax' | 'style' | 'reference' | 'config';
+
 export interface ValidationResult {
   isValid: boolean;
   errorMessage?: string;
+  /** Overrides the rule's defaultSeverity for this one result. */
+  severity?: Severity;
   position?: number;
   lineNumber?: number;
   /** Suggested fix for the validation error (for code actions/quick fixes) */
@@ -24,6 +37,18 @@ export interface ValidationResult {
 export interface ValidationRule {
   name: string;
   description: string;
+  /** Stable diagnostic code (`BSQL0xx`). Never renumbered or reused. */
+  code: string;
+  category: RuleCategory;
+  defaultSeverity: Severity;
+  /** Where the rule is documented; published as the diagnostic's codeDescription. */
+  docsUrl: string;
+  /**
+   * The rule's suggestedFix edits are exact and safe to apply unattended
+   * (Fix all, `baton-sql-lint --fix`). Rules whose fixes insert placeholders
+   * leave this unset; their fixes stay one-at-a-time quick fixes.
+   */
+  autofix?: boolean;
   /** Defaults to 'query' — rule runs once per ParsedQuery. 'document' runs once per BatonDocument. */
   scope?: 'query' | 'document';
   validate: (
@@ -0,0 +1,146 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isScalar } from 'yaml';
+import {
+  parseYamlModel,
+  nodeAt,
+  valueRangeAt,
+  keyRangeAt,
+  scalarContentRange,
+  scalarSourceMap,
+  lineAtOffset,
+} from './yamlModel';
+
+test('parseYamlModel: returns null on syntax errors', () => {
+  assert.equal(parseYamlModel(': not: valid: yaml: at: all'), null);
+  assert.equal(parseYamlModel('a: [1'), null);
+});
+
+test('parseYamlModel: value matches the plain JS projection', () => {
+  const model = parseYamlModel('a:\n  b: [1, two]\n');
+  assert.ok(model);
+  assert.deepEqual(model!.value, { a: { b: [1, 'two'] } });
+});
+
+test('keyRangeAt / valueRangeAt: exact offsets for keys and plain scalars', () => {
+  const src = 'root:\n  name: hello\n';
+  const model = parseYamlModel(src)!;
+  const key = keyRangeAt(model, ['root', 'name'])!;
+  assert.equal(src.slice(key.start, key.end), 'name');
+  const value = valueRangeAt(model, ['root', 'name'])!;
+  assert.equal(src.slice(value.start, value.end), 'hello');
+});
+
+test('valueRangeAt: numeric path segments index into sequences', () => {
+  const src = 'items:\n  - first\n  - second\n';
+  const model = parseYamlModel(src)!;
+  const r = valueRangeAt(model, ['items', 1])!;
+  assert.equal(src.slice(r.start, r.end), 'second');
+  assert.equal(valueRangeAt(model, ['items', 5]), undefined);
+});
+
+test('scalarContentRange: strips quotes and block headers', () => {
+  const src = 'a: "quoted"\nb: |\n    SELECT 1\n    FROM t\nc: plain\n';
+  const model = parseYamlModel(src)!;
+  const span = (path: string[]) => {
+    const node = nodeAt(model, path);
+    assert.ok(isScalar(node));
+    const r = scalarContentRange(node, src)!;
+    return src.slice(r.start, r.end);
+  };
+  assert.equal(span(['a']), 'quoted');
+  assert.equal(span(['b']), 'SELECT 1\n    FROM t\n');
+  assert.equal(span(['c']), 'plain');
+});
+
+test('lineAtOffset: maps offsets to 0-indexed lines', () => {
+  const src = 'a: 1\nb: 2\nc: 3\n';
+  const model = parseYamlModel(src)!;
+  assert.equal(lineAtOffset(model, 0), 0);
+  assert.equal(lineAtOffset(model, src.indexOf('b')), 1);
+  assert.equal(lineAtOffset(model, src.indexOf('3')), 2);
+});
+
+/** Assert every value character maps to the same character in the source (or to its escape). */
+function mapOf(src: string, key: string): { value: string; map: number[] } {
+  const model = parseYamlModel(src)!;
+  const node = nodeAt(model, [key]);
+  assert.ok(isScalar(node));
+  const map = scalarSourceMap(node, src);
+  assert.ok(map, `source map for ${key} should align`);
+  return { value: node.value as string, map: map! };
+}
+
+/** The `length` source characters where the first `text` in the value maps to. */
+function sourceAt(src: string, { value, map }: { value: string; map: number[] }, text: string, length = text.length): string {
+  return src.slice(map[value.indexOf(text)], map[value.indexOf(text)] + length);
+}
+
+test('scalarSourceMap: literal block maps past the indentation', () => {
+  const src = 'q: |\n    SELECT id,\n      name\n    FROM users\n';
+  const mapped = mapOf(src, 'q');
+  assert.equal(mapped.map.length, mapped.value.length + 1);
+  assert.equal(sourceAt(src, mapped, 'FROM'), 'FROM');
+  assert.equal(sourceAt(src, mapped, 'name'), 'name');
+});
+
+test('scalarSourceMap: folded block maps folded line breaks to source whitespace', () => {
+  const src = 'q: >\n  SELECT id\n  FORM users\n';
+  const mapped = mapOf(src, 'q');
+  assert.equal(mapped.value, 'SELECT id FORM users\n');
+  assert.equal(sourceAt(src, mapped, 'FORM'), 'FORM');
+  assert.equal(sourceAt(src, mapped, ' FORM', 1), '\n');
+});
+
+test('scalarSourceMap: double-quoted escapes map to their backslash', () => {
+  const src = 'q: "SELECT id\\n  FROM \\"users\\"\\tWHERE x = \\u0031"\n';
+  const mapped = mapOf(src, 'q');
+  assert.equal(mapped.value, 'SELECT id\n  FROM "users"\tWHERE x = 1');
+  assert.equal(sourceAt(src, mapped, '\n', 2), '\\n');
+  assert.equal(sourceAt(src, mapped, 'FROM'), 'FROM');
+  assert.equal(sourceAt(src, mapped, 'WHERE'), 'WHERE');
+  assert.equal(sourceAt(src, mapped, '1', 6), '\\u0031');
+});
+
+test('scalarSourceMap: multi-line double-quoted and single-quoted scalars', () => {
+  const dq = 'q: "SELECT id \\\n  FROM t\n  WHERE a = 1"\n';
+  const d = mapOf(dq, 'q');
+  assert.equal(d.value, 'SELECT id FROM t WHERE a = 1');
+  assert.equal(sourceAt(dq, d, 'WHERE'), 'WHERE');
+
+  const sq = "q: 'SELECT ''x'' FROM t'\n";
+  const s = mapOf(sq, 'q');
+  assert.equal(s.value, "SELECT 'x' FROM t");
+  assert.equal(sourceAt(sq, s, 'FROM'), 'FROM');
+});
+
+test('parseYamlModel: merge keys are applied and their fields located in the anchor', () => {
+  const src = `defaults: &defaults
+  name: Base
+  list:
+    query: SELECT id FROM users
+resource_types:
+  user:
+    <<: *defaults
+    description: Users
+  group:
+    <<: [*defaults]
+    name: Group
+`;
+  const model = parseYamlModel(src)!;
+  const base = { name: 'Base', list: { query: 'SELECT id FROM users' } };
+  assert.deepEqual(model.value, {
+    defaults: base,
+    resource_types: { user: { ...base, description: 'Users' }, group: { ...base, name: 'Group' } },
+  });
+
+  const query = nodeAt(model, ['resource_types', 'user', 'list', 'query']);
+  assert.ok(isScalar(query));
+  const range = scalarContentRange(query, src)!;
+  assert.equal(src.slice(range.start, range.end), 'SELECT id FROM users');
+  const key = keyRangeAt(model, ['resource_types', 'user', 'name'])!;
+  assert.equal(key.start, src.indexOf('name'));
+  // An own key wins over the merged one.
+  const own = valueRangeAt(model, ['resource_types', 'group', 'name'])!;
+  assert.equal(src.slice(own.start, own.end), 'Group');
+});
@@ -0,0 +1,244 @@
+import { Document, Node, Pair, Scalar, YAMLMap, isAlias, isMap, isNode, isScalar, isSeq, parseDocument } from 'yaml';
+
+/**
+ * Half-open span of absolute offsets into the YAML source.
+ */
+export interface SourceRange {
+  /** Offset of the first character. */
+  start: number;
+  /** Offset one past the last character. */
+  end: number;
+}
+
+/**
+ * A YAML document parsed with the `yaml` package, which keeps the source
+ * range of every key and scalar. `value` is the plain JS projection (what
+ * js-yaml's `load` used to return); `document` is the AST we use for
+ * position lookups.
+ */
+export interface YamlModel {
+  document: Document.Parsed;
+  value: unknown;
+  /** The YAML text the model was parsed from. */
+  source: string;
+  /** Offset of the first character of each line, for offset → line lookups. */
+  lineStarts: number[];
+}
+
+/**
+ * Parse `content` into a YamlModel. Returns null when the YAML has syntax
+ * errors, mirroring the old js-yaml behavior (the Red Hat YAML extension
+ * reports those; we stay quiet). Merge keys (`<<: *base`) are applied, as
+ * js-yaml did.
+ */
+export function parseYamlModel(content: string): YamlModel | null {
+  let document: Document.Parsed;
+  try {
+    document = parseDocument(content, { merge: true });
+  } catch {
+    return null;
+  }
+  if (document.errors.length > 0) return null;
+
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection -- index from for-loop counter
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return { document, value: document.toJS(), source: content, lineStarts };
+}
+
+/**
+ * Return the AST node at `path`, or undefined when any segment is missing.
+ * Aliases are followed and merged keys are found in their merge source, so
+ * the node (and its range) is the one the value was written as.
+ */
+export function nodeAt(model: YamlModel, path: (string | number)[]): Node | undefined {
+  let node = resolveAlias(model, model.document.contents);
+  for (const segment of path) {
+    if (isMap(node)) {
+      node = resolveAlias(model, pairAt(model, node, segment)?.value);
+    } else if (isSeq(node) && typeof segment === 'number') {
+      // eslint-disable-next-line security/detect-object-injection -- numeric path segment
+      node = resolveAlias(model, node.items[segment]);
+    } else {
+      return undefined;
+    }
+  }
+  return isNode(node) ? node : undefined;
+}
+
+/** The pair of `map` with key `key`: its own, or else one merged in through `<<`. */
+function pairAt(model: YamlModel, map: YAMLMap, key: string | number, seen = new Set<YAMLMap>()): Pair | undefined {
+  if (seen.has(map)) return undefined;
+  seen.add(map);
+  const own = map.items.find(pair => isScalar(pair.key) && pair.key.value === key);
+  if (own) return own;
+  for (const pair of map.items) {
+    if (!isMergeKey(pair.key)) continue;
+    const value = resolveAlias(model, pair.value);
+    const sources = isSeq(value) ? value.items.map(item => resolveAlias(model, item)) : [value];
+    for (const source of sources) {
+      const merged = isMap(source) ? pairAt(model, source, key, seen) : undefined;
+      if (merged) return merged;
+    }
+  }
+  return undefined;
+}
+
+function isMergeKey(key: unknown): boolean {
+  return isScalar(key) && typeof key.value === 'symbol' && key.source === '<<';
+}
+
+function resolveAlias(model: YamlModel, node: unknown): unknown {
+  return isAlias(node) ? node.resolve(model.document) : node;
+}
+
+/**
+ * Range of the value node at `path` (for scalars, includes quotes and block
+ * headers — use `scalarContentRange` for the text itself).
+ */
+export function valueRangeAt(model: YamlModel, path: (string | number)[]): SourceRange | undefined {
+  const node = nodeAt(model, path);
+  if (!node?.range) return undefined;
+  return { start: node.range[0], end: node.range[1] };
+}
+
+/**
+ * Range of the map key that introduces `path`'s last segment. Undefined when
+ * the parent isn't a map or the key is absent.
+ */
+export function keyRangeAt(model: YamlModel, path: (string | number)[]): SourceRange | undefined {
+  if (path.length === 0) return undefined;
+  const parent = nodeAt(model, path.slice(0, -1));
+  if (!isMap(parent)) return undefined;
+  const key = pairAt(model, parent, path[path.length - 1])?.key;
+  if (isScalar(key) && key.range) {
+    return { start: key.range[0], end: key.range[1] };
+  }
+  return undefined;
+}
+
+/**
+ * Range of a scalar's text, excluding quotes and block scalar headers. For
+ * `query: |` blocks this starts at the first content character (after the
+ * header line and the block indentation), which is where the SQL begins.
+ */
+export function scalarContentRange(node: Scalar, content: string): SourceRange | undefined {
+  if (!node.range) return undefined;
+  const [start, end] = node.range;
+  switch (node.type) {
+    case Scalar.QUOTE_DOUBLE:
+    case Scalar.QUOTE_SINGLE:
+      return { start: start + 1, end: Math.max(start + 1, end - 1) };
+    case Scalar.BLOCK_LITERAL:
+    case Scalar.BLOCK_FOLDED: {
+      const headerEnd = content.indexOf('\n', start);
+      if (headerEnd === -1 || headerEnd >= end) return { start: end, end };
+      let first = headerEnd + 1;
+      // eslint-disable-next-line security/detect-object-injection -- bounded offset scan
+      while (first < end && /\s/.test(content[first])) first++;
+      return { start: first, end };
+    }
+    default:
+      return { start, end };
+  }
+}
+
+/**
+ * 0-indexed line number containing `offset`.
+ */
+export function lineAtOffset(model: YamlModel, offset: number): number {
+  const starts = model.lineStarts;
+  let lo = 0;
+  let hi = starts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    // eslint-disable-next-line security/detect-object-injection -- binary search index
+    if (starts[mid] <= offset) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * Map every character of a string scalar's value back to its source offset.
+ * Returns an array of `value.length + 1` absolute offsets; the last entry is
+ * the offset just past the scalar's text. Handles every scalar style: block
+ * literal/folded (indentation stripped, line folding), double-quoted (escape
+ * sequences, escaped line breaks) and single-quoted (`''`).
+ *
+ * Works by aligning the decoded value against the raw source: characters that
+ * match map 1:1, escapes map to their backslash, folded line breaks map to the
+ * source whitespace they replaced, and whitespace YAML drops (indentation,
+ * trailing spaces) is skipped. Returns undefined if the alignment fails, so
+ * callers can fall back to `start + index`.
+ */
+export function scalarSourceMap(node: Scalar, source: string): number[] | undefined {
+  if (typeof node.value !== 'string' || !node.range) return undefined;
+  const value = node.value;
+  const [start, end] = node.range;
+
+  let j: number;
+  let limit = end;
+  switch (node.type) {
+    case Scalar.QUOTE_DOUBLE:
+    case Scalar.QUOTE_SINGLE:
+      j = start + 1;
+      limit = Math.max(j, end - 1);
+      break;
+    case Scalar.BLOCK_LITERAL:
+    case Scalar.BLOCK_FOLDED: {
+      const headerEnd = source.indexOf('\n', start);
+      if (headerEnd === -1 || headerEnd >= end) return undefined;
+      j = headerEnd + 1;
+      break;
+    }
+    default:
+      j = start;
+  }
+
+  const isWs = (c: string | undefined) => c === ' ' || c === '\t' || c === '\n' || c === '\r';
+  const map: number[] = new Array(value.length + 1);
+  let i = 0;
+  while (i < value.length) {
+    if (j >= limit) return undefined;
+    // eslint-disable-next-line security/detect-object-injection -- bounded index
+    const v = value[i];
+    // eslint-disable-next-line security/detect-object-injection -- bounded index
+    const s = source[j];
+
+    if (node.type === Scalar.QUOTE_DOUBLE && s === '\\') {
+      const next = source[j + 1];
+      if (next === '\n' || next === '\r') {
+        // Escaped line break: contributes nothing; skip it and the next line's indentation.
+        j += 2;
+        // eslint-disable-next-line security/detect-object-injection -- bounded offset scan
+        while (j < limit && isWs(source[j])) j++;
+        continue;
+      }
+      map[i++] = j;
+      j += next === 'x' ? 4 : next === 'u' ? 6 : next === 'U' ? 10 : 2;
+      continue;
+    }
+    if (node.type === Scalar.QUOTE_SINGLE && s === "'" && source[j + 1] === "'") {
+      map[i++] = j;
+      j += 2;
+      continue;
+    }
+    if (v === s || (isWs(v) && isWs(s))) {
+      // Exact match, or a folded line break / space standing in for source whitespace.
+      map[i++] = j++;
+      continue;
+    }
+    if (isWs(s)) {
+      // Whitespace the YAML value drops (indentation, trailing spaces).
+      j++;
+      continue;
+    }
+    return undefined;
+  }
+  map[value.length] = Math.min(j, limit);
+  return map;
+}
@@ -15,6 +15,7 @@
 // limitations under the License.
 
 const path = require('path');
+const webpack = require('webpack');
 
 // Configuration for the language client (VS Code extension)
 const clientConfig = {
@@ -61,6 +62,8 @@ const serverConfig = {
   },
   externals: {
     vscode: 'commonjs vscode',
+    // Optional native binding that pg only loads when asked to; never bundled.
+    'pg-native': 'commonjs pg-native',
   },
   resolve: {
     extensions: ['.ts', '.js'],
@@ -84,4 +87,39 @@ const serverConfig = {
   },
 };
 
-module.exports = [clientConfig, serverConfig];
+// Configuration for the standalone baton-sql-lint CLI
+const cliConfig = {
+  target: 'node',
+  mode: 'production',
+  entry: './src/cli/bin.ts',
+  output: {
+    path: path.resolve(__dirname, 'out', 'cli'),
+    filename: 'baton-sql-lint.js',
+    libraryTarget: 'commonjs2',
+    clean: true,
+  },
+  resolve: {
+    extensions: ['.ts', '.js'],
+  },
+  module: {
+    rules: [
+      {
+        test: /\.ts$/,
+        exclude: /node_modules/,
+        use: [
+          {
+            loader: 'ts-loader',
+          },
+        ],
+      },
+    ],
+  },
+  plugins: [
+    new webpack.BannerPlugin({ banner: '#!/usr/bin/env node', raw: true }),
+  ],
+  optimization: {
+    minimize: true,
+  },
+};
+
+module.exports = [clientConfig, serverConfig, cliConfig];